@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import type { Filter, FilterOption } from './filter';
+import {
+  parseFilterFromSearchParams,
+  serializeFilterToSearchParams,
+} from './filter-serializer';
+
+const categoryOption: FilterOption = {
+  key: 'category',
+  label: 'Category',
+  type: 'single',
+  displayType: 'text',
+  fieldName: 'data.category',
+  validValues: ['shirts', 'pants'],
+};
+
+const sizeOption: FilterOption = {
+  key: 'size',
+  label: 'Size',
+  type: 'single',
+  displayType: 'text',
+  fieldName: 'data.size',
+  validValues: [10, 12, 14],
+};
+
+const colorOption: FilterOption = {
+  key: 'color',
+  label: 'Color',
+  type: 'multi',
+  displayType: 'color',
+  fieldName: 'data.color',
+  validValues: ['red', 'blue', 'green, light'],
+};
+
+const ratingOption: FilterOption = {
+  key: 'rating',
+  label: 'Rating',
+  type: 'multi',
+  displayType: 'text',
+  fieldName: 'data.rating',
+  validValues: [1, 2, 3, 4, 5],
+};
+
+const priceOption: FilterOption = {
+  key: 'price',
+  label: 'Price',
+  type: 'range',
+  displayType: 'range',
+  fieldName: 'data.price',
+  urlParam: 'p',
+};
+
+const roundTrip = (filter: Filter, filterOptions: FilterOption[]) =>
+  parseFilterFromSearchParams(
+    serializeFilterToSearchParams(filter, filterOptions),
+    filterOptions,
+  );
+
+describe('filter serializer', () => {
+  describe('serializeFilterToSearchParams', () => {
+    it('serializes one parameter per filter option', () => {
+      const params = serializeFilterToSearchParams(
+        {
+          'data.category': 'shirts',
+          'data.color': { $in: ['red', 'green, light'] },
+          'data.price': { $gte: 10 },
+        },
+        [categoryOption, colorOption, priceOption],
+      );
+
+      expect(params.get('category')).toBe('shirts');
+      expect(params.get('color')).toBe('red,green%2C light');
+      expect(params.get('p')).toBe('10,');
+    });
+
+    it('removes the parameters of options without a value and keeps the others', () => {
+      const params = serializeFilterToSearchParams(
+        {},
+        [categoryOption, colorOption],
+        '?category=pants&page=2',
+      );
+
+      expect(params.toString()).toBe('page=2');
+    });
+  });
+
+  describe('parseFilterFromSearchParams', () => {
+    it('gives back the serialized filter', () => {
+      const filter = {
+        'data.category': 'shirts',
+        'data.color': { $in: ['red', 'green, light'] },
+        'data.price': { $gte: 10, $lte: 100 },
+      };
+
+      expect(
+        roundTrip(filter, [categoryOption, colorOption, priceOption]),
+      ).toEqual(filter);
+    });
+
+    it('keeps numeric single and multi values as numbers', () => {
+      const filter = {
+        'data.size': 12,
+        'data.rating': { $in: [4, 5] },
+      };
+
+      expect(roundTrip(filter, [sizeOption, ratingOption])).toEqual(filter);
+    });
+
+    it('maps values to the matching valid values', () => {
+      expect(
+        parseFilterFromSearchParams('?size=12.0&rating=4,5.00', [
+          sizeOption,
+          ratingOption,
+        ]),
+      ).toEqual({
+        'data.size': 12,
+        'data.rating': { $in: [4, 5] },
+      });
+    });
+
+    it('ignores values that are not valid values', () => {
+      expect(
+        parseFilterFromSearchParams('?category=hats&color=red,pink&size=', [
+          categoryOption,
+          colorOption,
+          sizeOption,
+        ]),
+      ).toEqual({ 'data.color': { $in: ['red'] } });
+    });
+
+    it('leaves a range bound that is missing or not a number open', () => {
+      expect(parseFilterFromSearchParams('?p=,100', [priceOption])).toEqual({
+        'data.price': { $lte: 100 },
+      });
+      expect(parseFilterFromSearchParams('?p=abc,100', [priceOption])).toEqual({
+        'data.price': { $lte: 100 },
+      });
+      expect(parseFilterFromSearchParams('?p=,', [priceOption])).toEqual({});
+    });
+
+    it('clears the options without a parameter and keeps the other fields of the base filter', () => {
+      expect(
+        parseFilterFromSearchParams('', [categoryOption, priceOption], {
+          'data.category': 'shirts',
+          'data.price': { $gte: 10 },
+          'data.inStock': true,
+        }),
+      ).toEqual({ 'data.inStock': true });
+    });
+  });
+});
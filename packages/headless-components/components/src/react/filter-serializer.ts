@@ -0,0 +1,296 @@
+/**
+ * @fileoverview Filter URL Serializer
+ *
+ * Converts a filter to compact URL query parameters and back, driven by the same
+ * `FilterOption[]` configuration as `Filter.Root`. Any filtered list (products, CMS collection
+ * items, services, events...) can use it to get shareable filtered URLs with the same behavior.
+ *
+ * Each filter option is serialized to one parameter, named after its `urlParam` (defaulting to its `key`):
+ *
+ * - `single` - the value, e.g. `category=shirts`
+ * - `multi` - comma separated values, e.g. `color=red,blue`
+ * - `range` - `min,max`, leaving out an open bound, e.g. `price=10,100` or `price=10,`
+ * - `date-range` - `from,to` ISO dates, leaving out an open bound, e.g. `date=2025-01-06T00:00:00.000Z,`
+ * - `boolean` - `true` while the toggle is on, e.g. `featured=true`
+ * - `search` - the search text, e.g. `title=yoga`
+ * - `hierarchical` - comma separated values, keeping selected parents only, e.g. `category=clothing,shoes`
+ *
+ * Parsing the serialized parameters gives back the same filter, with single, multi and hierarchical
+ * values mapped back to the matching option `validValues`, so numbers and booleans keep their type.
+ *
+ * @module FilterSerializer
+ */
+
+import type { Filter, FilterOption } from './filter.js';
+import {
+  booleanFilterGetUIValue,
+  booleanFilterUiValueToFilter,
+  dateRangeFilterGetUIValue,
+  dateRangeFilterUiValueToFilter,
+  hierarchicalFilterGetUIValue,
+  hierarchicalFilterUiValueToFilter,
+  multiFilterGetUIValue,
+  multiFilterUiValueToFilter,
+  rangeFilterGetBounds,
+  rangeFilterUiValueToFilter,
+  searchFilterGetUIValue,
+  searchFilterUiValueToFilter,
+  singleFilterGetUIValue,
+  singleFilterUiValueToFilter,
+} from './filter-utils.js';
+
+const LIST_SEPARATOR = ',';
+
+/**
+ * Serialize a filter into URL query parameters, one parameter per filter option.
+ * Parameters of options without a value are removed, and parameters not managed by the
+ * filter options are preserved from `currentSearch`.
+ *
+ * @param filter - The filter to serialize
+ * @param filterOptions - The filter options, as passed to Filter.Root
+ * @param currentSearch - Existing query string whose unrelated parameters should be kept
+ * @returns The serialized query parameters
+ *
+ * @example
+ * ```tsx
+ * const params = serializeFilterToSearchParams(
+ *   { 'data.category': 'shirts', 'data.price': { $gte: 10, $lte: 100 } },
+ *   filterOptions,
+ *   window.location.search,
+ * );
+ * // => category=shirts&price=10%2C100
+ * window.history.replaceState(null, '', `?${params}`);
+ * ```
+ */
+export function serializeFilterToSearchParams(
+  filter: Filter,
+  filterOptions: FilterOption[],
+  currentSearch: string | URLSearchParams = '',
+): URLSearchParams {
+  const params = new URLSearchParams(currentSearch);
+
+  filterOptions.forEach((option) => {
+    const paramName = getParamName(option);
+    const paramValue = filter ? getParamValue(filter, option) : '';
+
+    if (paramValue) {
+      params.set(paramName, paramValue);
+    } else {
+      params.delete(paramName);
+    }
+  });
+
+  return params;
+}
+
+/**
+ * Parse a filter from URL query parameters serialized by {@link serializeFilterToSearchParams}.
+ * The URL decides the value of every filter option: fields of options without a parameter are
+ * removed from `baseFilter`, other fields of `baseFilter` are kept. Single, multi and hierarchical values
+ * that aren't in the option `validValues` are ignored.
+ *
+ * @param search - The query string or parameters to parse
+ * @param filterOptions - The filter options, as passed to Filter.Root
+ * @param baseFilter - Filter to apply the parsed filter options to
+ * @returns The parsed filter
+ *
+ * @example
+ * ```tsx
+ * const [filter, setFilter] = useState(() =>
+ *   parseFilterFromSearchParams(window.location.search, filterOptions),
+ * );
+ *
+ * <Filter.Root value={filter} onChange={setFilter} filterOptions={filterOptions}>
+ *   ...
+ * </Filter.Root>
+ * ```
+ */
+export function parseFilterFromSearchParams(
+  search: string | URLSearchParams,
+  filterOptions: FilterOption[],
+  baseFilter: Filter = null,
+): Filter {
+  const params = new URLSearchParams(search);
+
+  return filterOptions.reduce<Record<string, any>>(
+    (filter, option) =>
+      applyParamValue(filter, option, params.get(getParamName(option))),
+    { ...(baseFilter || {}) },
+  );
+}
+
+/**
+ * @private
+ */
+function getParamName(option: FilterOption): string {
+  return option.urlParam || option.key;
+}
+
+/**
+ * Gets the query parameter value of a filter option, or an empty string when the option has no value.
+ *
+ * @private
+ */
+function getParamValue(
+  filter: NonNullable<Filter>,
+  option: FilterOption,
+): string {
+  switch (option.type) {
+    case 'single':
+      return singleFilterGetUIValue(filter, option);
+    case 'multi':
+      return multiFilterGetUIValue(filter, option)
+        .map(escapeListItem)
+        .join(LIST_SEPARATOR);
+    case 'hierarchical':
+      return hierarchicalFilterGetUIValue(filter, option)
+        .map(escapeListItem)
+        .join(LIST_SEPARATOR);
+    case 'range': {
+      const { min, max } = rangeFilterGetBounds(filter, option);
+      if (min === undefined && max === undefined) return '';
+      return [min ?? '', max ?? ''].join(LIST_SEPARATOR);
+    }
+    case 'date-range': {
+      const { from, to } = dateRangeFilterGetUIValue(filter, option);
+      if (!from && !to) return '';
+      return [from ?? '', to ?? ''].join(LIST_SEPARATOR);
+    }
+    case 'boolean':
+      return booleanFilterGetUIValue(filter, option) ? 'true' : '';
+    case 'search':
+      return searchFilterGetUIValue(filter, option);
+    default:
+      return '';
+  }
+}
+
+/**
+ * Applies the query parameter value of a filter option to the filter.
+ * A missing parameter clears the option.
+ *
+ * @private
+ */
+function applyParamValue(
+  filter: Record<string, any>,
+  option: FilterOption,
+  paramValue: string | null,
+): Record<string, any> {
+  switch (option.type) {
+    case 'single':
+      return singleFilterUiValueToFilter(
+        (paramValue && findValidValue(option, paramValue)) ?? '',
+        option,
+        filter,
+      );
+    case 'multi':
+      return multiFilterUiValueToFilter(
+        parseListValues(option, paramValue),
+        option,
+        filter,
+      );
+    case 'hierarchical':
+      return hierarchicalFilterUiValueToFilter(
+        parseListValues(option, paramValue),
+        option,
+        filter,
+      );
+    case 'range': {
+      const [min, max] = (paramValue || '')
+        .split(LIST_SEPARATOR)
+        .map(parseBound);
+      return rangeFilterUiValueToFilter([min, max], option, filter);
+    }
+    case 'date-range': {
+      const [from, to] = (paramValue || '')
+        .split(LIST_SEPARATOR)
+        .map(parseDate);
+      return dateRangeFilterUiValueToFilter({ from, to }, option, filter);
+    }
+    case 'boolean':
+      return booleanFilterUiValueToFilter(
+        paramValue === 'true',
+        option,
+        filter,
+      );
+    case 'search':
+      return searchFilterUiValueToFilter(paramValue || '', option, filter);
+    default:
+      return filter;
+  }
+}
+
+/**
+ * Finds the valid value a parsed value stands for, as the string the filter option components
+ * use for it. Numbers match by value, so `10.0` and `1e1` both stand for a valid value of 10.
+ * Any value is valid for options without `validValues`.
+ *
+ * @private
+ */
+function findValidValue(
+  option: FilterOption,
+  value: string,
+): string | undefined {
+  if (!option.validValues) return value;
+
+  const validValue = option.validValues.find((validValue) =>
+    typeof validValue === 'number'
+      ? value.trim() !== '' && Number(value) === validValue
+      : String(validValue) === value,
+  );
+  return validValue === undefined ? undefined : String(validValue);
+}
+
+/**
+ * Parses the valid values of a comma separated list parameter.
+ *
+ * @private
+ */
+function parseListValues(
+  option: FilterOption,
+  paramValue: string | null,
+): string[] {
+  return (paramValue ? paramValue.split(LIST_SEPARATOR) : [])
+    .map(unescapeListItem)
+    .flatMap((value) => {
+      const validValue = value ? findValidValue(option, value) : undefined;
+      return validValue === undefined ? [] : [validValue];
+    });
+}
+
+/**
+ * @private
+ */
+function parseBound(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const bound = Number(value);
+  return isNaN(bound) ? undefined : bound;
+}
+
+/**
+ * @private
+ */
+function parseDate(value: string | undefined): string | undefined {
+  return value && !isNaN(Date.parse(value)) ? value : undefined;
+}
+
+/**
+ * Escapes the list separator in multi values, so values containing commas survive the round trip.
+ *
+ * @private
+ */
+function escapeListItem(value: string): string {
+  return value.replace(/%/g, '%25').replace(/,/g, '%2C');
+}
+
+/**
+ * @private
+ */
+function unescapeListItem(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import type { FilterOption } from './filter';
+import {
+  booleanFilterGetUIValue,
+  booleanFilterUiValueToFilter,
+  collapseTreeSelection,
+  dateRangeFilterGetUIValue,
+  dateRangeFilterUiValueToFilter,
+  fromDateInputValue,
+  getActiveDateRangePreset,
+  getDateRangePresets,
+  getTreeNodes,
+  searchFilterGetUIValue,
+  searchFilterUiValueToFilter,
+  toDateInputValue,
+  toggleTreeValue,
+} from './filter-utils';
+
+const dateOption: FilterOption = {
+  key: 'date',
+  label: 'Date',
+  type: 'date-range',
+  displayType: 'date',
+  fieldName: ['startDate', 'endDate'],
+  presets: ['today', 'this-week'],
+};
+
+const featuredOption: FilterOption = {
+  key: 'featured',
+  label: 'Featured',
+  type: 'boolean',
+  displayType: 'toggle',
+  fieldName: 'featured',
+};
+
+const titleOption: FilterOption = {
+  key: 'title',
+  label: 'Title',
+  type: 'search',
+  displayType: 'search',
+  fieldName: 'title',
+};
+
+// clothing > shirts, pants; shoes
+const categoryOption: FilterOption = {
+  key: 'category',
+  label: 'Category',
+  type: 'hierarchical',
+  displayType: 'tree',
+  fieldName: 'category',
+  validValues: ['clothing', 'shirts', 'pants', 'shoes'],
+  valueParents: { shirts: 'clothing', pants: 'clothing' },
+};
+
+describe('date-range filters', () => {
+  it('should store the start with $gte and the end with $lt', () => {
+    const filter = dateRangeFilterUiValueToFilter(
+      { from: '2026-01-01T00:00:00.000Z', to: '2026-01-08T00:00:00.000Z' },
+      dateOption,
+      { title: { $contains: 'shirt' } },
+    );
+
+    expect(filter).toEqual({
+      title: { $contains: 'shirt' },
+      startDate: { $gte: '2026-01-01T00:00:00.000Z' },
+      endDate: { $lt: '2026-01-08T00:00:00.000Z' },
+    });
+    expect(dateRangeFilterGetUIValue(filter, dateOption)).toEqual({
+      from: '2026-01-01T00:00:00.000Z',
+      to: '2026-01-08T00:00:00.000Z',
+    });
+  });
+
+  it('should keep both bounds of a single date field', () => {
+    const option = { ...dateOption, fieldName: 'date' };
+
+    expect(
+      dateRangeFilterUiValueToFilter(
+        { from: '2026-01-01T00:00:00.000Z', to: '2026-01-02T00:00:00.000Z' },
+        option,
+        {},
+      ),
+    ).toEqual({
+      date: {
+        $gte: '2026-01-01T00:00:00.000Z',
+        $lt: '2026-01-02T00:00:00.000Z',
+      },
+    });
+  });
+
+  it('should remove the bounds that are cleared', () => {
+    expect(
+      dateRangeFilterUiValueToFilter({}, dateOption, {
+        startDate: { $gte: '2026-01-01T00:00:00.000Z' },
+      }),
+    ).toEqual({});
+  });
+
+  it('should find the preset of the current range', () => {
+    // Wednesday
+    const now = new Date(2026, 0, 7, 15, 30);
+    const presets = getDateRangePresets(dateOption);
+
+    expect(presets.map((preset) => preset.value)).toEqual([
+      'today',
+      'this-week',
+    ]);
+    expect(
+      getActiveDateRangePreset(
+        {
+          from: new Date(2026, 0, 5).toISOString(),
+          to: new Date(2026, 0, 12).toISOString(),
+        },
+        presets,
+        now,
+      )?.value,
+    ).toBe('this-week');
+    expect(getActiveDateRangePreset({}, presets, now)).toBeUndefined();
+  });
+
+  it('should show the exclusive end as the previous day in date inputs', () => {
+    const to = fromDateInputValue('2026-01-07', 1);
+
+    expect(to).toBe(new Date(2026, 0, 8).toISOString());
+    expect(toDateInputValue(to, -1)).toBe('2026-01-07');
+    expect(fromDateInputValue('')).toBeUndefined();
+  });
+});
+
+describe('boolean filters', () => {
+  it('should match true with $eq by default', () => {
+    const filter = booleanFilterUiValueToFilter(true, featuredOption, {});
+
+    expect(filter).toEqual({ featured: { $eq: true } });
+    expect(booleanFilterGetUIValue(filter, featuredOption)).toBe(true);
+  });
+
+  it('should match any value with the $exists operator', () => {
+    const option: FilterOption = { ...featuredOption, operator: '$exists' };
+    const filter = booleanFilterUiValueToFilter(true, option, {});
+
+    expect(filter).toEqual({ featured: { $exists: true } });
+    expect(booleanFilterGetUIValue(filter, option)).toBe(true);
+  });
+
+  it('should not filter the field once turned off', () => {
+    expect(
+      booleanFilterUiValueToFilter(false, featuredOption, {
+        featured: { $eq: true },
+      }),
+    ).toEqual({});
+  });
+});
+
+describe('search filters', () => {
+  it('should search the trimmed text with $contains by default', () => {
+    const filter = searchFilterUiValueToFilter('  shirt ', titleOption, {});
+
+    expect(filter).toEqual({ title: { $contains: 'shirt' } });
+    expect(searchFilterGetUIValue(filter, titleOption)).toBe('shirt');
+  });
+
+  it('should search with the $startsWith operator', () => {
+    expect(
+      searchFilterUiValueToFilter(
+        'sh',
+        { ...titleOption, operator: '$startsWith' },
+        {},
+      ),
+    ).toEqual({ title: { $startsWith: 'sh' } });
+  });
+
+  it('should not filter the field once the text is cleared', () => {
+    expect(
+      searchFilterUiValueToFilter(' ', titleOption, {
+        title: { $contains: 'shirt' },
+      }),
+    ).toEqual({});
+  });
+});
+
+describe('hierarchical filters', () => {
+  it('should select a parent in place of all its children', () => {
+    expect(collapseTreeSelection(['shirts', 'pants'], categoryOption)).toEqual([
+      'clothing',
+    ]);
+    expect(
+      collapseTreeSelection(['clothing', 'shirts'], categoryOption),
+    ).toEqual(['clothing']);
+  });
+
+  it('should deselect the ancestors of a deselected child', () => {
+    expect(toggleTreeValue(['clothing'], 'shirts', categoryOption)).toEqual([
+      'pants',
+    ]);
+    expect(toggleTreeValue(['pants'], 'shirts', categoryOption)).toEqual([
+      'clothing',
+    ]);
+  });
+
+  it('should mark a parent with some selected children as indeterminate', () => {
+    const [clothing, shoes] = getTreeNodes(
+      ['shirts'],
+      categoryOption,
+      (value) => value,
+    );
+
+    expect(clothing?.state).toBe('indeterminate');
+    expect(clothing?.children.map((child) => child.state)).toEqual([
+      'checked',
+      'unchecked',
+    ]);
+    expect(shoes?.state).toBe('unchecked');
+  });
+
+  it('should disable the unselected values without results', () => {
+    const [clothing, shoes] = getTreeNodes(
+      ['shirts'],
+      {
+        ...categoryOption,
+        valueCounts: { clothing: 0, shirts: 0, pants: 0, shoes: 0 },
+      },
+      (value) => value,
+    );
+
+    expect(clothing?.disabled).toBe(false);
+    expect(clothing?.children.map((child) => child.disabled)).toEqual([
+      false,
+      true,
+    ]);
+    expect(shoes).toMatchObject({ count: 0, disabled: true });
+  });
+});
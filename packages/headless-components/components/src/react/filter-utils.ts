@@ -0,0 +1,816 @@
+/**
+ * @fileoverview Filter value conversions
+ *
+ * Converts between the values the filter option components work with (a string for single and
+ * search, a string array for multi and hierarchical, [min, max] for range, { from, to } for
+ * date-range and a boolean for boolean options) and the Wix query filter format.
+ * Shared by the Filter components and the filter URL serializer, so both read and write
+ * filters the same way.
+ */
+
+import type {
+  DateRangePreset,
+  DateRangePresetName,
+  DateRangeValue,
+  FilterOption,
+  FilterValue,
+  HierarchicalFilterNode,
+} from './filter.js';
+
+/**
+ * Gets the min and max bounds of a range option from the filter.
+ * Bounds that aren't set are left undefined.
+ */
+export function rangeFilterGetBounds(
+  value: FilterValue,
+  option: FilterOption,
+): { min?: number; max?: number } {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+
+  let min: number | undefined;
+  let max: number | undefined;
+
+  if (Array.isArray(option.fieldName) && option.fieldName.length >= 2) {
+    // Two separate fields for min and max
+    const [minFieldName, maxFieldName] = option.fieldName as [string, string];
+    const minField = value[minFieldName];
+    const maxField = value[maxFieldName];
+
+    // Extract min value (typically stored as $gte)
+    if (minField && typeof minField === 'object' && '$gte' in minField) {
+      min = Number(minField.$gte);
+    } else if (typeof minField === 'number') {
+      min = minField;
+    }
+
+    // Extract max value (typically stored as $lte)
+    if (maxField && typeof maxField === 'object' && '$lte' in maxField) {
+      max = Number(maxField.$lte);
+    } else if (typeof maxField === 'number') {
+      max = maxField;
+    }
+  } else if (typeof option.fieldName === 'string') {
+    // Single field with both $gte and $lte
+    const fieldName = option.fieldName;
+    const field = value[fieldName];
+
+    if (field && typeof field === 'object') {
+      if ('$gte' in field) {
+        min = Number(field.$gte);
+      }
+      if ('$lte' in field) {
+        max = Number(field.$lte);
+      }
+    } else if (typeof field === 'number') {
+      min = max = field;
+    }
+  }
+
+  return { min, max };
+}
+
+export function rangeFilterGetUIValue(
+  value: FilterValue,
+  option: FilterOption,
+): number[] {
+  const { min, max } = rangeFilterGetBounds(value, option);
+
+  const result: number[] = [];
+  if (min !== undefined) result.push(min);
+  if (max !== undefined) result.push(max);
+
+  return result;
+}
+
+/**
+ * Sets the [min, max] range of a range option on the filter.
+ * An undefined bound leaves that side of the range open.
+ */
+export function rangeFilterUiValueToFilter(
+  uiValue: Array<number | undefined>,
+  option: FilterOption,
+  currentFilter: FilterValue,
+): any {
+  const newFilter = { ...currentFilter };
+
+  if (!option.fieldName) {
+    // If no fieldName provided, can't convert
+    return newFilter;
+  }
+
+  if (Array.isArray(uiValue) && uiValue.length >= 2) {
+    const [min, max] = uiValue;
+
+    if (Array.isArray(option.fieldName) && option.fieldName.length >= 2) {
+      // Two separate fields for min and max
+      const [minFieldName, maxFieldName] = option.fieldName as [string, string];
+
+      // Set min value with $gte operator
+      if (min !== undefined && min !== null) {
+        newFilter[minFieldName] = { $gte: min };
+      } else {
+        delete newFilter[minFieldName];
+      }
+
+      // Set max value with $lte operator
+      if (max !== undefined && max !== null) {
+        newFilter[maxFieldName] = { $lte: max };
+      } else {
+        delete newFilter[maxFieldName];
+      }
+    } else if (typeof option.fieldName === 'string') {
+      // Single field with both $gte and $lte
+      const fieldName = option.fieldName;
+      const rangeFilter: any = {};
+
+      if (min !== undefined && min !== null) {
+        rangeFilter.$gte = min;
+      }
+
+      if (max !== undefined && max !== null) {
+        rangeFilter.$lte = max;
+      }
+
+      if (Object.keys(rangeFilter).length > 0) {
+        newFilter[fieldName] = rangeFilter;
+      } else {
+        delete newFilter[fieldName];
+      }
+    }
+  } else {
+    // Clear range filter if no valid range
+    if (Array.isArray(option.fieldName) && option.fieldName.length >= 2) {
+      const [minFieldName, maxFieldName] = option.fieldName as [string, string];
+      delete newFilter[minFieldName];
+      delete newFilter[maxFieldName];
+    } else if (typeof option.fieldName === 'string') {
+      delete newFilter[option.fieldName];
+    }
+  }
+
+  return newFilter;
+}
+
+export function singleFilterGetUIValue(
+  value: FilterValue,
+  option: FilterOption,
+): string {
+  if (!value || typeof value !== 'object') {
+    return '';
+  }
+
+  const fieldName =
+    typeof option.fieldName === 'string' ? option.fieldName : option.key;
+  const field = value[fieldName];
+
+  if (field !== undefined && field !== null) {
+    return String(field);
+  }
+
+  return '';
+}
+
+export function singleFilterUiValueToFilter(
+  uiValue: string,
+  option: FilterOption,
+  currentFilter: FilterValue,
+): any {
+  const newFilter = { ...currentFilter };
+  const fieldName =
+    typeof option.fieldName === 'string' ? option.fieldName : option.key;
+
+  if (uiValue && uiValue.trim() !== '') {
+    // Find the valid value in validValues to preserve type (boolean, number, etc.)
+    const validValueOption = option.validValues?.find(
+      (v) => String(v) === uiValue,
+    );
+
+    newFilter[fieldName] =
+      validValueOption !== undefined ? validValueOption : uiValue;
+  } else {
+    delete newFilter[fieldName];
+  }
+
+  return newFilter;
+}
+
+function extractArrayFromOperators(
+  field: any,
+  preferredOperator: string,
+): string[] {
+  if (!field || typeof field !== 'object') return [];
+
+  const operators = [preferredOperator, '$in', '$hasSome'].filter(Boolean);
+  for (const op of operators) {
+    if (op in field && Array.isArray(field[op])) {
+      return field[op].map(String);
+    }
+  }
+  return [];
+}
+
+export function multiFilterGetUIValue(
+  value: FilterValue,
+  option: FilterOption,
+): string[] {
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+
+  const fieldName =
+    typeof option.fieldName === 'string' ? option.fieldName : option.key;
+  const field = value[fieldName];
+
+  // Special handling for shared fields (like product options)
+  if (
+    fieldName === 'options.choicesSettings.choices.choiceId' &&
+    option.validValues
+  ) {
+    // This is a shared field that needs filtering by validValues
+    if (
+      field &&
+      typeof field === 'object' &&
+      '$hasSome' in field &&
+      Array.isArray(field.$hasSome)
+    ) {
+      const allSelectedChoices = field.$hasSome.map(String);
+      // Filter to only include choices that belong to this specific option
+      const choicesForThisOption = Array.isArray(option.validValues)
+        ? option.validValues.map(String)
+        : [];
+      return allSelectedChoices.filter((choiceId: string) =>
+        choicesForThisOption.includes(choiceId),
+      );
+    }
+    return [];
+  }
+
+  // Standard logic for non-shared fields
+  if (Array.isArray(field)) {
+    return field.map(String);
+  } else if (field && typeof field === 'object') {
+    // Handle operators based on fieldType preference
+    const preferredOperator = option.fieldType === 'array' ? '$hasSome' : '$in';
+    const result = extractArrayFromOperators(field, preferredOperator);
+    if (result.length > 0) return result;
+  } else if (field !== undefined && field !== null) {
+    return [String(field)];
+  }
+
+  return [];
+}
+
+export function multiFilterUiValueToFilter(
+  uiValue: string[],
+  option: FilterOption,
+  currentFilter: FilterValue,
+): any {
+  const newFilter = { ...currentFilter };
+  const fieldName =
+    typeof option.fieldName === 'string' ? option.fieldName : option.key;
+
+  // Special handling for shared fields (like product options)
+  if (
+    fieldName === 'options.choicesSettings.choices.choiceId' &&
+    option.validValues
+  ) {
+    // This is a shared field that needs merging logic
+    const existingField = newFilter[fieldName];
+    let existingChoices: string[] = [];
+
+    // Extract existing choices
+    if (
+      existingField &&
+      typeof existingField === 'object' &&
+      '$hasSome' in existingField
+    ) {
+      existingChoices = Array.isArray(existingField.$hasSome)
+        ? [...existingField.$hasSome]
+        : [];
+    }
+
+    // Remove choices for this specific option (based on validValues)
+    const choicesForThisOption = Array.isArray(option.validValues)
+      ? option.validValues.map(String)
+      : [];
+    existingChoices = existingChoices.filter(
+      (choiceId: string) => !choicesForThisOption.includes(choiceId),
+    );
+
+    // Add new choices for this option
+    if (Array.isArray(uiValue) && uiValue.length > 0) {
+      existingChoices.push(...uiValue);
+    }
+
+    // Update the filter
+    if (existingChoices.length > 0) {
+      newFilter[fieldName] = { $hasSome: existingChoices };
+    } else {
+      delete newFilter[fieldName];
+    }
+  } else {
+    // Standard logic for non-shared fields
+    if (Array.isArray(uiValue) && uiValue.length > 0) {
+      // Convert to original types values (number, boolean, etc.)
+      const valuesWithTypes = uiValue.map((stringVal) => {
+        const validValueOption = option.validValues?.find(
+          (v) => String(v) === stringVal,
+        );
+        return validValueOption !== undefined ? validValueOption : stringVal;
+      });
+
+      // Use operator based on fieldType
+      if (option.fieldType === 'array') {
+        newFilter[fieldName] = { $hasSome: valuesWithTypes };
+      } else {
+        // Default to $in for 'singular' or undefined fieldType
+        newFilter[fieldName] = { $in: valuesWithTypes };
+      }
+    } else {
+      delete newFilter[fieldName];
+    }
+  }
+
+  return newFilter;
+}
+
+function getTreeValues(option: FilterOption): string[] {
+  return (option.validValues || []).map(String);
+}
+
+function getChildValuesMap(option: FilterOption): Map<string, string[]> {
+  const values = getTreeValues(option);
+  const childValuesMap = new Map<string, string[]>();
+
+  values.forEach((value) => {
+    const parentValue = option.valueParents?.[value];
+    if (parentValue !== undefined && values.includes(parentValue)) {
+      childValuesMap.set(parentValue, [
+        ...(childValuesMap.get(parentValue) || []),
+        value,
+      ]);
+    }
+  });
+
+  return childValuesMap;
+}
+
+function getDescendantValues(
+  value: string,
+  childValuesMap: Map<string, string[]>,
+  visited: Set<string> = new Set(),
+): string[] {
+  return (childValuesMap.get(value) || []).flatMap((childValue) => {
+    // Guard against cycles in valueParents
+    if (visited.has(childValue)) return [];
+    visited.add(childValue);
+    return [
+      childValue,
+      ...getDescendantValues(childValue, childValuesMap, visited),
+    ];
+  });
+}
+
+function getAncestorValues(value: string, option: FilterOption): string[] {
+  const ancestors: string[] = [];
+  let parentValue = option.valueParents?.[value];
+
+  while (parentValue !== undefined && !ancestors.includes(parentValue)) {
+    ancestors.push(parentValue);
+    parentValue = option.valueParents?.[parentValue];
+  }
+
+  return ancestors;
+}
+
+/**
+ * Expands selected tree values to all the values they match: the values and their descendants.
+ */
+function expandTreeSelection(
+  selectedValues: string[],
+  option: FilterOption,
+): Set<string> {
+  const childValuesMap = getChildValuesMap(option);
+  const expanded = new Set<string>();
+
+  selectedValues.forEach((value) => {
+    expanded.add(value);
+    getDescendantValues(value, childValuesMap).forEach((descendant) =>
+      expanded.add(descendant),
+    );
+  });
+
+  return expanded;
+}
+
+/**
+ * Collapses selected tree values to the minimal set matching the same values: parents whose
+ * children are all selected replace their children, and descendants of selected values are dropped.
+ */
+export function collapseTreeSelection(
+  selectedValues: string[],
+  option: FilterOption,
+): string[] {
+  const values = getTreeValues(option);
+  const childValuesMap = getChildValuesMap(option);
+  const expanded = expandTreeSelection(selectedValues, option);
+
+  // Select parents whose children are all selected, bottom-up
+  let changed = true;
+  while (changed) {
+    changed = false;
+    childValuesMap.forEach((childValues, parentValue) => {
+      if (
+        !expanded.has(parentValue) &&
+        childValues.every((childValue) => expanded.has(childValue))
+      ) {
+        expanded.add(parentValue);
+        changed = true;
+      }
+    });
+  }
+
+  return [
+    ...values.filter(
+      (value) =>
+        expanded.has(value) &&
+        !getAncestorValues(value, option).some((ancestor) =>
+          expanded.has(ancestor),
+        ),
+    ),
+    // Keep selected values that aren't part of the tree
+    ...selectedValues.filter((value) => !values.includes(value)),
+  ];
+}
+
+/**
+ * Selects a tree value with its descendants, or deselects it together with its descendants
+ * and ancestors when it is already selected, directly or through an ancestor.
+ */
+export function toggleTreeValue(
+  selectedValues: string[],
+  value: string,
+  option: FilterOption,
+): string[] {
+  const childValuesMap = getChildValuesMap(option);
+  const expanded = expandTreeSelection(selectedValues, option);
+  const affectedValues = [value, ...getDescendantValues(value, childValuesMap)];
+
+  if (expanded.has(value)) {
+    [...affectedValues, ...getAncestorValues(value, option)].forEach(
+      (affectedValue) => expanded.delete(affectedValue),
+    );
+  } else {
+    affectedValues.forEach((affectedValue) => expanded.add(affectedValue));
+  }
+
+  return collapseTreeSelection([...expanded], option);
+}
+
+/**
+ * Builds the tree of a hierarchical option, with the selection state of each value.
+ */
+export function getTreeNodes(
+  selectedValues: string[],
+  option: FilterOption,
+  formatLabel: (value: string) => string,
+): HierarchicalFilterNode[] {
+  const values = getTreeValues(option);
+  const childValuesMap = getChildValuesMap(option);
+  const expanded = expandTreeSelection(selectedValues, option);
+
+  const buildNode = (
+    value: string,
+    depth: number,
+    visited: Set<string>,
+  ): HierarchicalFilterNode => {
+    const children = (childValuesMap.get(value) || [])
+      .filter((childValue) => !visited.has(childValue))
+      .map((childValue) =>
+        buildNode(childValue, depth + 1, new Set([...visited, childValue])),
+      );
+    const isPartiallySelected = getDescendantValues(value, childValuesMap).some(
+      (descendant) => expanded.has(descendant),
+    );
+
+    const count = option.valueCounts?.[value];
+    const state = expanded.has(value)
+      ? 'checked'
+      : isPartiallySelected
+        ? 'indeterminate'
+        : 'unchecked';
+
+    return {
+      value,
+      label: formatLabel(value),
+      depth,
+      count,
+      // Values yielding no results are disabled, unless they are (partially) selected
+      disabled: count === 0 && state === 'unchecked',
+      state,
+      children,
+    };
+  };
+
+  return values
+    .filter((value) => {
+      const parentValue = option.valueParents?.[value];
+      return parentValue === undefined || !values.includes(parentValue);
+    })
+    .map((value) => buildNode(value, 0, new Set([value])));
+}
+
+export function hierarchicalFilterGetUIValue(
+  value: FilterValue,
+  option: FilterOption,
+): string[] {
+  return collapseTreeSelection(multiFilterGetUIValue(value, option), option);
+}
+
+export function hierarchicalFilterUiValueToFilter(
+  uiValue: string[],
+  option: FilterOption,
+  currentFilter: FilterValue,
+): any {
+  // Selected parents match their descendants, so only the minimal set is stored
+  return multiFilterUiValueToFilter(
+    collapseTreeSelection(uiValue, option),
+    option,
+    currentFilter,
+  );
+}
+
+function getDateRangeFieldNames(option: FilterOption): [string, string] {
+  if (Array.isArray(option.fieldName) && option.fieldName.length >= 2) {
+    // Two separate fields for the start and the end
+    return [option.fieldName[0]!, option.fieldName[1]!];
+  }
+
+  const fieldName =
+    typeof option.fieldName === 'string' ? option.fieldName : option.key;
+  return [fieldName, fieldName];
+}
+
+function toISODate(value: unknown): string | undefined {
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+export function dateRangeFilterGetUIValue(
+  value: FilterValue,
+  option: FilterOption,
+): DateRangeValue {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+
+  const [fromFieldName, toFieldName] = getDateRangeFieldNames(option);
+  const fromField = value[fromFieldName];
+  const toField = value[toFieldName];
+  const result: DateRangeValue = {};
+
+  // Start is inclusive ($gte), end is exclusive ($lt)
+  if (fromField && typeof fromField === 'object') {
+    const from = toISODate(fromField.$gte);
+    if (from) result.from = from;
+  }
+  if (toField && typeof toField === 'object') {
+    const to = toISODate(toField.$lt);
+    if (to) result.to = to;
+  }
+
+  return result;
+}
+
+export function dateRangeFilterUiValueToFilter(
+  uiValue: DateRangeValue,
+  option: FilterOption,
+  currentFilter: FilterValue,
+): any {
+  const newFilter = { ...currentFilter };
+  const [fromFieldName, toFieldName] = getDateRangeFieldNames(option);
+
+  delete newFilter[fromFieldName];
+  delete newFilter[toFieldName];
+
+  if (uiValue.from) {
+    newFilter[fromFieldName] = { $gte: uiValue.from };
+  }
+  if (uiValue.to) {
+    newFilter[toFieldName] = { ...newFilter[toFieldName], $lt: uiValue.to };
+  }
+
+  return newFilter;
+}
+
+/**
+ * Gets the presets of a date-range option, resolving the built-in preset names.
+ */
+export function getDateRangePresets(option: FilterOption): DateRangePreset[] {
+  return (option.presets || []).map((preset) =>
+    typeof preset === 'string' ? BUILT_IN_DATE_RANGE_PRESETS[preset] : preset,
+  );
+}
+
+/**
+ * Gets the preset whose range is the date-range value, if any.
+ */
+export function getActiveDateRangePreset(
+  uiValue: DateRangeValue,
+  presets: DateRangePreset[],
+  now: Date = new Date(),
+): DateRangePreset | undefined {
+  if (!uiValue.from && !uiValue.to) return undefined;
+
+  return presets.find((preset) => {
+    const range = preset.getRange(now);
+    return range.from === uiValue.from && range.to === uiValue.to;
+  });
+}
+
+/**
+ * Converts an ISO date to the value of a date input (YYYY-MM-DD) in local time.
+ * The exclusive end of a range is shown as the previous day with `offsetDays` = -1.
+ */
+export function toDateInputValue(isoDate?: string, offsetDays = 0): string {
+  if (!isoDate) return '';
+
+  const date = new Date(isoDate);
+  if (isNaN(date.getTime())) return '';
+
+  date.setDate(date.getDate() + offsetDays);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Converts the value of a date input (YYYY-MM-DD) to the ISO date of the start of that day in local time.
+ * The exclusive end of a range is the start of the next day with `offsetDays` = 1.
+ */
+export function fromDateInputValue(
+  inputValue: string,
+  offsetDays = 0,
+): string | undefined {
+  const [year, month, day] = inputValue.split('-').map(Number);
+  if (!year || !month || !day) return undefined;
+
+  return new Date(year, month - 1, day + offsetDays).toISOString();
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function createDayRange(from: Date, days: number): DateRangeValue {
+  return {
+    from: from.toISOString(),
+    to: addDays(from, days).toISOString(),
+  };
+}
+
+// Weeks start on Monday
+const BUILT_IN_DATE_RANGE_PRESETS: Record<
+  DateRangePresetName,
+  DateRangePreset
+> = {
+  today: {
+    value: 'today',
+    label: 'Today',
+    getRange: (now) => createDayRange(startOfDay(now), 1),
+  },
+  tomorrow: {
+    value: 'tomorrow',
+    label: 'Tomorrow',
+    getRange: (now) => createDayRange(addDays(startOfDay(now), 1), 1),
+  },
+  'this-week': {
+    value: 'this-week',
+    label: 'This week',
+    getRange: (now) =>
+      createDayRange(addDays(startOfDay(now), -((now.getDay() + 6) % 7)), 7),
+  },
+  'this-weekend': {
+    value: 'this-weekend',
+    label: 'This weekend',
+    getRange: (now) => {
+      // Saturday and Sunday of the current week
+      const daysToSaturday = 5 - ((now.getDay() + 6) % 7);
+      return daysToSaturday < 0
+        ? createDayRange(startOfDay(now), 1)
+        : createDayRange(addDays(startOfDay(now), daysToSaturday), 2);
+    },
+  },
+  'this-month': {
+    value: 'this-month',
+    label: 'This month',
+    getRange: (now) => ({
+      from: new Date(now.getFullYear(), now.getMonth(), 1).toISOString(),
+      to: new Date(now.getFullYear(), now.getMonth() + 1, 1).toISOString(),
+    }),
+  },
+  'next-7-days': {
+    value: 'next-7-days',
+    label: 'Next 7 days',
+    getRange: (now) => createDayRange(startOfDay(now), 7),
+  },
+  'next-30-days': {
+    value: 'next-30-days',
+    label: 'Next 30 days',
+    getRange: (now) => createDayRange(startOfDay(now), 30),
+  },
+};
+
+export function booleanFilterGetUIValue(
+  value: FilterValue,
+  option: FilterOption,
+): boolean {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const fieldName =
+    typeof option.fieldName === 'string' ? option.fieldName : option.key;
+  const field = value[fieldName];
+
+  if (field && typeof field === 'object') {
+    return option.operator === '$exists'
+      ? field.$exists === true
+      : field.$eq === true;
+  }
+
+  return field === true;
+}
+
+export function booleanFilterUiValueToFilter(
+  uiValue: boolean,
+  option: FilterOption,
+  currentFilter: FilterValue,
+): any {
+  const newFilter = { ...currentFilter };
+  const fieldName =
+    typeof option.fieldName === 'string' ? option.fieldName : option.key;
+
+  if (uiValue) {
+    newFilter[fieldName] =
+      option.operator === '$exists' ? { $exists: true } : { $eq: true };
+  } else {
+    // Turning the toggle off doesn't filter the field at all
+    delete newFilter[fieldName];
+  }
+
+  return newFilter;
+}
+
+export function searchFilterGetUIValue(
+  value: FilterValue,
+  option: FilterOption,
+): string {
+  if (!value || typeof value !== 'object') {
+    return '';
+  }
+
+  const fieldName =
+    typeof option.fieldName === 'string' ? option.fieldName : option.key;
+  const field = value[fieldName];
+
+  if (field && typeof field === 'object') {
+    const operators = [getSearchOperator(option), '$contains', '$startsWith'];
+    for (const op of operators) {
+      if (typeof field[op] === 'string') {
+        return field[op];
+      }
+    }
+  }
+
+  return '';
+}
+
+export function searchFilterUiValueToFilter(
+  uiValue: string,
+  option: FilterOption,
+  currentFilter: FilterValue,
+): any {
+  const newFilter = { ...currentFilter };
+  const fieldName =
+    typeof option.fieldName === 'string' ? option.fieldName : option.key;
+  const text = uiValue.trim();
+
+  if (text) {
+    newFilter[fieldName] = { [getSearchOperator(option)]: text };
+  } else {
+    delete newFilter[fieldName];
+  }
+
+  return newFilter;
+}
+
+function getSearchOperator(option: FilterOption): '$contains' | '$startsWith' {
+  return option.operator === '$startsWith' ? '$startsWith' : '$contains';
+}
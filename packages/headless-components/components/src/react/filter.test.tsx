@@ -0,0 +1,193 @@
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import '@testing-library/jest-dom';
+import * as Filter from './filter';
+import type { FilterOption, FilterValue } from './filter';
+
+const renderFilter = (
+  option: FilterOption,
+  value: FilterValue,
+  filter: React.ReactNode,
+) => {
+  const onChange = vi.fn();
+  render(
+    <Filter.Root value={value} onChange={onChange} filterOptions={[option]}>
+      <Filter.FilterOptionRepeater>{filter}</Filter.FilterOptionRepeater>
+    </Filter.Root>,
+  );
+  return onChange;
+};
+
+describe('Filter', () => {
+  describe('MultiFilter', () => {
+    const colorOption: FilterOption = {
+      key: 'color',
+      label: 'Color',
+      type: 'multi',
+      displayType: 'text',
+      fieldName: 'color',
+      validValues: ['red', 'green', 'blue'],
+      valueCounts: { red: 3, green: 0, blue: 0 },
+    };
+
+    it('should show the count of each value', () => {
+      renderFilter(colorOption, {}, <Filter.FilterOption.MultiFilter />);
+
+      expect(screen.getByLabelText('red (3)')).toHaveAttribute(
+        'data-count',
+        '3',
+      );
+      expect(screen.getByLabelText('green (0)')).toHaveAttribute(
+        'data-count',
+        '0',
+      );
+    });
+
+    it('should disable the unselected values without results', () => {
+      renderFilter(
+        colorOption,
+        { color: { $in: ['blue'] } },
+        <Filter.FilterOption.MultiFilter />,
+      );
+
+      expect(screen.getByLabelText('red (3)')).toBeEnabled();
+      expect(screen.getByLabelText('green (0)')).toBeDisabled();
+      expect(screen.getByLabelText('blue (0)')).toBeEnabled();
+    });
+
+    it('should select a value', () => {
+      const onChange = renderFilter(
+        colorOption,
+        {},
+        <Filter.FilterOption.MultiFilter />,
+      );
+
+      fireEvent.click(screen.getByLabelText('red (3)'));
+
+      expect(onChange).toHaveBeenCalledWith({ color: { $in: ['red'] } });
+    });
+  });
+
+  describe('BooleanFilter', () => {
+    const featuredOption: FilterOption = {
+      key: 'featured',
+      label: 'Featured',
+      type: 'boolean',
+      displayType: 'toggle',
+      fieldName: 'featured',
+    };
+
+    it('should turn the filter on', () => {
+      const onChange = renderFilter(
+        featuredOption,
+        {},
+        <Filter.FilterOption.BooleanFilter />,
+      );
+
+      const toggle = screen.getByRole('switch', { name: 'Featured' });
+      expect(toggle).toHaveAttribute('aria-checked', 'false');
+
+      fireEvent.click(toggle);
+
+      expect(onChange).toHaveBeenCalledWith({ featured: { $eq: true } });
+    });
+
+    it('should turn the filter off', () => {
+      const onChange = renderFilter(
+        featuredOption,
+        { featured: { $eq: true } },
+        <Filter.FilterOption.BooleanFilter />,
+      );
+
+      const toggle = screen.getByRole('switch', { name: 'Featured' });
+      expect(toggle).toHaveAttribute('aria-checked', 'true');
+
+      fireEvent.click(toggle);
+
+      expect(onChange).toHaveBeenCalledWith({});
+    });
+  });
+
+  describe('SearchFilter', () => {
+    const titleOption: FilterOption = {
+      key: 'title',
+      label: 'Title',
+      type: 'search',
+      displayType: 'search',
+      fieldName: 'title',
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should apply the text once the typing pauses', () => {
+      vi.useFakeTimers();
+      const onChange = renderFilter(
+        titleOption,
+        {},
+        <Filter.FilterOption.SearchFilter debounceMs={500} />,
+      );
+
+      const input = screen.getByLabelText('Title');
+      fireEvent.change(input, { target: { value: 'sh' } });
+      act(() => {
+        vi.advanceTimersByTime(300);
+      });
+      fireEvent.change(input, { target: { value: 'shirt ' } });
+      act(() => {
+        vi.advanceTimersByTime(300);
+      });
+      expect(onChange).not.toHaveBeenCalled();
+
+      act(() => {
+        vi.advanceTimersByTime(200);
+      });
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(onChange).toHaveBeenCalledWith({ title: { $contains: 'shirt' } });
+    });
+  });
+
+  describe('HierarchicalFilter', () => {
+    const categoryOption: FilterOption = {
+      key: 'category',
+      label: 'Category',
+      type: 'hierarchical',
+      displayType: 'tree',
+      fieldName: 'category',
+      fieldType: 'array',
+      validValues: ['clothing', 'shirts', 'pants', 'shoes'],
+      valueParents: { shirts: 'clothing', pants: 'clothing' },
+      valueCounts: { clothing: 5, shirts: 2, pants: 3, shoes: 0 },
+    };
+
+    it('should render a parent with some selected children as indeterminate', () => {
+      renderFilter(
+        categoryOption,
+        { category: { $hasSome: ['shirts'] } },
+        <Filter.FilterOption.HierarchicalFilter />,
+      );
+
+      const clothing = screen.getByRole('checkbox', { name: /clothing/ });
+      expect(clothing).toHaveAttribute('aria-checked', 'mixed');
+      expect((clothing as HTMLInputElement).indeterminate).toBe(true);
+      expect(screen.getByRole('checkbox', { name: /shirts/ })).toBeChecked();
+      expect(screen.getByRole('checkbox', { name: /shoes/ })).toBeDisabled();
+    });
+
+    it('should select the parent once all its children are selected', () => {
+      const onChange = renderFilter(
+        categoryOption,
+        { category: { $hasSome: ['shirts'] } },
+        <Filter.FilterOption.HierarchicalFilter />,
+      );
+
+      fireEvent.click(screen.getByRole('checkbox', { name: /pants/ }));
+
+      expect(onChange).toHaveBeenCalledWith({
+        category: { $hasSome: ['clothing'] },
+      });
+    });
+  });
+});
@@ -31,6 +31,9 @@
  *           <Filter.FilterOption.SingleFilter />
  *           <Filter.FilterOption.MultiFilter />
  *           <Filter.FilterOption.RangeFilter />
+ *           <Filter.FilterOption.DateRangeFilter />
+ *           <Filter.FilterOption.BooleanFilter />
+ *           <Filter.FilterOption.SearchFilter />
  *         </Filter.FilterOptionRepeater>
  *       </Filter.FilterOptions>
  *     </Filter.Root>
@@ -46,6 +49,28 @@ import { Slot } from '@radix-ui/react-slot';
 import * as Slider from '@radix-ui/react-slider';
 import * as ToggleGroup from '@radix-ui/react-toggle-group';
 import { AsChildChildren, AsChildSlot } from '@wix/headless-utils/react';
+import {
+  booleanFilterGetUIValue,
+  booleanFilterUiValueToFilter,
+  dateRangeFilterGetUIValue,
+  dateRangeFilterUiValueToFilter,
+  fromDateInputValue,
+  getActiveDateRangePreset,
+  getDateRangePresets,
+  getTreeNodes,
+  hierarchicalFilterGetUIValue,
+  hierarchicalFilterUiValueToFilter,
+  multiFilterGetUIValue,
+  multiFilterUiValueToFilter,
+  rangeFilterGetUIValue,
+  rangeFilterUiValueToFilter,
+  searchFilterGetUIValue,
+  searchFilterUiValueToFilter,
+  singleFilterGetUIValue,
+  singleFilterUiValueToFilter,
+  toDateInputValue,
+  toggleTreeValue,
+} from './filter-utils.js';
 /**
  * Props for button-like components that support the asChild pattern
  */
@@ -116,36 +141,129 @@ export interface FilterOption {
   key: string;
   /**
    * Target field name(s) in the filter object:
-   * - For single/multi: string (e.g., 'inventory.status')
+   * - For single/multi/hierarchical: string (e.g., 'inventory.status')
    * - For range: string[] with [minField, maxField] (e.g., ['price.min', 'price.max'])
+   * - For date-range: string, or string[] with [startField, endField] (e.g., ['startDate', 'endDate'])
+   * - For boolean/search: string (e.g., 'featured')
    * - If not specified, uses key as fieldName
    */
   fieldName?: string | string[];
   /**
-   * Field type determines which operators to use for multi-select filters:
+   * Field type determines which operators to use for multi-select and hierarchical filters:
    * - 'array': uses $hasSome operator (for array fields like choices)
    * - 'singular': uses $in operator (for single fields with multiple values)
    * - If not specified, defaults to 'singular'
    */
   fieldType?: 'array' | 'singular';
+  /** URL query parameter name used by the filter URL serializer - defaults to key */
+  urlParam?: string;
+  /**
+   * Operator used by boolean and search filters:
+   * - boolean: '$eq' (matches true, the default) or '$exists' (matches any value)
+   * - search: '$contains' (the default) or '$startsWith'
+   */
+  operator?: '$eq' | '$exists' | '$contains' | '$startsWith';
+  /** Presets offered by date-range filters - built-in preset names or custom presets */
+  presets?: Array<DateRangePresetName | DateRangePreset>;
   /** Current filter value */
-  value?: any; // number[] (for range) | string[] (for multi) | string (for single) | boolean
+  value?: any; // number[] (for range) | string[] (for multi) | string (for single/search) | DateRangeValue (for date-range) | boolean
   /** Function to format values for display - accepts both old (string | number) and new (with boolean) signatures for backward compatibility */
   valueFormatter?:
     | ((value: string | number) => string)
     | ((value: string | number | boolean) => string);
   /** Valid values for this filter (for validation and shared field logic) */
   validValues?: Array<string | number | boolean>;
+  /**
+   * Number of results each value would yield, keyed by the value as a string
+   * (e.g., from service aggregations). Single and multi filters disable values with a count of 0,
+   * unless they are selected. Values without a count are never disabled.
+   */
+  valueCounts?: Record<string, number>;
+  /**
+   * Parent value of each child value of hierarchical filters, keyed by the value as a string
+   * (e.g., { 'shirts': 'clothing', 'pants': 'clothing' }). Values without a parent are roots.
+   */
+  valueParents?: Record<string, string>;
   /** Filter input type */
-  type: 'single' | 'multi' | 'range';
+  type:
+    | 'single'
+    | 'multi'
+    | 'range'
+    | 'date-range'
+    | 'boolean'
+    | 'search'
+    | 'hierarchical';
   /** Display type for styling/rendering */
-  displayType: 'color' | 'text' | 'range';
+  displayType:
+    | 'color'
+    | 'text'
+    | 'range'
+    | 'date'
+    | 'toggle'
+    | 'search'
+    | 'tree';
   /** Function to format background color for color filters - accepts both old (string | number) and new (with boolean) signatures for backward compatibility */
   valueBgColorFormatter?:
     | ((value: string | number) => string | null)
     | ((value: string | number | boolean) => string | null);
 }
 
+/**
+ * Date range of a date-range filter, as ISO dates. `from` is inclusive and `to` is exclusive,
+ * matching the `$gte`/`$lt` operators they are stored with.
+ */
+export interface DateRangeValue {
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Names of the built-in date range presets
+ */
+export type DateRangePresetName =
+  | 'today'
+  | 'tomorrow'
+  | 'this-week'
+  | 'this-weekend'
+  | 'this-month'
+  | 'next-7-days'
+  | 'next-30-days';
+
+/**
+ * Date range preset offered by date-range filters, e.g. "This week"
+ */
+export interface DateRangePreset {
+  /** Unique preset identifier */
+  value: string;
+  /** Display label for the preset */
+  label: string;
+  /** Gets the date range of the preset at the given time */
+  getRange: (now: Date) => DateRangeValue;
+}
+
+/**
+ * Node of a hierarchical filter tree
+ */
+export interface HierarchicalFilterNode {
+  /** The value of the node */
+  value: string;
+  /** Display label, formatted with the option valueFormatter */
+  label: string;
+  /** Depth of the node in the tree, 0 for root values */
+  depth: number;
+  /** Number of results the value would yield, if known */
+  count?: number;
+  /** Whether the value yields no results and isn't selected */
+  disabled: boolean;
+  /**
+   * Selection state - 'checked' when the value or one of its ancestors is selected,
+   * 'indeterminate' when only some of its descendants are
+   */
+  state: 'checked' | 'indeterminate' | 'unchecked';
+  /** Child nodes */
+  children: HierarchicalFilterNode[];
+}
+
 /**
  * TestIds enum for Filter components
  */
@@ -160,6 +278,10 @@ enum TestIds {
   filterOptionSingle = 'filter-option-single',
   filterOptionMulti = 'filter-option-multi',
   filterOptionRange = 'filter-option-range',
+  filterOptionDateRange = 'filter-option-date-range',
+  filterOptionBoolean = 'filter-option-boolean',
+  filterOptionSearch = 'filter-option-search',
+  filterOptionHierarchical = 'filter-option-hierarchical',
 }
 
 // ============================================================================
@@ -216,6 +338,31 @@ function useFilterOptionContext(): FilterOptionContextValue {
 // UTILITY FUNCTIONS
 // ============================================================================
 
+/**
+ * Get the number of results a value of a filter option would yield, if known
+ */
+function getValueCount(
+  option: FilterOption,
+  value: string | number | boolean,
+): number | undefined {
+  return option.valueCounts?.[String(value)];
+}
+
+/**
+ * Check if a value of a filter option yields no results.
+ * Selected values are never disabled, so they can always be deselected.
+ */
+function isValueDisabled(
+  option: FilterOption,
+  value: string | number | boolean,
+  selectedValues: string[],
+): boolean {
+  return (
+    getValueCount(option, value) === 0 &&
+    !selectedValues.includes(String(value))
+  );
+}
+
 /**
  * Check if any filters are currently active
  */
@@ -235,7 +382,7 @@ function hasActiveFilters(
       );
     }
 
-    if (option.type === 'multi') {
+    if (option.type === 'multi' || option.type === 'hierarchical') {
       const extractedValue = multiFilterGetUIValue(filter, option);
       return Array.isArray(extractedValue) && extractedValue.length > 0;
     }
@@ -249,6 +396,19 @@ function hasActiveFilters(
       );
     }
 
+    if (option.type === 'date-range') {
+      const { from, to } = dateRangeFilterGetUIValue(filter, option);
+      return Boolean(from || to);
+    }
+
+    if (option.type === 'boolean') {
+      return booleanFilterGetUIValue(filter, option);
+    }
+
+    if (option.type === 'search') {
+      return searchFilterGetUIValue(filter, option) !== '';
+    }
+
     return false;
   });
 }
@@ -711,6 +871,8 @@ export interface SingleFilterProps
         onChange: (value: string) => void;
         validValues: FilterOption['validValues'];
         valueFormatter: FilterOption['valueFormatter'];
+        valueCounts: FilterOption['valueCounts'];
+        isValueDisabled: (value: string | number | boolean) => boolean;
       }>
     | React.ReactNode;
 }
@@ -725,6 +887,7 @@ export interface SingleFilterProps
  * - Uses Radix ToggleGroup in single mode for better UX and accessibility
  * - Displays all validValues from the option configuration
  * - Applies valueFormatter if provided for custom value display
+ * - Shows the valueCounts of the values and disables the values with a count of 0
  *
  * **Fallback Behavior:**
  * - When asChild=false and children provided: renders native select element
@@ -789,6 +952,9 @@ export const SingleFilter = React.forwardRef<HTMLElement, SingleFilterProps>(
             value: currentValue,
             validValues: option.validValues,
             valueFormatter: option.valueFormatter,
+            valueCounts: option.valueCounts,
+            isValueDisabled: (value: string | number | boolean) =>
+              isValueDisabled(option, value, [currentValue]),
             onChange: updateFilter,
           }}
           {...otherProps}
@@ -808,13 +974,22 @@ export const SingleFilter = React.forwardRef<HTMLElement, SingleFilterProps>(
         data-display-type={option.displayType}
         className={otherProps.className}
       >
-        {option.validValues?.map((value) => (
-          <ToggleGroup.Item key={String(value)} value={String(value)}>
-            {option.valueFormatter
-              ? option.valueFormatter(value as any)
-              : String(value)}
-          </ToggleGroup.Item>
-        ))}
+        {option.validValues?.map((value) => {
+          const count = getValueCount(option, value);
+          return (
+            <ToggleGroup.Item
+              key={String(value)}
+              value={String(value)}
+              disabled={isValueDisabled(option, value, [currentValue])}
+              data-count={count}
+            >
+              {option.valueFormatter
+                ? option.valueFormatter(value as any)
+                : String(value)}
+              {count !== undefined && <span data-value-count>{count}</span>}
+            </ToggleGroup.Item>
+          );
+        })}
       </ToggleGroup.Root>
     );
   },
@@ -823,7 +998,8 @@ export const SingleFilter = React.forwardRef<HTMLElement, SingleFilterProps>(
 /**
  * Props for multi filter components
  */
-export interface MultiFilterProps extends React.HTMLAttributes<HTMLElement> {
+export interface MultiFilterProps
+  extends Omit<React.HTMLAttributes<HTMLElement>, 'children'> {
   /**
    * When true, enables the asChild pattern where the component delegates
    * rendering to its child using the Slot pattern. Useful for custom styling
@@ -836,9 +1012,19 @@ export interface MultiFilterProps extends React.HTMLAttributes<HTMLElement> {
   /**
    * Custom content for the multi-filter component. When provided with asChild=false,
    * replaces the default checkbox list. When used with asChild=true,
-   * should be a single child element that will receive filter props.
+   * should be a single child element that will receive filter props,
+   * or a render function receiving the selected values and the value counts.
    */
-  children?: React.ReactNode;
+  children?:
+    | AsChildChildren<{
+        value: string[];
+        onChange: (value: string[]) => void;
+        validValues: FilterOption['validValues'];
+        valueFormatter: FilterOption['valueFormatter'];
+        valueCounts: FilterOption['valueCounts'];
+        isValueDisabled: (value: string | number | boolean) => boolean;
+      }>
+    | React.ReactNode;
 }
 
 /**
@@ -852,10 +1038,12 @@ export interface MultiFilterProps extends React.HTMLAttributes<HTMLElement> {
  * - Displays all validValues from the option configuration
  * - Applies valueFormatter if provided for custom value display
  * - Supports color swatches when displayType is 'color' with valueBgColorFormatter
+ * - Shows the valueCounts of the values and disables the values with a count of 0
  *
  * **Fallback Behavior:**
  * - When asChild=false and children provided: renders checkbox list
  * - When asChild=true: delegates to child component via Slot pattern
+ * - When asChild=true with a render function: passes the values, counts and disabled state
  *
  * **Field Type Handling:**
  * - fieldType='array': uses $hasSome operator (for array fields like product choices)
@@ -879,6 +1067,27 @@ export interface MultiFilterProps extends React.HTMLAttributes<HTMLElement> {
  * <Filter.FilterOption.MultiFilter>
  *   <div>Custom checkboxes here</div>
  * </Filter.FilterOption.MultiFilter>
+ *
+ * // Render function with facet counts
+ * <Filter.FilterOption.MultiFilter asChild>
+ *   {({ value, onChange, validValues, valueCounts, isValueDisabled }, ref) => (
+ *     <div ref={ref}>
+ *       {validValues?.map((v) => (
+ *         <label key={String(v)} data-disabled={isValueDisabled(v)}>
+ *           <input
+ *             type="checkbox"
+ *             checked={value.includes(String(v))}
+ *             disabled={isValueDisabled(v)}
+ *             onChange={(e) =>
+ *               onChange(e.target.checked ? [...value, String(v)] : value.filter((x) => x !== String(v)))
+ *             }
+ *           />
+ *           {String(v)} ({valueCounts?.[String(v)] ?? 0})
+ *         </label>
+ *       ))}
+ *     </div>
+ *   )}
+ * </Filter.FilterOption.MultiFilter>
  * ```
  */
 export const MultiFilter = React.forwardRef<HTMLElement, MultiFilterProps>(
@@ -909,9 +1118,42 @@ export const MultiFilter = React.forwardRef<HTMLElement, MultiFilterProps>(
       currentValue = multiFilterGetUIValue(filterValue, option);
     }
 
+    // Render function with the values, counts and disabled state
+    if (asChild && children && !React.isValidElement(children)) {
+      return (
+        <AsChildSlot
+          ref={ref}
+          asChild={asChild}
+          data-testid={TestIds.filterOptionMulti}
+          data-filter-type="multi"
+          data-display-type={option.displayType}
+          customElement={children}
+          customElementProps={{
+            value: currentValue,
+            validValues: option.validValues,
+            valueFormatter: option.valueFormatter,
+            valueCounts: option.valueCounts,
+            isValueDisabled: (value: string | number | boolean) =>
+              isValueDisabled(option, value, currentValue),
+            onChange: updateFilter,
+          }}
+          {...otherProps}
+        />
+      );
+    }
+
     // Use the same pattern as MediaGallery components
     const Comp = asChild ? Slot : 'div';
 
+    // Render functions are only used with asChild, above, so the content is what's left
+    const content =
+      typeof children === 'function' ||
+      (typeof children === 'object' &&
+        children !== null &&
+        'render' in children)
+        ? null
+        : children;
+
     // Default rendering - Radix ToggleGroup for better UX
     if (!asChild && !children) {
       return (
@@ -928,10 +1170,13 @@ export const MultiFilter = React.forwardRef<HTMLElement, MultiFilterProps>(
             const formattedValue = option.valueFormatter
               ? option.valueFormatter(value as any)
               : String(value);
+            const count = getValueCount(option, value);
             return (
               <ToggleGroup.Item
                 key={String(value)}
                 value={String(value)}
+                disabled={isValueDisabled(option, value, currentValue)}
+                data-count={count}
                 data-color={
                   option.displayType === 'color'
                     ? formattedValue.toLowerCase()
@@ -942,9 +1187,14 @@ export const MultiFilter = React.forwardRef<HTMLElement, MultiFilterProps>(
                     ? option.valueBgColorFormatter(value as any)!
                     : undefined,
                 }}
-                aria-label={formattedValue}
+                aria-label={
+                  count !== undefined
+                    ? `${formattedValue} (${count})`
+                    : formattedValue
+                }
               >
                 {formattedValue}
+                {count !== undefined && <span data-value-count>{count}</span>}
               </ToggleGroup.Item>
             );
           })}
@@ -961,13 +1211,14 @@ export const MultiFilter = React.forwardRef<HTMLElement, MultiFilterProps>(
         data-display-type={option.displayType}
         {...otherProps}
       >
-        {children || (
+        {content || (
           <>
             {option.validValues?.map((value) => (
               <label key={String(value)}>
                 <input
                   type="checkbox"
                   checked={currentValue.includes(String(value))}
+                  disabled={isValueDisabled(option, value, currentValue)}
                   onChange={(e) => {
                     const stringValue = String(value);
                     const newValue = e.target.checked
@@ -1009,308 +1260,6 @@ export interface RangeFilterProps extends React.HTMLAttributes<HTMLElement> {
   children?: React.ReactNode;
 }
 
-function rangeFilterGetUIValue(
-  value: FilterValue,
-  option: FilterOption,
-): number[] {
-  if (!value || typeof value !== 'object') {
-    return [];
-  }
-
-  let min: number | undefined;
-  let max: number | undefined;
-
-  if (Array.isArray(option.fieldName) && option.fieldName.length >= 2) {
-    // Two separate fields for min and max
-    const [minFieldName, maxFieldName] = option.fieldName as [string, string];
-    const minField = value[minFieldName];
-    const maxField = value[maxFieldName];
-
-    // Extract min value (typically stored as $gte)
-    if (minField && typeof minField === 'object' && '$gte' in minField) {
-      min = Number(minField.$gte);
-    } else if (typeof minField === 'number') {
-      min = minField;
-    }
-
-    // Extract max value (typically stored as $lte)
-    if (maxField && typeof maxField === 'object' && '$lte' in maxField) {
-      max = Number(maxField.$lte);
-    } else if (typeof maxField === 'number') {
-      max = maxField;
-    }
-  } else if (typeof option.fieldName === 'string') {
-    // Single field with both $gte and $lte
-    const fieldName = option.fieldName;
-    const field = value[fieldName];
-
-    if (field && typeof field === 'object') {
-      if ('$gte' in field) {
-        min = Number(field.$gte);
-      }
-      if ('$lte' in field) {
-        max = Number(field.$lte);
-      }
-    } else if (typeof field === 'number') {
-      min = max = field;
-    }
-  }
-
-  const result: number[] = [];
-  if (min !== undefined) result.push(min);
-  if (max !== undefined) result.push(max);
-
-  return result;
-}
-
-function rangeFilterUiValueToFilter(
-  uiValue: number[],
-  option: FilterOption,
-  currentFilter: FilterValue,
-): any {
-  const newFilter = { ...currentFilter };
-
-  if (!option.fieldName) {
-    // If no fieldName provided, can't convert
-    return newFilter;
-  }
-
-  if (Array.isArray(uiValue) && uiValue.length >= 2) {
-    const [min, max] = uiValue;
-
-    if (Array.isArray(option.fieldName) && option.fieldName.length >= 2) {
-      // Two separate fields for min and max
-      const [minFieldName, maxFieldName] = option.fieldName as [string, string];
-
-      // Set min value with $gte operator
-      if (min !== undefined && min !== null) {
-        newFilter[minFieldName] = { $gte: min };
-      } else {
-        delete newFilter[minFieldName];
-      }
-
-      // Set max value with $lte operator
-      if (max !== undefined && max !== null) {
-        newFilter[maxFieldName] = { $lte: max };
-      } else {
-        delete newFilter[maxFieldName];
-      }
-    } else if (typeof option.fieldName === 'string') {
-      // Single field with both $gte and $lte
-      const fieldName = option.fieldName;
-      const rangeFilter: any = {};
-
-      if (min !== undefined && min !== null) {
-        rangeFilter.$gte = min;
-      }
-
-      if (max !== undefined && max !== null) {
-        rangeFilter.$lte = max;
-      }
-
-      if (Object.keys(rangeFilter).length > 0) {
-        newFilter[fieldName] = rangeFilter;
-      } else {
-        delete newFilter[fieldName];
-      }
-    }
-  } else {
-    // Clear range filter if no valid range
-    if (Array.isArray(option.fieldName) && option.fieldName.length >= 2) {
-      const [minFieldName, maxFieldName] = option.fieldName as [string, string];
-      delete newFilter[minFieldName];
-      delete newFilter[maxFieldName];
-    } else if (typeof option.fieldName === 'string') {
-      delete newFilter[option.fieldName];
-    }
-  }
-
-  return newFilter;
-}
-
-function singleFilterGetUIValue(
-  value: FilterValue,
-  option: FilterOption,
-): string {
-  if (!value || typeof value !== 'object') {
-    return '';
-  }
-
-  const fieldName =
-    typeof option.fieldName === 'string' ? option.fieldName : option.key;
-  const field = value[fieldName];
-
-  if (field !== undefined && field !== null) {
-    return String(field);
-  }
-
-  return '';
-}
-
-function singleFilterUiValueToFilter(
-  uiValue: string,
-  option: FilterOption,
-  currentFilter: FilterValue,
-): any {
-  const newFilter = { ...currentFilter };
-  const fieldName =
-    typeof option.fieldName === 'string' ? option.fieldName : option.key;
-
-  if (uiValue && uiValue.trim() !== '') {
-    // Find the valid value in validValues to preserve type (boolean, number, etc.)
-    const validValueOption = option.validValues?.find(
-      (v) => String(v) === uiValue,
-    );
-
-    newFilter[fieldName] =
-      validValueOption !== undefined ? validValueOption : uiValue;
-  } else {
-    delete newFilter[fieldName];
-  }
-
-  return newFilter;
-}
-
-function extractArrayFromOperators(
-  field: any,
-  preferredOperator: string,
-): string[] {
-  if (!field || typeof field !== 'object') return [];
-
-  const operators = [preferredOperator, '$in', '$hasSome'].filter(Boolean);
-  for (const op of operators) {
-    if (op in field && Array.isArray(field[op])) {
-      return field[op].map(String);
-    }
-  }
-  return [];
-}
-
-function multiFilterGetUIValue(
-  value: FilterValue,
-  option: FilterOption,
-): string[] {
-  if (!value || typeof value !== 'object') {
-    return [];
-  }
-
-  const fieldName =
-    typeof option.fieldName === 'string' ? option.fieldName : option.key;
-  const field = value[fieldName];
-
-  // Special handling for shared fields (like product options)
-  if (
-    fieldName === 'options.choicesSettings.choices.choiceId' &&
-    option.validValues
-  ) {
-    // This is a shared field that needs filtering by validValues
-    if (
-      field &&
-      typeof field === 'object' &&
-      '$hasSome' in field &&
-      Array.isArray(field.$hasSome)
-    ) {
-      const allSelectedChoices = field.$hasSome.map(String);
-      // Filter to only include choices that belong to this specific option
-      const choicesForThisOption = Array.isArray(option.validValues)
-        ? option.validValues.map(String)
-        : [];
-      return allSelectedChoices.filter((choiceId: string) =>
-        choicesForThisOption.includes(choiceId),
-      );
-    }
-    return [];
-  }
-
-  // Standard logic for non-shared fields
-  if (Array.isArray(field)) {
-    return field.map(String);
-  } else if (field && typeof field === 'object') {
-    // Handle operators based on fieldType preference
-    const preferredOperator = option.fieldType === 'array' ? '$hasSome' : '$in';
-    const result = extractArrayFromOperators(field, preferredOperator);
-    if (result.length > 0) return result;
-  } else if (field !== undefined && field !== null) {
-    return [String(field)];
-  }
-
-  return [];
-}
-
-function multiFilterUiValueToFilter(
-  uiValue: string[],
-  option: FilterOption,
-  currentFilter: FilterValue,
-): any {
-  const newFilter = { ...currentFilter };
-  const fieldName =
-    typeof option.fieldName === 'string' ? option.fieldName : option.key;
-
-  // Special handling for shared fields (like product options)
-  if (
-    fieldName === 'options.choicesSettings.choices.choiceId' &&
-    option.validValues
-  ) {
-    // This is a shared field that needs merging logic
-    const existingField = newFilter[fieldName];
-    let existingChoices: string[] = [];
-
-    // Extract existing choices
-    if (
-      existingField &&
-      typeof existingField === 'object' &&
-      '$hasSome' in existingField
-    ) {
-      existingChoices = Array.isArray(existingField.$hasSome)
-        ? [...existingField.$hasSome]
-        : [];
-    }
-
-    // Remove choices for this specific option (based on validValues)
-    const choicesForThisOption = Array.isArray(option.validValues)
-      ? option.validValues.map(String)
-      : [];
-    existingChoices = existingChoices.filter(
-      (choiceId: string) => !choicesForThisOption.includes(choiceId),
-    );
-
-    // Add new choices for this option
-    if (Array.isArray(uiValue) && uiValue.length > 0) {
-      existingChoices.push(...uiValue);
-    }
-
-    // Update the filter
-    if (existingChoices.length > 0) {
-      newFilter[fieldName] = { $hasSome: existingChoices };
-    } else {
-      delete newFilter[fieldName];
-    }
-  } else {
-    // Standard logic for non-shared fields
-    if (Array.isArray(uiValue) && uiValue.length > 0) {
-      // Convert to original types values (number, boolean, etc.)
-      const valuesWithTypes = uiValue.map((stringVal) => {
-        const validValueOption = option.validValues?.find(
-          (v) => String(v) === stringVal,
-        );
-        return validValueOption !== undefined ? validValueOption : stringVal;
-      });
-
-      // Use operator based on fieldType
-      if (option.fieldType === 'array') {
-        newFilter[fieldName] = { $hasSome: valuesWithTypes };
-      } else {
-        // Default to $in for 'singular' or undefined fieldType
-        newFilter[fieldName] = { $in: valuesWithTypes };
-      }
-    } else {
-      delete newFilter[fieldName];
-    }
-  }
-
-  return newFilter;
-}
-
 /**
  * Range filter component for numeric ranges.
  *
@@ -1478,6 +1427,638 @@ export const RangeFilter = React.forwardRef<HTMLElement, RangeFilterProps>(
   },
 );
 
+/**
+ * Props for date range filter components
+ */
+export interface DateRangeFilterProps
+  extends Omit<React.HTMLAttributes<HTMLElement>, 'children'> {
+  /**
+   * When true, enables the asChild pattern where the component delegates
+   * rendering to its child using the Slot pattern.
+   *
+   * @default false
+   */
+  asChild?: boolean;
+
+  /**
+   * Custom rendering function used with asChild=true, receiving the current date range,
+   * the presets of the option and the preset matching the current date range.
+   */
+  children?:
+    | AsChildChildren<{
+        value: DateRangeValue;
+        onChange: (value: DateRangeValue) => void;
+        presets: DateRangePreset[];
+        activePreset: string | null;
+        selectPreset: (presetValue: string) => void;
+      }>
+    | React.ReactNode;
+}
+
+/**
+ * Date range filter component.
+ *
+ * Renders a filter that allows users to pick a start and an end date, or one of the presets of
+ * the option (e.g. "This week"). Only renders when the current option.type is 'date-range'.
+ *
+ * **Default Behavior:**
+ * - Renders the presets as a Radix ToggleGroup, marking the preset matching the current range
+ * - Renders native date inputs for the start and end dates, both inclusive
+ *
+ * **Field Name Handling:**
+ * - Single field: uses $gte/$lt operators (e.g., {startDate: {$gte: '2025-01-06T00:00:00.000Z', $lt: '2025-01-13T00:00:00.000Z'}})
+ * - Dual fields: separate start/end fields (e.g., {startDate: {$gte: ...}, endDate: {$lt: ...}})
+ *
+ * The end of the range is exclusive in the filter, so picking the 12th as the end date filters with `$lt` the 13th.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default rendering with presets
+ * // filterOptions: [{ key: 'date', label: 'Date', type: 'date-range', displayType: 'date',
+ * //   fieldName: 'dateAndTimeSettings.startDate', presets: ['today', 'this-week', 'this-month'] }]
+ * <Filter.FilterOption.DateRangeFilter className="flex flex-col gap-2" />
+ *
+ * // Custom rendering with asChild
+ * <Filter.FilterOption.DateRangeFilter asChild>
+ *   {React.forwardRef(({ presets, activePreset, selectPreset }, ref) => (
+ *     <div ref={ref} className="flex gap-2">
+ *       {presets.map((preset) => (
+ *         <button
+ *           key={preset.value}
+ *           data-active={preset.value === activePreset}
+ *           onClick={() => selectPreset(preset.value)}
+ *         >
+ *           {preset.label}
+ *         </button>
+ *       ))}
+ *     </div>
+ *   ))}
+ * </Filter.FilterOption.DateRangeFilter>
+ * ```
+ */
+export const DateRangeFilter = React.forwardRef<
+  HTMLElement,
+  DateRangeFilterProps
+>((props, ref) => {
+  const { asChild, children, ...otherProps } = props;
+  const { option } = useFilterOptionContext();
+  const { value: filterValue, onChange } = useFilterContext();
+
+  // Date-range-specific updateFilter function that handles its own conversion
+  const updateFilter = React.useCallback(
+    (uiValue: DateRangeValue) => {
+      const newFilter = dateRangeFilterUiValueToFilter(
+        uiValue,
+        option,
+        filterValue || {},
+      );
+      onChange(newFilter);
+    },
+    [option, filterValue, onChange],
+  );
+
+  if (option.type !== 'date-range') return null;
+
+  const currentValue: DateRangeValue = filterValue
+    ? dateRangeFilterGetUIValue(filterValue, option)
+    : {};
+  const presets = getDateRangePresets(option);
+  const activePreset =
+    getActiveDateRangePreset(currentValue, presets)?.value ?? null;
+
+  const selectPreset = (presetValue: string) => {
+    const preset = presets.find((p) => p.value === presetValue);
+    updateFilter(preset ? preset.getRange(new Date()) : {});
+  };
+
+  if (asChild) {
+    return (
+      <AsChildSlot
+        ref={ref}
+        asChild={asChild}
+        data-testid={TestIds.filterOptionDateRange}
+        data-filter-type="date-range"
+        data-display-type={option.displayType}
+        data-active-preset={activePreset ?? undefined}
+        customElement={children}
+        customElementProps={{
+          value: currentValue,
+          onChange: updateFilter,
+          presets,
+          activePreset,
+          selectPreset,
+        }}
+        {...otherProps}
+      >
+        {children}
+      </AsChildSlot>
+    );
+  }
+
+  return (
+    <div
+      ref={ref as React.Ref<HTMLDivElement>}
+      data-testid={TestIds.filterOptionDateRange}
+      data-filter-type="date-range"
+      data-display-type={option.displayType}
+      data-active-preset={activePreset ?? undefined}
+      className={otherProps.className}
+    >
+      {presets.length > 0 && (
+        <ToggleGroup.Root
+          type="single"
+          value={activePreset ?? ''}
+          onValueChange={selectPreset}
+        >
+          {presets.map((preset) => (
+            <ToggleGroup.Item key={preset.value} value={preset.value}>
+              {preset.label}
+            </ToggleGroup.Item>
+          ))}
+        </ToggleGroup.Root>
+      )}
+      <input
+        type="date"
+        data-date-range-value="from"
+        aria-label={`${option.label} start date`}
+        value={toDateInputValue(currentValue.from)}
+        max={toDateInputValue(currentValue.to, -1) || undefined}
+        onChange={(e) =>
+          updateFilter({
+            ...currentValue,
+            from: fromDateInputValue(e.target.value),
+          })
+        }
+      />
+      <input
+        type="date"
+        data-date-range-value="to"
+        aria-label={`${option.label} end date`}
+        value={toDateInputValue(currentValue.to, -1)}
+        min={toDateInputValue(currentValue.from) || undefined}
+        onChange={(e) =>
+          updateFilter({
+            ...currentValue,
+            // The end date is inclusive in the input and exclusive in the filter
+            to: fromDateInputValue(e.target.value, 1),
+          })
+        }
+      />
+    </div>
+  );
+});
+
+/**
+ * Props for boolean filter components
+ */
+export interface BooleanFilterProps
+  extends Omit<React.HTMLAttributes<HTMLElement>, 'children'> {
+  /**
+   * When true, enables the asChild pattern where the component delegates
+   * rendering to its child using the Slot pattern.
+   *
+   * @default false
+   */
+  asChild?: boolean;
+
+  /**
+   * Custom rendering function used with asChild=true, receiving whether the toggle is on.
+   */
+  children?:
+    | AsChildChildren<{
+        value: boolean;
+        onChange: (value: boolean) => void;
+      }>
+    | React.ReactNode;
+}
+
+/**
+ * Boolean toggle filter component.
+ *
+ * Renders a switch that filters the items matching the option when on, and doesn't filter
+ * the field at all when off. Only renders when the current option.type is 'boolean'.
+ *
+ * **Operator Handling:**
+ * - operator='$eq' (default): matches items where the field is true (e.g., {featured: {$eq: true}})
+ * - operator='$exists': matches items where the field has a value (e.g., {discount: {$exists: true}})
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default switch rendering, labeled with the option label
+ * <Filter.FilterOption.BooleanFilter className="data-[state=on]:bg-brand-primary" />
+ *
+ * // Custom checkbox with asChild
+ * <Filter.FilterOption.BooleanFilter asChild>
+ *   {React.forwardRef(({ value, onChange }, ref) => (
+ *     <label ref={ref}>
+ *       <input type="checkbox" checked={value} onChange={(e) => onChange(e.target.checked)} />
+ *       On sale only
+ *     </label>
+ *   ))}
+ * </Filter.FilterOption.BooleanFilter>
+ * ```
+ */
+export const BooleanFilter = React.forwardRef<HTMLElement, BooleanFilterProps>(
+  (props, ref) => {
+    const { asChild, children, ...otherProps } = props;
+    const { option } = useFilterOptionContext();
+    const { value: filterValue, onChange } = useFilterContext();
+
+    // Boolean-specific updateFilter function that handles its own conversion
+    const updateFilter = React.useCallback(
+      (uiValue: boolean) => {
+        const newFilter = booleanFilterUiValueToFilter(
+          uiValue,
+          option,
+          filterValue || {},
+        );
+        onChange(newFilter);
+      },
+      [option, filterValue, onChange],
+    );
+
+    if (option.type !== 'boolean') return null;
+
+    const currentValue = filterValue
+      ? booleanFilterGetUIValue(filterValue, option)
+      : false;
+
+    if (asChild) {
+      return (
+        <AsChildSlot
+          ref={ref}
+          asChild={asChild}
+          data-testid={TestIds.filterOptionBoolean}
+          data-filter-type="boolean"
+          data-display-type={option.displayType}
+          data-state={currentValue ? 'on' : 'off'}
+          customElement={children}
+          customElementProps={{
+            value: currentValue,
+            onChange: updateFilter,
+          }}
+          {...otherProps}
+        >
+          {children}
+        </AsChildSlot>
+      );
+    }
+
+    return (
+      <button
+        ref={ref as React.Ref<HTMLButtonElement>}
+        type="button"
+        role="switch"
+        aria-checked={currentValue}
+        onClick={() => updateFilter(!currentValue)}
+        data-testid={TestIds.filterOptionBoolean}
+        data-filter-type="boolean"
+        data-display-type={option.displayType}
+        data-state={currentValue ? 'on' : 'off'}
+        className={otherProps.className}
+      >
+        {option.valueFormatter
+          ? option.valueFormatter(currentValue as any)
+          : option.label}
+      </button>
+    );
+  },
+);
+
+/**
+ * Props for search filter components
+ */
+export interface SearchFilterProps
+  extends Omit<
+    React.InputHTMLAttributes<HTMLInputElement>,
+    'children' | 'value' | 'onChange'
+  > {
+  /**
+   * When true, enables the asChild pattern where the component delegates
+   * rendering to its child using the Slot pattern.
+   *
+   * @default false
+   */
+  asChild?: boolean;
+
+  /**
+   * Custom rendering function used with asChild=true, receiving the typed text.
+   */
+  children?: AsChildChildren<{
+    value: string;
+    onChange: (value: string) => void;
+  }>;
+
+  /**
+   * Delay in milliseconds after the user stops typing before the text is applied to the filter.
+   *
+   * @default 300
+   */
+  debounceMs?: number;
+}
+
+/**
+ * Free-text search filter component.
+ *
+ * Renders a search input that filters the items whose field matches the typed text.
+ * Only renders when the current option.type is 'search'.
+ *
+ * **Default Behavior:**
+ * - Keeps the typed text in local state and applies it to the filter after `debounceMs`
+ * - Clearing the input removes the field from the filter
+ *
+ * **Operator Handling:**
+ * - operator='$contains' (default): matches text anywhere in the field (e.g., {title: {$contains: 'yoga'}})
+ * - operator='$startsWith': matches the beginning of the field (e.g., {title: {$startsWith: 'yoga'}})
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default input rendering
+ * <Filter.FilterOption.SearchFilter placeholder="Search events..." className="form-input" />
+ *
+ * // Custom input with asChild
+ * <Filter.FilterOption.SearchFilter asChild debounceMs={500}>
+ *   {React.forwardRef(({ value, onChange }, ref) => (
+ *     <input ref={ref} value={value} onChange={(e) => onChange(e.target.value)} />
+ *   ))}
+ * </Filter.FilterOption.SearchFilter>
+ * ```
+ */
+export const SearchFilter = React.forwardRef<
+  HTMLInputElement,
+  SearchFilterProps
+>((props, ref) => {
+  const { asChild, children, debounceMs = 300, ...otherProps } = props;
+  const { option } = useFilterOptionContext();
+  const { value: filterValue, onChange } = useFilterContext();
+
+  const currentValue = filterValue
+    ? searchFilterGetUIValue(filterValue, option)
+    : '';
+
+  // Local state for typing without updating the filter on every keystroke
+  const [localValue, setLocalValue] = React.useState(currentValue);
+
+  // Update local state when external value changes
+  React.useEffect(() => {
+    setLocalValue((value) =>
+      value.trim() === currentValue ? value : currentValue,
+    );
+  }, [currentValue]);
+
+  React.useEffect(() => {
+    if (option.type !== 'search' || localValue.trim() === currentValue) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      onChange(
+        searchFilterUiValueToFilter(localValue, option, filterValue || {}),
+      );
+    }, debounceMs);
+
+    return () => clearTimeout(timeout);
+  }, [localValue, currentValue, option, filterValue, onChange, debounceMs]);
+
+  if (option.type !== 'search') return null;
+
+  if (asChild) {
+    return (
+      <AsChildSlot
+        ref={ref}
+        asChild={asChild}
+        data-testid={TestIds.filterOptionSearch}
+        data-filter-type="search"
+        data-display-type={option.displayType}
+        customElement={children}
+        customElementProps={{
+          value: localValue,
+          onChange: setLocalValue,
+        }}
+        {...otherProps}
+      >
+        {children}
+      </AsChildSlot>
+    );
+  }
+
+  return (
+    <input
+      ref={ref}
+      type="search"
+      aria-label={option.label}
+      value={localValue}
+      onChange={(e) => setLocalValue(e.target.value)}
+      data-testid={TestIds.filterOptionSearch}
+      data-filter-type="search"
+      data-display-type={option.displayType}
+      {...otherProps}
+    />
+  );
+});
+
+/**
+ * Props for hierarchical filter components
+ */
+export interface HierarchicalFilterProps
+  extends Omit<React.HTMLAttributes<HTMLElement>, 'children'> {
+  /**
+   * When true, enables the asChild pattern where the component delegates
+   * rendering to its child using the Slot pattern.
+   *
+   * @default false
+   */
+  asChild?: boolean;
+
+  /**
+   * Custom rendering function used with asChild=true, receiving the selected values
+   * and the tree of values with their selection state.
+   */
+  children?:
+    | AsChildChildren<{
+        value: string[];
+        onChange: (value: string[]) => void;
+        nodes: HierarchicalFilterNode[];
+        toggle: (value: string) => void;
+      }>
+    | React.ReactNode;
+}
+
+/**
+ * Hierarchical (tree) filter component.
+ *
+ * Renders the validValues of the option as a tree, built from the option valueParents
+ * (e.g., categories and sub-categories). Only renders when the current option.type is 'hierarchical'.
+ *
+ * **Selection Behavior:**
+ * - Selecting a parent value selects all of its descendants
+ * - A parent with some of its descendants selected is rendered as indeterminate
+ * - A parent with all of its children selected becomes selected
+ * - The filter keeps the minimal set of selected values (selected parents replace their descendants),
+ *   with the $in or $hasSome operator according to fieldType
+ *
+ * Selected parents only match the items of their descendants when the filtered field includes the
+ * ancestors of each item (e.g., all the categories an item belongs to, directly or through a sub-category).
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // filterOptions: [{ key: 'category', label: 'Category', type: 'hierarchical', displayType: 'tree',
+ * //   fieldType: 'array', validValues: ['clothing', 'shirts', 'pants'],
+ * //   valueParents: { shirts: 'clothing', pants: 'clothing' } }]
+ *
+ * // Default nested checkbox tree
+ * <Filter.FilterOption.HierarchicalFilter className="space-y-1 [&_ul]:pl-4" />
+ *
+ * // Custom rendering with asChild
+ * <Filter.FilterOption.HierarchicalFilter asChild>
+ *   {React.forwardRef(({ nodes, toggle }, ref) => (
+ *     <div ref={ref}>
+ *       {nodes.map((node) => (
+ *         <button key={node.value} data-state={node.state} onClick={() => toggle(node.value)}>
+ *           {node.label}
+ *         </button>
+ *       ))}
+ *     </div>
+ *   ))}
+ * </Filter.FilterOption.HierarchicalFilter>
+ * ```
+ */
+export const HierarchicalFilter = React.forwardRef<
+  HTMLElement,
+  HierarchicalFilterProps
+>((props, ref) => {
+  const { asChild, children, ...otherProps } = props;
+  const { option } = useFilterOptionContext();
+  const { value: filterValue, onChange } = useFilterContext();
+
+  // Hierarchical-specific updateFilter function that handles its own conversion
+  const updateFilter = React.useCallback(
+    (uiValue: string[]) => {
+      const newFilter = hierarchicalFilterUiValueToFilter(
+        uiValue,
+        option,
+        filterValue || {},
+      );
+      onChange(newFilter);
+    },
+    [option, filterValue, onChange],
+  );
+
+  if (option.type !== 'hierarchical') return null;
+
+  const currentValue = filterValue
+    ? hierarchicalFilterGetUIValue(filterValue, option)
+    : [];
+
+  const nodes = getTreeNodes(currentValue, option, (value) =>
+    option.valueFormatter ? option.valueFormatter(value as any) : value,
+  );
+
+  const toggle = (value: string) =>
+    updateFilter(toggleTreeValue(currentValue, value, option));
+
+  if (asChild) {
+    return (
+      <AsChildSlot
+        ref={ref}
+        asChild={asChild}
+        data-testid={TestIds.filterOptionHierarchical}
+        data-filter-type="hierarchical"
+        data-display-type={option.displayType}
+        customElement={children}
+        customElementProps={{
+          value: currentValue,
+          onChange: updateFilter,
+          nodes,
+          toggle,
+        }}
+        {...otherProps}
+      >
+        {children}
+      </AsChildSlot>
+    );
+  }
+
+  return (
+    <ul
+      ref={ref as React.Ref<HTMLUListElement>}
+      aria-label={option.label}
+      data-testid={TestIds.filterOptionHierarchical}
+      data-filter-type="hierarchical"
+      data-display-type={option.displayType}
+      {...otherProps}
+    >
+      {nodes.map((node) => (
+        <HierarchicalFilterItem
+          key={node.value}
+          node={node}
+          onToggle={toggle}
+        />
+      ))}
+    </ul>
+  );
+});
+
+/**
+ * Tree item of HierarchicalFilter, rendering a checkbox for the node and a nested list
+ * for its children.
+ *
+ * @private
+ */
+function HierarchicalFilterItem({
+  node,
+  onToggle,
+}: {
+  node: HierarchicalFilterNode;
+  onToggle: (value: string) => void;
+}) {
+  const checkboxRef = React.useRef<HTMLInputElement>(null);
+
+  // The indeterminate state can only be set through the DOM property
+  React.useEffect(() => {
+    if (checkboxRef.current) {
+      checkboxRef.current.indeterminate = node.state === 'indeterminate';
+    }
+  }, [node.state]);
+
+  return (
+    <li
+      data-state={node.state}
+      data-depth={node.depth}
+      data-count={node.count}
+      data-disabled={node.disabled || undefined}
+    >
+      <label>
+        <input
+          ref={checkboxRef}
+          type="checkbox"
+          checked={node.state === 'checked'}
+          aria-checked={node.state === 'indeterminate' ? 'mixed' : undefined}
+          disabled={node.disabled}
+          onChange={() => onToggle(node.value)}
+        />
+        {node.label}
+        {node.count !== undefined && <span data-value-count>{node.count}</span>}
+      </label>
+      {node.children.length > 0 && (
+        <ul role="group">
+          {node.children.map((child) => (
+            <HierarchicalFilterItem
+              key={child.value}
+              node={child}
+              onToggle={onToggle}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
 // ============================================================================
 // EXPORTS WITH NAMESPACING
 // ============================================================================
@@ -1497,6 +2078,10 @@ export const FilterOption = {
   SingleFilter,
   MultiFilter,
   RangeFilter,
+  DateRangeFilter,
+  BooleanFilter,
+  SearchFilter,
+  HierarchicalFilter,
 };
 
 // Set display names for debugging
@@ -1509,3 +2094,7 @@ FilterOptionLabel.displayName = 'Filter.FilterOption.Label';
 SingleFilter.displayName = 'Filter.FilterOption.SingleFilter';
 MultiFilter.displayName = 'Filter.FilterOption.MultiFilter';
 RangeFilter.displayName = 'Filter.FilterOption.RangeFilter';
+DateRangeFilter.displayName = 'Filter.FilterOption.DateRangeFilter';
+BooleanFilter.displayName = 'Filter.FilterOption.BooleanFilter';
+SearchFilter.displayName = 'Filter.FilterOption.SearchFilter';
+HierarchicalFilter.displayName = 'Filter.FilterOption.HierarchicalFilter';
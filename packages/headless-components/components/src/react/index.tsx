@@ -12,6 +12,12 @@ export type {
   SortOption,
   SortRootProps,
   SortOptionProps,
+  SortField,
+  SortKeyRepeaterProps,
+  SortKeyFieldProps,
+  SortKeyOrderProps,
+  SortKeyActionProps,
+  SortAddKeyProps,
   ButtonProps,
 } from './sort.js';
 
@@ -29,7 +35,19 @@ export type {
   SingleFilterProps,
   MultiFilterProps,
   RangeFilterProps,
+  DateRangeFilterProps,
+  BooleanFilterProps,
+  SearchFilterProps,
+  HierarchicalFilterProps,
+  DateRangeValue,
+  DateRangePreset,
+  DateRangePresetName,
+  HierarchicalFilterNode,
 } from './filter.js';
+export {
+  serializeFilterToSearchParams,
+  parseFilterFromSearchParams,
+} from './filter-serializer.js';
 
 // Quantity Components
 export * as Quantity from './quantity.js';
@@ -0,0 +1,353 @@
+import React, { forwardRef } from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import '@testing-library/jest-dom';
+import * as Sort from './sort';
+import type { SortOption, SortValue } from './sort';
+
+const sortOptions: SortOption[] = [
+  { fieldName: 'price', order: 'ASC', label: 'Price: Low to High' },
+  { fieldName: 'price', order: 'DESC', label: 'Price: High to Low' },
+  { fieldName: 'name', order: 'ASC', label: 'Name A-Z' },
+  {
+    entries: [
+      { fieldName: 'inStock', order: 'DESC' },
+      { fieldName: 'price', order: 'ASC' },
+    ],
+    label: 'In stock first, then cheapest',
+  },
+];
+
+const inStockFirst: SortValue = [
+  { fieldName: 'inStock', order: 'DESC' },
+  { fieldName: 'price', order: 'ASC' },
+];
+
+const selectOption = (label: string) => {
+  const select = screen.getByTestId('sort-root') as HTMLSelectElement;
+  const index = Array.from(select.options).findIndex(
+    (option) => option.textContent === label,
+  );
+  fireEvent.change(select, { target: { value: String(index) } });
+};
+
+describe('Sort', () => {
+  describe('Root', () => {
+    it('should replace the primary sort key and keep the secondary ones', () => {
+      const onChange = vi.fn();
+      render(
+        <Sort.Root
+          value={[
+            { fieldName: 'price', order: 'ASC' },
+            { fieldName: 'name', order: 'ASC' },
+          ]}
+          onChange={onChange}
+          sortOptions={sortOptions}
+        />,
+      );
+
+      selectOption('Price: High to Low');
+
+      expect(onChange).toHaveBeenCalledWith([
+        { fieldName: 'price', order: 'DESC' },
+        { fieldName: 'name', order: 'ASC' },
+      ]);
+    });
+
+    it('should drop the secondary sort key of the new primary field', () => {
+      const onChange = vi.fn();
+      render(
+        <Sort.Root
+          value={[
+            { fieldName: 'price', order: 'ASC' },
+            { fieldName: 'name', order: 'ASC' },
+          ]}
+          onChange={onChange}
+          sortOptions={sortOptions}
+        />,
+      );
+
+      selectOption('Name A-Z');
+
+      expect(onChange).toHaveBeenCalledWith([
+        { fieldName: 'name', order: 'ASC' },
+      ]);
+    });
+
+    it('should replace all the sort keys with a preset', () => {
+      const onChange = vi.fn();
+      render(
+        <Sort.Root
+          value={[{ fieldName: 'name', order: 'ASC' }]}
+          onChange={onChange}
+          sortOptions={sortOptions}
+        />,
+      );
+
+      selectOption('In stock first, then cheapest');
+
+      expect(onChange).toHaveBeenCalledWith(inStockFirst);
+    });
+
+    it('should select the preset matching all the sort keys', () => {
+      render(
+        <Sort.Root
+          value={inStockFirst}
+          onChange={vi.fn()}
+          sortOptions={sortOptions}
+        />,
+      );
+
+      const select = screen.getByTestId('sort-root') as HTMLSelectElement;
+      expect(select.selectedOptions[0]).toHaveTextContent(
+        'In stock first, then cheapest',
+      );
+    });
+
+    it('should replace the whole sort when choosing an option after a preset', () => {
+      const onChange = vi.fn();
+      render(
+        <Sort.Root
+          value={inStockFirst}
+          onChange={onChange}
+          sortOptions={sortOptions}
+        />,
+      );
+
+      selectOption('Name A-Z');
+
+      expect(onChange).toHaveBeenCalledWith([
+        { fieldName: 'name', order: 'ASC' },
+      ]);
+    });
+
+    it('should replace the whole sort after a preset nested in a custom container', () => {
+      const onChange = vi.fn();
+      render(
+        <Sort.Root value={inStockFirst} onChange={onChange} as="list" asChild>
+          <div>
+            <Sort.Option fieldName="name" order="ASC" label="Name A-Z" />
+            <Sort.Option
+              entries={inStockFirst}
+              label="In stock first, then cheapest"
+            />
+          </div>
+        </Sort.Root>,
+      );
+
+      fireEvent.click(screen.getByText('Name A-Z'));
+
+      expect(onChange).toHaveBeenCalledWith([
+        { fieldName: 'name', order: 'ASC' },
+      ]);
+    });
+
+    describe('asChild', () => {
+      it('should only pass the DOM props to a DOM element child', () => {
+        const onChange = vi.fn();
+        render(
+          <Sort.Root
+            value={[{ fieldName: 'name', order: 'ASC' }]}
+            onChange={onChange}
+            sortOptions={sortOptions}
+            className="sort-container"
+            asChild
+          >
+            <div>
+              <input aria-label="Search" />
+            </div>
+          </Sort.Root>,
+        );
+
+        const root = screen.getByTestId('sort-root');
+        expect(root.tagName).toBe('DIV');
+        expect(root).toHaveClass('sort-container');
+        expect(root).not.toHaveAttribute('options');
+        expect(root).not.toHaveAttribute('currentsort');
+
+        // Change events of the controls within don't reach the sort
+        fireEvent.change(screen.getByLabelText('Search'), {
+          target: { value: 'shirt' },
+        });
+        expect(onChange).not.toHaveBeenCalled();
+      });
+
+      it('should pass the sort props to a component child', () => {
+        const onChange = vi.fn();
+        const CustomSort = forwardRef<
+          HTMLDivElement,
+          {
+            currentSort?: { fieldName?: string; order?: string };
+            options?: Array<{ label: string; onSelect: () => void }>;
+            onChange?: (fieldName?: string, order?: string) => void;
+          }
+        >(({ currentSort, options, onChange: _onChange, ...domProps }, ref) => (
+          <div
+            ref={ref}
+            data-current-field={currentSort?.fieldName}
+            {...domProps}
+          >
+            {options?.map((option) => (
+              <button key={option.label} onClick={option.onSelect}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+        ));
+
+        render(
+          <Sort.Root
+            value={[{ fieldName: 'name', order: 'ASC' }]}
+            onChange={onChange}
+            sortOptions={sortOptions}
+            asChild
+          >
+            <CustomSort />
+          </Sort.Root>,
+        );
+
+        expect(screen.getByTestId('sort-root')).toHaveAttribute(
+          'data-current-field',
+          'name',
+        );
+
+        fireEvent.click(screen.getByText('Price: Low to High'));
+
+        expect(onChange).toHaveBeenCalledWith([
+          { fieldName: 'price', order: 'ASC' },
+        ]);
+      });
+    });
+  });
+
+  describe('Option', () => {
+    it('should mark the option matching the primary sort key as selected', () => {
+      render(
+        <Sort.Root
+          value={[
+            { fieldName: 'price', order: 'DESC' },
+            { fieldName: 'name', order: 'ASC' },
+          ]}
+          onChange={vi.fn()}
+          as="list"
+        >
+          <Sort.Option fieldName="price" order="ASC" label="Price ↑" />
+          <Sort.Option fieldName="price" order="DESC" label="Price ↓" />
+        </Sort.Root>,
+      );
+
+      const [ascending, descending] = screen.getAllByTestId('sort-option');
+      expect(ascending).toHaveAttribute('data-selected', 'false');
+      expect(descending).toHaveAttribute('data-selected', 'true');
+    });
+  });
+
+  describe('sort keys', () => {
+    const renderSortKeys = (value: SortValue, maxSortKeys?: number) => {
+      const onChange = vi.fn();
+      render(
+        <Sort.Root
+          value={value}
+          onChange={onChange}
+          sortFields={[
+            { fieldName: 'price', label: 'Price' },
+            { fieldName: 'name', label: 'Name' },
+            { fieldName: 'createdDate', label: 'Date' },
+          ]}
+          maxSortKeys={maxSortKeys}
+          asChild
+        >
+          <div>
+            <Sort.KeyRepeater>
+              <div data-testid="sort-key">
+                <Sort.Key.Field />
+                <Sort.Key.Order />
+                <Sort.Key.MoveUp />
+                <Sort.Key.MoveDown />
+                <Sort.Key.Remove />
+              </div>
+            </Sort.KeyRepeater>
+            <Sort.AddKey label="Then sort by" />
+          </div>
+        </Sort.Root>,
+      );
+      return onChange;
+    };
+
+    const twoSortKeys: SortValue = [
+      { fieldName: 'price', order: 'ASC' },
+      { fieldName: 'name', order: 'DESC' },
+    ];
+
+    it('should render each sort key in priority order', () => {
+      renderSortKeys(twoSortKeys);
+
+      expect(
+        screen.getAllByTestId('sort-key-field').map((field) => {
+          return field.getAttribute('data-field-name');
+        }),
+      ).toEqual(['price', 'name']);
+      expect(
+        screen.getAllByTestId('sort-key-order').map((order) => {
+          return order.textContent;
+        }),
+      ).toEqual(['Ascending', 'Descending']);
+    });
+
+    it('should change the field and toggle the order of a sort key', () => {
+      const onChange = renderSortKeys(twoSortKeys);
+
+      fireEvent.change(screen.getAllByTestId('sort-key-field')[1]!, {
+        target: { value: 'createdDate' },
+      });
+      expect(onChange).toHaveBeenLastCalledWith([
+        { fieldName: 'price', order: 'ASC' },
+        { fieldName: 'createdDate', order: 'DESC' },
+      ]);
+
+      fireEvent.click(screen.getAllByTestId('sort-key-order')[0]!);
+      expect(onChange).toHaveBeenLastCalledWith([
+        { fieldName: 'price', order: 'DESC' },
+        { fieldName: 'name', order: 'DESC' },
+      ]);
+    });
+
+    it('should move and remove sort keys', () => {
+      const onChange = renderSortKeys(twoSortKeys);
+
+      expect(screen.getAllByTestId('sort-key-move-up')[0]).toBeDisabled();
+      expect(screen.getAllByTestId('sort-key-move-down')[1]).toBeDisabled();
+
+      fireEvent.click(screen.getAllByTestId('sort-key-move-up')[1]!);
+      expect(onChange).toHaveBeenLastCalledWith([
+        { fieldName: 'name', order: 'DESC' },
+        { fieldName: 'price', order: 'ASC' },
+      ]);
+
+      fireEvent.click(screen.getAllByTestId('sort-key-remove')[0]!);
+      expect(onChange).toHaveBeenLastCalledWith([
+        { fieldName: 'name', order: 'DESC' },
+      ]);
+    });
+
+    it('should add a sort key for the first unsorted field', () => {
+      const onChange = renderSortKeys(twoSortKeys);
+
+      fireEvent.click(screen.getByTestId('sort-add-key'));
+
+      expect(onChange).toHaveBeenCalledWith([
+        ...twoSortKeys,
+        { fieldName: 'createdDate', order: 'ASC' },
+      ]);
+    });
+
+    it('should not add sort keys past maxSortKeys', () => {
+      const onChange = renderSortKeys(twoSortKeys, 2);
+
+      expect(screen.getByTestId('sort-add-key')).toBeDisabled();
+
+      fireEvent.click(screen.getByTestId('sort-add-key'));
+      expect(onChange).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -40,6 +40,22 @@
  *     </Sort.Root>
  *   );
  * }
+ *
+ * // Multi-key sort - add, reorder and remove sort keys
+ * function MultiKeySort({ value, onChange, sortOptions }) {
+ *   return (
+ *     <Sort.Root value={value} onChange={onChange} sortOptions={sortOptions} asChild>
+ *       <div>
+ *         <Sort.KeyRepeater>
+ *           <Sort.Key.Field />
+ *           <Sort.Key.Order />
+ *           <Sort.Key.Remove />
+ *         </Sort.KeyRepeater>
+ *         <Sort.AddKey label="Add sort key" />
+ *       </div>
+ *     </Sort.Root>
+ *   );
+ * }
  * ```
  *
  * @module Sort
@@ -62,7 +78,9 @@ export interface ButtonProps
 // ============================================================================
 
 /**
- * Wix SDK sort array format - the only sort format we support
+ * Wix SDK sort array format - the only sort format we support.
+ * Entries are sort keys in priority order: the first entry is the primary sort key,
+ * the following ones break its ties (secondary, tertiary...).
  */
 export type SortValue = Array<{
   fieldName?: string;
@@ -85,10 +103,33 @@ interface FullSortOption {
   label: string;
 }
 
+/**
+ * Preset expanding into several sort keys, e.g. "In stock first, then price ascending"
+ */
+interface PresetSortOption {
+  /** Sort keys applied by the preset, in priority order */
+  entries: SortValue;
+  label: string;
+}
+
 /**
  * Sort option configuration
  */
-export type SortOption = SortFieldOption | SortOrderOption | FullSortOption;
+export type SortOption =
+  | SortFieldOption
+  | SortOrderOption
+  | FullSortOption
+  | PresetSortOption;
+
+/**
+ * Field that sort keys can sort by
+ */
+export interface SortField {
+  /** Field name to sort by */
+  fieldName: string;
+  /** Display label */
+  label: string;
+}
 
 /**
  * Internal sort option structure with handler for rendering
@@ -98,6 +139,8 @@ interface SortOptionRenderable {
   fieldName?: string;
   /** Sort order */
   order?: 'ASC' | 'DESC';
+  /** Sort keys of preset options */
+  entries?: SortValue;
   /** Display label */
   label: string;
   /** Function to select this option */
@@ -119,6 +162,13 @@ interface SortOptionRenderableWithChildren extends SortOptionRenderable {
 enum TestIds {
   sortRoot = 'sort-root',
   sortOption = 'sort-option',
+  sortKey = 'sort-key',
+  sortKeyField = 'sort-key-field',
+  sortKeyOrder = 'sort-key-order',
+  sortKeyMoveUp = 'sort-key-move-up',
+  sortKeyMoveDown = 'sort-key-move-down',
+  sortKeyRemove = 'sort-key-remove',
+  sortAddKey = 'sort-add-key',
 }
 
 // ============================================================================
@@ -127,7 +177,17 @@ enum TestIds {
 
 interface SortContextValue {
   currentSort: { fieldName?: string; order?: string };
+  /** All the sort keys of the current sort */
+  value: SortValue;
   onChange: (value: SortValue) => void;
+  /** Fields available to sort keys */
+  fields: SortField[];
+  /** Maximum number of sort keys */
+  maxSortKeys?: number;
+  /** Whether the current sort was applied by a preset option */
+  isPresetSelected: boolean;
+  /** Registers the sort keys of a preset option rendered within. Returns a function that unregisters them */
+  registerPreset: (entries: SortValue) => () => void;
 }
 
 const SortContext = createContext<SortContextValue | null>(null);
@@ -140,6 +200,25 @@ function useSortContext(): SortContextValue {
   return context;
 }
 
+interface SortKeyContextValue {
+  /** The sort key */
+  entry: SortValue[number];
+  /** Position of the sort key, 0 for the primary sort key */
+  index: number;
+}
+
+const SortKeyContext = createContext<SortKeyContextValue | null>(null);
+
+function useSortKeyContext(): SortKeyContextValue {
+  const context = useContext(SortKeyContext);
+  if (!context) {
+    throw new Error(
+      'useSortKeyContext must be used within a Sort.KeyRepeater component',
+    );
+  }
+  return context;
+}
+
 // ============================================================================
 // COMPONENTS
 // ============================================================================
@@ -159,8 +238,16 @@ export interface SortRootProps
   as?: 'select' | 'list';
   /** Children components */
   children?: React.ReactNode;
-  /** When true, the component will not render its own element but forward its props to its child */
+  /**
+   * When true, the component will not render its own element but forward its props to its child.
+   * A DOM element child (e.g. a `div`) only gets the DOM props, while a component child also gets
+   * the `currentSort`, `options` and `onChange` sort props
+   */
   asChild?: boolean;
+  /** Fields available to sort keys (default: the fields of the sort options) */
+  sortFields?: Array<SortField>;
+  /** Maximum number of sort keys Sort.AddKey can add (default: unlimited) */
+  maxSortKeys?: number;
 }
 
 /**
@@ -177,37 +264,22 @@ const SelectRenderer = React.forwardRef<HTMLSelectElement, SelectRendererProps>(
   (props, ref) => {
     const { currentSort, options, onChange, ...otherProps } = props;
 
-    const toStringValue = (fieldName?: string, order?: string) => {
-      return `${fieldName ?? ''}-${order ?? ''}`;
-    };
-
-    const fromStringValue = (value: string) => {
-      const [fieldName, order] = value.split('-');
-      return {
-        fieldName: fieldName === '' ? undefined : fieldName,
-        order: order === '' ? undefined : order,
-      };
-    };
-
-    const currentValue = toStringValue(
-      currentSort?.fieldName,
-      currentSort?.order,
+    // Options are identified by their index, as preset options have no single field and order
+    const currentValue = String(
+      options.findIndex((option) => option === currentSort),
     );
 
     return (
       <select
         ref={ref}
         value={currentValue}
-        onChange={(e) => {
-          const { fieldName, order } = fromStringValue(e.target.value);
-          onChange(fieldName, order);
-        }}
+        onChange={(e) => options[Number(e.target.value)]?.onSelect()}
         {...otherProps}
       >
         {options.map((option, index) => (
           <option
             key={`${option?.fieldName}-${option?.order}-${index}`}
-            value={toStringValue(option?.fieldName, option?.order)}
+            value={String(index)}
           >
             {option.label}
           </option>
@@ -242,6 +314,7 @@ const ListRenderer = React.forwardRef<HTMLUListElement, ListRendererProps>(
             asChild={option.asChild}
             children={option.children}
             order={option.order!}
+            entries={option.entries}
             label={option.label}
           />
         ))}
@@ -301,9 +374,20 @@ const getCurrentSort = (
   sortArray: SortValue | undefined,
   options: Array<SortOptionRenderable>,
 ): { fieldName?: string; order?: string } => {
+  // Presets only match the exact sort keys they apply
+  const presetOption = options.find(
+    (option) => option.entries && isSameSort(option.entries, sortArray),
+  );
+  if (presetOption) {
+    return presetOption;
+  }
+
   const currentSort = sortArray?.find((sort) => sort);
 
   const mostSimillarOption = options.find((option) => {
+    if (option.entries) {
+      return false;
+    }
     if ('fieldName' in option && 'order' in option) {
       return (
         option.fieldName === currentSort?.fieldName &&
@@ -331,19 +415,26 @@ export const Root = React.forwardRef<HTMLElement, SortRootProps>(
       as = 'select',
       asChild,
       children,
+      sortFields,
+      maxSortKeys,
       ...otherProps
     } = props;
 
     const currentValue = value?.[0];
 
-    // Handle change events - create Wix SDK array format
+    // Sort keys of the preset options rendered within, including those nested in custom containers
+    const [presets, setPresets] = React.useState<SortValue[]>([]);
+    const registerPreset = React.useCallback((entries: SortValue) => {
+      setPresets((current) => [...current, entries]);
+      return () =>
+        setPresets((current) => current.filter((preset) => preset !== entries));
+    }, []);
+
+    // Handle change events - create Wix SDK array format, keeping the secondary sort keys
     const handleChange = (fieldName?: string, order?: string) => {
-      onChange([
-        {
-          fieldName: fieldName || currentValue?.fieldName,
-          order: order || currentValue?.order,
-        },
-      ]);
+      onChange(
+        replacePrimarySortKey(value, fieldName, order, isPresetSelected),
+      );
     };
 
     // Use EITHER sortOptions prop OR extract from children - not both
@@ -356,6 +447,15 @@ export const Root = React.forwardRef<HTMLElement, SortRootProps>(
         const fieldName = 'fieldName' in option ? option.fieldName : undefined;
         const order = 'order' in option ? option.order : undefined;
 
+        if ('entries' in option) {
+          return {
+            label: option.label,
+            entries: option.entries,
+            isSelected: isSameSort(option.entries, value),
+            onSelect: () => onChange(option.entries),
+          } as SortOptionRenderableWithChildren;
+        }
+
         const isSelected = isSelectedHelper(fieldName, order, currentValue);
 
         return {
@@ -375,24 +475,26 @@ export const Root = React.forwardRef<HTMLElement, SortRootProps>(
             child.type === Option ||
             (child.type &&
               typeof child.type === 'function' &&
-              child.props?.fieldName !== undefined);
+              (child.props?.fieldName !== undefined ||
+                child.props?.entries !== undefined));
 
           if (isOption) {
-            const { fieldName, order, label, asChild, children } = child.props;
-            if (fieldName && label) {
-              const isSelected = isSelectedHelper(
-                fieldName,
-                order,
-                currentValue,
-              );
+            const { fieldName, order, entries, label, asChild, children } =
+              child.props;
+            if ((fieldName || entries) && label) {
+              const isSelected = entries
+                ? isSameSort(entries, value)
+                : isSelectedHelper(fieldName, order, currentValue);
 
               completeOptions.push({
                 fieldName,
                 asChild,
                 children,
                 order,
+                entries,
                 label,
-                onSelect: () => handleChange(fieldName, order),
+                onSelect: () =>
+                  entries ? onChange(entries) : handleChange(fieldName, order),
                 isSelected,
               });
             }
@@ -401,12 +503,28 @@ export const Root = React.forwardRef<HTMLElement, SortRootProps>(
       });
     }
 
+    const isPresetSelected =
+      completeOptions.some((option) => option.entries && option.isSelected) ||
+      presets.some((entries) => isSameSort(entries, value));
+
+    // A preset matching all the sort keys takes precedence over the options matching the primary one
+    if (isPresetSelected) {
+      completeOptions = completeOptions.map((option) =>
+        option.entries ? option : { ...option, isSelected: false },
+      );
+    }
+
     // Get current sort from sortOptions directly
     const currentSortOption = getCurrentSort(value, completeOptions);
 
     const contextValue: SortContextValue = {
       currentSort: currentSortOption,
+      value: value || [],
       onChange,
+      fields: sortFields || getSortFields(completeOptions),
+      maxSortKeys,
+      isPresetSelected,
+      registerPreset,
     };
 
     // Determine the component to render
@@ -420,10 +538,14 @@ export const Root = React.forwardRef<HTMLElement, SortRootProps>(
     };
 
     if (asChild) {
+      // DOM containers only get the DOM props: the sort props aren't valid DOM attributes, and
+      // change events bubbling from the sort controls within would reach the onChange sort prop
+      const isDomElement =
+        React.isValidElement(children) && typeof children.type === 'string';
       Comp = Slot;
       compProps = {
         ref,
-        ...commonProps,
+        ...(isDomElement ? { 'data-testid': TestIds.sortRoot } : commonProps),
         ...otherProps,
       };
     } else if (as === 'select') {
@@ -456,9 +578,11 @@ export const Root = React.forwardRef<HTMLElement, SortRootProps>(
  */
 export interface SortOptionProps {
   /** Field name to sort by (optional if only setting order) */
-  fieldName: string;
+  fieldName?: string;
   /** Sort order (optional if only setting field) */
-  order: 'ASC' | 'DESC';
+  order?: 'ASC' | 'DESC';
+  /** Sort keys applied by a preset option, replacing all the current sort keys */
+  entries?: SortValue;
   /** Display label */
   label: string;
   /** When true, the component will not render its own element but forward its props to its child */
@@ -471,7 +595,8 @@ export interface SortOptionProps {
 
 /**
  * Option component that represents a single sort option.
- * Can be used to set field name, order, or both.
+ * Can be used to set field name, order, or both, replacing the primary sort key
+ * and keeping the secondary ones. Preset options set all the sort keys at once.
  *
  * @component
  * @example
@@ -485,6 +610,15 @@ export interface SortOptionProps {
  * // Set only order (keeps current field)
  * <Sort.Option order="desc" label="Descending" />
  *
+ * // Preset setting several sort keys
+ * <Sort.Option
+ *   entries={[
+ *     { fieldName: 'inStock', order: 'DESC' },
+ *     { fieldName: 'price', order: 'ASC' },
+ *   ]}
+ *   label="In stock first, then cheapest"
+ * />
+ *
  * // Custom rendering with asChild
  * <Sort.Option fieldName="price" order="asc" label="Price" asChild>
  *   {({ isSelected, onSelect, label }) => (
@@ -503,21 +637,33 @@ export const Option = React.forwardRef<HTMLElement, SortOptionProps>(
     const {
       fieldName,
       order,
+      entries,
       label,
       asChild,
       children,
       className,
       ...otherProps
     } = props;
-    const { currentSort, onChange } = useSortContext();
+    const { currentSort, value, onChange, isPresetSelected, registerPreset } =
+      useSortContext();
+
+    // Presets are compared by their sort keys, as inline entries change identity on each render
+    const entriesKey = entries && JSON.stringify(entries);
+    React.useEffect(() => {
+      if (!entriesKey) return;
+      return registerPreset(JSON.parse(entriesKey));
+    }, [entriesKey, registerPreset]);
 
     const handleSelect = () => {
-      const targetFieldName = fieldName || currentSort.fieldName;
-      const targetOrder = order || currentSort.order;
-      onChange([{ fieldName: targetFieldName, order: targetOrder }]);
+      onChange(
+        entries ||
+          replacePrimarySortKey(value, fieldName, order, isPresetSelected),
+      );
     };
 
-    const isSelected = isSelectedHelper(fieldName, order, currentSort);
+    const isSelected = entries
+      ? isSameSort(entries, value)
+      : isSelectedHelper(fieldName, order, currentSort ?? value[0]);
 
     const attributes = {
       'data-testid': TestIds.sortOption,
@@ -541,6 +687,7 @@ export const Option = React.forwardRef<HTMLElement, SortOptionProps>(
           label,
           fieldName,
           order,
+          entries,
         }}
       >
         <li>
@@ -553,13 +700,474 @@ export const Option = React.forwardRef<HTMLElement, SortOptionProps>(
   },
 );
 
+/**
+ * Props for the KeyRepeater component
+ */
+export interface SortKeyRepeaterProps {
+  /** Template rendered for each sort key, with access to it through the Sort.Key components */
+  children: React.ReactNode;
+}
+
+/**
+ * Repeater component that renders its children for each sort key of the current sort,
+ * from the primary sort key to the last one. Must be used within Sort.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Sort.KeyRepeater>
+ *   <div className="flex gap-2">
+ *     <Sort.Key.Field className="form-select" />
+ *     <Sort.Key.Order />
+ *     <Sort.Key.MoveUp label="↑" />
+ *     <Sort.Key.MoveDown label="↓" />
+ *     <Sort.Key.Remove label="✕" />
+ *   </div>
+ * </Sort.KeyRepeater>
+ * ```
+ */
+export const KeyRepeater = ({ children }: SortKeyRepeaterProps) => {
+  const { value } = useSortContext();
+
+  return (
+    <>
+      {value.map((entry, index) => (
+        <SortKeyContext.Provider
+          key={entry.fieldName ?? index}
+          value={{ entry, index }}
+        >
+          {children}
+        </SortKeyContext.Provider>
+      ))}
+    </>
+  );
+};
+
+/**
+ * Props for the Key.Field component
+ */
+export interface SortKeyFieldProps
+  extends Omit<React.SelectHTMLAttributes<HTMLSelectElement>, 'children'> {
+  /** When true, the component will not render its own element but forward its props to its child */
+  asChild?: boolean;
+  /** Custom rendering function when using asChild */
+  children?: AsChildChildren<{
+    fieldName?: string;
+    fields: SortField[];
+    setField: (fieldName: string) => void;
+  }>;
+}
+
+/**
+ * Select of the field sorted by the current sort key. Only offers the fields that aren't
+ * sorted by other sort keys. Must be used within Sort.KeyRepeater.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Sort.Key.Field className="form-select" />
+ *
+ * // Custom rendering with asChild
+ * <Sort.Key.Field asChild>
+ *   {React.forwardRef(({ fieldName, fields, setField }, ref) => (
+ *     <div ref={ref}>
+ *       {fields.map((field) => (
+ *         <button
+ *           key={field.fieldName}
+ *           data-selected={field.fieldName === fieldName}
+ *           onClick={() => setField(field.fieldName)}
+ *         >
+ *           {field.label}
+ *         </button>
+ *       ))}
+ *     </div>
+ *   ))}
+ * </Sort.Key.Field>
+ * ```
+ */
+export const KeyField = React.forwardRef<HTMLElement, SortKeyFieldProps>(
+  (props, ref) => {
+    const { asChild, children, ...otherProps } = props;
+    const { value, onChange, fields } = useSortContext();
+    const { entry, index } = useSortKeyContext();
+
+    const availableFields = fields.filter(
+      (field) =>
+        field.fieldName === entry.fieldName ||
+        !value.some((sortKey) => sortKey.fieldName === field.fieldName),
+    );
+
+    // Keep the current field selectable even if it isn't one of the fields
+    if (
+      entry.fieldName &&
+      !availableFields.some((field) => field.fieldName === entry.fieldName)
+    ) {
+      availableFields.unshift({
+        fieldName: entry.fieldName,
+        label: entry.fieldName,
+      });
+    }
+
+    const setField = (fieldName: string) => {
+      onChange(
+        value.map((sortKey, sortKeyIndex) =>
+          sortKeyIndex === index ? { ...sortKey, fieldName } : sortKey,
+        ),
+      );
+    };
+
+    if (asChild) {
+      return (
+        <AsChildSlot
+          ref={ref}
+          asChild={asChild}
+          data-testid={TestIds.sortKeyField}
+          data-field-name={entry.fieldName}
+          customElement={children}
+          customElementProps={{
+            fieldName: entry.fieldName,
+            fields: availableFields,
+            setField,
+          }}
+          {...otherProps}
+        />
+      );
+    }
+
+    return (
+      <select
+        ref={ref as React.Ref<HTMLSelectElement>}
+        value={entry.fieldName ?? ''}
+        onChange={(e) => setField(e.target.value)}
+        data-testid={TestIds.sortKeyField}
+        data-field-name={entry.fieldName}
+        {...otherProps}
+      >
+        {availableFields.map((field) => (
+          <option key={field.fieldName} value={field.fieldName}>
+            {field.label}
+          </option>
+        ))}
+      </select>
+    );
+  },
+);
+
+/**
+ * Props for the Key.Order component
+ */
+export interface SortKeyOrderProps extends Omit<ButtonProps, 'children'> {
+  /** Label of the button while the order is ascending (default: 'Ascending') */
+  ascendingLabel?: string;
+  /** Label of the button while the order is descending (default: 'Descending') */
+  descendingLabel?: string;
+  /** Custom rendering function when using asChild */
+  children?: AsChildChildren<{
+    order: 'ASC' | 'DESC';
+    setOrder: (order: 'ASC' | 'DESC') => void;
+    toggleOrder: () => void;
+  }>;
+}
+
+/**
+ * Button toggling the order of the current sort key between ascending and descending.
+ * Must be used within Sort.KeyRepeater.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Sort.Key.Order ascendingLabel="↑" descendingLabel="↓" />
+ * ```
+ */
+export const KeyOrder = React.forwardRef<HTMLButtonElement, SortKeyOrderProps>(
+  (props, ref) => {
+    const {
+      asChild,
+      children,
+      ascendingLabel = 'Ascending',
+      descendingLabel = 'Descending',
+      ...otherProps
+    } = props;
+    const { value, onChange } = useSortContext();
+    const { entry, index } = useSortKeyContext();
+
+    const order = entry.order === 'DESC' ? 'DESC' : 'ASC';
+    const label = order === 'ASC' ? ascendingLabel : descendingLabel;
+
+    const setOrder = (newOrder: 'ASC' | 'DESC') => {
+      onChange(
+        value.map((sortKey, sortKeyIndex) =>
+          sortKeyIndex === index ? { ...sortKey, order: newOrder } : sortKey,
+        ),
+      );
+    };
+
+    const toggleOrder = () => setOrder(order === 'ASC' ? 'DESC' : 'ASC');
+
+    return (
+      <AsChildSlot
+        ref={ref}
+        asChild={asChild}
+        onClick={toggleOrder}
+        data-testid={TestIds.sortKeyOrder}
+        data-order={order}
+        customElement={children}
+        customElementProps={{ order, setOrder, toggleOrder }}
+        content={label}
+        {...otherProps}
+      >
+        <button type="button">{label}</button>
+      </AsChildSlot>
+    );
+  },
+);
+
+/**
+ * Props for the Key.MoveUp, Key.MoveDown and Key.Remove components
+ */
+export interface SortKeyActionProps extends Omit<ButtonProps, 'children'> {
+  /** Label for the button */
+  label?: string;
+  /** Custom rendering function when using asChild */
+  children?: AsChildChildren<{ disabled: boolean; onClick: () => void }>;
+}
+
+/**
+ * Button raising the priority of the current sort key, swapping it with the previous one.
+ * Disabled for the primary sort key. Must be used within Sort.KeyRepeater.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Sort.Key.MoveUp label="Move up" />
+ * ```
+ */
+export const KeyMoveUp = React.forwardRef<
+  HTMLButtonElement,
+  SortKeyActionProps
+>((props, ref) => {
+  const { value, onChange } = useSortContext();
+  const { index } = useSortKeyContext();
+
+  return (
+    <SortKeyAction
+      {...props}
+      ref={ref}
+      testId={TestIds.sortKeyMoveUp}
+      defaultLabel="Move up"
+      disabled={index === 0}
+      onAction={() => onChange(moveSortKey(value, index, index - 1))}
+    />
+  );
+});
+
+/**
+ * Button lowering the priority of the current sort key, swapping it with the next one.
+ * Disabled for the last sort key. Must be used within Sort.KeyRepeater.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Sort.Key.MoveDown label="Move down" />
+ * ```
+ */
+export const KeyMoveDown = React.forwardRef<
+  HTMLButtonElement,
+  SortKeyActionProps
+>((props, ref) => {
+  const { value, onChange } = useSortContext();
+  const { index } = useSortKeyContext();
+
+  return (
+    <SortKeyAction
+      {...props}
+      ref={ref}
+      testId={TestIds.sortKeyMoveDown}
+      defaultLabel="Move down"
+      disabled={index === value.length - 1}
+      onAction={() => onChange(moveSortKey(value, index, index + 1))}
+    />
+  );
+});
+
+/**
+ * Button removing the current sort key. Must be used within Sort.KeyRepeater.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Sort.Key.Remove label="✕" />
+ * ```
+ */
+export const KeyRemove = React.forwardRef<
+  HTMLButtonElement,
+  SortKeyActionProps
+>((props, ref) => {
+  const { value, onChange } = useSortContext();
+  const { index } = useSortKeyContext();
+
+  return (
+    <SortKeyAction
+      {...props}
+      ref={ref}
+      testId={TestIds.sortKeyRemove}
+      defaultLabel="Remove"
+      disabled={false}
+      onAction={() =>
+        onChange(value.filter((_, sortKeyIndex) => sortKeyIndex !== index))
+      }
+    />
+  );
+});
+
+/**
+ * Button of the sort key actions
+ *
+ * @private
+ */
+const SortKeyAction = React.forwardRef<
+  HTMLButtonElement,
+  SortKeyActionProps & {
+    testId: TestIds;
+    defaultLabel: string;
+    disabled: boolean;
+    onAction: () => void;
+  }
+>((props, ref) => {
+  const {
+    asChild,
+    children,
+    label,
+    testId,
+    defaultLabel,
+    disabled,
+    onAction,
+    ...otherProps
+  } = props;
+  const buttonLabel = label || defaultLabel;
+
+  return (
+    <AsChildSlot
+      ref={ref}
+      asChild={asChild}
+      onClick={onAction}
+      disabled={disabled}
+      data-testid={testId}
+      customElement={children}
+      customElementProps={{ disabled, onClick: onAction }}
+      content={buttonLabel}
+      {...otherProps}
+    >
+      <button type="button" disabled={disabled}>
+        {buttonLabel}
+      </button>
+    </AsChildSlot>
+  );
+});
+
+/**
+ * Props for the AddKey component
+ */
+export interface SortAddKeyProps extends Omit<ButtonProps, 'children'> {
+  /** Field of the added sort key (default: the first field not sorted by yet) */
+  fieldName?: string;
+  /** Order of the added sort key (default: 'ASC') */
+  order?: 'ASC' | 'DESC';
+  /** Label for the button */
+  label?: string;
+  /** Custom rendering function when using asChild */
+  children?: AsChildChildren<{ canAddKey: boolean; addKey: () => void }>;
+}
+
+/**
+ * Button adding a sort key after the existing ones, e.g. a secondary sort key breaking the ties
+ * of the primary one. Disabled when all the fields are sorted by or when the Sort.Root
+ * maxSortKeys is reached. Must be used within Sort.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Sort.AddKey label="Then sort by..." />
+ *
+ * // Add a specific sort key
+ * <Sort.AddKey fieldName="createdDate" order="DESC" label="Newest first" />
+ * ```
+ */
+export const AddKey = React.forwardRef<HTMLButtonElement, SortAddKeyProps>(
+  (props, ref) => {
+    const {
+      asChild,
+      children,
+      fieldName,
+      order = 'ASC',
+      label,
+      ...otherProps
+    } = props;
+    const { value, onChange, fields, maxSortKeys } = useSortContext();
+    const buttonLabel = label || 'Add sort';
+
+    const isSorted = (field: string) =>
+      value.some((sortKey) => sortKey.fieldName === field);
+    const targetFieldName =
+      fieldName ??
+      fields.find((field) => !isSorted(field.fieldName))?.fieldName;
+
+    const canAddKey =
+      !!targetFieldName &&
+      !isSorted(targetFieldName) &&
+      (maxSortKeys === undefined || value.length < maxSortKeys);
+
+    const addKey = () => {
+      if (canAddKey) {
+        onChange([...value, { fieldName: targetFieldName, order }]);
+      }
+    };
+
+    return (
+      <AsChildSlot
+        ref={ref}
+        asChild={asChild}
+        onClick={addKey}
+        disabled={!canAddKey}
+        data-testid={TestIds.sortAddKey}
+        customElement={children}
+        customElementProps={{ canAddKey, addKey }}
+        content={buttonLabel}
+        {...otherProps}
+      >
+        <button type="button" disabled={!canAddKey}>
+          {buttonLabel}
+        </button>
+      </AsChildSlot>
+    );
+  },
+);
+
 // ============================================================================
 // EXPORTS WITH NAMESPACING
 // ============================================================================
 
+/**
+ * Sort key components namespace, used within Sort.KeyRepeater
+ */
+export const Key = {
+  Field: KeyField,
+  Order: KeyOrder,
+  MoveUp: KeyMoveUp,
+  MoveDown: KeyMoveDown,
+  Remove: KeyRemove,
+};
+
 // Set display names for debugging
 Root.displayName = 'Sort.Root';
 Option.displayName = 'Sort.Option';
+KeyRepeater.displayName = 'Sort.KeyRepeater';
+KeyField.displayName = 'Sort.Key.Field';
+KeyOrder.displayName = 'Sort.Key.Order';
+KeyMoveUp.displayName = 'Sort.Key.MoveUp';
+KeyMoveDown.displayName = 'Sort.Key.MoveDown';
+KeyRemove.displayName = 'Sort.Key.Remove';
+AddKey.displayName = 'Sort.AddKey';
 
 function isSelectedHelper(
   fieldName?: string,
@@ -571,3 +1179,77 @@ function isSelectedHelper(
     (!order || currentValue?.order === order)
   );
 }
+
+/**
+ * Replaces the primary sort key, keeping the secondary sort keys that sort by other fields.
+ * Missing field name or order are taken from the current primary sort key.
+ * The sort keys of a preset are replaced as a whole, rather than kept as tie-breakers.
+ */
+function replacePrimarySortKey(
+  value: SortValue | undefined,
+  fieldName?: string,
+  order?: string,
+  isPresetSelected: boolean = false,
+): SortValue {
+  const [currentPrimary, ...currentSecondarySortKeys] = value || [];
+  const secondarySortKeys = isPresetSelected ? [] : currentSecondarySortKeys;
+  const primary = {
+    fieldName: fieldName || currentPrimary?.fieldName,
+    order: order || currentPrimary?.order,
+  };
+
+  return [
+    primary,
+    ...secondarySortKeys.filter(
+      (sortKey) => sortKey.fieldName !== primary.fieldName,
+    ),
+  ];
+}
+
+function isSameSort(sortA?: SortValue, sortB?: SortValue) {
+  return (
+    (sortA || []).length === (sortB || []).length &&
+    (sortA || []).every(
+      (sortKey, index) =>
+        sortKey.fieldName === sortB?.[index]?.fieldName &&
+        sortKey.order === sortB?.[index]?.order,
+    )
+  );
+}
+
+function moveSortKey(value: SortValue, from: number, to: number): SortValue {
+  const sortKey = value[from];
+  if (!sortKey || to < 0 || to >= value.length) {
+    return value;
+  }
+
+  const newValue = value.filter((_, index) => index !== from);
+  newValue.splice(to, 0, sortKey);
+  return newValue;
+}
+
+/**
+ * Gets the fields of the sort options. Fields are labeled by their field-only option if any,
+ * otherwise by their field name.
+ */
+function getSortFields(options: SortOptionRenderable[]): SortField[] {
+  const fields: SortField[] = [];
+
+  options.forEach((option) => {
+    if (!option.fieldName) return;
+
+    const field = fields.find(
+      ({ fieldName }) => fieldName === option.fieldName,
+    );
+    if (!field) {
+      fields.push({
+        fieldName: option.fieldName,
+        label: option.order ? option.fieldName : option.label,
+      });
+    } else if (!option.order) {
+      field.label = option.label;
+    }
+  });
+
+  return fields;
+}
@@ -0,0 +1,7 @@
+import '@testing-library/jest-dom/vitest';
+import '@testing-library/jest-dom';
+import { beforeEach } from 'vitest';
+
+beforeEach(() => {
+  // Setup code for tests
+});
@@ -1,6 +1,9 @@
 export enum DataComponentTags {
   cartRoot = `ecom.cart-root`,
   cartCouponRoot = `ecom.cart-coupon-root`,
+  cartDrawerContent = `ecom.cart-drawer-content`,
+  cartSavedItems = `ecom.cart-saved-items`,
+  cartShippingEstimatorRoot = `ecom.cart-shipping-estimator-root`,
   commerceRoot = `ecom.commerce-root`,
   lineItemRoot = `ecom.line-item-root`,
   selectedOptionRoot = `ecom.selected-option-root`,
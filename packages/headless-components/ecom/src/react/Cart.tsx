@@ -53,15 +53,21 @@ import {
   Checkout as CoreCheckout,
   Notes as CoreNotes,
   LineItemAdded as CoreLineItemAdded,
+  ThresholdProgress as CoreThresholdProgress,
+  ThresholdProgressRenderProps as CoreThresholdProgressRenderProps,
 } from './core/CurrentCart.js';
 import type { ServiceAPI } from '@wix/services-definitions';
 import { useService } from '@wix/services-manager-react';
 import React from 'react';
 import { CurrentCartServiceDefinition } from '../services/current-cart-service.js';
 import type { LineItem } from '../services/common-types.js';
+import type { CartTotalsPrice } from '../services/cart-totals.js';
+import type { CartThreshold } from '../services/threshold-progress.js';
 import { AsChildSlot, AsChildChildren } from '@wix/headless-utils/react';
 import * as LineItemComponent from './LineItem.js';
 import * as CouponComponents from './CartCoupon.js';
+import * as ShippingEstimatorComponents from './CartShippingEstimator.js';
+import * as SaveForLaterComponents from './CartSaveForLater.js';
 import { DataComponentTags } from '../data-component-tags.js';
 
 // Components that render actual DOM elements get test IDs on their rendered elements
@@ -82,6 +88,7 @@ enum TestIds {
   cartNoteInput = 'cart-note-input',
   cartLineItems = 'cart-line-items',
   cartLineItemRepeater = 'cart-line-item-repeater',
+  cartThresholdProgress = 'cart-threshold-progress',
 }
 
 /**
@@ -876,6 +883,41 @@ export type CouponInputProps = CouponComponents.CouponInputProps;
 export type CouponTriggerProps = CouponComponents.CouponTriggerProps;
 export type CouponClearProps = CouponComponents.CouponClearProps;
 export type CouponRawProps = CouponComponents.CouponRawProps;
+export type CouponCheckBalanceProps = CouponComponents.CouponCheckBalanceProps;
+export type CouponGiftCardBalanceProps =
+  CouponComponents.CouponGiftCardBalanceProps;
+export type CouponAppliedCodesProps = CouponComponents.CouponAppliedCodesProps;
+export type CouponErrorProps = CouponComponents.CouponErrorProps;
+
+// ===== SHIPPING ESTIMATOR SUB-COMPONENTS =====
+
+export type ShippingEstimatorRootProps =
+  ShippingEstimatorComponents.ShippingEstimatorRootProps;
+export type ShippingEstimatorInputProps =
+  ShippingEstimatorComponents.ShippingEstimatorInputProps;
+export type ShippingEstimatorTriggerProps =
+  ShippingEstimatorComponents.ShippingEstimatorTriggerProps;
+export type ShippingEstimatorOptionsProps =
+  ShippingEstimatorComponents.ShippingEstimatorOptionsProps;
+export type ShippingEstimatorRawProps =
+  ShippingEstimatorComponents.ShippingEstimatorRawProps;
+
+// ===== SAVE FOR LATER SUB-COMPONENTS =====
+
+export type SaveForLaterRootProps =
+  SaveForLaterComponents.SaveForLaterRootProps;
+export type SaveForLaterButtonProps =
+  SaveForLaterComponents.SaveForLaterButtonProps;
+export type SaveForLaterTriggerProps =
+  SaveForLaterComponents.SaveForLaterTriggerProps;
+export type SavedItemsProps = SaveForLaterComponents.SavedItemsProps;
+export type SavedItemRepeaterProps =
+  SaveForLaterComponents.SavedItemRepeaterProps;
+export type SavedItemTitleProps = SaveForLaterComponents.ItemTitleProps;
+export type SavedItemImageProps = SaveForLaterComponents.ItemImageProps;
+export type SavedItemPriceProps = SaveForLaterComponents.ItemPriceProps;
+export type SavedItemSelectedOptionsProps =
+  SaveForLaterComponents.ItemSelectedOptionsProps;
 
 // ===== NOTE SUB-COMPONENTS =====
 
@@ -988,6 +1030,17 @@ const NoteInput = React.forwardRef<HTMLTextAreaElement, NoteInputProps>(
  *   </Cart.Coupon.Clear>
  * </Cart.Coupon.Root>
  *
+ * // Coupons and gift cards together, with the applied codes listed
+ * <Cart.Coupon.Root multiple>
+ *   <Cart.Coupon.Input placeholder="Coupon or gift card code" />
+ *   <Cart.Coupon.Trigger>Apply coupon</Cart.Coupon.Trigger>
+ *   <Cart.Coupon.Trigger codeType="gift-card">Redeem gift card</Cart.Coupon.Trigger>
+ *   <Cart.Coupon.CheckBalance />
+ *   <Cart.Coupon.GiftCardBalance />
+ *   <Cart.Coupon.Error className="text-sm text-red-500" />
+ *   <Cart.Coupon.AppliedCodes className="space-y-1" />
+ * </Cart.Coupon.Root>
+ *
  * // Raw access to all coupon functionality
  * <Cart.Coupon.Raw>
  *   {({ appliedCoupon, apply, remove, isLoading, error }) => (
@@ -1007,9 +1060,86 @@ export const Coupon = {
   Input: CouponComponents.Input,
   Trigger: CouponComponents.Trigger,
   Clear: CouponComponents.Clear,
+  CheckBalance: CouponComponents.CheckBalance,
+  GiftCardBalance: CouponComponents.GiftCardBalance,
+  AppliedCodes: CouponComponents.AppliedCodes,
+  Error: CouponComponents.CodeError,
   Raw: CouponComponents.Raw,
 } as const;
 
+/**
+ * Shipping estimation components namespace.
+ * Lets the shopper enter a destination to see shipping and tax before checkout,
+ * and pick one of the shipping options available for it.
+ *
+ * @example
+ * ```tsx
+ * <Cart.ShippingEstimator.Root className="space-y-2">
+ *   <div className="flex gap-2">
+ *     <Cart.ShippingEstimator.Country className="w-20 px-3 py-2 border rounded" />
+ *     <Cart.ShippingEstimator.Subdivision className="w-28 px-3 py-2 border rounded" />
+ *     <Cart.ShippingEstimator.PostalCode className="flex-1 px-3 py-2 border rounded" />
+ *   </div>
+ *   <Cart.ShippingEstimator.Trigger className="px-4 py-2 bg-blue-500 text-white rounded" />
+ *   <Cart.ShippingEstimator.Options className="space-y-1" />
+ * </Cart.ShippingEstimator.Root>
+ *
+ * <Cart.Totals.Shipping label="Shipping:" />
+ * <Cart.Totals.Tax label="Tax:" />
+ * ```
+ */
+export const ShippingEstimator = {
+  Root: ShippingEstimatorComponents.Root,
+  Country: ShippingEstimatorComponents.Country,
+  Subdivision: ShippingEstimatorComponents.Subdivision,
+  PostalCode: ShippingEstimatorComponents.PostalCode,
+  Trigger: ShippingEstimatorComponents.Trigger,
+  Options: ShippingEstimatorComponents.Options,
+  Raw: ShippingEstimatorComponents.Raw,
+} as const;
+
+/**
+ * Save for later components namespace.
+ * Moves line items from the cart to a list persisted in the browser, and back to the cart
+ * with their selected options and quantity.
+ *
+ * @example
+ * ```tsx
+ * <Cart.SaveForLater.Root>
+ *   <Cart.LineItemRepeater>
+ *     <LineItem.Title />
+ *     <Cart.SaveForLater.Trigger className="text-sm underline" />
+ *   </Cart.LineItemRepeater>
+ *
+ *   <Cart.SaveForLater.SavedItems emptyState={<p>Nothing saved for later</p>}>
+ *     <Cart.SaveForLater.SavedItemRepeater>
+ *       <Cart.SaveForLater.ItemImage className="w-16 h-16" />
+ *       <Cart.SaveForLater.ItemTitle />
+ *       <Cart.SaveForLater.ItemSelectedOptions>
+ *         <SelectedOption.Text />
+ *         <SelectedOption.Color />
+ *       </Cart.SaveForLater.ItemSelectedOptions>
+ *       <Cart.SaveForLater.ItemPrice />
+ *       <Cart.SaveForLater.MoveToCart />
+ *       <Cart.SaveForLater.Remove />
+ *     </Cart.SaveForLater.SavedItemRepeater>
+ *   </Cart.SaveForLater.SavedItems>
+ * </Cart.SaveForLater.Root>
+ * ```
+ */
+export const SaveForLater = {
+  Root: SaveForLaterComponents.Root,
+  Trigger: SaveForLaterComponents.Trigger,
+  SavedItems: SaveForLaterComponents.SavedItems,
+  SavedItemRepeater: SaveForLaterComponents.SavedItemRepeater,
+  ItemTitle: SaveForLaterComponents.ItemTitle,
+  ItemImage: SaveForLaterComponents.ItemImage,
+  ItemPrice: SaveForLaterComponents.ItemPrice,
+  ItemSelectedOptions: SaveForLaterComponents.ItemSelectedOptions,
+  MoveToCart: SaveForLaterComponents.MoveToCart,
+  Remove: SaveForLaterComponents.Remove,
+} as const;
+
 /**
  * Note-related components namespace
  */
@@ -1238,6 +1368,243 @@ const Tax = PricePartFactory({ priceProp: 'tax' });
  */
 const Total = PricePartFactory({ priceProp: 'total' });
 
+/**
+ * A row of the cart price breakdown, e.g. a coupon, a tax line or an additional fee.
+ */
+export interface CartTotalsRow {
+  /** Unique key of the row */
+  id: string;
+  /** Display name of the row, e.g. the coupon code or the tax name */
+  name: string;
+  /** Row amount as a Money object */
+  price: Money;
+  /** Formatted row amount */
+  formattedPrice: string;
+}
+
+/**
+ * Props for cart breakdown components that render one element per breakdown row.
+ * Supports the asChild pattern for flexible composition.
+ */
+export interface CartTotalsRowsProps
+  extends Omit<React.HTMLAttributes<HTMLDivElement>, 'children'> {
+  /** When true, the component will not render its own elements but forward their props to its child */
+  asChild?: boolean;
+  /** Render function called for each breakdown row */
+  children?: AsChildChildren<{
+    /** The breakdown row */
+    row: CartTotalsRow;
+    /** The row amount as a Money object */
+    price: Money;
+    /** Human-readable formatted row amount (e.g., "$2.50") */
+    formattedPrice: string;
+    /** Whether the totals are currently being estimated */
+    isLoading: boolean;
+  }>;
+}
+
+/**
+ * Factory function that creates components rendering one element per row of a cart price breakdown.
+ * Renders nothing when the breakdown has no rows.
+ *
+ * @internal
+ * @param config - Configuration object for the breakdown component
+ * @param config.getRows - Function returning the breakdown rows from the normalized cart totals and the cart line items
+ * @param config.isDiscount - Whether the rows are discounts (will be displayed with negative sign)
+ * @returns A React component that displays the breakdown rows
+ */
+const BreakdownRowsFactory = ({
+  getRows,
+  isDiscount = false,
+}: {
+  /** Function returning the breakdown rows from the normalized cart totals and the cart line items */
+  getRows: (
+    totals: NonNullable<CoreSummaryRenderProps['totals']>,
+    lineItems: LineItem[],
+  ) => CartTotalsRow[];
+  /** Whether to format as a discount (with negative sign) */
+  isDiscount?: boolean;
+}) =>
+  React.forwardRef<HTMLDivElement, CartTotalsRowsProps>(
+    ({ asChild, children, className, ...props }, ref) => {
+      const service = useService(CurrentCartServiceDefinition) as ServiceAPI<
+        typeof CurrentCartServiceDefinition
+      >;
+      const lineItems = service.cart.get()?.lineItems || [];
+
+      return (
+        <CoreSummary>
+          {({ totals, isTotalsLoading }) => {
+            const rows = totals ? getRows(totals, lineItems) : [];
+            if (rows.length === 0) {
+              return null;
+            }
+
+            return (
+              <>
+                {rows.map((row, index) => (
+                  <AsChildSlot
+                    key={row.id}
+                    asChild={asChild}
+                    customElement={children}
+                    customElementProps={{
+                      row,
+                      price: row.price,
+                      formattedPrice: row.formattedPrice,
+                      isLoading: isTotalsLoading,
+                    }}
+                    ref={index === 0 ? ref : undefined}
+                    className={className}
+                    {...props}
+                  >
+                    <div>
+                      <span>{row.name}</span>
+                      {isTotalsLoading ? (
+                        <span>...</span>
+                      ) : (
+                        <span>
+                          {isDiscount
+                            ? `-${row.formattedPrice}`
+                            : row.formattedPrice}
+                        </span>
+                      )}
+                    </div>
+                  </AsChildSlot>
+                ))}
+              </>
+            );
+          }}
+        </CoreSummary>
+      );
+    },
+  );
+
+/**
+ * Creates a breakdown row from a price of the normalized cart totals.
+ *
+ * @internal
+ */
+const toRow = (
+  id: string,
+  name: string,
+  price: CartTotalsPrice,
+  currency: string,
+): CartTotalsRow => ({
+  id,
+  name,
+  price: { amount: price.amount, currency },
+  formattedPrice: price.formattedAmount,
+});
+
+/**
+ * Cart line discounts component that renders one element per discounted line item.
+ * The row name is the product name of the line item.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.Totals.LineDiscounts asChild>
+ *   {({ row, formattedPrice }, ref) => (
+ *     <div ref={ref} className="flex justify-between text-sm">
+ *       <span>{row.name}</span>
+ *       <span>-{formattedPrice}</span>
+ *     </div>
+ *   )}
+ * </Cart.Totals.LineDiscounts>
+ * ```
+ */
+const LineDiscounts = BreakdownRowsFactory({
+  getRows: (totals, lineItems) =>
+    totals.lineDiscounts.map((lineDiscount) =>
+      toRow(
+        lineDiscount.lineItemId,
+        lineItems.find((item) => item._id === lineDiscount.lineItemId)
+          ?.productName?.original || '',
+        lineDiscount.price,
+        totals.currency,
+      ),
+    ),
+  isDiscount: true,
+});
+
+/**
+ * Cart coupons component that renders one element per coupon applied to the cart.
+ * The row name is the coupon code.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.Totals.Coupons asChild>
+ *   {({ row, formattedPrice, isLoading }, ref) => (
+ *     <div ref={ref} className="flex justify-between text-green-600">
+ *       <span>Coupon {row.name}</span>
+ *       <span>{isLoading ? '...' : `-${formattedPrice}`}</span>
+ *     </div>
+ *   )}
+ * </Cart.Totals.Coupons>
+ * ```
+ */
+const Coupons = BreakdownRowsFactory({
+  getRows: (totals) =>
+    totals.coupons.map((coupon, index) =>
+      toRow(
+        coupon.code || `coupon-${index}`,
+        coupon.code || coupon.name,
+        coupon.price,
+        totals.currency,
+      ),
+    ),
+  isDiscount: true,
+});
+
+/**
+ * Cart tax lines component that renders one element per tax charged on the cart,
+ * e.g. state and city taxes.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.Totals.TaxLines asChild>
+ *   {({ row, formattedPrice }, ref) => (
+ *     <div ref={ref} className="flex justify-between text-sm text-gray-600">
+ *       <span>{row.name}</span>
+ *       <span>{formattedPrice}</span>
+ *     </div>
+ *   )}
+ * </Cart.Totals.TaxLines>
+ * ```
+ */
+const TaxLines = BreakdownRowsFactory({
+  getRows: (totals) =>
+    totals.taxLines.map((taxLine) =>
+      toRow(taxLine.name, taxLine.name, taxLine.price, totals.currency),
+    ),
+});
+
+/**
+ * Cart additional fees component that renders one element per additional fee,
+ * e.g. handling or packaging fees.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.Totals.AdditionalFees asChild>
+ *   {({ row, formattedPrice }, ref) => (
+ *     <div ref={ref} className="flex justify-between">
+ *       <span>{row.name}</span>
+ *       <span>{formattedPrice}</span>
+ *     </div>
+ *   )}
+ * </Cart.Totals.AdditionalFees>
+ * ```
+ */
+const AdditionalFees = BreakdownRowsFactory({
+  getRows: (totals) =>
+    totals.additionalFees.map((fee, index) =>
+      toRow(fee.code || `fee-${index}`, fee.name, fee.price, totals.currency),
+    ),
+});
+
 /**
  * Namespace containing all cart pricing/totals components.
  * These components provide a consistent way to display different aspects of cart pricing
@@ -1255,8 +1622,10 @@ const Total = PricePartFactory({ priceProp: 'total' });
  *     <div className="cart-totals">
  *       <Cart.Totals.Price label="Subtotal:" />
  *       <Cart.Totals.Discount label="Discount:" />
+ *       <Cart.Totals.Coupons />
  *       <Cart.Totals.Shipping label="Shipping:" />
- *       <Cart.Totals.Tax label="Tax:" />
+ *       <Cart.Totals.TaxLines />
+ *       <Cart.Totals.AdditionalFees />
  *       <hr />
  *       <Cart.Totals.Total label="Total:" />
  *     </div>
@@ -1300,8 +1669,119 @@ export const Totals = {
   Tax,
   /** Final total including all charges and discounts */
   Total,
+  /** Discount per discounted line item */
+  LineDiscounts,
+  /** Coupons applied to the cart */
+  Coupons,
+  /** Tax lines, e.g. state and city taxes */
+  TaxLines,
+  /** Additional fees, e.g. handling fees */
+  AdditionalFees,
 } as const;
 
+/**
+ * Props for the ThresholdProgress component
+ */
+export interface ThresholdProgressProps
+  extends Omit<React.HTMLAttributes<HTMLDivElement>, 'children'> {
+  /** When true, the component will not render its own element but forward its props to its child */
+  asChild?: boolean;
+  /** Thresholds to track, e.g. free shipping. Defaults to the `thresholds` of the cart service config */
+  thresholds?: CartThreshold[];
+  /** Render function that receives the threshold progress */
+  children?: AsChildChildren<CoreThresholdProgressRenderProps>;
+}
+
+/**
+ * Progress of the cart subtotal towards one or more spend thresholds, e.g.
+ * "Spend $12.00 more for free shipping". Renders a progressbar towards the next threshold,
+ * with `data-reached` once at least one threshold is reached and `data-complete` once all are.
+ * Renders nothing when there are no thresholds in the cart currency.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default rendering
+ * <Cart.ThresholdProgress
+ *   thresholds={[{ id: 'free-shipping', amount: { USD: 50, EUR: 45 }, label: 'free shipping' }]}
+ * />
+ *
+ * // Tiered thresholds with a custom bar
+ * <Cart.ThresholdProgress
+ *   thresholds={[
+ *     { id: 'free-shipping', amount: 50, label: 'free shipping' },
+ *     { id: 'gift', amount: 100, label: 'a free gift' },
+ *   ]}
+ *   asChild
+ * >
+ *   {({ nextThreshold, lastReachedThreshold }, ref) => (
+ *     <div ref={ref}>
+ *       <p>
+ *         {nextThreshold
+ *           ? `Spend ${nextThreshold.remaining.formattedAmount} more for ${nextThreshold.threshold.label}`
+ *           : `You unlocked ${lastReachedThreshold?.threshold.label}!`}
+ *       </p>
+ *       <div className="h-2 bg-gray-200 rounded">
+ *         <div
+ *           className="h-2 bg-green-500 rounded"
+ *           style={{ width: `${nextThreshold?.percentage ?? 100}%` }}
+ *         />
+ *       </div>
+ *     </div>
+ *   )}
+ * </Cart.ThresholdProgress>
+ * ```
+ */
+export const ThresholdProgress = React.forwardRef<
+  HTMLDivElement,
+  ThresholdProgressProps
+>(({ asChild, children, className, thresholds, ...props }, ref) => {
+  return (
+    <CoreThresholdProgress thresholds={thresholds}>
+      {(renderProps) => {
+        if (renderProps.thresholds.length === 0) {
+          return null;
+        }
+
+        const { nextThreshold, lastReachedThreshold } = renderProps;
+        const percentage = nextThreshold?.percentage ?? 100;
+        const message = nextThreshold
+          ? `Spend ${nextThreshold.remaining.formattedAmount} more for ${nextThreshold.threshold.label || 'the next reward'}`
+          : `You unlocked ${lastReachedThreshold?.threshold.label || 'all rewards'}!`;
+
+        return (
+          <AsChildSlot
+            asChild={asChild}
+            customElement={children}
+            customElementProps={renderProps}
+            ref={ref}
+            className={className}
+            data-testid={TestIds.cartThresholdProgress}
+            data-reached={!!lastReachedThreshold}
+            data-complete={renderProps.isComplete}
+            {...props}
+          >
+            <div>
+              <span>{message}</span>
+              <div
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(percentage)}
+                aria-valuetext={message}
+              >
+                <div style={{ width: `${percentage}%` }} />
+              </div>
+            </div>
+          </AsChildSlot>
+        );
+      }}
+    </CoreThresholdProgress>
+  );
+});
+
+ThresholdProgress.displayName = 'Cart.ThresholdProgress';
+
 interface ErrorProps
   extends Omit<React.HTMLAttributes<HTMLDivElement>, 'children'> {
   /** When true, the component will not render its own element but forward its props to its child */
@@ -1,8 +1,42 @@
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import React from 'react';
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import '@testing-library/jest-dom';
 import * as CartCoupon from './CartCoupon';
+import { signal } from '../vitest.helpers';
+
+const mockService = {
+  cart: signal<any>({ appliedDiscounts: [{ coupon: { code: 'SAVE10' } }] }),
+  isCouponLoading: signal(false),
+  error: signal<string | null>(null),
+  appliedCodes: signal<any[]>([
+    {
+      type: 'coupon',
+      code: 'SAVE10',
+      amount: { amount: 10, formattedAmount: '$10.00' },
+    },
+    {
+      type: 'gift-card',
+      code: 'GIFT-1234',
+      amount: { amount: 25, formattedAmount: '$25.00' },
+    },
+  ]),
+  codeError: signal<any>({
+    type: 'coupon',
+    code: 'OLD',
+    reason: 'expired',
+    message: 'This coupon has expired.',
+  }),
+  applyCoupon: vi.fn(),
+  removeCoupon: vi.fn(),
+  validateGiftCard: vi.fn(),
+  applyGiftCard: vi.fn(),
+  removeGiftCard: vi.fn(),
+};
+
+vi.mock('@wix/services-manager-react', async () =>
+  (await import('../vitest.helpers')).mockServicesManager(() => mockService),
+);
 
 describe('CartCoupon', () => {
   describe('Root', () => {
@@ -21,5 +55,46 @@ describe('CartCoupon', () => {
         'ecom.cart-coupon-root',
       );
     });
+
+    it('keeps the input visible while a coupon is applied when multiple', () => {
+      render(
+        <CartCoupon.Root multiple>
+          <CartCoupon.Input />
+        </CartCoupon.Root>,
+      );
+
+      expect(screen.getByTestId('coupon-input')).toBeInTheDocument();
+    });
+  });
+
+  describe('AppliedCodes', () => {
+    it('renders the applied codes and removes them by type', () => {
+      render(
+        <CartCoupon.Root multiple>
+          <CartCoupon.AppliedCodes />
+        </CartCoupon.Root>,
+      );
+
+      const [removeCoupon, removeGiftCard] = screen.getAllByRole('button');
+      fireEvent.click(removeCoupon!);
+      fireEvent.click(removeGiftCard!);
+
+      expect(mockService.removeCoupon).toHaveBeenCalledWith('SAVE10');
+      expect(mockService.removeGiftCard).toHaveBeenCalledWith('GIFT-1234');
+    });
+  });
+
+  describe('Error', () => {
+    it('renders the rejection reason', () => {
+      render(
+        <CartCoupon.Root>
+          <CartCoupon.CodeError />
+        </CartCoupon.Root>,
+      );
+
+      const error = screen.getByTestId('coupon-error');
+      expect(error).toHaveAttribute('data-reason', 'expired');
+      expect(error).toHaveTextContent('This coupon has expired.');
+    });
   });
 });
@@ -9,6 +9,12 @@ import React from 'react';
 import { Slot } from '@radix-ui/react-slot';
 import { DataComponentTags } from '../data-component-tags.js';
 
+import type {
+  AppliedCode,
+  AppliedGiftCard,
+  CartCodeError,
+} from '../services/cart-codes.js';
+
 import { Coupon as CoreCoupon } from './core/CurrentCart.js';
 
 // Components that render actual DOM elements get test IDs on their rendered elements
@@ -16,6 +22,10 @@ enum TestIds {
   couponInput = 'coupon-input',
   couponTrigger = 'coupon-trigger',
   couponClear = 'coupon-clear',
+  couponCheckBalance = 'coupon-check-balance',
+  couponGiftCardBalance = 'coupon-gift-card-balance',
+  couponAppliedCodes = 'coupon-applied-codes',
+  couponError = 'coupon-error',
 }
 
 /**
@@ -26,6 +36,12 @@ interface CouponContextValue {
   contextInputValue: string;
   /** Function to update the input value */
   setContextInputValue: (value: string) => void;
+  /** Whether more codes can be entered while a coupon is applied */
+  multiple: boolean;
+  /** Gift card checked with CheckBalance, if any */
+  checkedGiftCard: AppliedGiftCard | null;
+  /** Function to update the checked gift card */
+  setCheckedGiftCard: (giftCard: AppliedGiftCard | null) => void;
 }
 
 const CouponContext = React.createContext<CouponContextValue | null>(null);
@@ -51,6 +67,11 @@ export interface CouponRootProps {
   children: React.ReactNode;
   /** Initial input value */
   defaultValue?: string;
+  /**
+   * Keeps the input and apply button visible while a coupon is applied, so gift cards and
+   * more codes can be entered. Use with AppliedCodes to list the applied codes. Defaults to false
+   */
+  multiple?: boolean;
 }
 
 /**
@@ -69,13 +90,18 @@ export interface CouponRootProps {
  * ```
  */
 export const Root = React.forwardRef<HTMLDivElement, CouponRootProps>(
-  ({ children, defaultValue = '' }, ref) => {
+  ({ children, defaultValue = '', multiple = false }, ref) => {
     const [contextInputValue, setContextInputValue] =
       React.useState(defaultValue);
+    const [checkedGiftCard, setCheckedGiftCard] =
+      React.useState<AppliedGiftCard | null>(null);
 
     const contextValue: CouponContextValue = {
       contextInputValue,
       setContextInputValue,
+      multiple,
+      checkedGiftCard,
+      setCheckedGiftCard,
     };
 
     return (
@@ -151,7 +177,8 @@ export const Input = React.forwardRef<HTMLInputElement, CouponInputProps>(
     },
     ref,
   ) => {
-    const { contextInputValue, setContextInputValue } = useCouponContext();
+    const { contextInputValue, setContextInputValue, multiple } =
+      useCouponContext();
 
     return (
       <CoreCoupon>
@@ -159,7 +186,7 @@ export const Input = React.forwardRef<HTMLInputElement, CouponInputProps>(
           const { appliedCoupon } = renderProps;
 
           // Hide input if coupon is already applied
-          if (appliedCoupon) {
+          if (appliedCoupon && !multiple) {
             return null;
           }
 
@@ -198,6 +225,8 @@ export const Input = React.forwardRef<HTMLInputElement, CouponInputProps>(
 export interface CouponTriggerProps {
   asChild?: boolean;
   className?: string;
+  /** Kind of code the entered value is applied as. Defaults to 'coupon' */
+  codeType?: 'coupon' | 'gift-card';
   children?:
     | React.ReactNode
     | React.ForwardRefRenderFunction<
@@ -246,19 +275,27 @@ export interface CouponTriggerProps {
  * ```
  */
 export const Trigger = React.forwardRef<HTMLButtonElement, CouponTriggerProps>(
-  ({ asChild, children, className, ...props }, ref) => {
-    const { contextInputValue } = useCouponContext();
+  ({ asChild, children, className, codeType = 'coupon', ...props }, ref) => {
+    const { contextInputValue, multiple, setCheckedGiftCard } =
+      useCouponContext();
 
     return (
       <CoreCoupon>
         {(renderProps) => {
-          const { apply, isLoading, appliedCoupon } = renderProps;
+          const { isLoading, appliedCoupon, applyGiftCard } = renderProps;
 
           // Hide trigger if coupon is already applied
-          if (appliedCoupon) {
+          if (appliedCoupon && !multiple) {
             return null;
           }
 
+          const apply =
+            codeType === 'gift-card'
+              ? async (code: string) => {
+                  await applyGiftCard(code);
+                  setCheckedGiftCard(null);
+                }
+              : renderProps.apply;
           const disabled = isLoading || !contextInputValue.trim();
 
           const triggerProps = {
@@ -412,6 +449,339 @@ export const Clear = React.forwardRef<HTMLDivElement, CouponClearProps>(
   },
 );
 
+/**
+ * Props for Coupon.CheckBalance component
+ */
+export interface CouponCheckBalanceProps {
+  asChild?: boolean;
+  className?: string;
+  children?:
+    | React.ReactNode
+    | React.ForwardRefRenderFunction<
+        HTMLButtonElement,
+        {
+          disabled: boolean;
+          isLoading: boolean;
+          onClick: () => Promise<void>;
+        }
+      >;
+}
+
+/**
+ * Button that checks the entered gift card code, and the amount it covers on the current cart, without applying it.
+ * The result is shown by Cart.Coupon.GiftCardBalance, and a rejected code by Cart.Coupon.Error.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.Coupon.Root multiple>
+ *   <Cart.Coupon.Input placeholder="Gift card code" />
+ *   <Cart.Coupon.CheckBalance>Check balance</Cart.Coupon.CheckBalance>
+ *   <Cart.Coupon.GiftCardBalance />
+ *   <Cart.Coupon.Trigger codeType="gift-card">Redeem</Cart.Coupon.Trigger>
+ * </Cart.Coupon.Root>
+ * ```
+ */
+export const CheckBalance = React.forwardRef<
+  HTMLButtonElement,
+  CouponCheckBalanceProps
+>(({ asChild, children, className, ...props }, ref) => {
+  const { contextInputValue, setCheckedGiftCard } = useCouponContext();
+
+  return (
+    <CoreCoupon>
+      {({ validateGiftCard, isLoading }) => {
+        const disabled = isLoading || !contextInputValue.trim();
+
+        const checkBalanceProps = {
+          disabled,
+          isLoading,
+          onClick: async () => {
+            if (contextInputValue.trim()) {
+              setCheckedGiftCard(
+                await validateGiftCard(contextInputValue.trim()),
+              );
+            }
+          },
+        };
+
+        if (asChild && typeof children === 'function') {
+          return children(checkBalanceProps, ref);
+        }
+
+        const Comp = asChild ? Slot : 'button';
+
+        return (
+          <Comp
+            ref={ref}
+            type="button"
+            onClick={checkBalanceProps.onClick}
+            disabled={disabled}
+            className={className}
+            data-testid={TestIds.couponCheckBalance}
+            data-loading={isLoading}
+            {...props}
+          >
+            {!asChild && typeof children !== 'function'
+              ? children || (isLoading ? 'Checking...' : 'Check balance')
+              : null}
+          </Comp>
+        );
+      }}
+    </CoreCoupon>
+  );
+});
+
+CheckBalance.displayName = 'CartCoupon.CheckBalance';
+
+/**
+ * Props for Coupon.GiftCardBalance component
+ */
+export interface CouponGiftCardBalanceProps {
+  asChild?: boolean;
+  className?: string;
+  children?: React.ForwardRefRenderFunction<
+    HTMLDivElement,
+    {
+      /** The checked gift card */
+      giftCard: AppliedGiftCard;
+      /** Formatted amount the gift card would take off the current cart */
+      formattedAmount: string;
+    }
+  >;
+}
+
+/**
+ * Displays the gift card checked with Cart.Coupon.CheckBalance and the amount it covers on the current cart.
+ * Renders nothing until a valid gift card is checked.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.Coupon.GiftCardBalance asChild>
+ *   {React.forwardRef(({giftCard, formattedAmount, ...props}, ref) => (
+ *     <div ref={ref} {...props} className="text-sm">
+ *       {giftCard.obfuscatedCode}: {formattedAmount} available for this order
+ *     </div>
+ *   ))}
+ * </Cart.Coupon.GiftCardBalance>
+ * ```
+ */
+export const GiftCardBalance = React.forwardRef<
+  HTMLDivElement,
+  CouponGiftCardBalanceProps
+>(({ asChild, children, className, ...props }, ref) => {
+  const { checkedGiftCard } = useCouponContext();
+
+  if (!checkedGiftCard) {
+    return null;
+  }
+
+  const balanceProps = {
+    giftCard: checkedGiftCard,
+    formattedAmount: checkedGiftCard.amount.formattedAmount,
+  };
+
+  if (asChild && children) {
+    return children(balanceProps, ref);
+  }
+
+  const Comp = asChild ? Slot : 'div';
+
+  return (
+    <Comp
+      ref={ref}
+      className={className}
+      data-testid={TestIds.couponGiftCardBalance}
+      {...props}
+    >
+      {!asChild ? (
+        <>
+          <span>Gift card {checkedGiftCard.obfuscatedCode}</span>{' '}
+          <span>Covers {balanceProps.formattedAmount} of your order</span>
+        </>
+      ) : null}
+    </Comp>
+  );
+});
+
+GiftCardBalance.displayName = 'CartCoupon.GiftCardBalance';
+
+/**
+ * Props for Coupon.AppliedCodes component
+ */
+export interface CouponAppliedCodesProps {
+  className?: string;
+  /** Render function called for each applied code */
+  children?: (props: {
+    /** The applied coupon or gift card */
+    appliedCode: AppliedCode;
+    /** Formatted amount the code takes off the cart, once estimated */
+    formattedAmount: string | null;
+    /** Function to remove the code */
+    remove: () => Promise<void>;
+    /** Whether a coupon or gift card action is loading */
+    isLoading: boolean;
+  }) => React.ReactNode;
+}
+
+/**
+ * Lists the coupons and gift cards applied to the cart, each with a remove button.
+ * Renders nothing while no code is applied.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default rendering
+ * <Cart.Coupon.AppliedCodes className="space-y-1" />
+ *
+ * // Custom rendering of each code
+ * <Cart.Coupon.AppliedCodes>
+ *   {({ appliedCode, formattedAmount, remove, isLoading }) => (
+ *     <div className="flex justify-between">
+ *       <span>{appliedCode.type === 'gift-card' ? 'Gift card' : 'Coupon'} {appliedCode.code}</span>
+ *       {formattedAmount && <span>-{formattedAmount}</span>}
+ *       <button onClick={remove} disabled={isLoading}>Remove</button>
+ *     </div>
+ *   )}
+ * </Cart.Coupon.AppliedCodes>
+ * ```
+ */
+export const AppliedCodes = React.forwardRef<
+  HTMLDivElement,
+  CouponAppliedCodesProps
+>(({ children, className, ...props }, ref) => {
+  return (
+    <CoreCoupon>
+      {({ appliedCodes, removeCode, isLoading }) => {
+        if (appliedCodes.length === 0) {
+          return null;
+        }
+
+        return (
+          <div
+            ref={ref}
+            className={className}
+            data-testid={TestIds.couponAppliedCodes}
+            {...props}
+          >
+            {appliedCodes.map((appliedCode) => {
+              const key = `${appliedCode.type}-${appliedCode.code}`;
+              const formattedAmount =
+                appliedCode.amount?.formattedAmount ?? null;
+              const remove = () => removeCode(appliedCode);
+
+              if (children) {
+                return (
+                  <React.Fragment key={key}>
+                    {children({
+                      appliedCode,
+                      formattedAmount,
+                      remove,
+                      isLoading,
+                    })}
+                  </React.Fragment>
+                );
+              }
+
+              return (
+                <div key={key} data-code-type={appliedCode.type}>
+                  <span>{appliedCode.code}</span>
+                  {formattedAmount && <span>-{formattedAmount}</span>}
+                  <button type="button" onClick={remove} disabled={isLoading}>
+                    Remove
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        );
+      }}
+    </CoreCoupon>
+  );
+});
+
+AppliedCodes.displayName = 'CartCoupon.AppliedCodes';
+
+/**
+ * Props for Coupon.Error component
+ */
+export interface CouponErrorProps {
+  asChild?: boolean;
+  className?: string;
+  children?: React.ForwardRefRenderFunction<
+    HTMLDivElement,
+    {
+      /** The rejected code error */
+      codeError: CartCodeError;
+      /** Why the code was rejected: 'invalid', 'expired', 'minimum-not-met', 'not-applicable' or 'unknown' */
+      reason: CartCodeError['reason'];
+      /** Error message */
+      message: string;
+    }
+  >;
+}
+
+/**
+ * Displays why the last coupon or gift card code was rejected.
+ * The reason is exposed as `data-reason`, so each reason can be styled or worded differently.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.Coupon.Error className="text-sm text-status-error" />
+ *
+ * // Custom message per reason
+ * <Cart.Coupon.Error asChild>
+ *   {React.forwardRef(({reason, message, ...props}, ref) => (
+ *     <p ref={ref} {...props}>
+ *       {reason === 'minimum-not-met' ? 'Add a few more items to use this code.' : message}
+ *     </p>
+ *   ))}
+ * </Cart.Coupon.Error>
+ * ```
+ */
+export const CodeError = React.forwardRef<HTMLDivElement, CouponErrorProps>(
+  ({ asChild, children, className, ...props }, ref) => {
+    return (
+      <CoreCoupon>
+        {({ codeError }) => {
+          if (!codeError) {
+            return null;
+          }
+
+          const errorProps = {
+            codeError,
+            reason: codeError.reason,
+            message: codeError.message,
+          };
+
+          if (asChild && children) {
+            return children(errorProps, ref);
+          }
+
+          const Comp = asChild ? Slot : 'div';
+
+          return (
+            <Comp
+              ref={ref}
+              role="alert"
+              className={className}
+              data-testid={TestIds.couponError}
+              data-reason={codeError.reason}
+              {...props}
+            >
+              {!asChild ? codeError.message : null}
+            </Comp>
+          );
+        }}
+      </CoreCoupon>
+    );
+  },
+);
+
+CodeError.displayName = 'CartCoupon.Error';
+
 /**
  * Props for Coupon.Raw component
  */
@@ -430,6 +800,16 @@ export interface CouponRawProps {
     isLoading: boolean;
     /** Error message if coupon operation failed */
     error: string | null;
+    /** Coupons and gift cards applied to the cart */
+    appliedCodes: AppliedCode[];
+    /** Function to remove an applied coupon or gift card */
+    removeCode: (appliedCode: AppliedCode) => Promise<void>;
+    /** Function to check a gift card code and its balance without applying it */
+    validateGiftCard: (code: string) => Promise<AppliedGiftCard | null>;
+    /** Function to apply a gift card */
+    applyGiftCard: (code: string) => Promise<void>;
+    /** Why the last coupon or gift card code was rejected, if it was */
+    codeError: CartCodeError | null;
   }) => React.ReactNode;
 }
 
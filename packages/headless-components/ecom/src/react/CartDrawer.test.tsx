@@ -0,0 +1,131 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import * as CartDrawer from './CartDrawer';
+import * as LineItem from './LineItem';
+import { signal } from '../vitest.helpers';
+
+const mockService = {
+  isDrawerOpen: signal(true),
+  lastAddedLineItemId: signal<string | null>('line-1'),
+  openDrawer: vi.fn(),
+  closeDrawer: vi.fn(),
+};
+
+vi.mock('@wix/services-manager-react', async () =>
+  (await import('../vitest.helpers')).mockServicesManager(() => mockService),
+);
+
+describe('CartDrawer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockService.isDrawerOpen = signal(true);
+  });
+
+  describe('Content', () => {
+    it('renders data-component-tag attribute on the dialog', () => {
+      render(
+        <CartDrawer.Root>
+          <CartDrawer.Content>
+            <button>Checkout</button>
+          </CartDrawer.Content>
+        </CartDrawer.Root>,
+      );
+
+      expect(screen.getByRole('dialog')).toHaveAttribute(
+        'data-component-tag',
+        'ecom.cart-drawer-content',
+      );
+    });
+
+    it('focuses the first focusable element and closes on Escape', () => {
+      render(
+        <CartDrawer.Root>
+          <CartDrawer.Content>
+            <button>Checkout</button>
+          </CartDrawer.Content>
+        </CartDrawer.Root>,
+      );
+
+      expect(screen.getByText('Checkout')).toHaveFocus();
+
+      fireEvent.keyDown(document, { key: 'Escape' });
+      expect(mockService.closeDrawer).toHaveBeenCalled();
+    });
+
+    it('does not render while the drawer is closed', () => {
+      mockService.isDrawerOpen = signal(false);
+
+      render(
+        <CartDrawer.Root>
+          <CartDrawer.Overlay />
+          <CartDrawer.Content>
+            <div>Cart</div>
+          </CartDrawer.Content>
+        </CartDrawer.Root>,
+      );
+
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+      expect(
+        screen.queryByTestId('cart-drawer-overlay'),
+      ).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Overlay', () => {
+    it('closes the drawer on click', () => {
+      render(
+        <CartDrawer.Root>
+          <CartDrawer.Overlay />
+        </CartDrawer.Root>,
+      );
+
+      fireEvent.click(screen.getByTestId('cart-drawer-overlay'));
+      expect(mockService.closeDrawer).toHaveBeenCalled();
+    });
+  });
+
+  describe('Trigger', () => {
+    it('references the content and toggles the drawer', () => {
+      render(
+        <CartDrawer.Root>
+          <CartDrawer.Trigger />
+          <CartDrawer.Content>
+            <div>Cart</div>
+          </CartDrawer.Content>
+        </CartDrawer.Root>,
+      );
+
+      const trigger = screen.getByTestId('cart-drawer-trigger');
+      expect(trigger).toHaveAttribute('aria-expanded', 'true');
+      expect(trigger).toHaveAttribute(
+        'aria-controls',
+        screen.getByRole('dialog').id,
+      );
+
+      fireEvent.click(trigger);
+      expect(mockService.closeDrawer).toHaveBeenCalled();
+    });
+  });
+
+  describe('LineItem.LastAdded', () => {
+    it('marks only the line item just added to the cart', () => {
+      render(
+        <>
+          <LineItem.Root item={{ _id: 'line-1' }}>
+            <LineItem.LastAdded>Added</LineItem.LastAdded>
+          </LineItem.Root>
+          <LineItem.Root item={{ _id: 'line-2' }}>
+            <LineItem.LastAdded>Other</LineItem.LastAdded>
+          </LineItem.Root>
+        </>,
+      );
+
+      const [added, other] = screen.getAllByTestId('line-item-last-added');
+      expect(added).toHaveAttribute('data-last-added', 'true');
+      expect(added).toHaveTextContent('Added');
+      expect(other).toHaveAttribute('data-last-added', 'false');
+    });
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * @fileoverview Cart Drawer Components
+ *
+ * This module provides primitives for building a slide-out mini cart. The open state lives in
+ * the current cart service, which opens the drawer when items are added to the cart, so the
+ * drawer composes with the other cart components (e.g. Cart.LineItemRepeater and Cart.Checkout).
+ */
+
+import React from 'react';
+import {
+  AsChildSlot,
+  AsChildChildren,
+  useFocusTrap,
+} from '@wix/headless-utils/react';
+import { DataComponentTags } from '../data-component-tags.js';
+
+import { Drawer as CoreDrawer } from './core/CurrentCart.js';
+
+// Components that render actual DOM elements get test IDs on their rendered elements
+enum TestIds {
+  cartDrawerTrigger = 'cart-drawer-trigger',
+  cartDrawerOverlay = 'cart-drawer-overlay',
+  cartDrawerContent = 'cart-drawer-content',
+  cartDrawerClose = 'cart-drawer-close',
+}
+
+interface DrawerContextValue {
+  /** ID of the drawer content element, referenced by the trigger */
+  contentId: string;
+}
+
+const DrawerContext = React.createContext<DrawerContextValue | null>(null);
+
+/**
+ * Hook to access drawer context
+ */
+function useDrawerContext(): DrawerContextValue {
+  const context = React.useContext(DrawerContext);
+  if (!context) {
+    throw new Error(
+      'useDrawerContext must be used within a CurrentCart.Drawer.Root component',
+    );
+  }
+  return context;
+}
+
+/**
+ * Props for Drawer Root component
+ */
+export interface DrawerRootProps {
+  /** Child components that will have access to the drawer */
+  children: React.ReactNode;
+}
+
+/**
+ * Root component of the mini cart drawer. Must be used within CurrentCart.Root.
+ * The drawer opens when items are added to the cart; set `drawer` in `currentCartServiceConfig`
+ * to delay it (`openOnAddDelay`) or turn it off (`openOnAdd: false`).
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <CurrentCart.Root currentCartServiceConfig={{ ...cartConfig, drawer: { openOnAddDelay: 500 } }}>
+ *   <CurrentCart.Drawer.Root>
+ *     <CurrentCart.Drawer.Trigger label="Cart" />
+ *     <CurrentCart.Drawer.Overlay className="fixed inset-0 bg-black/50" />
+ *     <CurrentCart.Drawer.Content className="fixed right-0 top-0 h-full w-96 bg-white">
+ *       <CurrentCart.Drawer.Close />
+ *       <Cart.LineItemRepeater>
+ *         <LineItem.Title />
+ *       </Cart.LineItemRepeater>
+ *       <Cart.Checkout />
+ *     </CurrentCart.Drawer.Content>
+ *   </CurrentCart.Drawer.Root>
+ * </CurrentCart.Root>
+ * ```
+ */
+export const Root = ({ children }: DrawerRootProps) => {
+  const contentId = React.useId();
+
+  return (
+    <DrawerContext.Provider value={{ contentId }}>
+      {children}
+    </DrawerContext.Provider>
+  );
+};
+
+Root.displayName = 'CurrentCart.Drawer.Root';
+
+/**
+ * Props for Drawer Trigger component
+ */
+export interface DrawerTriggerProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{
+    isOpen: boolean;
+    toggle: () => void;
+  }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+  /** Label for the button */
+  label?: string;
+}
+
+/**
+ * Button that opens the drawer, or closes it when open.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <CurrentCart.Drawer.Trigger label="Cart" className="btn-secondary" />
+ *
+ * // Custom rendering with asChild
+ * <CurrentCart.Drawer.Trigger asChild>
+ *   {React.forwardRef(({ isOpen, toggle }, ref) => (
+ *     <button ref={ref} onClick={toggle} aria-expanded={isOpen}>
+ *       <CartIcon />
+ *     </button>
+ *   ))}
+ * </CurrentCart.Drawer.Trigger>
+ * ```
+ */
+export const Trigger = React.forwardRef<HTMLButtonElement, DrawerTriggerProps>(
+  (props, ref) => {
+    const { asChild, children, className, label, ...otherProps } = props;
+    const { contentId } = useDrawerContext();
+    const buttonLabel = label || 'Cart';
+
+    return (
+      <CoreDrawer>
+        {({ isOpen, toggle }) => (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            className={className}
+            onClick={toggle}
+            aria-haspopup="dialog"
+            aria-expanded={isOpen}
+            aria-controls={contentId}
+            data-testid={TestIds.cartDrawerTrigger}
+            data-open={isOpen}
+            customElement={children}
+            customElementProps={{ isOpen, toggle }}
+            content={buttonLabel}
+            {...otherProps}
+          >
+            <button type="button">{buttonLabel}</button>
+          </AsChildSlot>
+        )}
+      </CoreDrawer>
+    );
+  },
+);
+
+Trigger.displayName = 'CurrentCart.Drawer.Trigger';
+
+/**
+ * Props for Drawer Overlay component
+ */
+export interface DrawerOverlayProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{ close: () => void }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+}
+
+/**
+ * Backdrop rendered behind the drawer while it is open. Clicking it closes the drawer.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <CurrentCart.Drawer.Overlay className="fixed inset-0 bg-black/50" />
+ * ```
+ */
+export const Overlay = React.forwardRef<HTMLElement, DrawerOverlayProps>(
+  (props, ref) => {
+    const { asChild, children, className, ...otherProps } = props;
+
+    return (
+      <CoreDrawer>
+        {({ isOpen, close }) => {
+          if (!isOpen) {
+            return null;
+          }
+
+          return (
+            <AsChildSlot
+              ref={ref}
+              asChild={asChild}
+              className={className}
+              onClick={close}
+              aria-hidden="true"
+              data-testid={TestIds.cartDrawerOverlay}
+              customElement={children}
+              customElementProps={{ close }}
+              {...otherProps}
+            >
+              <div />
+            </AsChildSlot>
+          );
+        }}
+      </CoreDrawer>
+    );
+  },
+);
+
+Overlay.displayName = 'CurrentCart.Drawer.Overlay';
+
+/**
+ * Props for Drawer Content component
+ */
+export interface DrawerContentProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Cart components to display in the drawer */
+  children: React.ReactNode;
+  /** CSS classes to apply to the default element */
+  className?: string;
+  /** Accessible label of the drawer. Defaults to "Cart" */
+  label?: string;
+}
+
+/**
+ * Dialog displaying the mini cart while the drawer is open. Traps the focus while open,
+ * closes on Escape and restores the focus to the previously focused element on close.
+ * Line items rendered inside get `data-last-added="true"` while they are the item just added.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <CurrentCart.Drawer.Content className="fixed right-0 top-0 h-full w-96 bg-white p-6">
+ *   <Cart.LineItemRepeater>
+ *     <LineItem.Image className="w-16 h-16" />
+ *     <LineItem.Title />
+ *   </Cart.LineItemRepeater>
+ *   <Cart.Checkout />
+ * </CurrentCart.Drawer.Content>
+ * ```
+ */
+export const Content = React.forwardRef<HTMLElement, DrawerContentProps>(
+  (props, ref) => {
+    return (
+      <CoreDrawer>
+        {({ isOpen, close }) =>
+          isOpen ? <DrawerDialog ref={ref} {...props} onClose={close} /> : null
+        }
+      </CoreDrawer>
+    );
+  },
+);
+
+Content.displayName = 'CurrentCart.Drawer.Content';
+
+/**
+ * Dialog element of Drawer.Content, trapping the focus while mounted.
+ *
+ * @private
+ */
+const DrawerDialog = React.forwardRef<
+  HTMLElement,
+  DrawerContentProps & { onClose: () => void }
+>((props, ref) => {
+  const { asChild, children, className, label, onClose, ...otherProps } = props;
+  const { contentId } = useDrawerContext();
+  const dialogRef = React.useRef<HTMLElement | null>(null);
+
+  useFocusTrap(dialogRef, { onEscape: onClose, restoreFocus: true });
+
+  const setRefs = (element: HTMLElement | null) => {
+    dialogRef.current = element;
+    if (typeof ref === 'function') {
+      ref(element);
+    } else if (ref) {
+      ref.current = element;
+    }
+  };
+
+  return (
+    <AsChildSlot
+      {...otherProps}
+      ref={setRefs}
+      asChild={asChild}
+      className={className}
+      id={contentId}
+      role="dialog"
+      aria-modal="true"
+      aria-label={label || 'Cart'}
+      tabIndex={-1}
+      data-testid={TestIds.cartDrawerContent}
+      data-component-tag={DataComponentTags.cartDrawerContent}
+      customElement={children}
+    >
+      <div>{children}</div>
+    </AsChildSlot>
+  );
+});
+
+/**
+ * Props for Drawer Close component
+ */
+export interface DrawerCloseProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{ close: () => void }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+  /** Label for the button */
+  label?: string;
+}
+
+/**
+ * Button that closes the drawer.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <CurrentCart.Drawer.Close label="Close" className="absolute top-4 right-4" />
+ * ```
+ */
+export const Close = React.forwardRef<HTMLButtonElement, DrawerCloseProps>(
+  (props, ref) => {
+    const { asChild, children, className, label, ...otherProps } = props;
+    const buttonLabel = label || 'Close';
+
+    return (
+      <CoreDrawer>
+        {({ close }) => (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            className={className}
+            onClick={close}
+            data-testid={TestIds.cartDrawerClose}
+            customElement={children}
+            customElementProps={{ close }}
+            content={buttonLabel}
+            {...otherProps}
+          >
+            <button type="button">{buttonLabel}</button>
+          </AsChildSlot>
+        )}
+      </CoreDrawer>
+    );
+  },
+);
+
+Close.displayName = 'CurrentCart.Drawer.Close';
@@ -0,0 +1,121 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import * as CartSaveForLater from './CartSaveForLater';
+import * as LineItem from './LineItem';
+import { signal } from '../vitest.helpers';
+
+const savedItem = {
+  id: 'saved-1',
+  catalogReference: { catalogItemId: 'product-1', appId: 'app-1' },
+  quantity: 2,
+  productName: 'Blue Shirt',
+  image: null,
+  price: { amount: '25', formattedAmount: '$25.00' },
+  selectedOptions: [{ name: 'Size', type: 'text', value: 'M' }],
+  savedDate: '2024-01-01T00:00:00.000Z',
+};
+
+const mockService = {
+  savedItems: signal<any[]>([savedItem]),
+  savedCount: signal(1),
+  isLoading: signal(false),
+  error: signal<string | null>(null),
+  saveForLater: vi.fn(),
+  moveToCart: vi.fn(),
+  removeSavedItem: vi.fn(),
+};
+
+vi.mock('@wix/services-manager-react', async () =>
+  (await import('../vitest.helpers')).mockServicesManager(() => mockService),
+);
+
+describe('CartSaveForLater', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockService.savedItems = signal<any[]>([savedItem]);
+    mockService.savedCount = signal(1);
+  });
+
+  describe('Trigger', () => {
+    it('saves the line item of the closest LineItem.Root', () => {
+      render(
+        <LineItem.Root item={{ _id: 'line-item-1' }}>
+          <CartSaveForLater.Trigger />
+        </LineItem.Root>,
+      );
+
+      fireEvent.click(screen.getByTestId('save-for-later-trigger'));
+      expect(mockService.saveForLater).toHaveBeenCalledWith('line-item-1');
+    });
+
+    it('saves the line item passed as lineItemId', () => {
+      render(<CartSaveForLater.Trigger lineItemId="line-item-2" />);
+
+      fireEvent.click(screen.getByText('Save for later'));
+      expect(mockService.saveForLater).toHaveBeenCalledWith('line-item-2');
+    });
+
+    it('renders nothing without a line item', () => {
+      const { container } = render(<CartSaveForLater.Trigger />);
+
+      expect(container).toBeEmptyDOMElement();
+    });
+  });
+
+  describe('SavedItems', () => {
+    it('renders data-component-tag attribute on first DOM element', () => {
+      const { container } = render(
+        <CartSaveForLater.SavedItems>
+          <div>Content</div>
+        </CartSaveForLater.SavedItems>,
+      );
+
+      expect(container.firstElementChild).toHaveAttribute(
+        'data-component-tag',
+        'ecom.cart-saved-items',
+      );
+    });
+
+    it('renders the empty state when no items are saved', () => {
+      mockService.savedItems = signal<any[]>([]);
+      mockService.savedCount = signal(0);
+
+      render(
+        <CartSaveForLater.SavedItems emptyState={<p>Nothing saved</p>}>
+          <div>Content</div>
+        </CartSaveForLater.SavedItems>,
+      );
+
+      expect(screen.getByText('Nothing saved')).toBeInTheDocument();
+      expect(screen.queryByText('Content')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('SavedItemRepeater', () => {
+    it('renders the saved item and moves it back to the cart', () => {
+      render(
+        <CartSaveForLater.SavedItemRepeater>
+          <CartSaveForLater.ItemTitle />
+          <CartSaveForLater.ItemPrice />
+          <CartSaveForLater.MoveToCart />
+          <CartSaveForLater.Remove />
+        </CartSaveForLater.SavedItemRepeater>,
+      );
+
+      expect(screen.getByTestId('saved-item-title')).toHaveTextContent(
+        'Blue Shirt',
+      );
+      expect(screen.getByTestId('saved-item-price')).toHaveTextContent(
+        '$25.00',
+      );
+
+      fireEvent.click(screen.getByTestId('saved-item-move-to-cart'));
+      expect(mockService.moveToCart).toHaveBeenCalledWith('saved-1');
+
+      fireEvent.click(screen.getByTestId('saved-item-remove'));
+      expect(mockService.removeSavedItem).toHaveBeenCalledWith('saved-1');
+    });
+  });
+});
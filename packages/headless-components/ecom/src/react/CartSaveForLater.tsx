@@ -0,0 +1,613 @@
+/**
+ * @fileoverview Cart Save For Later Components
+ *
+ * This module provides components for moving cart line items to a list of items saved for later
+ * and back. The saved list is persisted in the browser, so it survives reloads and is shared by tabs.
+ */
+
+import React from 'react';
+import { Slot } from '@radix-ui/react-slot';
+import { AsChildSlot, AsChildChildren } from '@wix/headless-utils/react';
+import { WixMediaImage } from '@wix/headless-media/react';
+import { DataComponentTags } from '../data-component-tags.js';
+import type {
+  SavedForLaterServiceConfig,
+  SavedItem as SavedItemData,
+} from '../services/saved-for-later-service.js';
+import { useLineItemContext } from './LineItem.js';
+import * as SelectedOption from './SelectedOption.js';
+
+import {
+  Root as CoreRoot,
+  SaveForLater as CoreSaveForLater,
+  SavedItems as CoreSavedItems,
+  SavedItem as CoreSavedItem,
+} from './core/SavedForLater.js';
+
+// Components that render actual DOM elements get test IDs on their rendered elements
+enum TestIds {
+  saveForLaterTrigger = 'save-for-later-trigger',
+  savedItems = 'saved-items',
+  savedItemTitle = 'saved-item-title',
+  savedItemImage = 'saved-item-image',
+  savedItemPrice = 'saved-item-price',
+  savedItemSelectedOption = 'saved-item-selected-option',
+  savedItemMoveToCart = 'saved-item-move-to-cart',
+  savedItemRemove = 'saved-item-remove',
+}
+
+/**
+ * Context for the saved item rendered by SavedItemRepeater
+ */
+interface SavedItemContextValue {
+  item: SavedItemData;
+}
+
+const SavedItemContext = React.createContext<SavedItemContextValue | null>(
+  null,
+);
+
+/**
+ * Hook to access saved item context
+ */
+function useSavedItemContext(): SavedItemContextValue {
+  const context = React.useContext(SavedItemContext);
+  if (!context) {
+    throw new Error(
+      'useSavedItemContext must be used within a Cart.SaveForLater.SavedItemRepeater component',
+    );
+  }
+  return context;
+}
+
+/**
+ * Props for SaveForLater Root component
+ */
+export interface SaveForLaterRootProps {
+  /** Child components that will have access to the saved items */
+  children: React.ReactNode;
+  /** Configuration for the saved for later service */
+  savedForLaterServiceConfig?: SavedForLaterServiceConfig;
+}
+
+/**
+ * Root component that provides the saved for later service to its children.
+ * Must be rendered inside `CurrentCart.Root`, and around both the line items and the saved items list.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <CurrentCart.Root currentCartServiceConfig={cartConfig}>
+ *   <Cart.SaveForLater.Root>
+ *     <Cart.LineItemRepeater>
+ *       <LineItem.Title />
+ *       <Cart.SaveForLater.Trigger />
+ *     </Cart.LineItemRepeater>
+ *
+ *     <Cart.SaveForLater.SavedItems emptyState={<p>Nothing saved for later</p>}>
+ *       <Cart.SaveForLater.SavedItemRepeater>
+ *         <Cart.SaveForLater.ItemTitle />
+ *         <Cart.SaveForLater.MoveToCart />
+ *         <Cart.SaveForLater.Remove />
+ *       </Cart.SaveForLater.SavedItemRepeater>
+ *     </Cart.SaveForLater.SavedItems>
+ *   </Cart.SaveForLater.Root>
+ * </CurrentCart.Root>
+ * ```
+ */
+export const Root = ({
+  children,
+  savedForLaterServiceConfig,
+}: SaveForLaterRootProps) => {
+  return (
+    <CoreRoot savedForLaterServiceConfig={savedForLaterServiceConfig}>
+      {children}
+    </CoreRoot>
+  );
+};
+
+/**
+ * Props for button components of the saved for later list
+ */
+export interface SaveForLaterButtonProps {
+  asChild?: boolean;
+  className?: string;
+  children?:
+    | React.ReactNode
+    | React.ForwardRefRenderFunction<
+        HTMLButtonElement,
+        {
+          onClick: () => void;
+          isLoading: boolean;
+        }
+      >;
+}
+
+/**
+ * Props for SaveForLater.Trigger component
+ */
+export interface SaveForLaterTriggerProps extends SaveForLaterButtonProps {
+  /** ID of the line item to save. Defaults to the line item of the closest LineItem.Root */
+  lineItemId?: string;
+}
+
+/**
+ * Renders a button from the shared button props.
+ *
+ * @private
+ */
+function renderButton(
+  {
+    asChild,
+    children,
+    className,
+    ...props
+  }: SaveForLaterButtonProps & { [key: string]: any },
+  ref: React.ForwardedRef<HTMLButtonElement>,
+  {
+    onClick,
+    isLoading,
+    testId,
+    defaultLabel,
+  }: {
+    onClick: () => void;
+    isLoading: boolean;
+    testId: TestIds;
+    defaultLabel: string;
+  },
+) {
+  if (asChild && typeof children === 'function') {
+    return children({ onClick, isLoading }, ref);
+  }
+
+  const Comp = asChild ? Slot : 'button';
+
+  return (
+    <Comp
+      ref={ref}
+      type="button"
+      onClick={onClick}
+      disabled={isLoading}
+      className={className}
+      data-testid={testId}
+      data-loading={isLoading}
+      {...props}
+    >
+      {typeof children !== 'function' ? children || defaultLabel : null}
+    </Comp>
+  );
+}
+
+/**
+ * Button that moves a line item from the cart to the saved list.
+ * Place it inside `LineItem.Root` (e.g. within `Cart.LineItemRepeater`), or pass the `lineItemId`.
+ * The item stays in the cart when the server rejects the removal.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <LineItem.Root item={item}>
+ *   <LineItem.Title />
+ *   <Cart.SaveForLater.Trigger className="text-sm underline">
+ *     Save for later
+ *   </Cart.SaveForLater.Trigger>
+ * </LineItem.Root>
+ *
+ * // Custom rendering with asChild
+ * <Cart.SaveForLater.Trigger asChild>
+ *   {React.forwardRef(({onClick, isLoading}, ref) => (
+ *     <button ref={ref} onClick={onClick} disabled={isLoading}>
+ *       {isLoading ? 'Saving...' : 'Move to wishlist'}
+ *     </button>
+ *   ))}
+ * </Cart.SaveForLater.Trigger>
+ * ```
+ */
+export const Trigger = React.forwardRef<
+  HTMLButtonElement,
+  SaveForLaterTriggerProps
+>(({ lineItemId, ...props }, ref) => {
+  const lineItemContext = useLineItemContext(true);
+  const id = lineItemId || lineItemContext?.lineItem._id;
+
+  if (!id) {
+    return null;
+  }
+
+  return (
+    <CoreSaveForLater lineItemId={id}>
+      {({ save, isLoading }) =>
+        renderButton(props, ref, {
+          onClick: save,
+          isLoading,
+          testId: TestIds.saveForLaterTrigger,
+          defaultLabel: 'Save for later',
+        })
+      }
+    </CoreSaveForLater>
+  );
+});
+
+Trigger.displayName = 'CartSaveForLater.Trigger';
+
+/**
+ * Props for SaveForLater.SavedItems component
+ */
+export interface SavedItemsProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Child components or custom render function when using asChild */
+  children: AsChildChildren<{
+    items: SavedItemData[];
+    count: number;
+    error: string | null;
+  }>;
+  /** Content to display when no items are saved */
+  emptyState?: React.ReactNode;
+  /** CSS classes to apply to the default element */
+  className?: string;
+  /** Additional HTML attributes */
+  [key: string]: any;
+}
+
+/**
+ * Container for the items saved for later. Renders the empty state when no items are saved.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.SaveForLater.SavedItems
+ *   className="space-y-4"
+ *   emptyState={<p>You haven't saved any items</p>}
+ * >
+ *   <h2>Saved for later</h2>
+ *   <Cart.SaveForLater.SavedItemRepeater>
+ *     <Cart.SaveForLater.ItemImage className="w-16 h-16" />
+ *     <Cart.SaveForLater.ItemTitle />
+ *     <Cart.SaveForLater.ItemSelectedOptions>
+ *       <SelectedOption.Text />
+ *       <SelectedOption.Color />
+ *     </Cart.SaveForLater.ItemSelectedOptions>
+ *     <Cart.SaveForLater.ItemPrice />
+ *     <Cart.SaveForLater.MoveToCart />
+ *     <Cart.SaveForLater.Remove />
+ *   </Cart.SaveForLater.SavedItemRepeater>
+ * </Cart.SaveForLater.SavedItems>
+ * ```
+ */
+export const SavedItems = React.forwardRef<HTMLElement, SavedItemsProps>(
+  (props, ref) => {
+    const { asChild, children, emptyState, ...otherProps } = props;
+
+    return (
+      <CoreSavedItems>
+        {({ items, count, error, isLoading }) => {
+          if (count === 0) {
+            return emptyState || null;
+          }
+
+          return (
+            <AsChildSlot
+              ref={ref}
+              asChild={asChild}
+              data-testid={TestIds.savedItems}
+              data-component-tag={DataComponentTags.cartSavedItems}
+              data-loading={isLoading}
+              customElement={children}
+              customElementProps={{ items, count, error }}
+              {...otherProps}
+            >
+              <div>{children}</div>
+            </AsChildSlot>
+          );
+        }}
+      </CoreSavedItems>
+    );
+  },
+);
+
+SavedItems.displayName = 'CartSaveForLater.SavedItems';
+
+/**
+ * Props for SaveForLater.SavedItemRepeater component
+ */
+export interface SavedItemRepeaterProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Renders its children once for each saved item, most recently saved first.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.SaveForLater.SavedItemRepeater>
+ *   <Cart.SaveForLater.ItemTitle />
+ *   <Cart.SaveForLater.MoveToCart />
+ * </Cart.SaveForLater.SavedItemRepeater>
+ * ```
+ */
+export function SavedItemRepeater(
+  props: SavedItemRepeaterProps,
+): React.ReactNode {
+  return (
+    <CoreSavedItems>
+      {({ items }) => (
+        <>
+          {items.map((item) => (
+            <SavedItemContext.Provider key={item.id} value={{ item }}>
+              {props.children}
+            </SavedItemContext.Provider>
+          ))}
+        </>
+      )}
+    </CoreSavedItems>
+  );
+}
+
+SavedItemRepeater.displayName = 'CartSaveForLater.SavedItemRepeater';
+
+/**
+ * Props for SaveForLater.ItemTitle component
+ */
+export interface ItemTitleProps {
+  asChild?: boolean;
+  children?: AsChildChildren<{ title: string }>;
+  className?: string;
+  [key: string]: any;
+}
+
+/**
+ * Displays the product name of the saved item.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.SaveForLater.ItemTitle className="font-medium" />
+ *
+ * <Cart.SaveForLater.ItemTitle asChild>
+ *   <h3 className="font-medium" />
+ * </Cart.SaveForLater.ItemTitle>
+ * ```
+ */
+export const ItemTitle = React.forwardRef<HTMLElement, ItemTitleProps>(
+  (props, ref) => {
+    const { asChild, children, ...otherProps } = props;
+    const { item } = useSavedItemContext();
+
+    return (
+      <CoreSavedItem item={item}>
+        {({ title }) => (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            data-testid={TestIds.savedItemTitle}
+            customElement={children}
+            customElementProps={{ title }}
+            content={title}
+            {...otherProps}
+          >
+            <span>{title}</span>
+          </AsChildSlot>
+        )}
+      </CoreSavedItem>
+    );
+  },
+);
+
+ItemTitle.displayName = 'CartSaveForLater.ItemTitle';
+
+/**
+ * Props for SaveForLater.ItemImage component
+ */
+export interface ItemImageProps {
+  asChild?: boolean;
+  children?: AsChildChildren<{ src: string; alt: string }>;
+  className?: string;
+  [key: string]: any;
+}
+
+/**
+ * Displays the product image of the saved item using WixMediaImage.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.SaveForLater.ItemImage className="w-16 h-16 rounded-lg object-cover" />
+ * ```
+ */
+export const ItemImage = React.forwardRef<HTMLImageElement, ItemImageProps>(
+  (props, ref) => {
+    const { asChild, children, ...otherProps } = props;
+    const { item } = useSavedItemContext();
+
+    return (
+      <CoreSavedItem item={item}>
+        {({ image, title }) => {
+          const src = image || '';
+          const alt = title || 'Product image';
+
+          if (asChild && children) {
+            return children({ src, alt }, ref);
+          }
+
+          return (
+            <WixMediaImage
+              ref={ref}
+              media={{ image: item.image || undefined }}
+              alt={alt}
+              data-testid={TestIds.savedItemImage}
+              {...otherProps}
+            />
+          );
+        }}
+      </CoreSavedItem>
+    );
+  },
+);
+
+ItemImage.displayName = 'CartSaveForLater.ItemImage';
+
+/**
+ * Props for SaveForLater.ItemPrice component
+ */
+export interface ItemPriceProps {
+  asChild?: boolean;
+  children?: AsChildChildren<{ price: string }>;
+  className?: string;
+  [key: string]: any;
+}
+
+/**
+ * Displays the unit price of the saved item when it was saved. Does not render when the price is unknown.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.SaveForLater.ItemPrice className="text-sm text-gray-600" />
+ * ```
+ */
+export const ItemPrice = React.forwardRef<HTMLElement, ItemPriceProps>(
+  (props, ref) => {
+    const { asChild, children, ...otherProps } = props;
+    const { item } = useSavedItemContext();
+
+    return (
+      <CoreSavedItem item={item}>
+        {({ price }) => {
+          if (!price) {
+            return null;
+          }
+
+          return (
+            <AsChildSlot
+              ref={ref}
+              asChild={asChild}
+              data-testid={TestIds.savedItemPrice}
+              customElement={children}
+              customElementProps={{ price }}
+              content={price}
+              {...otherProps}
+            >
+              <span>{price}</span>
+            </AsChildSlot>
+          );
+        }}
+      </CoreSavedItem>
+    );
+  },
+);
+
+ItemPrice.displayName = 'CartSaveForLater.ItemPrice';
+
+/**
+ * Props for SaveForLater.ItemSelectedOptions component
+ */
+export interface ItemSelectedOptionsProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Renders SelectedOption.Root for each option selected for the saved item, e.g. its color and size.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.SaveForLater.ItemSelectedOptions>
+ *   <SelectedOption.Text />
+ *   <SelectedOption.Color />
+ * </Cart.SaveForLater.ItemSelectedOptions>
+ * ```
+ */
+export function ItemSelectedOptions(
+  props: ItemSelectedOptionsProps,
+): React.ReactNode {
+  const { item } = useSavedItemContext();
+
+  return (
+    <CoreSavedItem item={item}>
+      {({ selectedOptions }) => (
+        <>
+          {selectedOptions.map((option, index) => (
+            <SelectedOption.Root
+              key={`${option.name}-${index}`}
+              option={option}
+              data-testid={TestIds.savedItemSelectedOption}
+            >
+              {props.children}
+            </SelectedOption.Root>
+          ))}
+        </>
+      )}
+    </CoreSavedItem>
+  );
+}
+
+ItemSelectedOptions.displayName = 'CartSaveForLater.ItemSelectedOptions';
+
+/**
+ * Button that moves the saved item back to the cart, with its options and quantity.
+ * The item stays in the saved list when adding it to the cart fails.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.SaveForLater.MoveToCart className="btn-primary">
+ *   Move to cart
+ * </Cart.SaveForLater.MoveToCart>
+ * ```
+ */
+export const MoveToCart = React.forwardRef<
+  HTMLButtonElement,
+  SaveForLaterButtonProps
+>((props, ref) => {
+  const { item } = useSavedItemContext();
+
+  return (
+    <CoreSavedItem item={item}>
+      {({ moveToCart, isLoading }) =>
+        renderButton(props, ref, {
+          onClick: moveToCart,
+          isLoading,
+          testId: TestIds.savedItemMoveToCart,
+          defaultLabel: 'Move to cart',
+        })
+      }
+    </CoreSavedItem>
+  );
+});
+
+MoveToCart.displayName = 'CartSaveForLater.MoveToCart';
+
+/**
+ * Button that removes the saved item from the saved list.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.SaveForLater.Remove className="text-sm text-red-500">
+ *   Remove
+ * </Cart.SaveForLater.Remove>
+ * ```
+ */
+export const Remove = React.forwardRef<
+  HTMLButtonElement,
+  SaveForLaterButtonProps
+>((props, ref) => {
+  const { item } = useSavedItemContext();
+
+  return (
+    <CoreSavedItem item={item}>
+      {({ remove, isLoading }) =>
+        renderButton(props, ref, {
+          onClick: remove,
+          isLoading,
+          testId: TestIds.savedItemRemove,
+          defaultLabel: 'Remove',
+        })
+      }
+    </CoreSavedItem>
+  );
+});
+
+Remove.displayName = 'CartSaveForLater.Remove';
@@ -0,0 +1,107 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import * as CartShippingEstimator from './CartShippingEstimator';
+import { signal } from '../vitest.helpers';
+
+const mockService = {
+  cart: signal<any>({ selectedShippingOption: { code: 'express' } }),
+  cartTotals: signal<any>({
+    shipping: { code: 'express', carrierId: 'carrier-1' },
+    shippingOptions: [
+      {
+        carrierId: 'carrier-1',
+        code: 'standard',
+        title: 'Standard',
+        deliveryTime: '5-7 days',
+        price: { amount: 5, formattedAmount: '$5.00' },
+      },
+      {
+        carrierId: 'carrier-1',
+        code: 'express',
+        title: 'Express',
+        deliveryTime: null,
+        price: { amount: 15, formattedAmount: '$15.00' },
+      },
+    ],
+  }),
+  shippingDestination: signal<any>(null),
+  isTotalsLoading: signal(false),
+  setShippingDestination: vi.fn(),
+  selectShippingOption: vi.fn(),
+};
+
+vi.mock('@wix/services-manager-react', async () =>
+  (await import('../vitest.helpers')).mockServicesManager(() => mockService),
+);
+
+describe('CartShippingEstimator', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Root', () => {
+    it('renders data-component-tag attribute on first DOM element', () => {
+      const { container } = render(
+        <CartShippingEstimator.Root>
+          <div>Content</div>
+        </CartShippingEstimator.Root>,
+      );
+
+      expect(container.firstElementChild).toHaveAttribute(
+        'data-component-tag',
+        'ecom.cart-shipping-estimator-root',
+      );
+    });
+
+    it('sets the entered destination on submit', () => {
+      render(
+        <CartShippingEstimator.Root>
+          <CartShippingEstimator.Country />
+          <CartShippingEstimator.PostalCode />
+          <CartShippingEstimator.Trigger />
+        </CartShippingEstimator.Root>,
+      );
+
+      fireEvent.change(screen.getByTestId('shipping-estimator-country'), {
+        target: { value: 'US' },
+      });
+      fireEvent.change(screen.getByTestId('shipping-estimator-postal-code'), {
+        target: { value: ' 94105 ' },
+      });
+      fireEvent.click(screen.getByTestId('shipping-estimator-trigger'));
+
+      expect(mockService.setShippingDestination).toHaveBeenCalledWith({
+        country: 'US',
+        subdivision: undefined,
+        postalCode: '94105',
+      });
+    });
+
+    it('disables the trigger until a country is entered', () => {
+      render(
+        <CartShippingEstimator.Root>
+          <CartShippingEstimator.Trigger />
+        </CartShippingEstimator.Root>,
+      );
+
+      expect(screen.getByTestId('shipping-estimator-trigger')).toBeDisabled();
+    });
+  });
+
+  describe('Options', () => {
+    it('renders the options and selects one on change', () => {
+      render(<CartShippingEstimator.Options />);
+
+      const [standard, express] = screen.getAllByRole('radio');
+      expect(express).toBeChecked();
+      expect(standard).not.toBeChecked();
+
+      fireEvent.click(standard!);
+      expect(mockService.selectShippingOption).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'standard', carrierId: 'carrier-1' }),
+      );
+    });
+  });
+});
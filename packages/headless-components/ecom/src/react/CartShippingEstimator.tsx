@@ -0,0 +1,500 @@
+/**
+ * @fileoverview Cart Shipping Estimator Components
+ *
+ * This module provides components for estimating shipping and tax on the cart page.
+ * These components manage the local destination input state separately from the destination
+ * the cart totals are estimated for, which only changes when the shopper submits the form.
+ */
+
+import React from 'react';
+import { Slot } from '@radix-ui/react-slot';
+import { DataComponentTags } from '../data-component-tags.js';
+import type { CartShippingOption } from '../services/cart-totals.js';
+import type { CartShippingDestination } from '../services/current-cart-service.js';
+
+import { ShippingEstimator as CoreShippingEstimator } from './core/CurrentCart.js';
+
+// Components that render actual DOM elements get test IDs on their rendered elements
+enum TestIds {
+  shippingEstimatorCountry = 'shipping-estimator-country',
+  shippingEstimatorSubdivision = 'shipping-estimator-subdivision',
+  shippingEstimatorPostalCode = 'shipping-estimator-postal-code',
+  shippingEstimatorTrigger = 'shipping-estimator-trigger',
+  shippingEstimatorOptions = 'shipping-estimator-options',
+}
+
+type DestinationField = keyof CartShippingDestination;
+
+/**
+ * Context for managing local destination input state
+ */
+interface ShippingEstimatorContextValue {
+  /** Current input values (what the user is typing) */
+  contextDestination: Record<DestinationField, string>;
+  /** Function to update an input value */
+  setContextField: (field: DestinationField, value: string) => void;
+}
+
+const ShippingEstimatorContext =
+  React.createContext<ShippingEstimatorContextValue | null>(null);
+
+/**
+ * Hook to access shipping estimator context
+ */
+function useShippingEstimatorContext(): ShippingEstimatorContextValue {
+  const context = React.useContext(ShippingEstimatorContext);
+  if (!context) {
+    throw new Error(
+      'useShippingEstimatorContext must be used within a Cart.ShippingEstimator.Root component',
+    );
+  }
+  return context;
+}
+
+/**
+ * Props for ShippingEstimator Root component
+ */
+export interface ShippingEstimatorRootProps {
+  /** Child components that will have access to shipping estimator context */
+  children: React.ReactNode;
+  /** Initial input values. Defaults to the destination the totals are estimated for */
+  defaultValue?: Partial<CartShippingDestination>;
+  /** CSS classes to apply to the form element */
+  className?: string;
+}
+
+/**
+ * Root component that provides shipping estimator context to its children.
+ * Renders a form that, when submitted, sets the destination the cart totals are
+ * estimated for. The totals are then re-estimated with shipping and tax.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.ShippingEstimator.Root>
+ *   <Cart.ShippingEstimator.Country placeholder="Country (e.g. US)" />
+ *   <Cart.ShippingEstimator.Subdivision placeholder="State (e.g. US-CA)" />
+ *   <Cart.ShippingEstimator.PostalCode placeholder="Zip code" />
+ *   <Cart.ShippingEstimator.Trigger>Estimate</Cart.ShippingEstimator.Trigger>
+ *   <Cart.ShippingEstimator.Options />
+ * </Cart.ShippingEstimator.Root>
+ * ```
+ */
+export const Root = React.forwardRef<
+  HTMLFormElement,
+  ShippingEstimatorRootProps
+>(({ children, defaultValue, className }, ref) => {
+  return (
+    <CoreShippingEstimator>
+      {({ destination, setDestination }) => (
+        <RootForm
+          ref={ref}
+          defaultValue={defaultValue || destination || {}}
+          onSubmit={setDestination}
+          className={className}
+        >
+          {children}
+        </RootForm>
+      )}
+    </CoreShippingEstimator>
+  );
+});
+
+Root.displayName = 'CartShippingEstimator.Root';
+
+/**
+ * Form holding the local destination state of Root
+ *
+ * @private
+ */
+const RootForm = React.forwardRef<
+  HTMLFormElement,
+  {
+    children: React.ReactNode;
+    defaultValue: Partial<CartShippingDestination>;
+    onSubmit: (destination: CartShippingDestination) => void;
+    className?: string;
+  }
+>(({ children, defaultValue, onSubmit, className }, ref) => {
+  const [contextDestination, setContextDestination] = React.useState({
+    country: defaultValue.country || '',
+    subdivision: defaultValue.subdivision || '',
+    postalCode: defaultValue.postalCode || '',
+  });
+
+  const contextValue: ShippingEstimatorContextValue = {
+    contextDestination,
+    setContextField: (field, value) =>
+      setContextDestination((current) => ({ ...current, [field]: value })),
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const country = contextDestination.country.trim();
+    if (!country) return;
+
+    onSubmit({
+      country,
+      subdivision: contextDestination.subdivision.trim() || undefined,
+      postalCode: contextDestination.postalCode.trim() || undefined,
+    });
+  };
+
+  return (
+    <ShippingEstimatorContext.Provider value={contextValue}>
+      <form
+        ref={ref}
+        className={className}
+        onSubmit={handleSubmit}
+        data-component-tag={DataComponentTags.cartShippingEstimatorRoot}
+      >
+        {children}
+      </form>
+    </ShippingEstimatorContext.Provider>
+  );
+});
+
+/**
+ * Props for ShippingEstimator destination input components
+ */
+export interface ShippingEstimatorInputProps {
+  asChild?: boolean;
+  placeholder?: string;
+  className?: string;
+  children?: React.ForwardRefRenderFunction<
+    HTMLInputElement,
+    {
+      value: string;
+      onChange: (value: string) => void;
+    }
+  >;
+}
+
+/**
+ * Factory function that creates the destination input components.
+ *
+ * @internal
+ * @param field - The destination field the input edits
+ * @param testId - Test ID of the rendered input
+ * @param defaultPlaceholder - Placeholder used when none is passed
+ * @returns A React component that renders the destination input
+ */
+const DestinationInputFactory = (
+  field: DestinationField,
+  testId: TestIds,
+  defaultPlaceholder: string,
+) =>
+  React.forwardRef<HTMLInputElement, ShippingEstimatorInputProps>(
+    (
+      {
+        asChild,
+        children,
+        placeholder = defaultPlaceholder,
+        className,
+        ...props
+      },
+      ref,
+    ) => {
+      const { contextDestination, setContextField } =
+        useShippingEstimatorContext();
+
+      const value = contextDestination[field];
+      const onChange = (nextValue: string) => setContextField(field, nextValue);
+
+      if (asChild && children) {
+        return children({ value, onChange }, ref);
+      }
+
+      const Comp = asChild ? Slot : 'input';
+
+      return (
+        <Comp
+          ref={ref}
+          type="text"
+          name={field}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          className={className}
+          data-testid={testId}
+          {...props}
+        />
+      );
+    },
+  );
+
+/**
+ * Country code input (ISO-3166 alpha-2, e.g. "US"). Required to estimate.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.ShippingEstimator.Root>
+ *   <Cart.ShippingEstimator.Country asChild>
+ *     {React.forwardRef(({value, onChange, ...props}, ref) => (
+ *       <select ref={ref} {...props} value={value} onChange={(e) => onChange(e.target.value)}>
+ *         <option value="">Select country</option>
+ *         <option value="US">United States</option>
+ *         <option value="CA">Canada</option>
+ *       </select>
+ *     ))}
+ *   </Cart.ShippingEstimator.Country>
+ * </Cart.ShippingEstimator.Root>
+ * ```
+ */
+export const Country = DestinationInputFactory(
+  'country',
+  TestIds.shippingEstimatorCountry,
+  'Country',
+);
+
+Country.displayName = 'CartShippingEstimator.Country';
+
+/**
+ * Subdivision code input (ISO-3166-2, e.g. "US-CA"), such as a state or province.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.ShippingEstimator.Subdivision placeholder="State" className="px-3 py-2 border rounded" />
+ * ```
+ */
+export const Subdivision = DestinationInputFactory(
+  'subdivision',
+  TestIds.shippingEstimatorSubdivision,
+  'State / Province',
+);
+
+Subdivision.displayName = 'CartShippingEstimator.Subdivision';
+
+/**
+ * Postal or zip code input.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.ShippingEstimator.PostalCode placeholder="Zip code" className="px-3 py-2 border rounded" />
+ * ```
+ */
+export const PostalCode = DestinationInputFactory(
+  'postalCode',
+  TestIds.shippingEstimatorPostalCode,
+  'Postal code',
+);
+
+PostalCode.displayName = 'CartShippingEstimator.PostalCode';
+
+/**
+ * Props for ShippingEstimator.Trigger component
+ */
+export interface ShippingEstimatorTriggerProps {
+  asChild?: boolean;
+  className?: string;
+  children?:
+    | React.ReactNode
+    | React.ForwardRefRenderFunction<
+        HTMLButtonElement,
+        {
+          disabled: boolean;
+          isLoading: boolean;
+        }
+      >;
+}
+
+/**
+ * Submit button that estimates shipping and tax for the entered destination.
+ * Disabled while no country is entered or while the totals are being estimated.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.ShippingEstimator.Trigger className="btn-primary px-4 py-2">
+ *   Estimate
+ * </Cart.ShippingEstimator.Trigger>
+ *
+ * // Custom rendering with asChild
+ * <Cart.ShippingEstimator.Trigger asChild>
+ *   {React.forwardRef(({disabled, isLoading, ...props}, ref) => (
+ *     <button ref={ref} {...props} type="submit" disabled={disabled}>
+ *       {isLoading ? 'Calculating...' : 'Calculate shipping'}
+ *     </button>
+ *   ))}
+ * </Cart.ShippingEstimator.Trigger>
+ * ```
+ */
+export const Trigger = React.forwardRef<
+  HTMLButtonElement,
+  ShippingEstimatorTriggerProps
+>(({ asChild, children, className, ...props }, ref) => {
+  const { contextDestination } = useShippingEstimatorContext();
+
+  return (
+    <CoreShippingEstimator>
+      {({ isLoading }) => {
+        const disabled = isLoading || !contextDestination.country.trim();
+
+        if (asChild && typeof children === 'function') {
+          return children({ disabled, isLoading }, ref);
+        }
+
+        const Comp = asChild ? Slot : 'button';
+
+        return (
+          <Comp
+            ref={ref}
+            type="submit"
+            disabled={disabled}
+            className={className}
+            data-testid={TestIds.shippingEstimatorTrigger}
+            data-loading={isLoading}
+            {...props}
+          >
+            {!asChild && typeof children !== 'function'
+              ? children || (isLoading ? 'Estimating...' : 'Estimate')
+              : null}
+          </Comp>
+        );
+      }}
+    </CoreShippingEstimator>
+  );
+});
+
+Trigger.displayName = 'CartShippingEstimator.Trigger';
+
+/**
+ * Props for ShippingEstimator.Options component
+ */
+export interface ShippingEstimatorOptionsProps {
+  className?: string;
+  /** Render function called for each shipping option */
+  children?: (props: {
+    /** The shipping option */
+    option: CartShippingOption;
+    /** Whether the option is selected on the cart */
+    isSelected: boolean;
+    /** Function to select the option */
+    select: () => Promise<void>;
+    /** Whether the totals are being estimated */
+    isLoading: boolean;
+  }) => React.ReactNode;
+}
+
+/**
+ * Shipping options available for the estimated destination.
+ * Selecting an option saves it on the cart and re-estimates the totals.
+ * Renders nothing until a destination with available options is estimated.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default rendering as a radio group
+ * <Cart.ShippingEstimator.Options className="space-y-2" />
+ *
+ * // Custom rendering of each option
+ * <Cart.ShippingEstimator.Options>
+ *   {({ option, isSelected, select, isLoading }) => (
+ *     <button onClick={select} disabled={isLoading} aria-pressed={isSelected}>
+ *       {option.title} ({option.deliveryTime}) - {option.price.formattedAmount}
+ *     </button>
+ *   )}
+ * </Cart.ShippingEstimator.Options>
+ * ```
+ */
+export const Options = React.forwardRef<
+  HTMLDivElement,
+  ShippingEstimatorOptionsProps
+>(({ children, className, ...props }, ref) => {
+  return (
+    <CoreShippingEstimator>
+      {({ options, selectedOption, selectOption, isLoading }) => {
+        if (options.length === 0) {
+          return null;
+        }
+
+        return (
+          <div
+            ref={ref}
+            role="radiogroup"
+            className={className}
+            data-testid={TestIds.shippingEstimatorOptions}
+            {...props}
+          >
+            {options.map((option) => {
+              const key = `${option.carrierId}-${option.code}`;
+              const isSelected =
+                selectedOption?.code === option.code &&
+                selectedOption?.carrierId === option.carrierId;
+              const select = () => selectOption(option);
+
+              if (children) {
+                return (
+                  <React.Fragment key={key}>
+                    {children({ option, isSelected, select, isLoading })}
+                  </React.Fragment>
+                );
+              }
+
+              return (
+                <label key={key} data-selected={isSelected}>
+                  <input
+                    type="radio"
+                    name="shippingOption"
+                    checked={isSelected}
+                    disabled={isLoading}
+                    onChange={select}
+                  />
+                  <span>{option.title}</span>
+                  {option.deliveryTime && <span>{option.deliveryTime}</span>}
+                  <span>{option.price.formattedAmount}</span>
+                </label>
+              );
+            })}
+          </div>
+        );
+      }}
+    </CoreShippingEstimator>
+  );
+});
+
+Options.displayName = 'CartShippingEstimator.Options';
+
+/**
+ * Props for ShippingEstimator.Raw component
+ */
+export interface ShippingEstimatorRawProps {
+  /** Render prop function that receives all shipping estimation data and actions */
+  children: (props: {
+    /** Destination the totals are estimated for, if any */
+    destination: CartShippingDestination | null;
+    /** Function to set the destination */
+    setDestination: (destination: CartShippingDestination | null) => void;
+    /** Shipping options available for the destination */
+    options: CartShippingOption[];
+    /** The shipping option selected on the cart, if any */
+    selectedOption: CartShippingOption | null;
+    /** Function to select a shipping option */
+    selectOption: (option: CartShippingOption) => Promise<void>;
+    /** Whether the totals are being estimated */
+    isLoading: boolean;
+  }) => React.ReactNode;
+}
+
+/**
+ * Raw component that exposes all shipping estimation render props without any UI wrapper.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Cart.ShippingEstimator.Raw>
+ *   {({ destination, setDestination }) => (
+ *     <button onClick={() => setDestination(null)} disabled={!destination}>
+ *       Clear destination
+ *     </button>
+ *   )}
+ * </Cart.ShippingEstimator.Raw>
+ * ```
+ */
+export const Raw: React.FC<ShippingEstimatorRawProps> = ({ children }) => {
+  return <CoreShippingEstimator>{children}</CoreShippingEstimator>;
+};
@@ -142,8 +142,8 @@ export interface ActionCheckoutProps
    * Can be static content or a render function for custom behavior.
    */
   children?: AsChildChildren<{
-    /** Function to proceed to checkout */
-    proceedToCheckout: () => Promise<void>;
+    /** Function to proceed to checkout. Resolves with the checkout URL, or null if the checkout wasn't created */
+    proceedToCheckout: () => Promise<string | null>;
     /** Whether checkout is available */
     canCheckout: boolean;
     /** Whether checkout action is loading */
@@ -283,8 +283,8 @@ export interface ActionAddToCartProps
           disabled?: boolean;
           /** Whether the action is currently loading */
           isLoading: boolean;
-          /** Function to execute the action (add to cart or buy now) */
-          onClick: () => Promise<void>;
+          /** Function to execute the action (add to cart or buy now). Buy now resolves with the checkout URL, or null if the checkout wasn't created */
+          onClick: () => Promise<string | null | void>;
           /** Line items that will be processed */
           lineItems: LineItem[];
           /** Error message if any */
@@ -556,7 +556,7 @@ const ActionAddToCart = React.forwardRef<
 export interface CheckoutTriggerProps {
   /** Content to render inside the trigger */
   children: (props: {
-    createCheckout: (lineItems: LineItem[]) => Promise<void>;
+    createCheckout: (lineItems: LineItem[]) => Promise<string | null>;
     isLoading: boolean;
     error: string | null;
   }) => React.ReactNode;
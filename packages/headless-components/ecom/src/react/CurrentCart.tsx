@@ -1,6 +1,7 @@
 import { Root as CoreRoot } from './core/CurrentCart.js';
 import { Root as CartRoot } from './Cart.js';
 import { CurrentCartServiceConfig } from '../services/current-cart-service.js';
+import * as DrawerComponents from './CartDrawer.js';
 
 enum TestIds {
   currentCartRoot = 'current-cart-root',
@@ -29,3 +30,42 @@ export const Root = ({ children, currentCartServiceConfig }: RootProps) => {
 };
 
 Root.displayName = 'CurrentCart.Root';
+
+// ===== DRAWER SUB-COMPONENTS =====
+
+export type DrawerRootProps = DrawerComponents.DrawerRootProps;
+export type DrawerTriggerProps = DrawerComponents.DrawerTriggerProps;
+export type DrawerOverlayProps = DrawerComponents.DrawerOverlayProps;
+export type DrawerContentProps = DrawerComponents.DrawerContentProps;
+export type DrawerCloseProps = DrawerComponents.DrawerCloseProps;
+
+/**
+ * Mini cart drawer components namespace.
+ * The drawer opens when items are added to the cart and highlights the added line item.
+ *
+ * @example
+ * ```tsx
+ * <CurrentCart.Root currentCartServiceConfig={cartConfig}>
+ *   <CurrentCart.Drawer.Root>
+ *     <CurrentCart.Drawer.Trigger label="Cart" />
+ *     <CurrentCart.Drawer.Overlay className="fixed inset-0 bg-black/50" />
+ *     <CurrentCart.Drawer.Content className="fixed right-0 top-0 h-full w-96 bg-white">
+ *       <CurrentCart.Drawer.Close />
+ *       <Cart.LineItemRepeater>
+ *         <LineItem.LastAdded className="data-[last-added=true]:bg-yellow-50">
+ *           <LineItem.Title />
+ *         </LineItem.LastAdded>
+ *       </Cart.LineItemRepeater>
+ *       <Cart.Checkout />
+ *     </CurrentCart.Drawer.Content>
+ *   </CurrentCart.Drawer.Root>
+ * </CurrentCart.Root>
+ * ```
+ */
+export const Drawer = {
+  Root: DrawerComponents.Root,
+  Trigger: DrawerComponents.Trigger,
+  Overlay: DrawerComponents.Overlay,
+  Content: DrawerComponents.Content,
+  Close: DrawerComponents.Close,
+} as const;
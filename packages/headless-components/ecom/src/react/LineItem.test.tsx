@@ -1,8 +1,33 @@
 import { render, screen } from '@testing-library/react';
 import React from 'react';
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import '@testing-library/jest-dom';
 import * as LineItem from './LineItem';
+import { signal } from '../vitest.helpers';
+
+const mockIssues: Record<string, any[]> = {
+  'line-item-with-issues': [
+    {
+      type: 'quantity-reduced',
+      lineItemId: 'line-item-with-issues',
+      requestedQuantity: 3,
+      availableQuantity: 1,
+      message: 'Only 1 left in stock.',
+    },
+  ],
+};
+
+const mockService = {
+  cart: signal<any>({ currency: 'USD' }),
+  isLoading: signal(false),
+  isLineItemPending: () => false,
+  getLineItemIssues: (lineItemId: string) => mockIssues[lineItemId] || [],
+  fixIssues: vi.fn(),
+};
+
+vi.mock('@wix/services-manager-react', async () =>
+  (await import('../vitest.helpers')).mockServicesManager(() => mockService),
+);
 
 const mockLineItem = {
   id: 'test-line-item-id',
@@ -42,4 +67,28 @@ describe('LineItem', () => {
       expect(rootElement).toHaveTextContent('Product: Test Product');
     });
   });
+
+  describe('Issues', () => {
+    it('renders the issue messages of the line item', () => {
+      render(
+        <LineItem.Root item={{ _id: 'line-item-with-issues', quantity: 3 }}>
+          <LineItem.Issues />
+        </LineItem.Root>,
+      );
+
+      const issues = screen.getByTestId('line-item-issues');
+      expect(issues).toHaveAttribute('data-issue-types', 'quantity-reduced');
+      expect(issues).toHaveTextContent('Only 1 left in stock.');
+    });
+
+    it('does not render when the line item has no issues', () => {
+      render(
+        <LineItem.Root item={{ _id: 'line-item-without-issues' }}>
+          <LineItem.Issues />
+        </LineItem.Root>,
+      );
+
+      expect(screen.queryByTestId('line-item-issues')).not.toBeInTheDocument();
+    });
+  });
 });
@@ -1,10 +1,11 @@
 import React from 'react';
 import { type LineItem } from '../services/common-types.js';
+import { type LineItemIssue } from '../services/line-item-issues.js';
 import { AsChildSlot, AsChildChildren } from '@wix/headless-utils/react';
 import { DataComponentTags } from '../data-component-tags.js';
 import { WixMediaImage } from '@wix/headless-media/react';
 import * as SelectedOption from './SelectedOption.js';
-import { Item as CoreItem } from './core/CurrentCart.js';
+import { Item as CoreItem, Drawer as CoreDrawer } from './core/CurrentCart.js';
 
 import { Quantity as QuantityComponent } from '@wix/headless-components/react';
 
@@ -15,9 +16,18 @@ interface LineItemContextValue {
 
 const LineItemContext = React.createContext<LineItemContextValue | null>(null);
 
-function useLineItemContext(): LineItemContextValue {
+/**
+ * Hook to access the line item of the closest LineItem.Root
+ *
+ * @param optional - Return null instead of throwing when not within a LineItem.Root
+ */
+export function useLineItemContext(): LineItemContextValue;
+export function useLineItemContext(optional: true): LineItemContextValue | null;
+export function useLineItemContext(
+  optional?: boolean,
+): LineItemContextValue | null {
   const context = React.useContext(LineItemContext);
-  if (!context) {
+  if (!context && !optional) {
     throw new Error(
       'useLineItemContext must be used within a LineItem.Root component',
     );
@@ -87,6 +97,8 @@ enum TestIds {
   lineItemQuantity = 'line-item-quantity',
   lineItemSelectedOptions = 'line-item-selected-options',
   selectedOption = 'selected-option',
+  lineItemIssues = 'line-item-issues',
+  lineItemLastAdded = 'line-item-last-added',
 }
 
 /**
@@ -260,13 +272,14 @@ export const Quantity = React.forwardRef<HTMLElement, QuantityProps>(
 
     return (
       <CoreItem item={lineItem}>
-        {({ quantity, onValueChange, remove }) => (
+        {({ quantity, onValueChange, remove, isPending }) => (
           <QuantityComponent.Root
             ref={ref as any}
             initialValue={quantity}
             reset={remove}
             onValueChange={onValueChange}
             data-testid={TestIds.lineItemQuantity}
+            data-pending={isPending}
             {...otherProps}
           >
             {children}
@@ -435,3 +448,148 @@ export function SelectedOptionRepeater(
 }
 
 SelectedOptionRepeater.displayName = 'LineItem.SelectedOptionRepeater';
+
+/**
+ * Props for LineItem Issues component
+ */
+export interface IssuesProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{
+    issues: LineItemIssue[];
+    fixIssues: () => Promise<void>;
+  }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+  /** Additional HTML attributes */
+  [key: string]: any;
+}
+
+/**
+ * Displays the stock and price changes of the line item since the shopper last saw it:
+ * out of stock, less in stock than the quantity, or a higher price.
+ * Does not render when the line item has no issues.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default usage, renders the issue messages
+ * <LineItem.Issues className="text-sm text-amber-600" />
+ *
+ * // asChild with React component, offering to fix the issues
+ * <LineItem.Issues asChild>
+ *   {React.forwardRef(({issues, fixIssues}, ref) => (
+ *     <div ref={ref} role="alert">
+ *       {issues.map((issue) => (
+ *         <p key={issue.type}>{issue.message}</p>
+ *       ))}
+ *       <button onClick={fixIssues}>Update my cart</button>
+ *     </div>
+ *   ))}
+ * </LineItem.Issues>
+ * ```
+ */
+export const Issues = React.forwardRef<HTMLElement, IssuesProps>(
+  (props, ref) => {
+    const { asChild, children, ...otherProps } = props;
+    const { lineItem } = useLineItemContext();
+
+    return (
+      <CoreItem item={lineItem}>
+        {({ issues, fixIssues }) => {
+          if (issues.length === 0) {
+            return null;
+          }
+
+          return (
+            <AsChildSlot
+              ref={ref}
+              asChild={asChild}
+              data-testid={TestIds.lineItemIssues}
+              data-issue-types={issues.map((issue) => issue.type).join(' ')}
+              customElement={children}
+              customElementProps={{ issues, fixIssues }}
+              {...otherProps}
+            >
+              <div role="alert">
+                {issues.map((issue) => (
+                  <p key={issue.type} data-issue-type={issue.type}>
+                    {issue.message}
+                  </p>
+                ))}
+              </div>
+            </AsChildSlot>
+          );
+        }}
+      </CoreItem>
+    );
+  },
+);
+
+Issues.displayName = 'LineItem.Issues';
+
+/**
+ * Props for LineItem LastAdded component
+ */
+export interface LastAddedProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children: AsChildChildren<{ isLastAdded: boolean }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+  /** Additional HTML attributes */
+  [key: string]: any;
+}
+
+/**
+ * Opt-in wrapper that sets `data-last-added="true"` while the line item is the one just added
+ * to the cart, e.g. to highlight it in the mini cart drawer. Must be used within CurrentCart.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <LineItem.LastAdded className="data-[last-added=true]:bg-yellow-50">
+ *   <LineItem.Title />
+ * </LineItem.LastAdded>
+ *
+ * // asChild with React component
+ * <LineItem.LastAdded asChild>
+ *   {React.forwardRef(({isLastAdded}, ref) => (
+ *     <div ref={ref}>{isLastAdded && <span>Just added</span>}</div>
+ *   ))}
+ * </LineItem.LastAdded>
+ * ```
+ */
+export const LastAdded = React.forwardRef<HTMLElement, LastAddedProps>(
+  (props, ref) => {
+    const { asChild, children, ...otherProps } = props;
+    const { lineItem } = useLineItemContext();
+
+    return (
+      <CoreDrawer>
+        {({ lastAddedLineItemId }) => {
+          const isLastAdded =
+            !!lineItem._id && lastAddedLineItemId === lineItem._id;
+
+          return (
+            <AsChildSlot
+              ref={ref}
+              asChild={asChild}
+              data-testid={TestIds.lineItemLastAdded}
+              data-last-added={isLastAdded}
+              customElement={children}
+              customElementProps={{ isLastAdded }}
+              {...otherProps}
+            >
+              <div>{children}</div>
+            </AsChildSlot>
+          );
+        }}
+      </CoreDrawer>
+    );
+  },
+);
+
+LastAdded.displayName = 'LineItem.LastAdded';
@@ -71,8 +71,8 @@ export interface TriggerProps {
  * Render props for the Trigger component
  */
 export interface TriggerRenderProps {
-  /** Function to create checkout and redirect */
-  createCheckout: (lineItems: LineItem[]) => Promise<void>;
+  /** Function to create checkout and redirect. Resolves with the checkout URL, or null if the checkout wasn't created */
+  createCheckout: (lineItems: LineItem[]) => Promise<string | null>;
   /** Whether checkout creation is in progress */
   isLoading: boolean;
   /** Error message if checkout fails */
@@ -1,11 +1,27 @@
 import type { ServiceAPI } from '@wix/services-definitions';
+import { useEffect } from 'react';
 import { useService, WixServices } from '@wix/services-manager-react';
 import {
   CurrentCartServiceDefinition,
   CurrentCartService,
   CurrentCartServiceConfig,
+  type CartShippingDestination,
 } from '../../services/current-cart-service.js';
 import { type LineItem } from '../../services/common-types.js';
+import {
+  type CartTotals,
+  type CartShippingOption,
+} from '../../services/cart-totals.js';
+import {
+  type AppliedCode,
+  type AppliedGiftCard,
+  type CartCodeError,
+} from '../../services/cart-codes.js';
+import {
+  type CartThreshold,
+  type CartThresholdProgress,
+} from '../../services/threshold-progress.js';
+import { type LineItemIssue } from '../../services/line-item-issues.js';
 import { createServicesMap } from '@wix/services-manager';
 import * as currentCart from '@wix/auto_sdk_ecom_current-cart';
 import { media } from '@wix/sdk';
@@ -18,6 +34,8 @@ export interface RootProps {
 /**
  * Root component that provides the CurrentCart service context to its children.
  * This component sets up the necessary services for managing current cart functionality.
+ * When several islands (e.g. a header badge and a cart drawer) each mount a Root, set `sync: true`
+ * in `currentCartServiceConfig` to keep them, and other open tabs, in agreement.
  *
  * @order 1
  * @component
@@ -48,6 +66,17 @@ export interface RootProps {
  *     </CurrentCart.Root>
  *   );
  * }
+ *
+ * // Header badge island, kept in sync with the cart page and other tabs
+ * function CartBadge({ cartConfig }) {
+ *   return (
+ *     <CurrentCart.Root currentCartServiceConfig={{ ...cartConfig, sync: true }}>
+ *       <CurrentCart.OpenTrigger>
+ *         {({ totalItems }) => <span>{totalItems}</span>}
+ *       </CurrentCart.OpenTrigger>
+ *     </CurrentCart.Root>
+ *   );
+ * }
  * ```
  */
 export function Root(props: RootProps): React.ReactNode {
@@ -59,11 +88,29 @@ export function Root(props: RootProps): React.ReactNode {
         props.currentCartServiceConfig,
       )}
     >
+      <MountEffect />
       {props.children}
     </WixServices>
   );
 }
 
+/**
+ * Restores the line item prices kept in the browser and starts the cart sync once mounted,
+ * and stops the sync when unmounted
+ */
+function MountEffect(): null {
+  const service = useService(CurrentCartServiceDefinition) as ServiceAPI<
+    typeof CurrentCartServiceDefinition
+  >;
+
+  useEffect(() => {
+    service.restoreLineItemPrices();
+    return service.startSync();
+  }, [service]);
+
+  return null;
+}
+
 /**
  * Props for EmptyState headless component
  */
@@ -387,6 +434,12 @@ export interface ItemRenderProps {
   remove: () => Promise<void>;
   /** Whether item is loading */
   isLoading: boolean;
+  /** Whether a change of the item is waiting to be confirmed by the server */
+  isPending: boolean;
+  /** Stock and price changes of the item since the shopper last saw it */
+  issues: LineItemIssue[];
+  /** Function to resolve the issues of the item: removes it when out of stock, reduces its quantity to the stock and accepts a new price */
+  fixIssues: () => Promise<void>;
 }
 
 /**
@@ -430,6 +483,9 @@ export const Item = (props: ItemProps) => {
       onValueChange: async () => {},
       remove: async () => {},
       isLoading: false,
+      isPending: false,
+      issues: [],
+      fixIssues: async () => {},
     });
   }
 
@@ -494,6 +550,9 @@ export const Item = (props: ItemProps) => {
       service.updateLineItemQuantity(lineItemId, value),
     remove: () => service.removeLineItem(lineItemId),
     isLoading,
+    isPending: service.isLineItemPending(lineItemId),
+    issues: service.getLineItemIssues(lineItemId),
+    fixIssues: () => service.fixIssues(lineItemId),
   });
 };
 
@@ -535,6 +594,8 @@ export interface SummaryRenderProps {
     tax: number;
     total: number;
   };
+  /** Full price breakdown (line discounts, coupons, tax lines, additional fees), or null until estimated */
+  totals: CartTotals | null;
 }
 
 /**
@@ -571,32 +632,30 @@ export const Summary = (props: SummaryProps) => {
   const isTotalsLoading = service.isTotalsLoading.get();
   const currency = cart?.currency || cartTotals?.currency || 'USD';
 
-  // Use SDK totals only
-  const totals = cartTotals?.priceSummary || {};
-  const subtotalAmount = totals.subtotal?.amount || 0;
+  const subtotalAmount = cartTotals?.subtotal.amount || 0;
   const subtotal = formatCurrency(subtotalAmount, currency);
 
-  const shippingAmount = totals.shipping?.amount || 0;
+  const shippingAmount = cartTotals?.shipping.price.amount || 0;
   const shipping = formatCurrency(shippingAmount, currency);
 
-  const taxAmount = totals.tax?.amount || 0;
+  const taxAmount = cartTotals?.tax.amount || 0;
   const tax = formatCurrency(taxAmount, currency);
 
-  const totalAmount = totals.total?.amount || 0;
+  const totalAmount = cartTotals?.total.amount || 0;
   const total = formatCurrency(totalAmount, currency);
 
   const appliedCoupon =
     cart?.appliedDiscounts?.find((discount: any) => discount.coupon?.code)
-      ?.coupon?.code || null;
+      ?.coupon?.code ||
+    cartTotals?.coupons[0]?.code ||
+    null;
 
-  const discountAmount = totals.discount?.amount || '0';
-  const discount = discountAmount
-    ? formatCurrency(parseFloat(discountAmount), currency)
-    : null;
+  const discountAmount = cartTotals?.discount.amount || 0;
+  const discount = formatCurrency(discountAmount, currency);
 
   const amountValues = {
     subtotal: subtotalAmount,
-    discount: parseFloat(discountAmount),
+    discount: discountAmount,
     shipping: shippingAmount,
     tax: taxAmount,
     total: totalAmount,
@@ -613,9 +672,63 @@ export const Summary = (props: SummaryProps) => {
     totalItems,
     isTotalsLoading,
     amountValues,
+    totals: cartTotals,
   });
 };
 
+/**
+ * Props for ThresholdProgress headless component
+ */
+export interface ThresholdProgressProps {
+  /** Thresholds to track. Defaults to the `thresholds` of the cart service config */
+  thresholds?: CartThreshold[];
+  /** Render prop function that receives the threshold progress */
+  children: (props: ThresholdProgressRenderProps) => React.ReactNode;
+}
+
+/**
+ * Render props for ThresholdProgress component
+ */
+export interface ThresholdProgressRenderProps extends CartThresholdProgress {
+  /** Whether totals are being calculated */
+  isTotalsLoading: boolean;
+}
+
+/**
+ * Headless component for the progress of the cart subtotal towards spend thresholds,
+ * e.g. free shipping, a free gift or tiered discounts.
+ *
+ * @example
+ * ```tsx
+ * <CurrentCart.ThresholdProgress
+ *   thresholds={[
+ *     { id: 'free-shipping', amount: 50, label: 'free shipping' },
+ *     { id: 'free-gift', amount: 100, label: 'a free gift' },
+ *   ]}
+ * >
+ *   {({ nextThreshold, lastReachedThreshold }) => (
+ *     <p>
+ *       {nextThreshold
+ *         ? `Spend ${nextThreshold.remaining.formattedAmount} more for ${nextThreshold.threshold.label}`
+ *         : `You unlocked ${lastReachedThreshold?.threshold.label}!`}
+ *     </p>
+ *   )}
+ * </CurrentCart.ThresholdProgress>
+ * ```
+ */
+export const ThresholdProgress = (props: ThresholdProgressProps) => {
+  const service = useService(CurrentCartServiceDefinition) as ServiceAPI<
+    typeof CurrentCartServiceDefinition
+  >;
+
+  const progress = props.thresholds
+    ? service.getThresholdProgress(props.thresholds)
+    : service.thresholdProgress.get();
+  const isTotalsLoading = service.isTotalsLoading.get();
+
+  return props.children({ ...progress, isTotalsLoading });
+};
+
 /**
  * Props for Clear headless component
  */
@@ -680,8 +793,8 @@ export interface CheckoutProps {
  * Render props for Checkout component
  */
 export interface CheckoutRenderProps {
-  /** Function to proceed to checkout */
-  proceedToCheckout: () => Promise<void>;
+  /** Function to proceed to checkout. Resolves with the checkout URL, or null if the checkout wasn't created */
+  proceedToCheckout: () => Promise<string | null>;
   /** Whether checkout is available */
   canCheckout: boolean;
   /** Whether checkout action is loading */
@@ -693,7 +806,10 @@ export interface CheckoutRenderProps {
 }
 
 /**
- * Headless component for checkout action
+ * Headless component for checkout action.
+ * The redirect is configured on `currentCartServiceConfig`: `thankYouPageUrl`, `cartPageUrl` and
+ * `continueShoppingUrl` set the checkout's callback URLs, `beforeCheckout` can cancel the checkout
+ * or add buyer details to it, and `onCheckoutUrl` receives the checkout URL instead of navigating to it.
  *
  * @example
  * ```tsx
@@ -708,6 +824,19 @@ export interface CheckoutRenderProps {
  *     </div>
  *   )}
  * </CurrentCart.Checkout>
+ *
+ * // Open the checkout in a popup, once the shopper accepted the terms
+ * <CurrentCart.Root
+ *   currentCartServiceConfig={{
+ *     ...cartConfig,
+ *     thankYouPageUrl: 'https://example.com/thank-you',
+ *     continueShoppingUrl: 'https://example.com/shop',
+ *     beforeCheckout: () => (termsAccepted ? { buyerInfo: { email } } : false),
+ *     onCheckoutUrl: (url) => window.open(url, 'checkout', 'popup'),
+ *   }}
+ * >
+ *   <CurrentCart.Checkout>...</CurrentCart.Checkout>
+ * </CurrentCart.Root>
  * ```
  */
 export const Checkout = (props: CheckoutProps) => {
@@ -798,10 +927,20 @@ export interface CouponRenderProps {
   isLoading: boolean;
   /** Error message if coupon operation fails */
   error: string | null;
+  /** Coupons and gift cards applied to the cart */
+  appliedCodes: AppliedCode[];
+  /** Function to remove an applied coupon or gift card */
+  removeCode: (appliedCode: AppliedCode) => Promise<void>;
+  /** Function to check a gift card code, and the amount it covers on the current cart, without applying it */
+  validateGiftCard: (code: string) => Promise<AppliedGiftCard | null>;
+  /** Function to apply a gift card */
+  applyGiftCard: (code: string) => Promise<void>;
+  /** Why the last coupon or gift card code was rejected, if it was */
+  codeError: CartCodeError | null;
 }
 
 /**
- * Headless component for coupon functionality
+ * Headless component for coupon and gift card functionality
  *
  * @example
  * ```tsx
@@ -841,6 +980,8 @@ export const Coupon = (props: CouponProps) => {
   const cart = service.cart.get();
   const isLoading = service.isCouponLoading.get();
   const error = service.error.get();
+  const appliedCodes = service.appliedCodes.get();
+  const codeError = service.codeError.get();
 
   const appliedCoupon =
     cart?.appliedDiscounts?.find((discount: any) => discount.coupon?.code)
@@ -849,9 +990,104 @@ export const Coupon = (props: CouponProps) => {
   return props.children({
     appliedCoupon,
     apply: service.applyCoupon,
-    remove: service.removeCoupon,
+    remove: () => service.removeCoupon(),
     isLoading,
     error,
+    appliedCodes,
+    removeCode: (appliedCode: AppliedCode) =>
+      appliedCode.type === 'gift-card'
+        ? service.removeGiftCard(appliedCode.code)
+        : service.removeCoupon(appliedCode.code),
+    validateGiftCard: service.validateGiftCard,
+    applyGiftCard: service.applyGiftCard,
+    codeError,
+  });
+};
+
+/**
+ * Props for ShippingEstimator headless component
+ */
+export interface ShippingEstimatorProps {
+  /** Render prop function that receives shipping estimation data */
+  children: (props: ShippingEstimatorRenderProps) => React.ReactNode;
+}
+
+/**
+ * Render props for ShippingEstimator component
+ */
+export interface ShippingEstimatorRenderProps {
+  /** Destination the totals are estimated for, if any */
+  destination: CartShippingDestination | null;
+  /** Function to set the destination. The totals are re-estimated for it */
+  setDestination: (destination: CartShippingDestination | null) => void;
+  /** Shipping options available for the destination */
+  options: CartShippingOption[];
+  /** The shipping option selected on the cart, if any */
+  selectedOption: CartShippingOption | null;
+  /** Function to select a shipping option. The selection is saved on the cart */
+  selectOption: (option: CartShippingOption) => Promise<void>;
+  /** Whether the totals are being estimated */
+  isLoading: boolean;
+}
+
+/**
+ * Headless component for estimating shipping and tax before checkout.
+ * Setting a destination re-estimates the cart totals, which then include shipping
+ * and tax for it, and returns the shipping options available for it.
+ *
+ * @example
+ * ```tsx
+ * <CurrentCart.ShippingEstimator>
+ *   {({ destination, setDestination, options, selectedOption, selectOption, isLoading }) => (
+ *     <div>
+ *       <button onClick={() => setDestination({ country: 'US', subdivision: 'US-CA', postalCode: '94105' })}>
+ *         Estimate for San Francisco
+ *       </button>
+ *       {options.map(option => (
+ *         <label key={`${option.carrierId}-${option.code}`}>
+ *           <input
+ *             type="radio"
+ *             checked={selectedOption?.code === option.code}
+ *             disabled={isLoading}
+ *             onChange={() => selectOption(option)}
+ *           />
+ *           {option.title} - {option.price.formattedAmount}
+ *         </label>
+ *       ))}
+ *     </div>
+ *   )}
+ * </CurrentCart.ShippingEstimator>
+ * ```
+ */
+export const ShippingEstimator = (props: ShippingEstimatorProps) => {
+  const service = useService(CurrentCartServiceDefinition) as ServiceAPI<
+    typeof CurrentCartServiceDefinition
+  >;
+
+  const cart = service.cart.get();
+  const cartTotals = service.cartTotals.get();
+  const destination = service.shippingDestination.get();
+  const isLoading = service.isTotalsLoading.get();
+
+  const options = cartTotals?.shippingOptions || [];
+  const selected = cart?.selectedShippingOption?.code
+    ? cart.selectedShippingOption
+    : cartTotals?.shipping;
+  const selectedOption =
+    options.find(
+      (option) =>
+        option.code === selected?.code &&
+        (!selected?.carrierId || option.carrierId === selected.carrierId),
+    ) || null;
+
+  return props.children({
+    destination,
+    setDestination: service.setShippingDestination,
+    options,
+    selectedOption,
+    selectOption: (option: CartShippingOption) =>
+      service.selectShippingOption(option),
+    isLoading,
   });
 };
 
@@ -973,3 +1209,61 @@ export const LineItemAdded = (props: LineItemAddedProps) => {
     onAddedToCart: service.onAddedToCart,
   });
 };
+
+/**
+ * Props for Drawer headless component
+ */
+export interface DrawerProps {
+  /** Render prop function that receives the drawer state */
+  children: (props: DrawerRenderProps) => React.ReactNode;
+}
+
+/**
+ * Render props for Drawer component
+ */
+export interface DrawerRenderProps {
+  /** Whether the drawer is open */
+  isOpen: boolean;
+  /** Function to open the drawer */
+  open: () => void;
+  /** Function to close the drawer */
+  close: () => void;
+  /** Function to toggle the drawer */
+  toggle: () => void;
+  /** ID of the line item just added to the cart, if any */
+  lastAddedLineItemId: string | null;
+}
+
+/**
+ * Headless component for the mini cart drawer state.
+ * The drawer opens when items are added to the cart, unless `drawer.openOnAdd` is false in the service config.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <CurrentCart.Drawer>
+ *   {({ isOpen, close }) =>
+ *     isOpen && (
+ *       <aside>
+ *         <button onClick={close}>Close</button>
+ *       </aside>
+ *     )
+ *   }
+ * </CurrentCart.Drawer>
+ * ```
+ */
+export const Drawer = (props: DrawerProps) => {
+  const service = useService(CurrentCartServiceDefinition) as ServiceAPI<
+    typeof CurrentCartServiceDefinition
+  >;
+
+  const isOpen = service.isDrawerOpen.get();
+
+  return props.children({
+    isOpen,
+    open: service.openDrawer,
+    close: service.closeDrawer,
+    toggle: isOpen ? service.closeDrawer : service.openDrawer,
+    lastAddedLineItemId: service.lastAddedLineItemId.get(),
+  });
+};
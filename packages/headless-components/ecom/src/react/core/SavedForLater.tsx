@@ -0,0 +1,253 @@
+import type { ServiceAPI } from '@wix/services-definitions';
+import { useEffect } from 'react';
+import { useService, WixServices } from '@wix/services-manager-react';
+import { createServicesMap } from '@wix/services-manager';
+import { media } from '@wix/sdk';
+import {
+  SavedForLaterServiceDefinition,
+  SavedForLaterService,
+  type SavedForLaterServiceConfig,
+  type SavedItem as SavedItemData,
+} from '../../services/saved-for-later-service.js';
+import { type SelectedOption } from '../../services/selected-option-service.js';
+
+export interface RootProps {
+  children: React.ReactNode;
+  savedForLaterServiceConfig?: SavedForLaterServiceConfig;
+}
+
+/**
+ * Root component that provides the SavedForLater service context to its children.
+ * Must be rendered inside `CurrentCart.Root`, as items are moved between the saved list and the current cart.
+ *
+ * @order 1
+ * @component
+ * @example
+ * ```tsx
+ * import { CurrentCart, SavedForLater } from '@wix/ecom/components';
+ *
+ * function CartPage({ cartConfig }) {
+ *   return (
+ *     <CurrentCart.Root currentCartServiceConfig={cartConfig}>
+ *       <SavedForLater.Root>
+ *         <SavedForLater.SavedItems>
+ *           {({ items }) => <p>{items.length} items saved for later</p>}
+ *         </SavedForLater.SavedItems>
+ *       </SavedForLater.Root>
+ *     </CurrentCart.Root>
+ *   );
+ * }
+ * ```
+ */
+export function Root(props: RootProps): React.ReactNode {
+  return (
+    <WixServices
+      servicesMap={createServicesMap().addService(
+        SavedForLaterServiceDefinition,
+        SavedForLaterService,
+        props.savedForLaterServiceConfig || {},
+      )}
+    >
+      <RestoreSavedItemsEffect />
+      {props.children}
+    </WixServices>
+  );
+}
+
+/**
+ * Restores the persisted saved items once mounted in the browser
+ */
+function RestoreSavedItemsEffect(): null {
+  const service = useService(SavedForLaterServiceDefinition) as ServiceAPI<
+    typeof SavedForLaterServiceDefinition
+  >;
+
+  useEffect(() => service.restoreSavedItems(), [service]);
+
+  return null;
+}
+
+/**
+ * Props for SaveForLater headless component
+ */
+export interface SaveForLaterProps {
+  /** ID of the cart line item to save for later */
+  lineItemId: string;
+  /** Render prop function that receives the save action */
+  children: (props: SaveForLaterRenderProps) => React.ReactNode;
+}
+
+/**
+ * Render props for SaveForLater component
+ */
+export interface SaveForLaterRenderProps {
+  /** Function to move the line item from the cart to the saved list */
+  save: () => Promise<void>;
+  /** Whether an item is being moved */
+  isLoading: boolean;
+}
+
+/**
+ * Headless component for saving a cart line item for later
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <SavedForLater.SaveForLater lineItemId={item._id}>
+ *   {({ save, isLoading }) => (
+ *     <button onClick={save} disabled={isLoading}>
+ *       Save for later
+ *     </button>
+ *   )}
+ * </SavedForLater.SaveForLater>
+ * ```
+ */
+export const SaveForLater = (props: SaveForLaterProps) => {
+  const service = useService(SavedForLaterServiceDefinition) as ServiceAPI<
+    typeof SavedForLaterServiceDefinition
+  >;
+
+  return props.children({
+    save: () => service.saveForLater(props.lineItemId),
+    isLoading: service.isLoading.get(),
+  });
+};
+
+/**
+ * Props for SavedItems headless component
+ */
+export interface SavedItemsProps {
+  /** Render prop function that receives the saved items */
+  children: (props: SavedItemsRenderProps) => React.ReactNode;
+}
+
+/**
+ * Render props for SavedItems component
+ */
+export interface SavedItemsRenderProps {
+  /** Items saved for later, most recently saved first */
+  items: SavedItemData[];
+  /** Number of saved items */
+  count: number;
+  /** Whether an item is being moved */
+  isLoading: boolean;
+  /** Error of the last failed move, if any */
+  error: string | null;
+}
+
+/**
+ * Headless component for the list of items saved for later
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <SavedForLater.SavedItems>
+ *   {({ items, error }) => (
+ *     <div>
+ *       {error && <p>{error}</p>}
+ *       {items.map((item) => (
+ *         <SavedForLater.SavedItem key={item.id} item={item}>
+ *           {({ title, moveToCart }) => (
+ *             <div>
+ *               {title} <button onClick={moveToCart}>Move to cart</button>
+ *             </div>
+ *           )}
+ *         </SavedForLater.SavedItem>
+ *       ))}
+ *     </div>
+ *   )}
+ * </SavedForLater.SavedItems>
+ * ```
+ */
+export const SavedItems = (props: SavedItemsProps) => {
+  const service = useService(SavedForLaterServiceDefinition) as ServiceAPI<
+    typeof SavedForLaterServiceDefinition
+  >;
+
+  return props.children({
+    items: service.savedItems.get(),
+    count: service.savedCount.get(),
+    isLoading: service.isLoading.get(),
+    error: service.error.get(),
+  });
+};
+
+/**
+ * Props for SavedItem headless component
+ */
+export interface SavedItemProps {
+  /** Saved item data */
+  item: SavedItemData;
+  /** Render prop function that receives saved item data */
+  children: (props: SavedItemRenderProps) => React.ReactNode;
+}
+
+/**
+ * Render props for SavedItem component
+ */
+export interface SavedItemRenderProps {
+  /** Product title */
+  title: string;
+  /** Product image URL */
+  image: string | null;
+  /** Formatted item price when it was saved, if known */
+  price: string | null;
+  /** Quantity the item is moved to the cart with */
+  quantity: number;
+  /** Selected product options */
+  selectedOptions: SelectedOption[];
+  /** Function to move the item back to the cart */
+  moveToCart: () => Promise<void>;
+  /** Function to remove the item from the saved list */
+  remove: () => void;
+  /** Whether an item is being moved */
+  isLoading: boolean;
+}
+
+/**
+ * Headless component for an individual saved item
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <SavedForLater.SavedItem item={item}>
+ *   {({ title, image, price, selectedOptions, moveToCart, remove, isLoading }) => (
+ *     <div>
+ *       {image && <img src={image} alt={title} />}
+ *       <h3>{title}</h3>
+ *       <p>{price}</p>
+ *       <button onClick={moveToCart} disabled={isLoading}>Move to cart</button>
+ *       <button onClick={remove}>Remove</button>
+ *     </div>
+ *   )}
+ * </SavedForLater.SavedItem>
+ * ```
+ */
+export const SavedItem = (props: SavedItemProps) => {
+  const service = useService(SavedForLaterServiceDefinition) as ServiceAPI<
+    typeof SavedForLaterServiceDefinition
+  >;
+
+  const item = props.item;
+
+  let image: string | null = null;
+  if (item.image) {
+    try {
+      image = media.getImageUrl(item.image).url;
+    } catch (error) {
+      console.warn('Failed to get image URL:', error);
+      image = null;
+    }
+  }
+
+  return props.children({
+    title: item.productName,
+    image,
+    price: item.price?.formattedAmount || null,
+    quantity: item.quantity,
+    selectedOptions: item.selectedOptions,
+    moveToCart: () => service.moveToCart(item.id),
+    remove: () => service.removeSavedItem(item.id),
+    isLoading: service.isLoading.get(),
+  });
+};
@@ -0,0 +1,191 @@
+import * as giftVouchers from '@wix/auto_sdk_ecom_gift-vouchers';
+import { formatCartPrice, type CartTotalsPrice } from './cart-totals.js';
+
+/**
+ * Why a coupon or gift card code was rejected.
+ */
+export type CartCodeErrorReason =
+  | 'invalid'
+  | 'expired'
+  | 'minimum-not-met'
+  | 'not-applicable'
+  | 'unknown';
+
+/**
+ * Error of a coupon or gift card code the server rejected.
+ */
+export interface CartCodeError {
+  /** Kind of the rejected code */
+  type: 'coupon' | 'gift-card';
+  /** The rejected code */
+  code: string;
+  /** Why the code was rejected */
+  reason: CartCodeErrorReason;
+  /** Application error code returned by the server, if any */
+  applicationErrorCode?: string;
+  /** Error message */
+  message: string;
+}
+
+/**
+ * A gift card validated against the current cart.
+ */
+export interface AppliedGiftCard {
+  /** The gift card code */
+  code: string;
+  /** The code with all but its last characters masked, e.g. "****1234" */
+  obfuscatedCode: string;
+  /** Amount of the gift card redeemed on the current cart */
+  amount: CartTotalsPrice;
+}
+
+/**
+ * A coupon or gift card code applied to the cart.
+ */
+export interface AppliedCode {
+  /** Kind of the code */
+  type: 'coupon' | 'gift-card';
+  /** The code as entered */
+  code: string;
+  /** Amount the code takes off the cart, once estimated */
+  amount: CartTotalsPrice | null;
+}
+
+const ERROR_MESSAGES: Record<
+  CartCodeError['type'],
+  Record<CartCodeErrorReason, string>
+> = {
+  coupon: {
+    invalid:
+      'This coupon code does not exist. Please check the code and try again.',
+    expired: 'This coupon has expired.',
+    'minimum-not-met':
+      'Your cart does not meet the minimum required for this coupon.',
+    'not-applicable': 'This coupon cannot be applied to your current cart.',
+    unknown: 'Failed to apply coupon. Please try again.',
+  },
+  'gift-card': {
+    invalid:
+      'This gift card code is not valid. Please check the code and try again.',
+    expired: 'This gift card has expired.',
+    'minimum-not-met':
+      'Your cart does not meet the minimum required for this gift card.',
+    'not-applicable': 'This gift card cannot be used for your current cart.',
+    unknown: 'Failed to apply gift card. Please try again.',
+  },
+};
+
+/**
+ * Maps an error thrown while applying a code to a typed code error.
+ *
+ * @private
+ */
+export function getCartCodeError(
+  err: any,
+  type: CartCodeError['type'],
+  code: string,
+): CartCodeError {
+  const applicationErrorCode: string | undefined =
+    err?.details?.applicationError?.code;
+  const reason = getCartCodeErrorReason(applicationErrorCode);
+
+  return {
+    type,
+    code,
+    reason,
+    ...(applicationErrorCode && { applicationErrorCode }),
+    message:
+      reason === 'unknown' && err?.message?.includes(type.replace('-', ' '))
+        ? err.message
+        : ERROR_MESSAGES[type][reason],
+  };
+}
+
+/**
+ * Creates the error of a gift card code that can't be redeemed.
+ *
+ * @private
+ */
+export function createGiftCardError(
+  code: string,
+  reason: CartCodeErrorReason,
+): CartCodeError {
+  return {
+    type: 'gift-card',
+    code,
+    reason,
+    message: ERROR_MESSAGES['gift-card'][reason],
+  };
+}
+
+/**
+ * Returns why a gift card retrieved from its provider can't be redeemed on the cart, or null if it can.
+ *
+ * @private
+ */
+export function getGiftCardErrorReason(
+  giftCard: giftVouchers.GiftCard | undefined,
+  cartCurrency?: string | null,
+): CartCodeErrorReason | null {
+  if (giftCard?.status === giftVouchers.Status.EXPIRED) return 'expired';
+  if (giftCard?.status !== giftVouchers.Status.VALID) return 'invalid';
+  if (
+    !(parseFloat(giftCard.balance?.value || '') > 0) ||
+    (cartCurrency && giftCard.balance?.currency !== cartCurrency)
+  ) {
+    return 'not-applicable';
+  }
+  return null;
+}
+
+/**
+ * Creates the applied gift card of a valid gift card: its balance, capped to the amount to pay when known.
+ *
+ * @private
+ */
+export function createAppliedGiftCard(
+  giftCard: giftVouchers.GiftCard,
+  code: string,
+  amountToPay?: number,
+): AppliedGiftCard {
+  const balance = parseFloat(giftCard.balance?.value || '') || 0;
+  const amount =
+    amountToPay === undefined ? balance : Math.min(balance, amountToPay);
+
+  return {
+    code,
+    obfuscatedCode: giftCard.obfuscatedCode || `****${code.slice(-4)}`,
+    amount: {
+      amount,
+      formattedAmount: formatCartPrice(
+        amount,
+        giftCard.balance?.currency || 'USD',
+      ),
+    },
+  };
+}
+
+/**
+ * @private
+ */
+function getCartCodeErrorReason(
+  applicationErrorCode?: string,
+): CartCodeErrorReason {
+  if (!applicationErrorCode) return 'unknown';
+  if (applicationErrorCode.includes('EXPIRED')) return 'expired';
+  if (
+    applicationErrorCode.includes('MINIMUM') ||
+    applicationErrorCode.includes('MIN_SUBTOTAL')
+  ) {
+    return 'minimum-not-met';
+  }
+  if (
+    applicationErrorCode.includes('DOES_NOT_EXIST') ||
+    applicationErrorCode.includes('NOT_FOUND') ||
+    applicationErrorCode.includes('INVALID')
+  ) {
+    return 'invalid';
+  }
+  if (applicationErrorCode.includes('NOT_APPLICABLE')) return 'not-applicable';
+  return 'unknown';
+}
@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCartSync } from './cart-sync.js';
+
+const createHandlers = () => ({
+  onCartChanged: vi.fn(),
+  onLineItemAdded: vi.fn(),
+  onVisible: vi.fn(),
+});
+
+const setVisibilityState = (visibilityState: DocumentVisibilityState) => {
+  Object.defineProperty(document, 'visibilityState', {
+    configurable: true,
+    get: () => visibilityState,
+  });
+  document.dispatchEvent(new Event('visibilitychange'));
+};
+
+describe('createCartSync', () => {
+  describe('without BroadcastChannel', () => {
+    beforeEach(() => {
+      vi.stubGlobal('BroadcastChannel', undefined);
+      localStorage.clear();
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('notifies the other instances on the same page, but not the sender', () => {
+      const senderHandlers = createHandlers();
+      const receiverHandlers = createHandlers();
+      const sender = createCartSync({}, senderHandlers);
+      const receiver = createCartSync({}, receiverHandlers);
+
+      sender?.publish({ _id: 'cart-1' });
+
+      expect(receiverHandlers.onCartChanged).toHaveBeenCalledWith(undefined);
+      expect(senderHandlers.onCartChanged).not.toHaveBeenCalled();
+
+      sender?.dispose();
+      receiver?.dispose();
+    });
+
+    it('notifies the instances of other tabs through storage events', () => {
+      const handlers = createHandlers();
+      const sync = createCartSync({ channelName: 'cart-sync-test' }, handlers);
+
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: 'cart-sync-test',
+          newValue: JSON.stringify({ sourceId: 'other-tab' }),
+        }),
+      );
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: 'cart-sync-test', newValue: '{' }),
+      );
+
+      expect(handlers.onCartChanged).toHaveBeenCalledTimes(1);
+
+      sync?.dispose();
+    });
+
+    it('shows the added line item in the other instances on the same page only', () => {
+      const receiverHandlers = createHandlers();
+      const sender = createCartSync({}, createHandlers());
+      const receiver = createCartSync({}, receiverHandlers);
+
+      sender?.publishAddedLineItem('line-1');
+
+      expect(receiverHandlers.onLineItemAdded).toHaveBeenCalledWith('line-1');
+      expect(receiverHandlers.onCartChanged).not.toHaveBeenCalled();
+      expect(localStorage.getItem('wix-ecom-current-cart')).toBeNull();
+
+      sender?.dispose();
+      receiver?.dispose();
+    });
+
+    it('stops receiving changes once disposed', () => {
+      const handlers = createHandlers();
+      const sender = createCartSync({}, createHandlers());
+      const receiver = createCartSync({}, handlers);
+
+      receiver?.dispose();
+      sender?.publish(null);
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: 'wix-ecom-current-cart',
+          newValue: JSON.stringify({ sourceId: 'other-tab' }),
+        }),
+      );
+
+      expect(handlers.onCartChanged).not.toHaveBeenCalled();
+
+      sender?.dispose();
+    });
+  });
+
+  describe('with BroadcastChannel', () => {
+    const channel = {
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      postMessage: vi.fn(),
+      close: vi.fn(),
+    };
+
+    beforeEach(() => {
+      vi.stubGlobal(
+        'BroadcastChannel',
+        vi.fn(() => channel),
+      );
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.clearAllMocks();
+    });
+
+    it('sends the updated cart and closes the channel once disposed', () => {
+      const sync = createCartSync({ channelName: 'cart' }, createHandlers());
+
+      expect(BroadcastChannel).toHaveBeenCalledWith('cart');
+
+      sync?.publish({ _id: 'cart-1' });
+
+      expect(channel.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ cart: { _id: 'cart-1' } }),
+      );
+
+      sync?.dispose();
+
+      expect(channel.removeEventListener).toHaveBeenCalledWith(
+        'message',
+        channel.addEventListener.mock.calls[0]?.[1],
+      );
+      expect(channel.close).toHaveBeenCalled();
+    });
+
+    it('shows an added line item sent from the same page, but not from other tabs', () => {
+      const handlers = createHandlers();
+      const sync = createCartSync({}, handlers);
+      const handleChannelMessage = channel.addEventListener.mock.calls[0]?.[1];
+
+      sync?.publishAddedLineItem('line-1');
+      const message = channel.postMessage.mock.calls[0]?.[0];
+      handleChannelMessage({ data: { ...message, sourceId: 'other-island' } });
+      handleChannelMessage({
+        data: { ...message, sourceId: 'other-tab', pageId: 'other-page' },
+      });
+
+      expect(handlers.onLineItemAdded).toHaveBeenCalledTimes(1);
+      expect(handlers.onLineItemAdded).toHaveBeenCalledWith('line-1');
+      expect(handlers.onCartChanged).not.toHaveBeenCalled();
+
+      sync?.dispose();
+    });
+  });
+
+  describe('visibility changes', () => {
+    afterEach(() => {
+      setVisibilityState('visible');
+    });
+
+    it('calls onVisible when the page becomes visible until disposed', () => {
+      const handlers = createHandlers();
+      const sync = createCartSync({}, handlers);
+
+      setVisibilityState('hidden');
+      setVisibilityState('visible');
+
+      expect(handlers.onVisible).toHaveBeenCalledTimes(1);
+
+      sync?.dispose();
+      setVisibilityState('visible');
+
+      expect(handlers.onVisible).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores visibility changes when refreshOnVisibilityChange is false', () => {
+      const handlers = createHandlers();
+      const sync = createCartSync(
+        { refreshOnVisibilityChange: false },
+        handlers,
+      );
+
+      setVisibilityState('visible');
+
+      expect(handlers.onVisible).not.toHaveBeenCalled();
+
+      sync?.dispose();
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import * as currentCart from '@wix/auto_sdk_ecom_current-cart';
+
+const DEFAULT_CHANNEL_NAME = 'wix-ecom-current-cart';
+
+// Tells the instances on this page from those in other tabs, which share the BroadcastChannel
+const pageId = Math.random().toString(36).slice(2);
+
+/**
+ * Options for synchronizing the cart between CurrentCartService instances, in other tabs
+ * or in other islands of the same page.
+ */
+export interface CartSyncOptions {
+  /** Name of the BroadcastChannel (and localStorage key of the fallback). Defaults to 'wix-ecom-current-cart' */
+  channelName?: string;
+  /** Whether to reload the cart when the page becomes visible again. Defaults to true */
+  refreshOnVisibilityChange?: boolean;
+}
+
+type CartSyncMessage = {
+  /** ID of the instance that changed the cart */
+  sourceId: string;
+  /** ID of the page of the instance that changed the cart */
+  pageId?: string;
+  /** The updated cart, or undefined when receivers should reload it */
+  cart?: currentCart.Cart | null;
+  /** The line item an add created or increased, shown by the instances on the same page. Such messages carry no cart change */
+  addedLineItem?: { lineItemId: string | null };
+};
+
+export interface CartSync {
+  /** Notifies the other instances that the cart changed */
+  publish: (cart: currentCart.Cart | null) => void;
+  /** Notifies the other instances on the same page of the line item an add created or increased */
+  publishAddedLineItem: (lineItemId: string | null) => void;
+  /** Removes the listeners and closes the channel. The instance stops sending and receiving changes */
+  dispose: () => void;
+}
+
+/**
+ * Connects a cart instance to the other instances of the same visitor's cart.
+ * Uses BroadcastChannel, which reaches other tabs and other instances on the same page,
+ * and falls back to localStorage `storage` events (other tabs) plus a window event (same page)
+ * where BroadcastChannel isn't available. The fallback only carries a notification, so
+ * receivers reload the cart instead of getting it in the message.
+ *
+ * @private
+ */
+export function createCartSync(
+  options: CartSyncOptions,
+  handlers: {
+    /** Called with the updated cart, or null when the cart has to be reloaded */
+    onCartChanged: (cart: currentCart.Cart | null | undefined) => void;
+    /** Called with the line item an add created or increased in another instance on the same page */
+    onLineItemAdded?: (lineItemId: string | null) => void;
+    /** Called when the page becomes visible again */
+    onVisible: () => void;
+  },
+): CartSync | null {
+  if (typeof window === 'undefined') return null;
+
+  const channelName = options.channelName ?? DEFAULT_CHANNEL_NAME;
+  const sourceId = Math.random().toString(36).slice(2);
+
+  const handleMessage = (message: CartSyncMessage | null) => {
+    if (!message || message.sourceId === sourceId) return;
+
+    if (message.addedLineItem) {
+      if (message.pageId === pageId) {
+        handlers.onLineItemAdded?.(message.addedLineItem.lineItemId);
+      }
+      return;
+    }
+    handlers.onCartChanged(message.cart);
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') {
+      handlers.onVisible();
+    }
+  };
+
+  const shouldRefreshOnVisible = options.refreshOnVisibilityChange !== false;
+  if (shouldRefreshOnVisible) {
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+  }
+
+  const removeVisibilityListener = () => {
+    if (shouldRefreshOnVisible) {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }
+  };
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(channelName);
+    const handleChannelMessage = (event: MessageEvent) =>
+      handleMessage(event.data);
+    channel.addEventListener('message', handleChannelMessage);
+
+    return {
+      publish: (cart) => {
+        const message: CartSyncMessage = { sourceId, pageId, cart };
+
+        try {
+          channel.postMessage(message);
+        } catch (error) {
+          console.warn('Failed to broadcast cart update:', error);
+        }
+      },
+      publishAddedLineItem: (lineItemId) => {
+        const message: CartSyncMessage = {
+          sourceId,
+          pageId,
+          addedLineItem: { lineItemId },
+        };
+
+        try {
+          channel.postMessage(message);
+        } catch (error) {
+          console.warn('Failed to broadcast added line item:', error);
+        }
+      },
+      dispose: () => {
+        removeVisibilityListener();
+        channel.removeEventListener('message', handleChannelMessage);
+        channel.close();
+      },
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== channelName || !event.newValue) return;
+
+    try {
+      handleMessage(JSON.parse(event.newValue));
+    } catch {
+      // Ignore values not written by the cart sync
+    }
+  };
+  const handleSamePageMessage = (event: Event) =>
+    handleMessage((event as CustomEvent<CartSyncMessage>).detail);
+
+  window.addEventListener('storage', handleStorage);
+  window.addEventListener(channelName, handleSamePageMessage);
+
+  const dispatchSamePageMessage = (message: CartSyncMessage) =>
+    window.dispatchEvent(new CustomEvent(channelName, { detail: message }));
+
+  return {
+    publish: () => {
+      const message: CartSyncMessage = { sourceId, pageId };
+      dispatchSamePageMessage(message);
+
+      try {
+        // A timestamp makes every write a change, so a storage event fires each time
+        window.localStorage.setItem(
+          channelName,
+          JSON.stringify({ ...message, timestamp: Date.now() }),
+        );
+      } catch (error) {
+        console.warn('Failed to broadcast cart update:', error);
+      }
+    },
+    // Only the instances on the same page show the added line item, so it isn't written to localStorage
+    publishAddedLineItem: (lineItemId) =>
+      dispatchSamePageMessage({
+        sourceId,
+        pageId,
+        addedLineItem: { lineItemId },
+      }),
+    dispose: () => {
+      removeVisibilityListener();
+      window.removeEventListener('storage', handleStorage);
+      window.removeEventListener(channelName, handleSamePageMessage);
+    },
+  };
+}
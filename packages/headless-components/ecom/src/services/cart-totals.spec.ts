@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import type * as currentCart from '@wix/auto_sdk_ecom_current-cart';
+import { formatCartPrice, normalizeCartTotals } from './cart-totals.js';
+
+const aPrice = (amount: string): currentCart.MultiCurrencyPrice => ({
+  amount,
+  formattedAmount: `$${amount}`,
+});
+
+const estimateResponse: currentCart.EstimateTotalsResponse = {
+  currency: 'USD',
+  priceSummary: {
+    subtotal: aPrice('100.00'),
+    discount: aPrice('15.00'),
+    shipping: aPrice('5.00'),
+    tax: aPrice('7.50'),
+    total: aPrice('97.50'),
+  },
+  appliedDiscounts: [
+    {
+      coupon: { code: 'SAVE10', name: '10 off', amount: aPrice('10.00') },
+      lineItemIds: [],
+    },
+    {
+      discountRule: {
+        name: { original: 'Summer sale' },
+        amount: aPrice('5.00'),
+      },
+      lineItemIds: ['line-1'],
+    },
+  ],
+  calculatedLineItems: [
+    {
+      lineItemId: 'line-1',
+      pricesBreakdown: {
+        totalDiscount: aPrice('5.00'),
+        taxDetails: {
+          taxBreakdown: [
+            { taxName: 'State Tax', rate: '0.05', taxAmount: aPrice('2.50') },
+          ],
+        },
+      },
+    },
+    {
+      lineItemId: 'line-2',
+      pricesBreakdown: {
+        totalDiscount: aPrice('0'),
+        taxDetails: {
+          taxBreakdown: [
+            { taxName: 'State Tax', rate: '0.05', taxAmount: aPrice('5.00') },
+          ],
+        },
+      },
+    },
+  ],
+  shippingInfo: {
+    selectedCarrierServiceOption: {
+      code: 'standard',
+      title: 'Standard',
+      carrierId: 'carrier-1',
+    },
+    carrierServiceOptions: [
+      {
+        carrierId: 'carrier-1',
+        shippingOptions: [
+          {
+            code: 'standard',
+            title: 'Standard',
+            logistics: { deliveryTime: '5-7 days' },
+            cost: { price: aPrice('5.00') },
+          },
+          { title: 'Without a code' },
+        ],
+      },
+    ],
+  },
+  additionalFees: [
+    { code: 'handling', name: 'Handling', priceAfterTax: aPrice('2.00') },
+  ],
+};
+
+describe('normalizeCartTotals', () => {
+  it('maps the price summary', () => {
+    const totals = normalizeCartTotals(estimateResponse);
+
+    expect(totals.currency).toBe('USD');
+    expect(totals.subtotal).toEqual({
+      amount: 100,
+      formattedAmount: '$100.00',
+    });
+    expect(totals.discount.amount).toBe(15);
+    expect(totals.tax.amount).toBe(7.5);
+    expect(totals.total.amount).toBe(97.5);
+  });
+
+  it('maps the applied discounts and coupons', () => {
+    const totals = normalizeCartTotals(estimateResponse);
+
+    expect(totals.appliedDiscounts).toEqual([
+      {
+        type: 'coupon',
+        code: 'SAVE10',
+        name: '10 off',
+        price: { amount: 10, formattedAmount: '$10.00' },
+        lineItemIds: [],
+      },
+      {
+        type: 'discount-rule',
+        name: 'Summer sale',
+        price: { amount: 5, formattedAmount: '$5.00' },
+        lineItemIds: ['line-1'],
+      },
+    ]);
+    expect(totals.coupons.map((coupon) => coupon.code)).toEqual(['SAVE10']);
+    expect(totals.lineDiscounts).toEqual([
+      { lineItemId: 'line-1', price: { amount: 5, formattedAmount: '$5.00' } },
+    ]);
+  });
+
+  it('groups the taxes by name', () => {
+    const totals = normalizeCartTotals(estimateResponse);
+
+    expect(totals.taxLines).toEqual([
+      {
+        name: 'State Tax',
+        rate: 0.05,
+        price: { amount: 7.5, formattedAmount: formatCartPrice(7.5, 'USD') },
+      },
+    ]);
+  });
+
+  it('maps the shipping estimate and options with a code', () => {
+    const totals = normalizeCartTotals(estimateResponse);
+
+    expect(totals.shipping).toEqual({
+      price: { amount: 5, formattedAmount: '$5.00' },
+      title: 'Standard',
+      code: 'standard',
+      carrierId: 'carrier-1',
+    });
+    expect(totals.shippingOptions).toEqual([
+      {
+        carrierId: 'carrier-1',
+        code: 'standard',
+        title: 'Standard',
+        deliveryTime: '5-7 days',
+        price: { amount: 5, formattedAmount: '$5.00' },
+      },
+    ]);
+    expect(totals.additionalFees).toEqual([
+      {
+        code: 'handling',
+        name: 'Handling',
+        price: { amount: 2, formattedAmount: '$2.00' },
+      },
+    ]);
+  });
+
+  it('falls back to zero prices and the given currency', () => {
+    const totals = normalizeCartTotals({}, 'EUR');
+
+    expect(totals.currency).toBe('EUR');
+    expect(totals.total).toEqual({
+      amount: 0,
+      formattedAmount: formatCartPrice(0, 'EUR'),
+    });
+    expect(totals.appliedDiscounts).toEqual([]);
+    expect(totals.shipping.code).toBeNull();
+  });
+});
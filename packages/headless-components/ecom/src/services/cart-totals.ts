@@ -0,0 +1,289 @@
+import * as currentCart from '@wix/auto_sdk_ecom_current-cart';
+
+/**
+ * A price in the cart totals.
+ */
+export interface CartTotalsPrice {
+  /** Numeric amount, e.g. 24.99 */
+  amount: number;
+  /** Amount formatted in the cart currency, e.g. "$24.99" */
+  formattedAmount: string;
+}
+
+/**
+ * A discount applied to a single line item.
+ */
+export interface CartTotalsLineDiscount {
+  /** ID of the discounted line item */
+  lineItemId: string;
+  /** Total discount of the line item */
+  price: CartTotalsPrice;
+}
+
+/**
+ * A discount applied to the cart: a coupon, an automatic discount rule or a merchant discount.
+ */
+export interface CartTotalsAppliedDiscount {
+  /** Kind of discount */
+  type: 'coupon' | 'discount-rule' | 'merchant-discount';
+  /** Coupon code, for coupons */
+  code?: string;
+  /** Display name of the discount */
+  name: string;
+  /** Discounted amount */
+  price: CartTotalsPrice;
+  /** IDs of the line items the discount applies to. Empty when it applies to the whole cart */
+  lineItemIds: string[];
+}
+
+/**
+ * The shipping estimate of the cart.
+ */
+export interface CartTotalsShipping {
+  /** Shipping cost */
+  price: CartTotalsPrice;
+  /** Title of the selected shipping option, e.g. "Standard Delivery" */
+  title: string | null;
+  /** Code of the selected shipping option */
+  code: string | null;
+  /** ID of the carrier of the selected shipping option */
+  carrierId: string | null;
+}
+
+/**
+ * A shipping option available for the cart's shipping destination.
+ */
+export interface CartShippingOption {
+  /** ID of the carrier providing the option */
+  carrierId: string | null;
+  /** Option code, unique per carrier */
+  code: string;
+  /** Display title, e.g. "Express Delivery" */
+  title: string;
+  /** Estimated delivery time, e.g. "2-3 business days" */
+  deliveryTime: string | null;
+  /** Shipping cost of the option */
+  price: CartTotalsPrice;
+}
+
+/**
+ * A tax charged on the cart, e.g. a state or city tax.
+ */
+export interface CartTotalsTaxLine {
+  /** Name of the tax, e.g. "CA State Tax" */
+  name: string;
+  /** Tax rate as a fraction, e.g. 0.0725, when known */
+  rate: number | null;
+  /** Tax amount */
+  price: CartTotalsPrice;
+}
+
+/**
+ * An additional fee charged on the cart, e.g. a handling or packaging fee.
+ */
+export interface CartTotalsAdditionalFee {
+  /** Fee code */
+  code: string | null;
+  /** Display name of the fee */
+  name: string;
+  /** Fee amount */
+  price: CartTotalsPrice;
+}
+
+/**
+ * Normalized price breakdown of the current cart, computed from `estimateCurrentCartTotals`.
+ */
+export interface CartTotals {
+  /** Currency code of all prices */
+  currency: string;
+  /** Sum of the line items before discounts, shipping and tax */
+  subtotal: CartTotalsPrice;
+  /** Total of all discounts */
+  discount: CartTotalsPrice;
+  /** Discounts per line item, for discounted line items only */
+  lineDiscounts: CartTotalsLineDiscount[];
+  /** Discounts applied to the cart */
+  appliedDiscounts: CartTotalsAppliedDiscount[];
+  /** Coupons applied to the cart */
+  coupons: CartTotalsAppliedDiscount[];
+  /** Shipping estimate */
+  shipping: CartTotalsShipping;
+  /** Shipping options available for the shipping destination the totals were estimated for */
+  shippingOptions: CartShippingOption[];
+  /** Total tax */
+  tax: CartTotalsPrice;
+  /** Taxes, grouped by name */
+  taxLines: CartTotalsTaxLine[];
+  /** Additional fees */
+  additionalFees: CartTotalsAdditionalFee[];
+  /** Amount to pay */
+  total: CartTotalsPrice;
+}
+
+/**
+ * Normalizes the response of `estimateCurrentCartTotals` into the typed cart totals model.
+ *
+ * @param response - The estimate totals response
+ * @param fallbackCurrency - Currency to use when the response doesn't specify one, e.g. the cart currency
+ * @returns The normalized cart totals
+ */
+export function normalizeCartTotals(
+  response: currentCart.EstimateTotalsResponse,
+  fallbackCurrency: string = 'USD',
+): CartTotals {
+  const currency = response.currency || fallbackCurrency;
+  const toPrice = (price?: currentCart.MultiCurrencyPrice) =>
+    createPrice(price, currency);
+
+  const appliedDiscounts: CartTotalsAppliedDiscount[] = (
+    response.appliedDiscounts || []
+  ).flatMap((appliedDiscount): CartTotalsAppliedDiscount[] => {
+    const lineItemIds = appliedDiscount.lineItemIds || [];
+    if (appliedDiscount.coupon) {
+      return [
+        {
+          type: 'coupon',
+          code: appliedDiscount.coupon.code || undefined,
+          name:
+            appliedDiscount.coupon.name ||
+            appliedDiscount.coupon.code ||
+            'Coupon',
+          price: toPrice(appliedDiscount.coupon.amount),
+          lineItemIds,
+        },
+      ];
+    }
+    if (appliedDiscount.discountRule) {
+      return [
+        {
+          type: 'discount-rule',
+          name: appliedDiscount.discountRule.name?.original || 'Discount',
+          price: toPrice(appliedDiscount.discountRule.amount),
+          lineItemIds,
+        },
+      ];
+    }
+    if (appliedDiscount.merchantDiscount) {
+      return [
+        {
+          type: 'merchant-discount',
+          name: 'Discount',
+          price: toPrice(appliedDiscount.merchantDiscount.amount),
+          lineItemIds,
+        },
+      ];
+    }
+    return [];
+  });
+
+  const lineDiscounts: CartTotalsLineDiscount[] = [];
+  const taxLinesByName = new Map<
+    string,
+    { rate: number | null; amount: number }
+  >();
+
+  for (const lineItem of response.calculatedLineItems || []) {
+    const breakdown = lineItem.pricesBreakdown;
+    const discount = toPrice(breakdown?.totalDiscount);
+    if (lineItem.lineItemId && discount.amount > 0) {
+      lineDiscounts.push({ lineItemId: lineItem.lineItemId, price: discount });
+    }
+
+    for (const tax of breakdown?.taxDetails?.taxBreakdown || []) {
+      const name = tax.taxName || tax.jurisdiction || 'Tax';
+      const rate = tax.rate ? parseFloat(tax.rate) : null;
+      const existing = taxLinesByName.get(name);
+      taxLinesByName.set(name, {
+        rate: existing && existing.rate !== rate ? null : rate,
+        amount: (existing?.amount || 0) + parseAmount(tax.taxAmount?.amount),
+      });
+    }
+  }
+
+  const summary = response.priceSummary || {};
+  const selectedShippingOption =
+    response.shippingInfo?.selectedCarrierServiceOption;
+
+  return {
+    currency,
+    subtotal: toPrice(summary.subtotal),
+    discount: toPrice(summary.discount),
+    lineDiscounts,
+    appliedDiscounts,
+    coupons: appliedDiscounts.filter((discount) => discount.type === 'coupon'),
+    shipping: {
+      price: toPrice(summary.shipping),
+      title: selectedShippingOption?.title || null,
+      code: selectedShippingOption?.code || null,
+      carrierId: selectedShippingOption?.carrierId || null,
+    },
+    shippingOptions: (
+      response.shippingInfo?.carrierServiceOptions || []
+    ).flatMap((carrier) =>
+      (carrier.shippingOptions || [])
+        .filter((option) => !!option.code)
+        .map((option) => ({
+          carrierId: carrier.carrierId || null,
+          code: option.code!,
+          title: option.title || option.code!,
+          deliveryTime: option.logistics?.deliveryTime || null,
+          price: toPrice(option.cost?.price),
+        })),
+    ),
+    tax: toPrice(summary.tax),
+    taxLines: [...taxLinesByName].map(([name, { rate, amount }]) => ({
+      name,
+      rate: rate !== null && !isNaN(rate) ? rate : null,
+      price: createPrice({ amount: String(amount) }, currency),
+    })),
+    additionalFees: (response.additionalFees || []).map((fee) => ({
+      code: fee.code || null,
+      name: fee.name || fee.code || 'Fee',
+      price: toPrice(fee.priceAfterTax || fee.price),
+    })),
+    total: toPrice(summary.total),
+  };
+}
+
+/**
+ * Formats an amount in a currency, e.g. "$24.99".
+ *
+ * @param amount - The amount
+ * @param currency - The currency code
+ * @returns The formatted amount
+ */
+export function formatCartPrice(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+    }).format(amount);
+  } catch {
+    // Fallback if currency code is invalid
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+/**
+ * @private
+ */
+function createPrice(
+  price: currentCart.MultiCurrencyPrice | undefined,
+  currency: string,
+): CartTotalsPrice {
+  const amount = parseAmount(price?.amount);
+  return {
+    amount,
+    formattedAmount:
+      price?.formattedAmount || formatCartPrice(amount, currency),
+  };
+}
+
+/**
+ * @private
+ */
+function parseAmount(amount?: string | null): number {
+  if (!amount) return 0;
+  const parsed = parseFloat(amount);
+  return isNaN(parsed) ? 0 : parsed;
+}
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  getCheckoutRedirectUrl,
+  redirectToCheckout,
+} from './checkout-redirect.js';
+
+vi.mock('@wix/redirects', () => ({
+  redirects: {
+    createRedirectSession: vi.fn(),
+  },
+}));
+
+import { redirects } from '@wix/redirects';
+
+describe('checkout redirect', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(redirects.createRedirectSession).mockResolvedValue({
+      redirectSession: { fullUrl: 'https://checkout.example.com/session' },
+    } as any);
+  });
+
+  describe('getCheckoutRedirectUrl', () => {
+    it('defaults the post flow callback to the current page and leaves out the cart page', async () => {
+      const url = await getCheckoutRedirectUrl('checkout-1', {});
+
+      expect(url).toBe('https://checkout.example.com/session');
+      expect(redirects.createRedirectSession).toHaveBeenCalledWith({
+        ecomCheckout: { checkoutId: 'checkout-1' },
+        callbacks: {
+          postFlowUrl: window.location.href,
+        },
+      });
+    });
+
+    it('sends the configured urls as the redirect callbacks', async () => {
+      await getCheckoutRedirectUrl(
+        'checkout-1',
+        {
+          thankYouPageUrl: 'https://example.com/thank-you',
+          cartPageUrl: 'https://example.com/my-cart',
+          continueShoppingUrl: 'https://example.com/shop',
+        },
+        { useGenericWixPages: false },
+      );
+
+      expect(redirects.createRedirectSession).toHaveBeenCalledWith({
+        ecomCheckout: { checkoutId: 'checkout-1' },
+        preferences: { useGenericWixPages: false },
+        callbacks: {
+          postFlowUrl: 'https://example.com/shop',
+          cartPageUrl: 'https://example.com/my-cart',
+          thankYouPageUrl: 'https://example.com/thank-you',
+        },
+      });
+    });
+
+    it('prefers an explicit postFlowUrl over continueShoppingUrl', async () => {
+      await getCheckoutRedirectUrl('checkout-1', {
+        postFlowUrl: 'https://example.com/after-checkout',
+        continueShoppingUrl: 'https://example.com/shop',
+      });
+
+      expect(
+        vi.mocked(redirects.createRedirectSession).mock.calls[0]?.[0]?.callbacks
+          ?.postFlowUrl,
+      ).toBe('https://example.com/after-checkout');
+    });
+
+    it('throws when no redirect session is created', async () => {
+      vi.mocked(redirects.createRedirectSession).mockResolvedValueOnce(
+        {} as any,
+      );
+
+      await expect(getCheckoutRedirectUrl('checkout-1', {})).rejects.toThrow(
+        'Failed to create redirect session',
+      );
+    });
+  });
+
+  describe('redirectToCheckout', () => {
+    it('hands the url to onCheckoutUrl instead of navigating', () => {
+      const onCheckoutUrl = vi.fn();
+      const href = window.location.href;
+
+      redirectToCheckout('https://checkout.example.com/session', {
+        onCheckoutUrl,
+      });
+
+      expect(onCheckoutUrl).toHaveBeenCalledWith(
+        'https://checkout.example.com/session',
+      );
+      expect(window.location.href).toBe(href);
+    });
+  });
+});
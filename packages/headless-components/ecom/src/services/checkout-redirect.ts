@@ -0,0 +1,96 @@
+import { redirects } from '@wix/redirects';
+
+/**
+ * Buyer details and extended fields to add to the checkout before redirecting to it.
+ */
+export interface CheckoutEnrichment {
+  /** Buyer details to prefill in the checkout */
+  buyerInfo?: {
+    email?: string;
+  };
+  /** Extended fields to set on the checkout, keyed by app namespace */
+  extendedFields?: Record<string, Record<string, any>>;
+}
+
+/**
+ * Hook called before a checkout is created. Return `false` to cancel the checkout,
+ * or an enrichment to add buyer details and extended fields to it. Errors thrown by the
+ * hook cancel the checkout and are reported as the service error.
+ */
+export type BeforeCheckoutHook<TContext> = (
+  context: TContext,
+) =>
+  | void
+  | false
+  | CheckoutEnrichment
+  | Promise<void | false | CheckoutEnrichment>;
+
+/**
+ * Redirect configuration shared by the services that send the shopper to checkout.
+ */
+export interface CheckoutRedirectConfig {
+  /** URL of the thank you page the shopper lands on after paying. Defaults to the Wix thank you page */
+  thankYouPageUrl?: string;
+  /**
+   * URL of the cart page, used by the checkout's "back to cart" link. Checkouts of the current cart
+   * default it to `/cart` on the current origin; other checkouts, e.g. buy now, only send it when set
+   */
+  cartPageUrl?: string;
+  /** URL the shopper goes to when leaving the checkout without paying, sent as the redirect's `postFlowUrl`. Defaults to the current page */
+  continueShoppingUrl?: string;
+  /**
+   * Called with the checkout URL instead of navigating to it, e.g. to open the checkout
+   * in a popup or with the app's router
+   */
+  onCheckoutUrl?: (url: string) => void;
+}
+
+/**
+ * Creates a redirect session for a checkout and returns its URL.
+ *
+ * @private
+ */
+export async function getCheckoutRedirectUrl(
+  checkoutId: string,
+  config: CheckoutRedirectConfig & { postFlowUrl?: string },
+  preferences?: { useGenericWixPages?: boolean },
+): Promise<string> {
+  const isBrowser = typeof window !== 'undefined';
+
+  const { redirectSession } = await redirects.createRedirectSession({
+    ecomCheckout: { checkoutId },
+    ...(preferences && { preferences }),
+    callbacks: {
+      postFlowUrl:
+        config.postFlowUrl ||
+        config.continueShoppingUrl ||
+        (isBrowser ? window.location.href : ''),
+      ...(config.cartPageUrl && { cartPageUrl: config.cartPageUrl }),
+      ...(config.thankYouPageUrl && {
+        thankYouPageUrl: config.thankYouPageUrl,
+      }),
+    },
+  });
+
+  if (!redirectSession?.fullUrl) {
+    throw new Error('Failed to create redirect session');
+  }
+
+  return redirectSession.fullUrl;
+}
+
+/**
+ * Sends the shopper to the checkout URL, or hands the URL to `onCheckoutUrl` when configured.
+ *
+ * @private
+ */
+export function redirectToCheckout(
+  url: string,
+  config: CheckoutRedirectConfig,
+): void {
+  if (config.onCheckoutUrl) {
+    config.onCheckoutUrl(url);
+  } else if (typeof window !== 'undefined') {
+    window.location.href = url;
+  }
+}
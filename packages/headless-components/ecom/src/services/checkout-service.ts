@@ -4,7 +4,12 @@ import {
   type Signal,
 } from '@wix/services-definitions/core-services/signals';
 import * as checkout from '@wix/auto_sdk_ecom_checkout';
-import { redirects } from '@wix/redirects';
+import {
+  getCheckoutRedirectUrl,
+  redirectToCheckout,
+  type BeforeCheckoutHook,
+  type CheckoutRedirectConfig,
+} from './checkout-redirect.js';
 
 export { ChannelType } from '@wix/auto_sdk_ecom_checkout';
 
@@ -17,7 +22,8 @@ export interface CheckoutServiceAPI {
   isLoading: Signal<boolean>;
   error: Signal<string | null>;
 
-  createCheckout: (lineItems: LineItem[]) => Promise<void>;
+  /** Creates a checkout and redirects to it. Resolves with the checkout URL, or null if the checkout wasn't created */
+  createCheckout: (lineItems: LineItem[]) => Promise<string | null>;
 }
 
 export const CheckoutServiceDefinition =
@@ -26,9 +32,11 @@ export const CheckoutServiceDefinition =
 /**
  * Configuration options for the Checkout service
  */
-export interface CheckoutServiceConfig {
+export interface CheckoutServiceConfig extends CheckoutRedirectConfig {
   channelType?: checkout.ChannelType;
   postFlowUrl?: string;
+  /** Called before the checkout is created, to cancel it or add buyer details and extended fields */
+  beforeCheckout?: BeforeCheckoutHook<{ lineItems: LineItem[] }>;
 }
 
 export const CheckoutService =
@@ -40,40 +48,51 @@ export const CheckoutService =
       const isLoading: Signal<boolean> = signalsService.signal(false);
       const error: Signal<string | null> = signalsService.signal(null as any);
 
-      const createCheckout = async (lineItems: LineItem[]) => {
+      const createCheckout = async (
+        lineItems: LineItem[],
+      ): Promise<string | null> => {
         try {
           isLoading.set(true);
           error.set(null);
 
+          const enrichment = config.beforeCheckout
+            ? await config.beforeCheckout({ lineItems })
+            : undefined;
+          if (enrichment === false) {
+            return null;
+          }
+
           const checkoutResult = await checkout.createCheckout({
             lineItems,
             channelType: config.channelType || checkout.ChannelType.WEB,
+            ...(enrichment && {
+              checkoutInfo: {
+                ...(enrichment.buyerInfo && {
+                  buyerInfo: enrichment.buyerInfo,
+                }),
+                ...(enrichment.extendedFields && {
+                  extendedFields: { namespaces: enrichment.extendedFields },
+                }),
+              },
+            }),
           });
 
           if (!checkoutResult._id) {
             throw new Error('Failed to create checkout');
           }
 
-          const { redirectSession } = await redirects.createRedirectSession({
-            ecomCheckout: { checkoutId: checkoutResult._id },
-            callbacks: {
-              postFlowUrl:
-                config.postFlowUrl ||
-                (typeof window !== 'undefined' ? window.location.href : ''),
-            },
-          });
+          const checkoutUrl = await getCheckoutRedirectUrl(
+            checkoutResult._id,
+            config,
+          );
+          redirectToCheckout(checkoutUrl, config);
 
-          if (redirectSession?.fullUrl) {
-            if (typeof window !== 'undefined') {
-              window.location.href = redirectSession.fullUrl;
-            }
-          } else {
-            throw new Error('Failed to create redirect session');
-          }
+          return checkoutUrl;
         } catch (err) {
           error.set(
             err instanceof Error ? err.message : 'Failed to create checkout',
           );
+          return null;
         } finally {
           isLoading.set(false);
         }
@@ -0,0 +1,469 @@
+import {
+  createServicesManager,
+  createServicesMap,
+} from '@wix/services-manager';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CurrentCartService,
+  CurrentCartServiceDefinition,
+  type CurrentCartServiceConfig,
+} from './current-cart-service.js';
+
+vi.mock('@wix/auto_sdk_ecom_current-cart', () => ({
+  addToCurrentCart: vi.fn(),
+  createCheckoutFromCurrentCart: vi.fn(),
+  estimateCurrentCartTotals: vi.fn(),
+  getCurrentCart: vi.fn(),
+  removeLineItemsFromCurrentCart: vi.fn(),
+  updateCurrentCartLineItemQuantity: vi.fn(),
+}));
+
+vi.mock('@wix/auto_sdk_ecom_checkout', () => ({
+  ChannelType: { WEB: 'WEB' },
+  removeGiftCard: vi.fn(),
+  updateCheckout: vi.fn(),
+}));
+
+vi.mock('@wix/auto_sdk_ecom_gift-vouchers', () => ({
+  Status: { VALID: 'VALID', EXPIRED: 'EXPIRED', DISABLED: 'DISABLED' },
+  getGiftCard: vi.fn(),
+}));
+
+vi.mock('@wix/redirects', () => ({
+  redirects: {
+    createRedirectSession: vi.fn(),
+  },
+}));
+
+import * as checkout from '@wix/auto_sdk_ecom_checkout';
+import * as currentCart from '@wix/auto_sdk_ecom_current-cart';
+import * as giftVouchers from '@wix/auto_sdk_ecom_gift-vouchers';
+import { redirects } from '@wix/redirects';
+
+const aCart = (
+  lineItems: Array<{ id: string; quantity: number }>,
+): currentCart.Cart => ({
+  _id: 'cart-1',
+  currency: 'USD',
+  lineItems: lineItems.map(({ id, quantity }) => ({
+    _id: id,
+    quantity,
+    price: { amount: '10' },
+  })),
+});
+
+const aGiftCard = (
+  overrides: Partial<giftVouchers.GiftCard> = {},
+): giftVouchers.GiftCard => ({
+  obfuscatedCode: '****-1234',
+  balance: { value: '25', currency: 'USD' },
+  status: 'VALID' as giftVouchers.Status,
+  ...overrides,
+});
+
+const quantities = (cart: currentCart.Cart | null) =>
+  (cart?.lineItems || []).map((item) => [item._id, item.quantity]);
+
+describe('CurrentCartService', () => {
+  const createServiceInstance = (config: CurrentCartServiceConfig = {}) => {
+    const servicesManager = createServicesManager(
+      createServicesMap().addService(
+        CurrentCartServiceDefinition,
+        CurrentCartService,
+        {
+          initialCart: aCart([
+            { id: 'line-1', quantity: 1 },
+            { id: 'line-2', quantity: 2 },
+          ]),
+          ...config,
+        },
+      ),
+    );
+
+    return servicesManager.getService(CurrentCartServiceDefinition);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+    vi.mocked(currentCart.estimateCurrentCartTotals).mockResolvedValue(
+      {} as any,
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  describe('line item changes', () => {
+    it('applies a quantity change at once and marks the line item pending until confirmed', async () => {
+      vi.mocked(
+        currentCart.updateCurrentCartLineItemQuantity,
+      ).mockResolvedValue({
+        cart: aCart([
+          { id: 'line-1', quantity: 3 },
+          { id: 'line-2', quantity: 2 },
+        ]),
+      } as any);
+      const service = createServiceInstance();
+
+      const update = service.updateLineItemQuantity('line-1', 3);
+
+      expect(quantities(service.cart.get())).toEqual([
+        ['line-1', 3],
+        ['line-2', 2],
+      ]);
+      expect(service.pendingLineItemIds.get()).toEqual(['line-1']);
+      expect(service.isLineItemPending('line-1')).toBe(true);
+      expect(service.isLineItemPending('line-2')).toBe(false);
+
+      await vi.runAllTimersAsync();
+      await update;
+
+      expect(service.pendingLineItemIds.get()).toEqual([]);
+      expect(service.isLineItemPending('line-1')).toBe(false);
+      expect(quantities(service.cart.get())).toEqual([
+        ['line-1', 3],
+        ['line-2', 2],
+      ]);
+    });
+
+    it('sends a burst of quantity changes as a single request with the latest quantity', async () => {
+      vi.mocked(
+        currentCart.updateCurrentCartLineItemQuantity,
+      ).mockResolvedValue({
+        cart: aCart([
+          { id: 'line-1', quantity: 4 },
+          { id: 'line-2', quantity: 2 },
+        ]),
+      } as any);
+      const service = createServiceInstance();
+
+      service.increaseLineItemQuantity('line-1');
+      service.increaseLineItemQuantity('line-1');
+      service.increaseLineItemQuantity('line-1');
+      await vi.runAllTimersAsync();
+
+      expect(
+        currentCart.updateCurrentCartLineItemQuantity,
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        currentCart.updateCurrentCartLineItemQuantity,
+      ).toHaveBeenCalledWith([{ _id: 'line-1', quantity: 4 }]);
+    });
+
+    it('keeps a change made while the previous request is in flight pending', async () => {
+      let resolveFirstRequest: (value: any) => void = () => {};
+      vi.mocked(currentCart.updateCurrentCartLineItemQuantity)
+        .mockImplementationOnce(
+          () =>
+            new Promise((resolve) => {
+              resolveFirstRequest = resolve;
+            }),
+        )
+        .mockResolvedValueOnce({
+          cart: aCart([
+            { id: 'line-1', quantity: 5 },
+            { id: 'line-2', quantity: 2 },
+          ]),
+        } as any);
+      const service = createServiceInstance();
+
+      service.updateLineItemQuantity('line-1', 3);
+      await vi.advanceTimersByTimeAsync(300);
+      service.updateLineItemQuantity('line-1', 5);
+
+      resolveFirstRequest({
+        cart: aCart([
+          { id: 'line-1', quantity: 3 },
+          { id: 'line-2', quantity: 2 },
+        ]),
+      });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(service.pendingLineItemIds.get()).toEqual(['line-1']);
+      expect(quantities(service.cart.get())[0]).toEqual(['line-1', 5]);
+
+      await vi.runAllTimersAsync();
+
+      expect(service.pendingLineItemIds.get()).toEqual([]);
+      expect(quantities(service.cart.get())[0]).toEqual(['line-1', 5]);
+    });
+
+    it('removes a line item at once and rolls it back when the server rejects the removal', async () => {
+      vi.mocked(currentCart.removeLineItemsFromCurrentCart).mockRejectedValue(
+        new Error('Line item is locked'),
+      );
+      const service = createServiceInstance();
+
+      const removal = service.removeLineItem('line-2');
+
+      expect(quantities(service.cart.get())).toEqual([['line-1', 1]]);
+      expect(service.isLineItemPending('line-2')).toBe(true);
+
+      await removal;
+
+      expect(quantities(service.cart.get())).toEqual([
+        ['line-1', 1],
+        ['line-2', 2],
+      ]);
+      expect(service.pendingLineItemIds.get()).toEqual([]);
+      expect(service.mutationError.get()).toEqual({
+        type: 'remove-line-item',
+        lineItemId: 'line-2',
+        requestedQuantity: undefined,
+        code: undefined,
+        message: 'Line item is locked',
+      });
+    });
+  });
+
+  describe('line item issues', () => {
+    it('detects price increases only once the stored prices are restored', () => {
+      localStorage.setItem(
+        'wix-ecom-cart-line-item-prices',
+        JSON.stringify({ 'line-1': 8 }),
+      );
+      const service = createServiceInstance();
+
+      expect(service.lineItemIssues.get()).toEqual({});
+
+      service.restoreLineItemPrices();
+
+      expect(
+        service.getLineItemIssues('line-1').map((issue) => issue.type),
+      ).toEqual(['price-increased']);
+      expect(
+        JSON.parse(localStorage.getItem('wix-ecom-cart-line-item-prices')!),
+      ).toEqual({ 'line-1': 8, 'line-2': 10 });
+    });
+  });
+
+  describe('added line items', () => {
+    beforeEach(() => {
+      vi.mocked(currentCart.addToCurrentCart).mockResolvedValue({
+        cart: aCart([
+          { id: 'line-1', quantity: 1 },
+          { id: 'line-2', quantity: 3 },
+        ]),
+      });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('highlights the added line item and opens the drawer', async () => {
+      const service = createServiceInstance();
+
+      await service.addToCart([{ quantity: 1 }]);
+
+      expect(service.lastAddedLineItemId.get()).toBe('line-2');
+      expect(service.isDrawerOpen.get()).toBe(true);
+    });
+
+    it('leaves the added line item to the caller when showAddedLineItem is false', async () => {
+      const service = createServiceInstance();
+
+      await service.addToCart([{ quantity: 1 }], { showAddedLineItem: false });
+
+      expect(service.lastAddedLineItemId.get()).toBeNull();
+      expect(service.isDrawerOpen.get()).toBe(false);
+
+      service.showAddedLineItem('line-2');
+
+      expect(service.lastAddedLineItemId.get()).toBe('line-2');
+      expect(service.isDrawerOpen.get()).toBe(true);
+    });
+
+    it('opens the drawer of the other islands synced on the same page', async () => {
+      vi.stubGlobal('BroadcastChannel', undefined);
+      const service = createServiceInstance({ sync: true });
+      const island = createServiceInstance({ sync: true });
+      const stopSync = service.startSync();
+      const stopIslandSync = island.startSync();
+
+      await service.addToCart([{ quantity: 1 }]);
+
+      expect(island.lastAddedLineItemId.get()).toBe('line-2');
+      expect(island.isDrawerOpen.get()).toBe(true);
+
+      stopSync();
+      stopIslandSync();
+    });
+  });
+
+  describe('proceedToCheckout', () => {
+    beforeEach(() => {
+      vi.mocked(currentCart.createCheckoutFromCurrentCart).mockResolvedValue({
+        checkoutId: 'checkout-1',
+      });
+      vi.mocked(redirects.createRedirectSession).mockResolvedValue({
+        redirectSession: { fullUrl: 'https://checkout.example.com/session' },
+      } as any);
+    });
+
+    const redirectCallbacks = () =>
+      vi.mocked(redirects.createRedirectSession).mock.calls[0]?.[0]?.callbacks;
+
+    it('sends the cart page on the current origin as the checkout cart page', async () => {
+      const service = createServiceInstance({ onCheckoutUrl: vi.fn() });
+
+      await service.proceedToCheckout();
+
+      expect(redirectCallbacks()?.cartPageUrl).toBe(
+        window.location.origin + '/cart',
+      );
+    });
+
+    it('sends the configured cart page', async () => {
+      const service = createServiceInstance({
+        onCheckoutUrl: vi.fn(),
+        cartPageUrl: 'https://example.com/my-cart',
+      });
+
+      await service.proceedToCheckout();
+
+      expect(redirectCallbacks()?.cartPageUrl).toBe(
+        'https://example.com/my-cart',
+      );
+    });
+  });
+
+  describe('gift cards', () => {
+    beforeEach(() => {
+      vi.mocked(currentCart.estimateCurrentCartTotals).mockResolvedValue({
+        priceSummary: { total: { amount: '40' } },
+      } as any);
+      vi.mocked(currentCart.createCheckoutFromCurrentCart).mockResolvedValue({
+        checkoutId: 'checkout-1',
+      });
+      vi.mocked(redirects.createRedirectSession).mockResolvedValue({
+        redirectSession: { fullUrl: 'https://checkout.example.com/session' },
+      } as any);
+    });
+
+    it('validates a code with the gift card provider without creating a checkout', async () => {
+      vi.mocked(giftVouchers.getGiftCard).mockResolvedValue({
+        giftCard: aGiftCard(),
+      } as any);
+      const service = createServiceInstance();
+
+      const giftCard = await service.validateGiftCard('GIFT-1234');
+
+      expect(giftVouchers.getGiftCard).toHaveBeenCalledWith('GIFT-1234');
+      expect(currentCart.createCheckoutFromCurrentCart).not.toHaveBeenCalled();
+      expect(checkout.updateCheckout).not.toHaveBeenCalled();
+      expect(giftCard).toEqual({
+        code: 'GIFT-1234',
+        obfuscatedCode: '****-1234',
+        amount: { amount: 25, formattedAmount: '$25.00' },
+      });
+    });
+
+    it('caps the redeemed amount to the cart total', async () => {
+      vi.mocked(currentCart.estimateCurrentCartTotals).mockResolvedValue({
+        priceSummary: { total: { amount: '10' } },
+      } as any);
+      vi.mocked(giftVouchers.getGiftCard).mockResolvedValue({
+        giftCard: aGiftCard(),
+      } as any);
+      const service = createServiceInstance();
+
+      const giftCard = await service.validateGiftCard('GIFT-1234');
+
+      expect(giftCard?.amount).toEqual({
+        amount: 10,
+        formattedAmount: '$10.00',
+      });
+    });
+
+    it.each([
+      ['expired', aGiftCard({ status: 'EXPIRED' as giftVouchers.Status })],
+      ['invalid', aGiftCard({ status: 'DISABLED' as giftVouchers.Status })],
+      [
+        'not-applicable',
+        aGiftCard({ balance: { value: '0', currency: 'USD' } }),
+      ],
+      [
+        'not-applicable',
+        aGiftCard({ balance: { value: '25', currency: 'EUR' } }),
+      ],
+    ])(
+      'rejects a gift card that cannot be redeemed as %s',
+      async (reason, giftCard) => {
+        vi.mocked(giftVouchers.getGiftCard).mockResolvedValue({
+          giftCard,
+        } as any);
+        const service = createServiceInstance();
+
+        expect(await service.validateGiftCard('GIFT-1234')).toBeNull();
+        expect(service.codeError.get()?.reason).toBe(reason);
+      },
+    );
+
+    it('rejects a code the provider does not know', async () => {
+      vi.mocked(giftVouchers.getGiftCard).mockRejectedValue({
+        details: { applicationError: { code: 'GIFT_CARD_NOT_FOUND' } },
+      });
+      const service = createServiceInstance();
+
+      expect(await service.validateGiftCard('GIFT-1234')).toBeNull();
+      expect(service.codeError.get()).toMatchObject({
+        type: 'gift-card',
+        code: 'GIFT-1234',
+        reason: 'invalid',
+      });
+    });
+
+    it('removes the gift card from the checkout it was added to', async () => {
+      vi.mocked(giftVouchers.getGiftCard).mockResolvedValue({
+        giftCard: aGiftCard(),
+      } as any);
+      const service = createServiceInstance({ onCheckoutUrl: vi.fn() });
+      await service.applyGiftCard('GIFT-1234');
+      await service.proceedToCheckout();
+
+      await service.removeGiftCard('GIFT-1234');
+
+      expect(checkout.updateCheckout).toHaveBeenCalledWith(
+        'checkout-1',
+        {},
+        { giftCardCode: 'GIFT-1234' },
+      );
+      expect(checkout.removeGiftCard).toHaveBeenCalledWith('checkout-1');
+      expect(service.giftCards.get()).toEqual([]);
+    });
+
+    it('keeps the gift card when the checkout fails to remove it', async () => {
+      vi.mocked(giftVouchers.getGiftCard).mockResolvedValue({
+        giftCard: aGiftCard(),
+      } as any);
+      vi.mocked(checkout.removeGiftCard).mockRejectedValue(
+        new Error('Checkout not found'),
+      );
+      const service = createServiceInstance({ onCheckoutUrl: vi.fn() });
+      await service.applyGiftCard('GIFT-1234');
+      await service.proceedToCheckout();
+
+      await service.removeGiftCard('GIFT-1234');
+
+      expect(service.giftCards.get()).toHaveLength(1);
+      expect(service.error.get()).toBe('Checkout not found');
+    });
+
+    it('removes a gift card that was not added to a checkout locally', async () => {
+      vi.mocked(giftVouchers.getGiftCard).mockResolvedValue({
+        giftCard: aGiftCard(),
+      } as any);
+      const service = createServiceInstance();
+      await service.applyGiftCard('GIFT-1234');
+
+      await service.removeGiftCard('GIFT-1234');
+
+      expect(checkout.removeGiftCard).not.toHaveBeenCalled();
+      expect(service.giftCards.get()).toEqual([]);
+    });
+  });
+});
@@ -6,7 +6,38 @@ import {
 } from '@wix/services-definitions/core-services/signals';
 import * as currentCart from '@wix/auto_sdk_ecom_current-cart';
 import * as checkout from '@wix/auto_sdk_ecom_checkout';
-import { redirects } from '@wix/redirects';
+import * as giftVouchers from '@wix/auto_sdk_ecom_gift-vouchers';
+import { createCartSync, type CartSyncOptions } from './cart-sync.js';
+import { normalizeCartTotals, type CartTotals } from './cart-totals.js';
+import {
+  getCheckoutRedirectUrl,
+  redirectToCheckout,
+  type BeforeCheckoutHook,
+  type CheckoutRedirectConfig,
+} from './checkout-redirect.js';
+import {
+  createAppliedGiftCard,
+  createGiftCardError,
+  getCartCodeError,
+  getGiftCardErrorReason,
+  type AppliedCode,
+  type AppliedGiftCard,
+  type CartCodeError,
+} from './cart-codes.js';
+import {
+  computeThresholdProgress,
+  getLineItemsSubtotal,
+  type CartThreshold,
+  type CartThresholdProgress,
+} from './threshold-progress.js';
+import {
+  detectLineItemIssues,
+  getLineItemPrices,
+  readLineItemPrices,
+  writeLineItemPrices,
+  type LineItemIssue,
+  type LineItemPrices,
+} from './line-item-issues.js';
 
 export interface CurrentCartServiceAPI {
   cart: Signal<currentCart.Cart | null>;
@@ -16,11 +47,25 @@ export interface CurrentCartServiceAPI {
   error: Signal<string | null>;
   cartCount: ReadOnlySignal<number>;
   buyerNotes: Signal<string>;
-  cartTotals: Signal<any | null>;
+  cartTotals: Signal<CartTotals | null>;
+  pendingLineItemIds: Signal<string[]>;
+  mutationError: Signal<CartMutationError | null>;
+  shippingDestination: Signal<CartShippingDestination | null>;
+  giftCards: Signal<AppliedGiftCard[]>;
+  appliedCodes: ReadOnlySignal<AppliedCode[]>;
+  codeError: Signal<CartCodeError | null>;
+  thresholdProgress: ReadOnlySignal<CartThresholdProgress>;
+  lineItemIssues: Signal<Record<string, LineItemIssue[]>>;
+  isDrawerOpen: Signal<boolean>;
+  lastAddedLineItemId: Signal<string | null>;
 
+  /** Adds line items to the cart. Unless `showAddedLineItem` is false, the added line item is then shown as by `showAddedLineItem` */
   addToCart: (
     lineItems: currentCart.AddToCurrentCartRequest['lineItems'],
+    options?: { showAddedLineItem?: boolean },
   ) => Promise<void>;
+  /** Highlights the line item an add created or increased and opens the drawer when configured to, in this instance and the others synced on the same page */
+  showAddedLineItem: (lineItemId: string | null) => void;
   removeLineItem: (lineItemId: string) => Promise<void>;
   updateLineItemQuantity: (
     lineItemId: string,
@@ -30,10 +75,30 @@ export interface CurrentCartServiceAPI {
   decreaseLineItemQuantity: (lineItemId: string) => Promise<void>;
   clearCart: () => Promise<void>;
   setBuyerNotes: (notes: string) => Promise<void>;
-  proceedToCheckout: () => Promise<void>;
+  proceedToCheckout: () => Promise<string | null>;
   applyCoupon: (couponCode: string) => Promise<void>;
-  removeCoupon: () => Promise<void>;
+  removeCoupon: (couponCode?: string) => Promise<void>;
+  validateGiftCard: (giftCardCode: string) => Promise<AppliedGiftCard | null>;
+  applyGiftCard: (giftCardCode: string) => Promise<void>;
+  removeGiftCard: (giftCardCode: string) => Promise<void>;
   reloadCart: () => Promise<void>;
+  /** Returns the cart as last returned by the server, without the line item changes still pending */
+  getConfirmedCart: () => currentCart.Cart | null;
+  /** Restores the unit prices the shopper last saw, kept in localStorage, and detects the price increases since. Called once the UI is mounted */
+  restoreLineItemPrices: () => void;
+  /** Starts the sync configured by `sync`, e.g. once the UI is mounted. Returns a function that stops it */
+  startSync: () => () => void;
+  setShippingDestination: (destination: CartShippingDestination | null) => void;
+  selectShippingOption: (option: {
+    carrierId?: string | null;
+    code: string;
+  }) => Promise<void>;
+  isLineItemPending: (lineItemId: string) => boolean;
+  getLineItemIssues: (lineItemId: string) => LineItemIssue[];
+  fixIssues: (lineItemId?: string) => Promise<void>;
+  openDrawer: () => void;
+  closeDrawer: () => void;
+  getThresholdProgress: (thresholds: CartThreshold[]) => CartThresholdProgress;
   onAddedToCart: (
     callback: (
       lineItems: currentCart.AddToCurrentCartRequest['lineItems'],
@@ -44,10 +109,80 @@ export interface CurrentCartServiceAPI {
 export const CurrentCartServiceDefinition =
   defineService<CurrentCartServiceAPI>('currentCart');
 
-export interface CurrentCartServiceConfig {
+export interface CurrentCartServiceConfig extends CheckoutRedirectConfig {
   initialCart?: currentCart.Cart | null;
+  /**
+   * How long (ms) to wait for more quantity changes of a line item before sending them to the server.
+   * Bursts of changes, e.g. rapid +/- clicks, are sent as a single request. Defaults to 300
+   */
+  quantityUpdateDelay?: number;
+  /**
+   * Keeps this cart in sync with the cart in other tabs and in other islands mounting CurrentCart.Root:
+   * changes made by one instance are broadcast to the others, and the cart is reloaded when the page
+   * becomes visible again. Off by default. CurrentCart.Root starts the sync once mounted and stops it
+   * when unmounted; without it, call `startSync()`
+   */
+  sync?: boolean | CartSyncOptions;
+  /**
+   * Destination to estimate shipping and tax for, e.g. from the visitor's saved address.
+   * Without a destination the totals don't include shipping and tax until checkout
+   */
+  shippingDestination?: CartShippingDestination | null;
+  /** Called before the checkout is created, to cancel it or add buyer details and extended fields */
+  beforeCheckout?: BeforeCheckoutHook<{ cart: currentCart.Cart | null }>;
+  /** Spend thresholds, e.g. free shipping, that `thresholdProgress` tracks the cart subtotal against */
+  thresholds?: CartThreshold[];
+  /** How the mini cart drawer (`CurrentCart.Drawer`) reacts to items added to the cart */
+  drawer?: CartDrawerConfig;
+}
+
+/**
+ * How the mini cart drawer reacts to items added to the cart.
+ */
+export interface CartDrawerConfig {
+  /** Whether to open the drawer when items are added to the cart. Defaults to true */
+  openOnAdd?: boolean;
+  /** How long (ms) to wait after items are added before opening the drawer. Defaults to 0 */
+  openOnAddDelay?: number;
+  /** How long (ms) the last added line item stays in `lastAddedLineItemId`. Defaults to 3000 */
+  highlightDuration?: number;
+}
+
+/**
+ * Destination the cart totals are estimated for.
+ */
+export interface CartShippingDestination {
+  /** Country code in ISO-3166 alpha-2 format, e.g. "US" */
+  country: string;
+  /** Subdivision code in ISO-3166-2 format, e.g. "US-CA" */
+  subdivision?: string;
+  /** Postal or zip code */
+  postalCode?: string;
 }
 
+/**
+ * Error of a line item change the server rejected. The change is rolled back when it is set.
+ */
+export interface CartMutationError {
+  /** The rejected change */
+  type: 'update-quantity' | 'remove-line-item';
+  /** ID of the line item the change was made to */
+  lineItemId: string;
+  /** Quantity requested by the rejected change, for quantity updates */
+  requestedQuantity?: number;
+  /** Application error code returned by the server, if any */
+  code?: string;
+  /** Error message */
+  message: string;
+}
+
+type PendingLineItemChange =
+  | { type: 'update-quantity'; quantity: number }
+  | { type: 'remove-line-item' };
+
+const DEFAULT_QUANTITY_UPDATE_DELAY = 300;
+const DEFAULT_HIGHLIGHT_DURATION = 3000;
+
 export const CurrentCartService =
   implementService.withConfig<CurrentCartServiceConfig>()(
     CurrentCartServiceDefinition,
@@ -62,7 +197,28 @@ export const CurrentCartService =
       const isCouponLoading: Signal<boolean> = signalsService.signal(false);
       const error: Signal<string | null> = signalsService.signal(null as any);
       const buyerNotes: Signal<string> = signalsService.signal('');
-      const cartTotals: Signal<any | null> = signalsService.signal(null);
+      const cartTotals: Signal<CartTotals | null> = signalsService.signal(
+        null as any,
+      );
+      const pendingLineItemIds: Signal<string[]> = signalsService.signal<
+        string[]
+      >([]);
+      const mutationError: Signal<CartMutationError | null> =
+        signalsService.signal(null as any);
+      const shippingDestination: Signal<CartShippingDestination | null> =
+        signalsService.signal((config.shippingDestination || null) as any);
+      const giftCards: Signal<AppliedGiftCard[]> = signalsService.signal<
+        AppliedGiftCard[]
+      >([]);
+      const codeError: Signal<CartCodeError | null> = signalsService.signal(
+        null as any,
+      );
+      const lineItemIssues: Signal<Record<string, LineItemIssue[]>> =
+        signalsService.signal({});
+      const isDrawerOpen: Signal<boolean> = signalsService.signal(false);
+      const lastAddedLineItemId: Signal<string | null> = signalsService.signal(
+        null as any,
+      );
       const onAddedToCartCallbaks = new Set<
         (lineItems: currentCart.AddToCurrentCartRequest['lineItems']) => void
       >();
@@ -76,33 +232,259 @@ export const CurrentCartService =
         );
       });
 
+      const appliedCodes: ReadOnlySignal<AppliedCode[]> =
+        signalsService.computed(() => {
+          const totals = cartTotals.get();
+          const couponCodes = (cart.get()?.appliedDiscounts || [])
+            .map((discount: any) => discount.coupon?.code as string | undefined)
+            .filter((code): code is string => !!code);
+
+          return [
+            ...couponCodes.map((code) => ({
+              type: 'coupon' as const,
+              code,
+              amount:
+                totals?.coupons.find((coupon) => coupon.code === code)?.price ||
+                null,
+            })),
+            ...giftCards.get().map((giftCard) => ({
+              type: 'gift-card' as const,
+              code: giftCard.code,
+              amount: giftCard.amount,
+            })),
+          ];
+        });
+
+      const getThresholdProgress = (thresholds: CartThreshold[]) => {
+        const currentCartData = cart.get();
+        const totals = cartTotals.get();
+        // The estimated subtotal is preferred, the line items cover the time before the first estimate
+        const subtotal =
+          totals?.subtotal.amount ??
+          getLineItemsSubtotal(currentCartData?.lineItems);
+
+        return computeThresholdProgress(
+          subtotal,
+          thresholds,
+          currentCartData?.currency || totals?.currency || 'USD',
+        );
+      };
+
+      const thresholdProgress: ReadOnlySignal<CartThresholdProgress> =
+        signalsService.computed(() =>
+          getThresholdProgress(config.thresholds || []),
+        );
+
+      const quantityUpdateDelay =
+        config.quantityUpdateDelay ?? DEFAULT_QUANTITY_UPDATE_DELAY;
+      // The cart as last returned by the server, before applying pending line item changes
+      let confirmedCart: currentCart.Cart | null = config.initialCart || null;
+      const pendingChanges = new Map<string, PendingLineItemChange>();
+      const scheduledUpdates = new Map<
+        string,
+        { timeout: ReturnType<typeof setTimeout>; resolvers: Array<() => void> }
+      >();
+      const lineItemRequests = new Map<string, Promise<void>>();
+      let cartSync: ReturnType<typeof createCartSync> = null;
+      // Only the response of the latest estimate is applied
+      let latestTotalsRequest = 0;
+      let drawerOpenTimeout: ReturnType<typeof setTimeout> | null = null;
+      let highlightTimeout: ReturnType<typeof setTimeout> | null = null;
+      // Checkout the applied gift card was added to when proceeding to checkout
+      let giftCardCheckoutId: string | null = null;
+      // Unit prices the shopper last saw, kept across sessions to detect price increases.
+      // Null until restored once mounted, so the server and the first client render agree
+      let lineItemPrices: LineItemPrices | null = null;
+
+      const reconcileLineItems = (updatedCart: currentCart.Cart | null) => {
+        const issues = detectLineItemIssues(updatedCart, lineItemPrices ?? {});
+        lineItemIssues.set(issues);
+        if (!lineItemPrices) return;
+
+        const unacknowledgedLineItemIds = Object.values(issues)
+          .flat()
+          .filter((issue) => issue.type === 'price-increased')
+          .map((issue) => issue.lineItemId);
+        lineItemPrices = getLineItemPrices(
+          updatedCart,
+          lineItemPrices,
+          unacknowledgedLineItemIds,
+        );
+        writeLineItemPrices(lineItemPrices);
+      };
+
+      const applyPendingChanges = (
+        baseCart: currentCart.Cart | null,
+      ): currentCart.Cart | null => {
+        if (!baseCart || pendingChanges.size === 0) return baseCart;
+
+        return {
+          ...baseCart,
+          lineItems: (baseCart.lineItems || []).flatMap((item) => {
+            const change = pendingChanges.get(item._id || '');
+            if (!change) return [item];
+            if (change.type === 'remove-line-item') return [];
+            return [{ ...item, quantity: change.quantity }];
+          }),
+        };
+      };
+
+      const confirmCart = (
+        updatedCart: currentCart.Cart | null,
+        shouldPublish: boolean = true,
+      ) => {
+        confirmedCart = updatedCart;
+        cart.set(applyPendingChanges(updatedCart));
+        // Every cart the server returns carries the current stock and prices, including on load and reload
+        reconcileLineItems(updatedCart);
+        if (shouldPublish) {
+          cartSync?.publish(updatedCart);
+        }
+      };
+
+      const setPendingChange = (
+        lineItemId: string,
+        change: PendingLineItemChange | null,
+      ) => {
+        if (change) {
+          pendingChanges.set(lineItemId, change);
+        } else {
+          pendingChanges.delete(lineItemId);
+        }
+        pendingLineItemIds.set([...pendingChanges.keys()]);
+        cart.set(applyPendingChanges(confirmedCart));
+      };
+
+      const cancelScheduledUpdate = (lineItemId: string) => {
+        const scheduled = scheduledUpdates.get(lineItemId);
+        if (!scheduled) return;
+
+        clearTimeout(scheduled.timeout);
+        scheduledUpdates.delete(lineItemId);
+        scheduled.resolvers.forEach((resolve) => resolve());
+      };
+
       const estimateTotals = async () => {
+        const request = ++latestTotalsRequest;
+        const destination = shippingDestination.peek();
+        const selectedShippingOption = cart.peek()?.selectedShippingOption;
+
         try {
           isTotalsLoading.set(true);
-          const totalsResponse = await currentCart.estimateCurrentCartTotals();
-          cartTotals.set(totalsResponse || null);
+          const totalsResponse = await currentCart.estimateCurrentCartTotals({
+            ...(destination && {
+              shippingAddress: {
+                country: destination.country,
+                subdivision: destination.subdivision,
+                postalCode: destination.postalCode,
+              },
+            }),
+            ...(selectedShippingOption?.code && {
+              selectedShippingOption: {
+                code: selectedShippingOption.code,
+                carrierId: selectedShippingOption.carrierId,
+              },
+            }),
+          });
+          if (request !== latestTotalsRequest) return;
+
+          cartTotals.set(
+            totalsResponse
+              ? normalizeCartTotals(
+                  totalsResponse,
+                  cart.peek()?.currency || undefined,
+                )
+              : null,
+          );
         } catch (err) {
+          if (request !== latestTotalsRequest) return;
+
           console.warn('Failed to estimate cart totals:', err);
           cartTotals.set(null);
         } finally {
-          isTotalsLoading.set(false);
+          if (request === latestTotalsRequest) {
+            isTotalsLoading.set(false);
+          }
+        }
+      };
+
+      const openDrawer = () => {
+        if (drawerOpenTimeout) {
+          clearTimeout(drawerOpenTimeout);
+          drawerOpenTimeout = null;
+        }
+        isDrawerOpen.set(true);
+      };
+
+      const closeDrawer = () => {
+        if (drawerOpenTimeout) {
+          clearTimeout(drawerOpenTimeout);
+          drawerOpenTimeout = null;
         }
+        isDrawerOpen.set(false);
+      };
+
+      // Highlights the line item an add created or increased, and opens the drawer when configured to
+      const onLineItemAdded = (lineItemId: string | null) => {
+        if (highlightTimeout) {
+          clearTimeout(highlightTimeout);
+        }
+        lastAddedLineItemId.set(lineItemId);
+        highlightTimeout = setTimeout(() => {
+          highlightTimeout = null;
+          lastAddedLineItemId.set(null);
+        }, config.drawer?.highlightDuration ?? DEFAULT_HIGHLIGHT_DURATION);
+
+        if (config.drawer?.openOnAdd === false) return;
+
+        const delay = config.drawer?.openOnAddDelay ?? 0;
+        if (delay > 0) {
+          if (drawerOpenTimeout) {
+            clearTimeout(drawerOpenTimeout);
+          }
+          drawerOpenTimeout = setTimeout(openDrawer, delay);
+        } else {
+          openDrawer();
+        }
+      };
+
+      const showAddedLineItem = (lineItemId: string | null) => {
+        onLineItemAdded(lineItemId);
+        cartSync?.publishAddedLineItem(lineItemId);
       };
 
       const addToCart = async (
         lineItems: currentCart.AddToCurrentCartRequest['lineItems'],
+        options: { showAddedLineItem?: boolean } = {},
       ) => {
         try {
           isLoading.set(true);
           error.set(null);
 
+          const previousQuantities = new Map(
+            (confirmedCart?.lineItems || []).map((item) => [
+              item._id,
+              item.quantity || 0,
+            ]),
+          );
+
           const { cart: updatedCart } = await currentCart.addToCurrentCart({
             lineItems,
           });
-          cart.set(updatedCart || null);
+          confirmCart(updatedCart || null);
           if (updatedCart?.lineItems?.length) {
             estimateTotals();
           }
+
+          const addedLineItem = [...(updatedCart?.lineItems || [])]
+            .reverse()
+            .find(
+              (item) =>
+                (item.quantity || 0) > (previousQuantities.get(item._id) ?? 0),
+            );
+          if (options.showAddedLineItem !== false) {
+            showAddedLineItem(addedLineItem?._id || null);
+          }
           setTimeout(() => {
             onAddedToCartCallbaks.forEach((callback) => callback(lineItems));
           }, 0);
@@ -126,54 +508,105 @@ export const CurrentCartService =
         };
       };
 
-      const removeLineItem = async (lineItemId: string) => {
-        try {
-          isLoading.set(true);
-          error.set(null);
+      // Sends the pending change of a line item, after any request already in flight for it.
+      // Rolls the change back and sets `mutationError` when the server rejects it.
+      const sendPendingChange = (lineItemId: string): Promise<void> => {
+        const previousRequest =
+          lineItemRequests.get(lineItemId) || Promise.resolve();
 
-          const { cart: updatedCart } =
-            await currentCart.removeLineItemsFromCurrentCart([lineItemId]);
-          cart.set(updatedCart || null);
-          if (updatedCart?.lineItems?.length) {
-            estimateTotals();
-          } else {
-            cartTotals.set(null);
+        const request = previousRequest.then(async () => {
+          const change = pendingChanges.get(lineItemId);
+          if (!change) return;
+
+          try {
+            const { cart: updatedCart } =
+              change.type === 'remove-line-item'
+                ? await currentCart.removeLineItemsFromCurrentCart([lineItemId])
+                : await currentCart.updateCurrentCartLineItemQuantity([
+                    {
+                      _id: lineItemId,
+                      quantity: change.quantity,
+                    },
+                  ]);
+
+            // Keep changes made while the request was in flight
+            if (pendingChanges.get(lineItemId) === change) {
+              pendingChanges.delete(lineItemId);
+              pendingLineItemIds.set([...pendingChanges.keys()]);
+            }
+            confirmCart(updatedCart || null);
+            if (updatedCart?.lineItems?.length) {
+              estimateTotals();
+            } else {
+              cartTotals.set(null);
+            }
+          } catch (err: any) {
+            cancelScheduledUpdate(lineItemId);
+            setPendingChange(lineItemId, null);
+
+            const rejectedChange: CartMutationError = {
+              type: change.type,
+              lineItemId,
+              requestedQuantity:
+                change.type === 'update-quantity' ? change.quantity : undefined,
+              code: err?.details?.applicationError?.code,
+              message:
+                err instanceof Error
+                  ? err.message
+                  : change.type === 'remove-line-item'
+                    ? 'Failed to remove item'
+                    : 'Failed to update quantity',
+            };
+            mutationError.set(rejectedChange);
+            error.set(rejectedChange.message);
           }
-        } catch (err) {
-          error.set(
-            err instanceof Error ? err.message : 'Failed to remove item',
-          );
-        } finally {
-          isLoading.set(false);
-        }
+        });
+
+        lineItemRequests.set(lineItemId, request);
+        request.then(() => {
+          if (lineItemRequests.get(lineItemId) === request) {
+            lineItemRequests.delete(lineItemId);
+          }
+        });
+
+        return request;
+      };
+
+      const removeLineItem = async (lineItemId: string) => {
+        error.set(null);
+        mutationError.set(null);
+
+        cancelScheduledUpdate(lineItemId);
+        setPendingChange(lineItemId, { type: 'remove-line-item' });
+        await sendPendingChange(lineItemId);
       };
 
-      const updateLineItemQuantity = async (
+      const updateLineItemQuantity = (
         lineItemId: string,
         quantity: number,
-      ) => {
-        try {
-          isLoading.set(true);
-          error.set(null);
+      ): Promise<void> => {
+        error.set(null);
+        mutationError.set(null);
 
-          const { cart: updatedCart } =
-            await currentCart.updateCurrentCartLineItemQuantity([
-              {
-                _id: lineItemId,
-                quantity,
-              },
-            ]);
-          cart.set(updatedCart || null);
-          if (updatedCart?.lineItems?.length) {
-            estimateTotals();
+        setPendingChange(lineItemId, { type: 'update-quantity', quantity });
+
+        // Coalesce bursts of changes into one request with the latest quantity
+        return new Promise<void>((resolve) => {
+          const scheduled = scheduledUpdates.get(lineItemId);
+          if (scheduled) {
+            clearTimeout(scheduled.timeout);
           }
-        } catch (err) {
-          error.set(
-            err instanceof Error ? err.message : 'Failed to update quantity',
-          );
-        } finally {
-          isLoading.set(false);
-        }
+
+          const resolvers = [...(scheduled?.resolvers || []), resolve];
+          const timeout = setTimeout(() => {
+            scheduledUpdates.delete(lineItemId);
+            sendPendingChange(lineItemId).then(() =>
+              resolvers.forEach((resolveUpdate) => resolveUpdate()),
+            );
+          }, quantityUpdateDelay);
+
+          scheduledUpdates.set(lineItemId, { timeout, resolvers });
+        });
       };
 
       const increaseLineItemQuantity = async (lineItemId: string) => {
@@ -207,14 +640,20 @@ export const CurrentCartService =
           isLoading.set(true);
           error.set(null);
 
-          const currentCartData = cart.get();
+          [...scheduledUpdates.keys()].forEach(cancelScheduledUpdate);
+          pendingChanges.clear();
+          pendingLineItemIds.set([]);
+          giftCards.set([]);
+          giftCardCheckoutId = null;
+
+          const currentCartData = confirmedCart;
           if (currentCartData?.lineItems?.length) {
             const lineItemIds = currentCartData.lineItems
               .map((item: any) => item._id!)
               .filter(Boolean);
             const { cart: updatedCart } =
               await currentCart.removeLineItemsFromCurrentCart(lineItemIds);
-            cart.set(updatedCart || null);
+            confirmCart(updatedCart || null);
             if (updatedCart?.lineItems?.length) {
               estimateTotals();
             } else {
@@ -238,52 +677,43 @@ export const CurrentCartService =
         try {
           isCouponLoading.set(true);
           error.set(null);
+          codeError.set(null);
 
           const updatedCart = await currentCart.updateCurrentCart({
             couponCode,
           });
-          cart.set(updatedCart || null);
+          confirmCart(updatedCart || null);
           if (updatedCart?.lineItems?.length) {
             estimateTotals();
           }
         } catch (err: any) {
           console.error('Coupon application error:', err);
 
-          // Handle specific coupon errors
-          if (
-            err?.details?.applicationError?.code ===
-            'ERROR_COUPON_DOES_NOT_EXIST'
-          ) {
-            error.set(
-              'This coupon code does not exist. Please check the code and try again.',
-            );
-          } else if (
-            err?.details?.applicationError?.code === 'ERROR_COUPON_EXPIRED'
-          ) {
-            error.set('This coupon has expired.');
-          } else if (
-            err?.details?.applicationError?.code ===
-            'ERROR_COUPON_NOT_APPLICABLE'
-          ) {
-            error.set('This coupon cannot be applied to your current cart.');
-          } else if (err?.message?.includes('coupon')) {
-            error.set(err.message);
-          } else {
-            error.set('Failed to apply coupon. Please try again.');
-          }
+          const couponError = getCartCodeError(err, 'coupon', couponCode);
+          codeError.set(couponError);
+          error.set(couponError.message);
         } finally {
           isCouponLoading.set(false);
         }
       };
 
-      const removeCoupon = async () => {
+      // The cart holds a single coupon, so a code only has to match it
+      const removeCoupon = async (couponCode?: string) => {
+        const appliedCouponCodes = (confirmedCart?.appliedDiscounts || []).map(
+          (discount) => discount.coupon?.code,
+        );
+        if (couponCode && !appliedCouponCodes.includes(couponCode)) {
+          return;
+        }
+
         try {
           isCouponLoading.set(true);
           error.set(null);
+          codeError.set(null);
 
           await currentCart.removeCouponFromCurrentCart();
           const updatedCart = await currentCart.getCurrentCart();
-          cart.set(updatedCart || null);
+          confirmCart(updatedCart || null);
           if (updatedCart?.lineItems?.length) {
             estimateTotals();
           }
@@ -297,7 +727,88 @@ export const CurrentCartService =
         }
       };
 
-      const proceedToCheckout = async () => {
+      const validateGiftCard = async (
+        giftCardCode: string,
+      ): Promise<AppliedGiftCard | null> => {
+        try {
+          isCouponLoading.set(true);
+          error.set(null);
+          codeError.set(null);
+
+          // Gift cards are redeemed on the checkout, so the code is only checked with the provider here
+          const { giftCard } = await giftVouchers.getGiftCard(giftCardCode);
+
+          const reason = getGiftCardErrorReason(
+            giftCard,
+            cart.peek()?.currency,
+          );
+          if (!giftCard || reason) {
+            const giftCardError = createGiftCardError(
+              giftCardCode,
+              reason || 'invalid',
+            );
+            codeError.set(giftCardError);
+            error.set(giftCardError.message);
+            return null;
+          }
+
+          return createAppliedGiftCard(
+            giftCard,
+            giftCardCode,
+            cartTotals.peek()?.total.amount,
+          );
+        } catch (err: any) {
+          console.error('Gift card validation error:', err);
+
+          const giftCardError = getCartCodeError(
+            err,
+            'gift-card',
+            giftCardCode,
+          );
+          codeError.set(giftCardError);
+          error.set(giftCardError.message);
+          return null;
+        } finally {
+          isCouponLoading.set(false);
+        }
+      };
+
+      // A checkout holds a single gift card, so applying a gift card replaces the previous one
+      const applyGiftCard = async (giftCardCode: string) => {
+        const giftCard = await validateGiftCard(giftCardCode);
+        if (giftCard) {
+          giftCards.set([giftCard]);
+        }
+      };
+
+      const removeGiftCard = async (giftCardCode: string) => {
+        try {
+          isCouponLoading.set(true);
+          error.set(null);
+          codeError.set(null);
+
+          // Once added to a checkout, the gift card is only removed locally when the checkout drops it
+          if (giftCardCheckoutId) {
+            await checkout.removeGiftCard(giftCardCheckoutId);
+            giftCardCheckoutId = null;
+          }
+
+          giftCards.set(
+            giftCards
+              .peek()
+              .filter((giftCard) => giftCard.code !== giftCardCode),
+          );
+        } catch (err) {
+          console.error('Gift card removal error:', err);
+          error.set(
+            err instanceof Error ? err.message : 'Failed to remove gift card',
+          );
+        } finally {
+          isCouponLoading.set(false);
+        }
+      };
+
+      const proceedToCheckout = async (): Promise<string | null> => {
         try {
           isLoading.set(true);
           error.set(null);
@@ -310,39 +821,169 @@ export const CurrentCartService =
                   buyerNote: notes,
                 },
               });
-              cart.set(updatedCart);
+              confirmCart(updatedCart || null);
             } catch (noteError) {
               console.warn('Failed to add buyer notes to cart:', noteError);
             }
           }
 
+          const enrichment = config.beforeCheckout
+            ? await config.beforeCheckout({ cart: cart.peek() })
+            : undefined;
+          if (enrichment === false) {
+            return null;
+          }
+
           const checkoutResult =
             await currentCart.createCheckoutFromCurrentCart({
               channelType: checkout.ChannelType.WEB,
+              ...(enrichment?.buyerInfo?.email && {
+                email: enrichment.buyerInfo.email,
+              }),
             });
 
           if (!checkoutResult.checkoutId) {
             throw new Error('Failed to create checkout');
           }
 
-          const { redirectSession } = await redirects.createRedirectSession({
-            ecomCheckout: { checkoutId: checkoutResult.checkoutId },
-            preferences: { useGenericWixPages: false },
-            callbacks: {
-              postFlowUrl: window.location.href,
-              cartPageUrl: window.location.origin + '/cart',
+          const [giftCard] = giftCards.peek();
+          if (enrichment?.extendedFields || giftCard) {
+            await checkout.updateCheckout(
+              checkoutResult.checkoutId,
+              {
+                ...(enrichment?.extendedFields && {
+                  extendedFields: { namespaces: enrichment.extendedFields },
+                }),
+              },
+              { ...(giftCard && { giftCardCode: giftCard.code }) },
+            );
+          }
+          giftCardCheckoutId = giftCard ? checkoutResult.checkoutId : null;
+
+          const checkoutUrl = await getCheckoutRedirectUrl(
+            checkoutResult.checkoutId,
+            {
+              ...config,
+              // The shopper comes from the cart, so "back to cart" has a page to return to
+              cartPageUrl:
+                config.cartPageUrl ||
+                (typeof window !== 'undefined'
+                  ? window.location.origin + '/cart'
+                  : undefined),
             },
-          });
+            { useGenericWixPages: false },
+          );
+          redirectToCheckout(checkoutUrl, config);
 
-          if (redirectSession?.fullUrl) {
-            window.location.href = redirectSession.fullUrl;
-          }
+          return checkoutUrl;
         } catch (err) {
           error.set(
             err instanceof Error
               ? err.message
               : 'Failed to proceed to checkout',
           );
+          return null;
+        } finally {
+          isLoading.set(false);
+        }
+      };
+
+      const setShippingDestination = (
+        destination: CartShippingDestination | null,
+      ) => {
+        shippingDestination.set(destination);
+      };
+
+      const selectShippingOption = async (option: {
+        carrierId?: string | null;
+        code: string;
+      }) => {
+        try {
+          isTotalsLoading.set(true);
+          error.set(null);
+
+          const updatedCart = await currentCart.updateCurrentCart({
+            cartInfo: {
+              selectedShippingOption: {
+                code: option.code,
+                carrierId: option.carrierId || undefined,
+              },
+            },
+          });
+          confirmCart(updatedCart || null);
+          await estimateTotals();
+        } catch (err) {
+          error.set(
+            err instanceof Error
+              ? err.message
+              : 'Failed to select shipping option',
+          );
+          isTotalsLoading.set(false);
+        }
+      };
+
+      const fixIssues = async (lineItemId?: string) => {
+        const issues = Object.values(lineItemIssues.peek())
+          .flat()
+          .filter((issue) => !lineItemId || issue.lineItemId === lineItemId);
+        if (issues.length === 0) return;
+
+        const outOfStockIds: string[] = [];
+        const reducedQuantities: Array<{ _id: string; quantity: number }> = [];
+        issues.forEach((issue) => {
+          if (issue.type === 'out-of-stock') {
+            outOfStockIds.push(issue.lineItemId);
+          } else if (issue.type === 'quantity-reduced') {
+            reducedQuantities.push({
+              _id: issue.lineItemId,
+              quantity: issue.availableQuantity,
+            });
+          } else if (lineItemPrices) {
+            // The shopper saw the new price, so it's no longer an increase
+            lineItemPrices[issue.lineItemId] = issue.currentPrice.amount;
+          }
+        });
+
+        if (outOfStockIds.length === 0 && reducedQuantities.length === 0) {
+          reconcileLineItems(confirmedCart);
+          return;
+        }
+
+        try {
+          isLoading.set(true);
+          error.set(null);
+
+          [...outOfStockIds, ...reducedQuantities.map((item) => item._id)]
+            .filter((id) => pendingChanges.has(id))
+            .forEach((id) => {
+              cancelScheduledUpdate(id);
+              setPendingChange(id, null);
+            });
+
+          let updatedCart = confirmedCart;
+          if (outOfStockIds.length > 0) {
+            const response =
+              await currentCart.removeLineItemsFromCurrentCart(outOfStockIds);
+            updatedCart = response.cart || null;
+          }
+          if (reducedQuantities.length > 0) {
+            const response =
+              await currentCart.updateCurrentCartLineItemQuantity(
+                reducedQuantities,
+              );
+            updatedCart = response.cart || null;
+          }
+
+          confirmCart(updatedCart);
+          if (updatedCart?.lineItems?.length) {
+            estimateTotals();
+          } else {
+            cartTotals.set(null);
+          }
+        } catch (err) {
+          error.set(
+            err instanceof Error ? err.message : 'Failed to fix cart issues',
+          );
         } finally {
           isLoading.set(false);
         }
@@ -351,15 +992,79 @@ export const CurrentCartService =
       const reloadCart = async () => {
         isLoading.set(true);
         const { initialCart } = await loadCurrentCartServiceConfig();
-        cart.set(initialCart || null);
+        confirmCart(initialCart || null, false);
         isLoading.set(false);
       };
 
+      // Applies a cart changed by another instance, or reloads it in the background
+      const syncCart = async (syncedCart?: currentCart.Cart | null) => {
+        try {
+          const updatedCart =
+            syncedCart !== undefined
+              ? syncedCart
+              : (await loadCurrentCartServiceConfig()).initialCart || null;
+
+          confirmCart(updatedCart, false);
+          if (updatedCart?.lineItems?.length) {
+            estimateTotals();
+          } else {
+            cartTotals.set(null);
+          }
+        } catch (err) {
+          console.warn('Failed to sync cart:', err);
+        }
+      };
+
+      const restoreLineItemPrices = () => {
+        if (lineItemPrices) return;
+
+        lineItemPrices = readLineItemPrices();
+        if (confirmedCart) {
+          reconcileLineItems(confirmedCart);
+        }
+      };
+
+      const startSync = () => {
+        if (!config.sync || cartSync) return () => {};
+
+        const sync = createCartSync(config.sync === true ? {} : config.sync, {
+          onCartChanged: syncCart,
+          onLineItemAdded,
+          onVisible: () => syncCart(),
+        });
+        cartSync = sync;
+
+        return () => {
+          sync?.dispose();
+          if (cartSync === sync) {
+            cartSync = null;
+          }
+        };
+      };
+
+      if (config.initialCart) {
+        reconcileLineItems(config.initialCart);
+      }
+
       // Initialize totals immediately for existing cart
       if (config.initialCart?.lineItems?.length) {
         estimateTotals();
       }
 
+      // Re-estimate the totals whenever the shipping destination changes
+      let isFirstDestinationRun = true;
+      signalsService.effect(() => {
+        shippingDestination.get();
+        if (isFirstDestinationRun) {
+          isFirstDestinationRun = false;
+          return;
+        }
+
+        if (cart.peek()?.lineItems?.length) {
+          estimateTotals();
+        }
+      });
+
       return {
         cart,
         cartCount,
@@ -369,7 +1074,18 @@ export const CurrentCartService =
         error,
         buyerNotes,
         cartTotals,
+        pendingLineItemIds,
+        mutationError,
+        shippingDestination,
+        giftCards,
+        appliedCodes,
+        codeError,
+        thresholdProgress,
+        lineItemIssues,
+        isDrawerOpen,
+        lastAddedLineItemId,
         addToCart,
+        showAddedLineItem,
         removeLineItem,
         updateLineItemQuantity,
         increaseLineItemQuantity,
@@ -379,7 +1095,23 @@ export const CurrentCartService =
         proceedToCheckout,
         applyCoupon,
         removeCoupon,
+        validateGiftCard,
+        applyGiftCard,
+        removeGiftCard,
         reloadCart,
+        getConfirmedCart: () => confirmedCart,
+        restoreLineItemPrices,
+        startSync,
+        setShippingDestination,
+        selectShippingOption,
+        isLineItemPending: (lineItemId: string) =>
+          pendingLineItemIds.get().includes(lineItemId),
+        getThresholdProgress,
+        getLineItemIssues: (lineItemId: string) =>
+          lineItemIssues.get()[lineItemId] || [],
+        fixIssues,
+        openDrawer,
+        closeDrawer,
         onAddedToCart,
       };
     },
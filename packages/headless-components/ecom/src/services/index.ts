@@ -3,8 +3,61 @@ export {
   CurrentCartServiceDefinition,
   loadCurrentCartServiceConfig,
   CurrentCartServiceConfig,
+  type CartMutationError,
+  type CartShippingDestination,
+  type CartDrawerConfig,
 } from './current-cart-service.js';
 
+export { type CartSyncOptions } from './cart-sync.js';
+
+export {
+  normalizeCartTotals,
+  formatCartPrice,
+  type CartTotals,
+  type CartTotalsPrice,
+  type CartTotalsLineDiscount,
+  type CartTotalsAppliedDiscount,
+  type CartTotalsShipping,
+  type CartShippingOption,
+  type CartTotalsTaxLine,
+  type CartTotalsAdditionalFee,
+} from './cart-totals.js';
+
+export {
+  computeThresholdProgress,
+  type CartThreshold,
+  type CartThresholdState,
+  type CartThresholdProgress,
+} from './threshold-progress.js';
+
+export {
+  detectLineItemIssues,
+  type LineItemIssue,
+  type LineItemPrices,
+} from './line-item-issues.js';
+
+export {
+  type AppliedCode,
+  type AppliedGiftCard,
+  type CartCodeError,
+  type CartCodeErrorReason,
+} from './cart-codes.js';
+
+export {
+  type CheckoutRedirectConfig,
+  type CheckoutEnrichment,
+  type BeforeCheckoutHook,
+} from './checkout-redirect.js';
+
+export {
+  SavedForLaterService,
+  SavedForLaterServiceDefinition,
+  loadSavedForLaterServiceConfig,
+  type SavedForLaterServiceAPI,
+  type SavedForLaterServiceConfig,
+  type SavedItem,
+} from './saved-for-later-service.js';
+
 export {
   CheckoutService,
   CheckoutServiceDefinition,
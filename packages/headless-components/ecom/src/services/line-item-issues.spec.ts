@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import type * as currentCart from '@wix/auto_sdk_ecom_current-cart';
+import { formatCartPrice } from './cart-totals.js';
+import { detectLineItemIssues, getLineItemPrices } from './line-item-issues.js';
+
+const aCart = (lineItems: currentCart.LineItem[]): currentCart.Cart => ({
+  _id: 'cart-1',
+  currency: 'USD',
+  lineItems,
+});
+
+describe('line item issues', () => {
+  describe('detectLineItemIssues', () => {
+    it('reports unavailable and missing items as out of stock', () => {
+      const issues = detectLineItemIssues(
+        aCart([
+          {
+            _id: 'line-1',
+            quantity: 1,
+            availability: { status: 'NOT_AVAILABLE' },
+          },
+          { _id: 'line-2', quantity: 1, availability: { status: 'NOT_FOUND' } },
+          { _id: 'line-3', quantity: 1, availability: { status: 'AVAILABLE' } },
+        ]),
+        {},
+      );
+
+      expect(Object.keys(issues)).toEqual(['line-1', 'line-2']);
+      expect(issues['line-1']).toEqual([
+        {
+          type: 'out-of-stock',
+          lineItemId: 'line-1',
+          message: 'This item is out of stock.',
+        },
+      ]);
+    });
+
+    it('reports a quantity above the quantity in stock', () => {
+      const issues = detectLineItemIssues(
+        aCart([
+          {
+            _id: 'line-1',
+            quantity: 5,
+            availability: {
+              status: 'PARTIALLY_AVAILABLE',
+              quantityAvailable: 2,
+            },
+          },
+          {
+            _id: 'line-2',
+            quantity: 3,
+            availability: { quantityAvailable: 0 },
+          },
+        ]),
+        {},
+      );
+
+      expect(issues['line-1']).toEqual([
+        {
+          type: 'quantity-reduced',
+          lineItemId: 'line-1',
+          requestedQuantity: 5,
+          availableQuantity: 2,
+          message: 'Only 2 left in stock.',
+        },
+      ]);
+      expect(issues['line-2']?.[0]?.type).toBe('out-of-stock');
+    });
+
+    it('reports a unit price above the price the shopper last saw', () => {
+      const issues = detectLineItemIssues(
+        aCart([
+          { _id: 'line-1', quantity: 1, price: { amount: '12' } },
+          { _id: 'line-2', quantity: 1, price: { amount: '8' } },
+          { _id: 'line-3', quantity: 1, price: { amount: '20' } },
+        ]),
+        { 'line-1': 10, 'line-2': 10 },
+      );
+
+      expect(Object.keys(issues)).toEqual(['line-1']);
+      expect(issues['line-1']).toEqual([
+        {
+          type: 'price-increased',
+          lineItemId: 'line-1',
+          previousPrice: {
+            amount: 10,
+            formattedAmount: formatCartPrice(10, 'USD'),
+          },
+          currentPrice: {
+            amount: 12,
+            formattedAmount: formatCartPrice(12, 'USD'),
+          },
+          message: `The price changed from ${formatCartPrice(10, 'USD')} to ${formatCartPrice(12, 'USD')}.`,
+        },
+      ]);
+    });
+
+    it('reports nothing without a cart', () => {
+      expect(detectLineItemIssues(null, { 'line-1': 10 })).toEqual({});
+    });
+  });
+
+  describe('getLineItemPrices', () => {
+    it('keeps the previous price of unacknowledged price increases', () => {
+      const prices = getLineItemPrices(
+        aCart([
+          { _id: 'line-1', quantity: 1, price: { amount: '12' } },
+          { _id: 'line-2', quantity: 1, price: { amount: '15' } },
+          { _id: 'line-3', quantity: 1 },
+        ]),
+        { 'line-1': 10, 'line-2': 10 },
+        ['line-1'],
+      );
+
+      expect(prices).toEqual({ 'line-1': 10, 'line-2': 15 });
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import * as currentCart from '@wix/auto_sdk_ecom_current-cart';
+import { type LineItem } from './common-types.js';
+import { formatCartPrice, type CartTotalsPrice } from './cart-totals.js';
+
+const PRICES_STORAGE_KEY = 'wix-ecom-cart-line-item-prices';
+
+/**
+ * A change of a line item since the shopper last saw it that needs their attention.
+ */
+export type LineItemIssue =
+  | {
+      /** The item can no longer be bought */
+      type: 'out-of-stock';
+      /** ID of the line item */
+      lineItemId: string;
+      /** Issue message */
+      message: string;
+    }
+  | {
+      /** Less items are in stock than the line item quantity */
+      type: 'quantity-reduced';
+      /** ID of the line item */
+      lineItemId: string;
+      /** Quantity of the line item */
+      requestedQuantity: number;
+      /** Quantity in stock, which fixing the issue reduces the line item to */
+      availableQuantity: number;
+      /** Issue message */
+      message: string;
+    }
+  | {
+      /** The unit price went up */
+      type: 'price-increased';
+      /** ID of the line item */
+      lineItemId: string;
+      /** Unit price the shopper last saw */
+      previousPrice: CartTotalsPrice;
+      /** Current unit price */
+      currentPrice: CartTotalsPrice;
+      /** Issue message */
+      message: string;
+    };
+
+/**
+ * Unit prices of the line items, by line item ID, as the shopper last saw them.
+ */
+export type LineItemPrices = Record<string, number>;
+
+/**
+ * Detects the issues of each line item of a cart, by line item ID.
+ * Line items without issues are left out.
+ *
+ * @param cart - The cart as returned by the server
+ * @param previousPrices - Unit prices the shopper last saw
+ * @returns The issues of each line item with issues
+ */
+export function detectLineItemIssues(
+  cart: currentCart.Cart | null,
+  previousPrices: LineItemPrices,
+): Record<string, LineItemIssue[]> {
+  const currency = cart?.currency || 'USD';
+  const issues: Record<string, LineItemIssue[]> = {};
+
+  (cart?.lineItems || []).forEach((lineItem) => {
+    const lineItemId = lineItem._id;
+    if (!lineItemId) return;
+
+    const lineItemIssues: LineItemIssue[] = [];
+    const availability = lineItem.availability;
+    const quantity = lineItem.quantity || 0;
+
+    if (
+      availability?.status === 'NOT_AVAILABLE' ||
+      availability?.status === 'NOT_FOUND'
+    ) {
+      lineItemIssues.push({
+        type: 'out-of-stock',
+        lineItemId,
+        message: 'This item is out of stock.',
+      });
+    } else if (
+      typeof availability?.quantityAvailable === 'number' &&
+      availability.quantityAvailable < quantity
+    ) {
+      lineItemIssues.push(
+        availability.quantityAvailable > 0
+          ? {
+              type: 'quantity-reduced',
+              lineItemId,
+              requestedQuantity: quantity,
+              availableQuantity: availability.quantityAvailable,
+              message: `Only ${availability.quantityAvailable} left in stock.`,
+            }
+          : {
+              type: 'out-of-stock',
+              lineItemId,
+              message: 'This item is out of stock.',
+            },
+      );
+    }
+
+    const previousPrice = previousPrices[lineItemId];
+    const currentPrice = getUnitPrice(lineItem);
+    if (
+      previousPrice !== undefined &&
+      currentPrice !== null &&
+      currentPrice > previousPrice
+    ) {
+      const previous = createPrice(previousPrice, currency);
+      const current = createPrice(currentPrice, currency);
+      lineItemIssues.push({
+        type: 'price-increased',
+        lineItemId,
+        previousPrice: previous,
+        currentPrice: current,
+        message: `The price changed from ${previous.formattedAmount} to ${current.formattedAmount}.`,
+      });
+    }
+
+    if (lineItemIssues.length > 0) {
+      issues[lineItemId] = lineItemIssues;
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Gets the unit prices of the line items of a cart. Line items the shopper
+ * hasn't acknowledged a price increase of keep their previous price.
+ *
+ * @private
+ */
+export function getLineItemPrices(
+  cart: currentCart.Cart | null,
+  previousPrices: LineItemPrices,
+  unacknowledgedLineItemIds: string[],
+): LineItemPrices {
+  return (cart?.lineItems || []).reduce<LineItemPrices>((prices, lineItem) => {
+    const lineItemId = lineItem._id;
+    const price = getUnitPrice(lineItem);
+    if (!lineItemId || price === null) return prices;
+
+    prices[lineItemId] =
+      unacknowledgedLineItemIds.includes(lineItemId) &&
+      previousPrices[lineItemId] !== undefined
+        ? previousPrices[lineItemId]
+        : price;
+    return prices;
+  }, {});
+}
+
+/**
+ * @private
+ */
+export function readLineItemPrices(): LineItemPrices {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    const value = window.localStorage.getItem(PRICES_STORAGE_KEY);
+    return value ? JSON.parse(value) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * @private
+ */
+export function writeLineItemPrices(prices: LineItemPrices): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(PRICES_STORAGE_KEY, JSON.stringify(prices));
+  } catch (err) {
+    console.warn('Failed to persist line item prices:', err);
+  }
+}
+
+/**
+ * @private
+ */
+function getUnitPrice(lineItem: LineItem): number | null {
+  const amount = parseFloat(lineItem.price?.amount || '');
+  return isNaN(amount) ? null : amount;
+}
+
+/**
+ * @private
+ */
+function createPrice(amount: number, currency: string): CartTotalsPrice {
+  return {
+    amount,
+    formattedAmount: formatCartPrice(amount, currency),
+  };
+}
@@ -0,0 +1,107 @@
+import {
+  createServicesManager,
+  createServicesMap,
+} from '@wix/services-manager';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CurrentCartService,
+  CurrentCartServiceDefinition,
+} from './current-cart-service.js';
+import {
+  SavedForLaterService,
+  SavedForLaterServiceDefinition,
+  type SavedForLaterServiceConfig,
+  type SavedItem,
+} from './saved-for-later-service.js';
+
+vi.mock('@wix/auto_sdk_ecom_current-cart', () => ({
+  estimateCurrentCartTotals: vi.fn(),
+  getCurrentCart: vi.fn(),
+}));
+
+const STORAGE_KEY = 'wix-ecom-saved-for-later';
+
+const aSavedItem = (id: string): SavedItem => ({
+  id,
+  catalogReference: { catalogItemId: `product-${id}`, appId: 'stores' },
+  quantity: 1,
+  productName: `Product ${id}`,
+  image: null,
+  price: null,
+  selectedOptions: [],
+  savedDate: '2024-01-01T00:00:00.000Z',
+});
+
+describe('SavedForLaterService', () => {
+  const createServiceInstance = (config: SavedForLaterServiceConfig = {}) => {
+    const servicesManager = createServicesManager(
+      createServicesMap()
+        .addService(CurrentCartServiceDefinition, CurrentCartService, {
+          initialCart: { _id: 'cart-1', lineItems: [] },
+        })
+        .addService(
+          SavedForLaterServiceDefinition,
+          SavedForLaterService,
+          config,
+        ),
+    );
+
+    return servicesManager.getService(SavedForLaterServiceDefinition);
+  };
+
+  beforeEach(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([aSavedItem('saved-1')]));
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('starts empty and reads the persisted items once restored', () => {
+    const service = createServiceInstance();
+
+    expect(service.savedItems.get()).toEqual([]);
+
+    const stop = service.restoreSavedItems();
+
+    expect(service.savedItems.get().map((item) => item.id)).toEqual([
+      'saved-1',
+    ]);
+
+    stop();
+  });
+
+  it('keeps the initial items over the persisted ones', () => {
+    const service = createServiceInstance({
+      initialItems: [aSavedItem('initial-1')],
+    });
+
+    const stop = service.restoreSavedItems();
+
+    expect(service.savedItems.get().map((item) => item.id)).toEqual([
+      'initial-1',
+    ]);
+
+    stop();
+  });
+
+  it('follows the changes of other tabs until stopped', () => {
+    const service = createServiceInstance();
+    const stop = service.restoreSavedItems();
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([aSavedItem('saved-2')]));
+    window.dispatchEvent(new StorageEvent('storage', { key: STORAGE_KEY }));
+
+    expect(service.savedItems.get().map((item) => item.id)).toEqual([
+      'saved-2',
+    ]);
+
+    stop();
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([]));
+    window.dispatchEvent(new StorageEvent('storage', { key: STORAGE_KEY }));
+
+    expect(service.savedItems.get().map((item) => item.id)).toEqual([
+      'saved-2',
+    ]);
+  });
+});
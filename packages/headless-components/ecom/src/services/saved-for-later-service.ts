@@ -0,0 +1,276 @@
+import { defineService, implementService } from '@wix/services-definitions';
+import {
+  SignalsServiceDefinition,
+  type Signal,
+  type ReadOnlySignal,
+} from '@wix/services-definitions/core-services/signals';
+import * as currentCart from '@wix/auto_sdk_ecom_current-cart';
+import { CurrentCartServiceDefinition } from './current-cart-service.js';
+import { type LineItem } from './common-types.js';
+import { type SelectedOption } from './selected-option-service.js';
+import { extractSelectedOptions } from '../mappers/line-item-to-selected-options.js';
+
+const DEFAULT_STORAGE_KEY = 'wix-ecom-saved-for-later';
+
+/**
+ * A cart line item saved for later.
+ */
+export interface SavedItem {
+  /** Unique ID of the saved item */
+  id: string;
+  /** Reference to the catalog item, including the selected variant and options */
+  catalogReference: currentCart.CatalogReference;
+  /** Quantity the line item had in the cart */
+  quantity: number;
+  /** Product name */
+  productName: string;
+  /** Wix media image of the product, as on the line item */
+  image: string | null;
+  /** Item price when it was saved */
+  price: {
+    amount: string;
+    formattedAmount: string;
+  } | null;
+  /** Options selected for the item, e.g. color and size */
+  selectedOptions: SelectedOption[];
+  /** When the item was saved, as an ISO date string */
+  savedDate: string;
+}
+
+/**
+ * API interface for the Saved For Later service
+ */
+export interface SavedForLaterServiceAPI {
+  savedItems: Signal<SavedItem[]>;
+  savedCount: ReadOnlySignal<number>;
+  isLoading: Signal<boolean>;
+  error: Signal<string | null>;
+
+  /** Moves a line item from the cart to the saved list */
+  saveForLater: (lineItemId: string) => Promise<void>;
+  /** Moves a saved item back to the cart */
+  moveToCart: (savedItemId: string) => Promise<void>;
+  /** Removes an item from the saved list */
+  removeSavedItem: (savedItemId: string) => void;
+  /**
+   * Reads the items persisted in localStorage and follows the changes made in other tabs.
+   * Called once mounted, so the server and the first client render start from the same list.
+   * Returns a function that stops following the changes
+   */
+  restoreSavedItems: () => () => void;
+}
+
+export const SavedForLaterServiceDefinition =
+  defineService<SavedForLaterServiceAPI>('savedForLater');
+
+/**
+ * Configuration options for the Saved For Later service
+ */
+export interface SavedForLaterServiceConfig {
+  /** Saved items to start with. Defaults to an empty list, replaced by the items persisted in localStorage once mounted */
+  initialItems?: SavedItem[];
+  /** localStorage key the saved items are persisted under. Defaults to 'wix-ecom-saved-for-later' */
+  storageKey?: string;
+}
+
+export const SavedForLaterService =
+  implementService.withConfig<SavedForLaterServiceConfig>()(
+    SavedForLaterServiceDefinition,
+    ({ getService, config }) => {
+      const signalsService = getService(SignalsServiceDefinition);
+      const cartService = getService(CurrentCartServiceDefinition);
+
+      const storageKey = config.storageKey ?? DEFAULT_STORAGE_KEY;
+
+      const savedItems: Signal<SavedItem[]> = signalsService.signal(
+        config.initialItems ?? [],
+      );
+      const isLoading: Signal<boolean> = signalsService.signal(false);
+      const error: Signal<string | null> = signalsService.signal(null as any);
+
+      const savedCount: ReadOnlySignal<number> = signalsService.computed(
+        () => savedItems.get().length,
+      );
+
+      const setSavedItems = (items: SavedItem[]) => {
+        savedItems.set(items);
+        writeSavedItems(storageKey, items);
+      };
+
+      const restoreSavedItems = () => {
+        if (typeof window === 'undefined') return () => {};
+
+        if (!config.initialItems) {
+          savedItems.set(readSavedItems(storageKey));
+        }
+
+        // Keep the list in sync with changes made in other tabs
+        const handleStorage = (event: StorageEvent) => {
+          if (event.key === storageKey) {
+            savedItems.set(readSavedItems(storageKey));
+          }
+        };
+        window.addEventListener('storage', handleStorage);
+
+        return () => window.removeEventListener('storage', handleStorage);
+      };
+
+      const saveForLater = async (lineItemId: string) => {
+        const lineItem = cartService.cart
+          .peek()
+          ?.lineItems?.find((item) => item._id === lineItemId);
+        if (!lineItem?.catalogReference) {
+          error.set('Line item not found in cart');
+          return;
+        }
+
+        const savedItem = createSavedItem(lineItem);
+
+        try {
+          isLoading.set(true);
+          error.set(null);
+
+          // Saved before the removal, so a failed request can't lose the item
+          setSavedItems([savedItem, ...savedItems.peek()]);
+          await cartService.removeLineItem(lineItemId);
+
+          // The cart service rolls back rejected removals and reports them as a mutation error
+          const mutationError = cartService.mutationError.peek();
+          if (mutationError?.lineItemId === lineItemId) {
+            throw new Error(mutationError.message);
+          }
+        } catch (err) {
+          setSavedItems(
+            savedItems.peek().filter((item) => item.id !== savedItem.id),
+          );
+          error.set(
+            err instanceof Error
+              ? err.message
+              : 'Failed to save item for later',
+          );
+        } finally {
+          isLoading.set(false);
+        }
+      };
+
+      const moveToCart = async (savedItemId: string) => {
+        const savedItem = savedItems
+          .peek()
+          .find((item) => item.id === savedItemId);
+        if (!savedItem) return;
+
+        try {
+          isLoading.set(true);
+          error.set(null);
+
+          await cartService.addToCart([
+            {
+              catalogReference: savedItem.catalogReference,
+              quantity: savedItem.quantity,
+            },
+          ]);
+
+          // The cart service reports failed additions through its error signal
+          const cartError = cartService.error.peek();
+          if (cartError) {
+            throw new Error(cartError);
+          }
+
+          setSavedItems(
+            savedItems.peek().filter((item) => item.id !== savedItemId),
+          );
+        } catch (err) {
+          error.set(
+            err instanceof Error ? err.message : 'Failed to move item to cart',
+          );
+        } finally {
+          isLoading.set(false);
+        }
+      };
+
+      const removeSavedItem = (savedItemId: string) => {
+        setSavedItems(
+          savedItems.peek().filter((item) => item.id !== savedItemId),
+        );
+      };
+
+      return {
+        savedItems,
+        savedCount,
+        isLoading,
+        error,
+        saveForLater,
+        moveToCart,
+        removeSavedItem,
+        restoreSavedItems,
+      };
+    },
+  );
+
+/**
+ * Load initial configuration for the Saved For Later service.
+ * The saved items are read from localStorage once mounted in the browser, so no data is loaded ahead.
+ *
+ * @param storageKey - Optional localStorage key of the saved items
+ * @returns Promise resolving to service configuration
+ */
+export async function loadSavedForLaterServiceConfig(
+  storageKey?: string,
+): Promise<SavedForLaterServiceConfig> {
+  return {
+    ...(storageKey && { storageKey }),
+  };
+}
+
+/**
+ * @private
+ */
+function createSavedItem(lineItem: LineItem): SavedItem {
+  return {
+    id: `${lineItem._id}-${Date.now()}`,
+    catalogReference: lineItem.catalogReference!,
+    quantity: lineItem.quantity || 1,
+    productName: lineItem.productName?.original || '',
+    image: lineItem.image || null,
+    price: lineItem.price?.amount
+      ? {
+          amount: lineItem.price.amount,
+          formattedAmount:
+            lineItem.price.formattedConvertedAmount ||
+            lineItem.price.formattedAmount ||
+            lineItem.price.amount,
+        }
+      : null,
+    selectedOptions: extractSelectedOptions(lineItem.descriptionLines || []),
+    savedDate: new Date().toISOString(),
+  };
+}
+
+/**
+ * @private
+ */
+function readSavedItems(storageKey: string): SavedItem[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const value = window.localStorage.getItem(storageKey);
+    const items = value ? JSON.parse(value) : [];
+    return Array.isArray(items) ? items : [];
+  } catch {
+    // Ignore unreadable values, the list starts empty
+    return [];
+  }
+}
+
+/**
+ * @private
+ */
+function writeSavedItems(storageKey: string, items: SavedItem[]) {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(items));
+  } catch (err) {
+    console.warn('Failed to persist saved items:', err);
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeThresholdProgress,
+  getLineItemsSubtotal,
+} from './threshold-progress.js';
+
+describe('threshold progress', () => {
+  describe('getLineItemsSubtotal', () => {
+    it('sums the unit prices times the quantities', () => {
+      expect(
+        getLineItemsSubtotal([
+          { quantity: 2, price: { amount: '10.10' } },
+          { quantity: 3, price: { amount: '0.1' } },
+        ]),
+      ).toBe(20.5);
+    });
+
+    it('ignores line items without a price or quantity', () => {
+      expect(
+        getLineItemsSubtotal([
+          { quantity: 2 },
+          { price: { amount: '15' } },
+          { quantity: 1, price: { amount: 'not a number' } },
+        ]),
+      ).toBe(0);
+      expect(getLineItemsSubtotal()).toBe(0);
+    });
+  });
+
+  describe('computeThresholdProgress', () => {
+    const thresholds = [
+      { id: 'gift', amount: 100, label: 'a free gift' },
+      { id: 'free-shipping', amount: { USD: 50, EUR: 45 } },
+    ];
+
+    it('sorts the thresholds and finds the next one', () => {
+      const progress = computeThresholdProgress(30, thresholds, 'USD');
+
+      expect(progress.thresholds.map((state) => state.threshold.id)).toEqual([
+        'free-shipping',
+        'gift',
+      ]);
+      expect(progress.nextThreshold?.threshold.id).toBe('free-shipping');
+      expect(progress.nextThreshold?.remaining.amount).toBe(20);
+      expect(progress.nextThreshold?.percentage).toBe(60);
+      expect(progress.lastReachedThreshold).toBeNull();
+      expect(progress.isComplete).toBe(false);
+    });
+
+    it('reports the reached thresholds', () => {
+      const progress = computeThresholdProgress(120, thresholds, 'USD');
+
+      expect(progress.reachedThresholds).toHaveLength(2);
+      expect(progress.lastReachedThreshold?.threshold.id).toBe('gift');
+      expect(progress.nextThreshold).toBeNull();
+      expect(progress.isComplete).toBe(true);
+    });
+
+    it('ignores thresholds without an amount in the cart currency', () => {
+      const progress = computeThresholdProgress(10, thresholds, 'GBP');
+
+      expect(progress.thresholds.map((state) => state.threshold.id)).toEqual([
+        'gift',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { formatCartPrice, type CartTotalsPrice } from './cart-totals.js';
+import { type LineItem } from './common-types.js';
+
+/**
+ * A spend threshold, e.g. free shipping from $50.
+ */
+export interface CartThreshold {
+  /** Unique ID of the threshold, e.g. "free-shipping" */
+  id: string;
+  /**
+   * Subtotal needed to reach the threshold. Pass amounts per currency code, e.g. `{ USD: 50, EUR: 45 }`,
+   * for stores selling in several currencies. Thresholds without an amount in the cart currency are ignored
+   */
+  amount: number | Record<string, number>;
+  /** Display label of what the threshold unlocks, e.g. "free shipping" */
+  label?: string;
+}
+
+/**
+ * Progress of the cart towards a single threshold.
+ */
+export interface CartThresholdState {
+  /** The threshold */
+  threshold: CartThreshold;
+  /** Subtotal needed to reach the threshold, in the cart currency */
+  amount: CartTotalsPrice;
+  /** Whether the subtotal reached the threshold */
+  isReached: boolean;
+  /** Amount left to spend to reach the threshold. Zero once reached */
+  remaining: CartTotalsPrice;
+  /** Progress towards the threshold, from 0 to 100 */
+  percentage: number;
+}
+
+/**
+ * Progress of the cart towards a set of thresholds.
+ */
+export interface CartThresholdProgress {
+  /** Currency code of all amounts */
+  currency: string;
+  /** Cart subtotal the progress is computed from */
+  subtotal: CartTotalsPrice;
+  /** All thresholds in the cart currency, from the lowest to the highest amount */
+  thresholds: CartThresholdState[];
+  /** Thresholds the subtotal reached */
+  reachedThresholds: CartThresholdState[];
+  /** Highest threshold the subtotal reached, if any */
+  lastReachedThreshold: CartThresholdState | null;
+  /** Lowest threshold the subtotal hasn't reached yet, if any */
+  nextThreshold: CartThresholdState | null;
+  /** Whether the subtotal reached all thresholds */
+  isComplete: boolean;
+}
+
+/**
+ * Computes the progress of a subtotal towards a set of thresholds.
+ *
+ * @param subtotal - The cart subtotal
+ * @param thresholds - The thresholds
+ * @param currency - The cart currency code
+ * @returns The threshold progress
+ */
+export function computeThresholdProgress(
+  subtotal: number,
+  thresholds: CartThreshold[],
+  currency: string,
+): CartThresholdProgress {
+  const toPrice = (amount: number): CartTotalsPrice => ({
+    amount,
+    formattedAmount: formatCartPrice(amount, currency),
+  });
+
+  const states = thresholds
+    .map((threshold) => ({
+      threshold,
+      thresholdAmount: getThresholdAmount(threshold, currency),
+    }))
+    .filter(
+      (entry): entry is { threshold: CartThreshold; thresholdAmount: number } =>
+        entry.thresholdAmount !== null,
+    )
+    .sort((a, b) => a.thresholdAmount - b.thresholdAmount)
+    .map(({ threshold, thresholdAmount }): CartThresholdState => {
+      const isReached = subtotal >= thresholdAmount;
+      // Rounded to cents so floating point sums don't leave e.g. $0.0000001 to spend
+      const remaining = isReached
+        ? 0
+        : Math.round((thresholdAmount - subtotal) * 100) / 100;
+
+      return {
+        threshold,
+        amount: toPrice(thresholdAmount),
+        isReached,
+        remaining: toPrice(remaining),
+        percentage:
+          isReached || thresholdAmount <= 0
+            ? 100
+            : Math.max(0, Math.min(100, (subtotal / thresholdAmount) * 100)),
+      };
+    });
+
+  const reachedThresholds = states.filter((state) => state.isReached);
+
+  return {
+    currency,
+    subtotal: toPrice(subtotal),
+    thresholds: states,
+    reachedThresholds,
+    lastReachedThreshold:
+      reachedThresholds[reachedThresholds.length - 1] || null,
+    nextThreshold: states.find((state) => !state.isReached) || null,
+    isComplete: states.length > 0 && reachedThresholds.length === states.length,
+  };
+}
+
+/**
+ * Sums the prices of a cart's line items, for the subtotal before the cart totals are estimated.
+ *
+ * @param lineItems - The cart line items
+ * @returns The line items subtotal
+ */
+export function getLineItemsSubtotal(lineItems: LineItem[] = []): number {
+  const subtotal = lineItems.reduce(
+    (sum, lineItem) =>
+      sum +
+      (parseFloat(lineItem.price?.amount || '0') || 0) *
+        (lineItem.quantity || 0),
+    0,
+  );
+  return Math.round(subtotal * 100) / 100;
+}
+
+/**
+ * @private
+ */
+function getThresholdAmount(
+  threshold: CartThreshold,
+  currency: string,
+): number | null {
+  if (typeof threshold.amount === 'number') return threshold.amount;
+  return threshold.amount[currency] ?? null;
+}
@@ -0,0 +1,25 @@
+import type React from 'react';
+
+/**
+ * Read-only signal stub for the mocked services of component tests.
+ */
+export const signal = <T>(value: T) => ({
+  get: () => value,
+  peek: () => value,
+});
+
+/**
+ * Factory for `vi.mock('@wix/services-manager-react', ...)` whose `useService` returns the mocked service.
+ * `vi.mock` is hoisted above the imports, so the factory imports this module itself.
+ *
+ * @example
+ * ```tsx
+ * vi.mock('@wix/services-manager-react', async () =>
+ *   (await import('../vitest.helpers')).mockServicesManager(() => mockService),
+ * );
+ * ```
+ */
+export const mockServicesManager = (getService: () => unknown) => ({
+  useService: () => getService(),
+  WixServices: ({ children }: { children: React.ReactNode }) => children,
+});
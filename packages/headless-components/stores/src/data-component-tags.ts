@@ -2,7 +2,13 @@ export enum DataComponentTags {
   categoryListRoot = `stores.category-list-root`,
   categoryRoot = `stores.category-root`,
   choiceRoot = `stores.choice-root`,
+  compareTable = `stores.compare-table`,
   optionRoot = `stores.option-root`,
+  productBundleList = `stores.product-bundle-list`,
+  productListQuickView = `stores.product-list-quick-view`,
   productListRoot = `stores.product-list-root`,
+  productListSearchRoot = `stores.product-list-search-root`,
   productRoot = `stores.product-root`,
+  recentlyViewedList = `stores.recently-viewed-list`,
+  wishlistList = `stores.wishlist-list`,
 }
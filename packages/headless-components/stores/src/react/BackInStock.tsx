@@ -0,0 +1,55 @@
+import React from 'react';
+import type { BackInStockServiceConfig } from '../services/back-in-stock-service.js';
+import * as CoreBackInStock from './core/BackInStock.js';
+
+/**
+ * Props for BackInStock Root component
+ */
+export interface RootProps {
+  /** Child components that will have access to the BackInStock service */
+  children: React.ReactNode;
+  /** Configuration for the BackInStock service, including the handler that delivers requests */
+  backInStockConfig: BackInStockServiceConfig;
+}
+
+/**
+ * Root component that provides the BackInStock service context, used by Product.Action.NotifyWhenAvailable.
+ * Requests are delivered through `submitHandler`, so they can be routed to any backend.
+ * Set `rememberRequests` to keep the email address and the submitted requests for later visits.
+ *
+ * @order 1
+ * @component
+ * @example
+ * ```tsx
+ * import { BackInStock, Product } from '@wix/stores/components';
+ *
+ * function ProductPage({ product }) {
+ *   return (
+ *     <BackInStock.Root
+ *       backInStockConfig={{
+ *         submitHandler: async (request) => {
+ *           await fetch('/api/back-in-stock', {
+ *             method: 'POST',
+ *             body: JSON.stringify(request),
+ *           });
+ *         },
+ *       }}
+ *     >
+ *       <Product.Root product={product}>
+ *         <Product.Action.AddToCart label="Add to Cart" />
+ *         <Product.Action.NotifyWhenAvailable label="Notify Me" />
+ *       </Product.Root>
+ *     </BackInStock.Root>
+ *   );
+ * }
+ * ```
+ */
+export const Root = (props: RootProps): React.ReactNode => {
+  return (
+    <CoreBackInStock.Root backInStockConfig={props.backInStockConfig}>
+      {props.children}
+    </CoreBackInStock.Root>
+  );
+};
+
+Root.displayName = 'BackInStock.Root';
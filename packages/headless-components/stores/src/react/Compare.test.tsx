@@ -0,0 +1,85 @@
+import { render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import '@testing-library/jest-dom';
+import * as Compare from './Compare';
+
+const mockAttributes = [
+  {
+    id: 'option:Color',
+    group: 'option',
+    name: 'Color',
+    values: [
+      { values: ['Red'], text: 'Red' },
+      { values: ['Blue'], text: 'Blue' },
+    ],
+    isDifferent: true,
+  },
+  {
+    id: 'option:Material',
+    group: 'option',
+    name: 'Material',
+    values: [
+      { values: ['Oak'], text: 'Oak' },
+      { values: ['Oak'], text: 'Oak' },
+    ],
+    isDifferent: false,
+  },
+];
+
+vi.mock('@wix/services-manager-react', () => ({
+  useService: vi.fn(() => ({
+    products: {
+      get: () => [
+        { _id: 'product-1', name: 'Chair' },
+        { _id: 'product-2', name: 'Armchair' },
+      ],
+    },
+    attributes: {
+      get: () => mockAttributes,
+    },
+    canCompare: {
+      get: () => true,
+    },
+    isLoading: {
+      get: () => false,
+    },
+    error: {
+      get: () => null,
+    },
+    removeProduct: vi.fn(),
+    clear: vi.fn(),
+    restoreProducts: vi.fn(),
+  })),
+  WixServices: vi.fn(({ children }) => <div>{children}</div>),
+}));
+
+describe('Compare', () => {
+  describe('Table', () => {
+    it('renders data-component-tag attribute on first DOM element', () => {
+      render(
+        <Compare.Root>
+          <Compare.Table />
+        </Compare.Root>,
+      );
+
+      const tableElement = screen.getByTestId('compare-table');
+      expect(tableElement).toHaveAttribute(
+        'data-component-tag',
+        'stores.compare-table',
+      );
+    });
+
+    it('only renders differing attributes when differencesOnly is set', () => {
+      render(
+        <Compare.Root>
+          <Compare.Table differencesOnly />
+        </Compare.Root>,
+      );
+
+      const rows = screen.getAllByTestId('compare-attribute-row');
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toHaveAttribute('data-different', 'true');
+    });
+  });
+});
@@ -0,0 +1,319 @@
+import React from 'react';
+import { AsChildChildren, AsChildSlot } from '@wix/headless-utils/react';
+import type {
+  CompareAttribute,
+  ProductCompareServiceConfig,
+} from '../services/product-compare-service.js';
+import * as CoreProductCompare from './core/ProductCompare.js';
+import { DataComponentTags } from '../data-component-tags.js';
+
+enum TestIds {
+  compareToggle = 'compare-toggle',
+  compareTable = 'compare-table',
+  compareAttributeRow = 'compare-attribute-row',
+}
+
+/**
+ * Props for Compare Root component
+ */
+export interface RootProps {
+  /** Child components that will have access to the compared products */
+  children: React.ReactNode;
+  /** Configuration for the ProductCompare service */
+  compareConfig?: ProductCompareServiceConfig;
+}
+
+/**
+ * Root component that provides the ProductCompare service context.
+ * The selection is kept for the browsing session, so products can be picked across pages.
+ *
+ * @order 1
+ * @component
+ * @example
+ * ```tsx
+ * import { Compare, ProductList, Product } from '@wix/stores/components';
+ *
+ * function CategoryPage({ productsListConfig }) {
+ *   return (
+ *     <Compare.Root compareConfig={{ maxItems: 4 }}>
+ *       <ProductList.Root productsListConfig={productsListConfig}>
+ *         <ProductList.Products>
+ *           <ProductList.ProductRepeater>
+ *             <Product.Name />
+ *             <Compare.Toggle label="Compare" />
+ *           </ProductList.ProductRepeater>
+ *         </ProductList.Products>
+ *       </ProductList.Root>
+ *       <Compare.Table differencesOnly className="compare-table" />
+ *     </Compare.Root>
+ *   );
+ * }
+ * ```
+ */
+export const Root = (props: RootProps): React.ReactNode => {
+  return (
+    <CoreProductCompare.Root compareConfig={props.compareConfig}>
+      {props.children}
+    </CoreProductCompare.Root>
+  );
+};
+
+Root.displayName = 'Compare.Root';
+
+/**
+ * Props for Compare Toggle component
+ */
+export interface ToggleProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<CoreProductCompare.ToggleRenderProps>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+  /** Label for the button */
+  label?: string;
+}
+
+/**
+ * Button that adds the current product to the comparison, or removes it.
+ * Disabled when the comparison is full. Must be used within Product.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default usage
+ * <Compare.Toggle className="data-[selected=true]:bg-brand-primary" />
+ *
+ * // Custom rendering
+ * <Compare.Toggle asChild>
+ *   {({ isSelected, canToggle, toggle, selectedCount, maxItems }) => (
+ *     <label>
+ *       <input type="checkbox" checked={isSelected} disabled={!canToggle} onChange={toggle} />
+ *       Compare ({selectedCount}/{maxItems})
+ *     </label>
+ *   )}
+ * </Compare.Toggle>
+ * ```
+ */
+export const Toggle = React.forwardRef<HTMLButtonElement, ToggleProps>(
+  (props, ref) => {
+    const { asChild, children, className, label, ...otherProps } = props;
+    const buttonLabel = label || 'Compare';
+
+    return (
+      <CoreProductCompare.Toggle>
+        {(renderProps) => (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            className={className}
+            onClick={renderProps.toggle}
+            disabled={!renderProps.canToggle}
+            aria-pressed={renderProps.isSelected}
+            data-testid={TestIds.compareToggle}
+            data-selected={renderProps.isSelected ? 'true' : 'false'}
+            customElement={children}
+            customElementProps={renderProps}
+            content={buttonLabel}
+            {...otherProps}
+          >
+            <button disabled={!renderProps.canToggle}>{buttonLabel}</button>
+          </AsChildSlot>
+        )}
+      </CoreProductCompare.Toggle>
+    );
+  },
+);
+
+Toggle.displayName = 'Compare.Toggle';
+
+/**
+ * Props for Compare Table component
+ */
+export interface TableProps {
+  /** Whether to only show the attributes whose values differ between products */
+  differencesOnly?: boolean;
+  /** Content to display when fewer than two products are selected */
+  emptyState?: React.ReactNode;
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<CoreProductCompare.TableRenderProps>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+}
+
+/**
+ * Comparison table of the selected products: a header row with the product names,
+ * followed by a Compare.AttributeRow per price range, option, modifier and info section.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default usage
+ * <Compare.Table emptyState={<p>Select at least two products to compare</p>} />
+ *
+ * // Custom rendering
+ * <Compare.Table asChild>
+ *   {({ products, attributes, removeProduct }) => (
+ *     <table>
+ *       <thead>
+ *         <tr>
+ *           <td />
+ *           {products.map((product) => (
+ *             <th key={product._id}>
+ *               {product.name}
+ *               <button onClick={() => removeProduct(product._id!)}>Remove</button>
+ *             </th>
+ *           ))}
+ *         </tr>
+ *       </thead>
+ *       <tbody>
+ *         {attributes.map((attribute) => (
+ *           <Compare.AttributeRow key={attribute.id} attribute={attribute} />
+ *         ))}
+ *       </tbody>
+ *     </table>
+ *   )}
+ * </Compare.Table>
+ * ```
+ */
+export const Table = React.forwardRef<HTMLElement, TableProps>((props, ref) => {
+  const {
+    differencesOnly,
+    emptyState,
+    asChild,
+    children,
+    className,
+    ...otherProps
+  } = props;
+
+  return (
+    <CoreProductCompare.Table differencesOnly={differencesOnly}>
+      {(renderProps) => {
+        if (!renderProps.canCompare) {
+          return emptyState || null;
+        }
+
+        return (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            className={className}
+            data-testid={TestIds.compareTable}
+            data-component-tag={DataComponentTags.compareTable}
+            data-loading={renderProps.isLoading ? 'true' : 'false'}
+            customElement={children}
+            customElementProps={renderProps}
+            {...otherProps}
+          >
+            <table>
+              <thead>
+                <tr>
+                  <td />
+                  {renderProps.products.map((product) => (
+                    <th key={product._id} scope="col">
+                      {product.name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {renderProps.attributes.map((attribute) => (
+                  <AttributeRow key={attribute.id} attribute={attribute} />
+                ))}
+              </tbody>
+            </table>
+          </AsChildSlot>
+        );
+      }}
+    </CoreProductCompare.Table>
+  );
+});
+
+Table.displayName = 'Compare.Table';
+
+/**
+ * Props for Compare AttributeRow component
+ */
+export interface AttributeRowProps {
+  /** The compared attribute to display */
+  attribute: CompareAttribute;
+  /** Text displayed for products that don't have the attribute */
+  missingValueLabel?: string;
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{ attribute: CompareAttribute }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+}
+
+/**
+ * Table row with an attribute name and its value for each compared product.
+ * Rows and cells whose values differ between products get `data-different="true"`, for highlighting.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default usage
+ * <Compare.AttributeRow
+ *   attribute={attribute}
+ *   className="data-[different=true]:bg-yellow-50"
+ * />
+ *
+ * // Custom rendering
+ * <Compare.AttributeRow attribute={attribute} asChild>
+ *   {({ attribute }) => (
+ *     <div className={attribute.isDifferent ? 'highlight' : ''}>
+ *       <span>{attribute.name}</span>
+ *       {attribute.values.map((value, index) => (
+ *         <span key={index}>{value?.text ?? '—'}</span>
+ *       ))}
+ *     </div>
+ *   )}
+ * </Compare.AttributeRow>
+ * ```
+ */
+export const AttributeRow = React.forwardRef<HTMLElement, AttributeRowProps>(
+  (props, ref) => {
+    const {
+      attribute,
+      missingValueLabel = '—',
+      asChild,
+      children,
+      className,
+      ...otherProps
+    } = props;
+
+    return (
+      <AsChildSlot
+        ref={ref}
+        asChild={asChild}
+        className={className}
+        data-testid={TestIds.compareAttributeRow}
+        data-attribute-id={attribute.id}
+        data-attribute-group={attribute.group}
+        data-different={attribute.isDifferent ? 'true' : 'false'}
+        customElement={children}
+        customElementProps={{ attribute }}
+        {...otherProps}
+      >
+        <tr>
+          <th scope="row">{attribute.name}</th>
+          {attribute.values.map((value, index) => (
+            <td
+              key={index}
+              data-different={attribute.isDifferent ? 'true' : 'false'}
+              data-missing={value === null ? 'true' : 'false'}
+            >
+              {value?.text ?? missingValueLabel}
+            </td>
+          ))}
+        </tr>
+      </AsChildSlot>
+    );
+  },
+);
+
+AttributeRow.displayName = 'Compare.AttributeRow';
@@ -1,17 +1,29 @@
-import type { V3Product } from '@wix/auto_sdk_stores_products-v-3';
+import type {
+  V3Product,
+  ProductMedia,
+} from '@wix/auto_sdk_stores_products-v-3';
 import { InventoryAvailabilityStatus } from '@wix/auto_sdk_stores_products-v-3';
 import React from 'react';
 import { Commerce } from '@wix/headless-ecom/react';
 import { AsChildSlot, AsChildChildren } from '@wix/headless-utils/react';
 import { MediaGallery } from '@wix/headless-media/react';
+import { MediaGalleryServiceDefinition } from '@wix/headless-media/services';
+import { useService } from '@wix/services-manager-react';
 import { Quantity as QuantityComponent } from '@wix/headless-components/react';
 import * as CoreProduct from './core/Product.js';
 import * as CoreProductVariantSelector from './core/ProductVariantSelector.js';
 import * as CoreProductModifiers from './core/ProductModifiers.js';
 import * as CoreSelectedVariant from './core/SelectedVariant.js';
+import * as CoreRecentlyViewed from './core/RecentlyViewed.js';
+import * as CoreWishlist from './core/Wishlist.js';
+import * as CoreBackInStock from './core/BackInStock.js';
 import * as Option from './Option.js';
 import { AsContent } from './types.js';
 import { DataComponentTags } from '../data-component-tags.js';
+import type {
+  VariantMediaMode,
+  VariantMediaFallback,
+} from '../services/selected-variant-service.js';
 
 /**
  * Context for sharing variant options state between components
@@ -97,6 +109,8 @@ enum TestIds {
   productActionAddToCart = 'product-action-add-to-cart',
   productActionBuyNow = 'product-action-buy-now',
   productActionPreOrder = 'product-action-can-pre-order',
+  productActionAddToWishlist = 'product-action-add-to-wishlist',
+  productActionNotifyWhenAvailable = 'product-action-notify-when-available',
   productQuantity = 'product-quantity',
   productQuantityDecrement = 'product-quantity-decrement',
   productQuantityInput = 'product-quantity-input',
@@ -111,6 +125,19 @@ export interface ProductRootProps {
   children: React.ReactNode;
   product: V3Product;
   selectedVariant?: any;
+  /**
+   * Choices selected on the first render, keyed by option name, e.g. parsed from the URL.
+   * Pass the same value on the server and the client so the selected variant and its media match.
+   */
+  initialSelectedChoices?: Record<string, string>;
+  /**
+   * Whether mounting this product records a view in RecentlyViewed, when rendered within RecentlyViewed.Root.
+   * List repeaters disable it so that browsing a list does not count as viewing every product in it.
+   * @default true
+   */
+  trackRecentlyViewed?: boolean;
+  /** ARIA role of the rendered element, e.g. 'option' for a product rendered in a listbox */
+  role?: React.AriaRole;
 }
 
 /**
@@ -134,9 +161,15 @@ export interface ProductRootProps {
  * ```
  */
 export const Root = (props: ProductRootProps): React.ReactNode => {
-  const { children, product, ...attrs } = props;
-
-  return (
+  const {
+    children,
+    product,
+    trackRecentlyViewed = true,
+    initialSelectedChoices,
+    ...attrs
+  } = props;
+
+  const content = (
     <CoreProduct.Root productServiceConfig={{ product: props.product }}>
       <MediaGallery.Root
         mediaGalleryServiceConfig={{
@@ -145,7 +178,9 @@ export const Root = (props: ProductRootProps): React.ReactNode => {
       >
         <CoreProductVariantSelector.Root>
           <CoreProductModifiers.Root>
-            <CoreSelectedVariant.Root>
+            <CoreSelectedVariant.Root
+              selectedVariantServiceConfig={{ initialSelectedChoices }}
+            >
               <AsChildSlot
                 data-testid={TestIds.productRoot}
                 data-component-tag={DataComponentTags.productRoot}
@@ -159,6 +194,14 @@ export const Root = (props: ProductRootProps): React.ReactNode => {
       </MediaGallery.Root>
     </CoreProduct.Root>
   );
+
+  return trackRecentlyViewed ? (
+    <CoreRecentlyViewed.ViewTracker product={product}>
+      {content}
+    </CoreRecentlyViewed.ViewTracker>
+  ) : (
+    content
+  );
 };
 
 Root.displayName = 'Product.Root';
@@ -1190,11 +1233,24 @@ export interface ProductMediaGalleryProps {
     direction?: 'forward' | 'backward';
     intervalMs?: number;
   };
+  /**
+   * How media linked to the selected choices affects the gallery:
+   * `filter` only shows the linked media, `reorder` shows it first, `none` ignores the selected choices.
+   * @default 'filter'
+   */
+  variantMedia?: VariantMediaMode;
+  /**
+   * Media to show when no selected choice has linked media: all media, the main media only, or none.
+   * @default 'all'
+   */
+  fallback?: VariantMediaFallback;
 }
 
 /**
  * Container for product media gallery.
- * Renders a MediaGallery.Root with the product media items.
+ * Renders a MediaGallery.Root with the product media items, following the selected choices:
+ * when a choice with linked media is selected (e.g. "Red"), the gallery shows that media.
+ * The initial media is derived from the initial choices only, so server and client renders match.
  *
  * @component
  * @example
@@ -1214,6 +1270,11 @@ export interface ProductMediaGalleryProps {
  *   </MediaGallery.Thumbnails>
  * </Product.MediaGallery>
  *
+ * // Show the selected color's media first, keeping the rest of the media
+ * <Product.MediaGallery variantMedia="reorder">
+ *   <MediaGallery.Viewport className="rounded-lg" />
+ * </Product.MediaGallery>
+ *
  * // Simple usage
  * <Product.MediaGallery>
  *   <MediaGallery.Viewport className="rounded-lg" />
@@ -1224,14 +1285,18 @@ export const ProductMediaGallery = React.forwardRef<
   HTMLDivElement,
   ProductMediaGalleryProps
 >((props, ref) => {
-  const { children, infinite, autoPlay, ...otherProps } = props;
+  const {
+    children,
+    infinite,
+    autoPlay,
+    variantMedia = 'filter',
+    fallback = 'all',
+    ...otherProps
+  } = props;
 
   return (
-    <CoreProduct.Media>
-      {({ mediaItems, mainMedia }) => {
-        const media =
-          mediaItems.length > 0 ? mediaItems : mainMedia ? [mainMedia] : [];
-
+    <CoreSelectedVariant.Media mode={variantMedia} fallback={fallback}>
+      {({ media }) => {
         const mediaGalleryServiceConfig = {
           media,
           infinite,
@@ -1247,15 +1312,37 @@ export const ProductMediaGallery = React.forwardRef<
             <MediaGallery.Root
               mediaGalleryServiceConfig={mediaGalleryServiceConfig}
             >
+              <ProductMediaGallerySync media={media} />
               {children}
             </MediaGallery.Root>
           </div>
         );
       }}
-    </CoreProduct.Media>
+    </CoreSelectedVariant.Media>
   );
 });
 
+/**
+ * Internal component that updates the gallery when the selected choices change its media.
+ * The gallery service only reads its media config once, when it is created.
+ */
+const ProductMediaGallerySync = (props: { media: ProductMedia[] }) => {
+  const mediaGalleryService = useService(MediaGalleryServiceDefinition);
+  const mediaKey = props.media
+    .map((item) => item._id || item.image || '')
+    .join('|');
+  const previousMediaKey = React.useRef(mediaKey);
+
+  React.useEffect(() => {
+    if (previousMediaKey.current === mediaKey) return;
+
+    previousMediaKey.current = mediaKey;
+    mediaGalleryService.setMediaToDisplay(props.media);
+  }, [mediaKey]);
+
+  return null;
+};
+
 /**
  * Alias for ProductMediaGallery to match the documented API
  */
@@ -1877,9 +1964,202 @@ export const ProductActionPreOrder = React.forwardRef<
   );
 });
 
+/**
+ * Props for Product Action.AddToWishlist component
+ */
+export interface ProductActionAddToWishlistProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Text label for the button */
+  label?: string;
+  /** Text label for the button when the selected variant is already in the wishlist */
+  removeLabel?: string;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{
+    isInWishlist: boolean;
+    isLoading: boolean;
+    onClick: () => Promise<void>;
+  }>;
+  /** CSS classes to apply to the button */
+  className?: string;
+}
+
+/**
+ * Add to wishlist action button component.
+ * Adds the selected variant to the wishlist, or removes it when it is already there.
+ * Must be used within Wishlist.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default usage
+ * <Product.Action.AddToWishlist
+ *   label="Add to Wishlist"
+ *   removeLabel="Remove from Wishlist"
+ *   className="data-[in-wishlist=true]:text-brand-primary"
+ * />
+ *
+ * // Custom rendering
+ * <Product.Action.AddToWishlist asChild>
+ *   {({ isInWishlist, onClick }) => (
+ *     <button onClick={onClick} aria-label="Wishlist">
+ *       {isInWishlist ? '♥' : '♡'}
+ *     </button>
+ *   )}
+ * </Product.Action.AddToWishlist>
+ * ```
+ */
+export const ProductActionAddToWishlist = React.forwardRef<
+  HTMLButtonElement,
+  ProductActionAddToWishlistProps
+>((props, ref) => {
+  const { asChild, children, className } = props;
+
+  return (
+    <CoreWishlist.AddToWishlist>
+      {({ isInWishlist, isLoading, toggle }) => {
+        const label = isInWishlist
+          ? props.removeLabel || 'Remove from Wishlist'
+          : props.label || 'Add to Wishlist';
+
+        return (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            className={className}
+            onClick={toggle}
+            aria-pressed={isInWishlist}
+            data-testid={TestIds.productActionAddToWishlist}
+            data-in-wishlist={isInWishlist}
+            data-in-progress={isLoading}
+            customElement={children}
+            customElementProps={{
+              isInWishlist,
+              isLoading,
+              onClick: toggle,
+            }}
+            content={label}
+          >
+            <button disabled={isLoading}>{label}</button>
+          </AsChildSlot>
+        );
+      }}
+    </CoreWishlist.AddToWishlist>
+  );
+});
+
+/**
+ * Props for Product Action.NotifyWhenAvailable component
+ */
+export interface ProductActionNotifyWhenAvailableProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Text label for the submit button */
+  label?: string;
+  /** Placeholder for the email input */
+  placeholder?: string;
+  /** Message displayed once the notification was requested */
+  submittedMessage?: string;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<CoreBackInStock.NotifyWhenAvailableRenderProps>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+}
+
+/**
+ * Back-in-stock notification form, displayed when the selected variant is out of stock and can't be pre-ordered.
+ * Captures an email address for the exact variant and submits it through the handler of BackInStock.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default usage
+ * <Product.Action.NotifyWhenAvailable
+ *   label="Notify Me"
+ *   placeholder="Your email"
+ *   submittedMessage="We'll email you when it's back in stock"
+ *   className="flex gap-2"
+ * />
+ *
+ * // Custom rendering
+ * <Product.Action.NotifyWhenAvailable asChild>
+ *   {({ email, setEmail, submit, isSubmitting, isSubmitted, error }) =>
+ *     isSubmitted ? (
+ *       <p>You're on the list!</p>
+ *     ) : (
+ *       <div>
+ *         <input value={email} onChange={(e) => setEmail(e.target.value)} />
+ *         <button onClick={submit} disabled={isSubmitting}>Email me</button>
+ *         {error && <span>{error}</span>}
+ *       </div>
+ *     )
+ *   }
+ * </Product.Action.NotifyWhenAvailable>
+ * ```
+ */
+export const ProductActionNotifyWhenAvailable = React.forwardRef<
+  HTMLElement,
+  ProductActionNotifyWhenAvailableProps
+>((props, ref) => {
+  const { asChild, children, className } = props;
+  const label = props.label || 'Notify Me';
+  const submittedMessage =
+    props.submittedMessage || "We'll let you know when it's back in stock";
+
+  return (
+    <CoreBackInStock.NotifyWhenAvailable>
+      {(renderProps) => {
+        if (!renderProps.isUnavailable) {
+          return null;
+        }
+
+        const { email, setEmail, submit, isSubmitting, isSubmitted, error } =
+          renderProps;
+
+        return (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            className={className}
+            data-testid={TestIds.productActionNotifyWhenAvailable}
+            data-submitted={isSubmitted}
+            data-in-progress={isSubmitting}
+            customElement={children}
+            customElementProps={renderProps}
+          >
+            {isSubmitted ? (
+              <p role="status">{submittedMessage}</p>
+            ) : (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  submit();
+                }}
+              >
+                <input
+                  type="email"
+                  value={email}
+                  placeholder={props.placeholder || 'Enter your email'}
+                  aria-invalid={!!error}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+                <button type="submit" disabled={isSubmitting}>
+                  {label}
+                </button>
+                {error && <span role="alert">{error}</span>}
+              </form>
+            )}
+          </AsChildSlot>
+        );
+      }}
+    </CoreBackInStock.NotifyWhenAvailable>
+  );
+});
+
 /**
  * Actions namespace containing all product action components
- * following the documented API: Product.Action.AddToCart, Product.Action.BuyNow, Product.Action.PreOrder
+ * following the documented API: Product.Action.AddToCart, Product.Action.BuyNow, Product.Action.PreOrder,
+ * Product.Action.AddToWishlist, Product.Action.NotifyWhenAvailable
  */
 export const Action = {
   /** Add to cart action button */
@@ -1888,6 +2168,10 @@ export const Action = {
   BuyNow: ProductActionBuyNow,
   /** Pre-order action button */
   PreOrder: ProductActionPreOrder,
+  /** Add to wishlist action button */
+  AddToWishlist: ProductActionAddToWishlist,
+  /** Back-in-stock notification form */
+  NotifyWhenAvailable: ProductActionNotifyWhenAvailable,
 } as const;
 
 /**
@@ -0,0 +1,95 @@
+import { render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import '@testing-library/jest-dom';
+import * as ProductBundle from './ProductBundle';
+
+vi.mock('@wix/headless-components/react', () => ({
+  GenericList: {
+    Root: vi.fn(({ children, items, isLoading, variant, ...props }) => (
+      <div {...props}>{children}</div>
+    )),
+  },
+}));
+
+vi.mock('@wix/services-manager-react', () => ({
+  useService: vi.fn(() => ({
+    members: {
+      get: () => [],
+    },
+    failedMemberIds: {
+      get: () => [],
+    },
+    totals: {
+      get: () => ({
+        subtotal: 0,
+        compareAtSubtotal: 0,
+        savings: 0,
+        itemCount: 0,
+        currency: 'USD',
+        formattedSubtotal: '$0.00',
+        formattedCompareAtSubtotal: '$0.00',
+        formattedSavings: '$0.00',
+      }),
+    },
+    canAddToCart: {
+      get: () => false,
+    },
+    isLoading: {
+      get: () => false,
+    },
+    error: {
+      get: () => null,
+    },
+    setSelected: vi.fn(),
+    setQuantity: vi.fn(),
+    addToCart: vi.fn(),
+  })),
+  WixServices: vi.fn(({ children }) => <div>{children}</div>),
+}));
+
+describe('ProductBundle', () => {
+  describe('List', () => {
+    it('renders data-component-tag attribute on first DOM element', () => {
+      render(
+        <ProductBundle.Root bundleConfig={{ members: [] }}>
+          <ProductBundle.List>
+            <div>Content</div>
+          </ProductBundle.List>
+        </ProductBundle.Root>,
+      );
+
+      const listElement = screen.getByTestId('product-bundle-list');
+      expect(listElement).toHaveAttribute(
+        'data-component-tag',
+        'stores.product-bundle-list',
+      );
+    });
+  });
+
+  describe('AddToCart', () => {
+    it('is disabled until every included product can be added', () => {
+      render(
+        <ProductBundle.Root bundleConfig={{ members: [] }}>
+          <ProductBundle.AddToCart label="Add all to cart" />
+        </ProductBundle.Root>,
+      );
+
+      expect(screen.getByTestId('product-bundle-add-to-cart')).toBeDisabled();
+    });
+  });
+
+  describe('Savings', () => {
+    it('does not render without savings', () => {
+      render(
+        <ProductBundle.Root bundleConfig={{ members: [] }}>
+          <ProductBundle.Savings />
+        </ProductBundle.Root>,
+      );
+
+      expect(
+        screen.queryByTestId('product-bundle-savings'),
+      ).not.toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,610 @@
+import {
+  GenericList,
+  ListVariant,
+  GenericListRepeaterRenderProps,
+} from '@wix/headless-components/react';
+import { AsChildChildren, AsChildSlot } from '@wix/headless-utils/react';
+import React from 'react';
+import type {
+  ProductBundleMember,
+  ProductBundleMemberIssue,
+  ProductBundleServiceConfig,
+  ProductBundleTotals,
+} from '../services/product-bundle-service.js';
+import * as CoreProductBundle from './core/ProductBundle.js';
+import * as Product from './Product.js';
+import { DataComponentTags } from '../data-component-tags.js';
+
+enum TestIds {
+  productBundleList = 'product-bundle-list',
+  productBundleMembers = 'product-bundle-members',
+  productBundleMember = 'product-bundle-member',
+  productBundleMemberToggle = 'product-bundle-member-toggle',
+  productBundleMemberIssue = 'product-bundle-member-issue',
+  productBundleSubtotal = 'product-bundle-subtotal',
+  productBundleSavings = 'product-bundle-savings',
+  productBundleAddToCart = 'product-bundle-add-to-cart',
+}
+
+const ISSUE_MESSAGES: Record<ProductBundleMemberIssue, string> = {
+  'choices-required': 'Please select all options',
+  'out-of-stock': 'Out of stock',
+  'modifiers-required': 'Please fill in all required fields',
+};
+
+const BundleMemberContext = React.createContext<ProductBundleMember | null>(
+  null,
+);
+
+/**
+ * Hook to access the bundle member rendered by ProductBundle.MemberRepeater
+ * @returns The current bundle member
+ */
+function useBundleMemberContext(): ProductBundleMember {
+  const context = React.useContext(BundleMemberContext);
+  if (!context) {
+    throw new Error(
+      'useBundleMemberContext must be used within a ProductBundle.MemberRepeater component',
+    );
+  }
+  return context;
+}
+
+/**
+ * Props for ProductBundle Root component
+ */
+export interface RootProps {
+  /** Child components that will have access to the bundle */
+  children: React.ReactNode;
+  /** Configuration for the ProductBundle service, including the bundled products */
+  bundleConfig: ProductBundleServiceConfig;
+}
+
+/**
+ * Root component that provides the ProductBundle service context.
+ * Must be rendered within Commerce.Root, which provides the cart the bundle is added to.
+ *
+ * @order 1
+ * @component
+ * @example
+ * ```tsx
+ * import { ProductBundle, Product } from '@wix/stores/components';
+ *
+ * function FrequentlyBoughtTogether({ product, relatedProducts }) {
+ *   return (
+ *     <ProductBundle.Root
+ *       bundleConfig={{
+ *         members: [
+ *           { product },
+ *           ...relatedProducts.map((related) => ({ product: related, isOptional: true })),
+ *         ],
+ *       }}
+ *     >
+ *       <ProductBundle.List>
+ *         <ProductBundle.Members>
+ *           <ProductBundle.MemberRepeater>
+ *             <ProductBundle.Member.Toggle />
+ *             <Product.Name />
+ *           </ProductBundle.MemberRepeater>
+ *         </ProductBundle.Members>
+ *       </ProductBundle.List>
+ *       <ProductBundle.Subtotal />
+ *       <ProductBundle.AddToCart label="Add all to cart" />
+ *     </ProductBundle.Root>
+ *   );
+ * }
+ * ```
+ */
+export const Root = (props: RootProps): React.ReactNode => {
+  return (
+    <CoreProductBundle.Root bundleConfig={props.bundleConfig}>
+      {props.children}
+    </CoreProductBundle.Root>
+  );
+};
+
+Root.displayName = 'ProductBundle.Root';
+
+/**
+ * Props for ProductBundle List component
+ */
+export interface ListProps {
+  children: React.ReactNode;
+  className?: string;
+  variant?: ListVariant;
+}
+
+/**
+ * List container for the bundle members, built on GenericList.
+ * Must be used within ProductBundle.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ProductBundle.List className="flex gap-4">
+ *   <ProductBundle.Members>
+ *     <ProductBundle.MemberRepeater>
+ *       <Product.MediaGallery />
+ *       <Product.Name />
+ *       <Product.Price />
+ *     </ProductBundle.MemberRepeater>
+ *   </ProductBundle.Members>
+ * </ProductBundle.List>
+ * ```
+ */
+export const List = React.forwardRef<HTMLElement, ListProps>((props, ref) => {
+  const { children, className, variant } = props;
+
+  return (
+    <CoreProductBundle.Members>
+      {({ members }) => (
+        <GenericList.Root
+          items={members}
+          className={className}
+          ref={ref}
+          data-component-tag={DataComponentTags.productBundleList}
+          data-testid={TestIds.productBundleList}
+          variant={variant}
+        >
+          {children}
+        </GenericList.Root>
+      )}
+    </CoreProductBundle.Members>
+  );
+});
+
+List.displayName = 'ProductBundle.List';
+
+/**
+ * Props for ProductBundle Members component
+ */
+export interface MembersProps {
+  children: React.ReactNode;
+  emptyState?: React.ReactNode;
+  className?: string;
+}
+
+/**
+ * Container for the bundle members with empty state support.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ProductBundle.Members>
+ *   <ProductBundle.MemberRepeater>
+ *     <Product.Name />
+ *   </ProductBundle.MemberRepeater>
+ * </ProductBundle.Members>
+ * ```
+ */
+export const Members = React.forwardRef<HTMLElement, MembersProps>(
+  (props, ref) => {
+    const { children, ...otherProps } = props;
+
+    return (
+      <GenericList.Items
+        ref={ref}
+        data-testid={TestIds.productBundleMembers}
+        {...otherProps}
+      >
+        {children}
+      </GenericList.Items>
+    );
+  },
+);
+
+Members.displayName = 'ProductBundle.Members';
+
+/**
+ * Render props for MemberRepeater asChild pattern
+ */
+export type MemberRepeaterRenderProps =
+  GenericListRepeaterRenderProps<ProductBundleMember>;
+
+/**
+ * Props for ProductBundle MemberRepeater component
+ */
+export interface MemberRepeaterProps {
+  children:
+    | React.ReactNode
+    | ((
+        props: MemberRepeaterRenderProps,
+        ref: React.Ref<HTMLElement>,
+      ) => React.ReactNode);
+  /** Whether to render as child component (asChild pattern) */
+  asChild?: boolean;
+}
+
+/**
+ * Repeater component that renders Product.Root for each bundle member, so that Product components
+ * can be used to display it. Choices and modifiers selected through Product components
+ * (e.g. Product.Variants) are applied to the member.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ProductBundle.MemberRepeater>
+ *   <ProductBundle.Member.Toggle />
+ *   <Product.Name />
+ *   <Product.Variants>...</Product.Variants>
+ *   <ProductBundle.Member.Issue />
+ * </ProductBundle.MemberRepeater>
+ * ```
+ */
+export const MemberRepeater = React.forwardRef<
+  HTMLElement,
+  MemberRepeaterProps
+>((props, ref) => {
+  const { children, asChild } = props;
+
+  return (
+    <GenericList.Repeater<ProductBundleMember>
+      ref={ref}
+      asChild={asChild}
+      itemWrapper={({ item, children }) => (
+        <BundleMemberContext.Provider key={item.id} value={item}>
+          <Product.Root
+            product={item.product}
+            initialSelectedChoices={item.selectedChoices}
+            trackRecentlyViewed={false}
+            data-testid={TestIds.productBundleMember}
+            data-product-id={item.product._id}
+            data-selected={item.isSelected}
+            data-has-issue={!!item.issue}
+          >
+            <CoreProductBundle.MemberSelectionSync memberId={item.id}>
+              {children}
+            </CoreProductBundle.MemberSelectionSync>
+          </Product.Root>
+        </BundleMemberContext.Provider>
+      )}
+    >
+      {children}
+    </GenericList.Repeater>
+  );
+});
+
+MemberRepeater.displayName = 'ProductBundle.MemberRepeater';
+
+/**
+ * Props for ProductBundle Member.Toggle component
+ */
+export interface MemberToggleProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{
+    isSelected: boolean;
+    isOptional: boolean;
+    toggle: () => void;
+  }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+}
+
+/**
+ * Checkbox that includes the current member in the bundle, or leaves it out.
+ * Required members are always included, so their checkbox is disabled.
+ * Must be used within ProductBundle.MemberRepeater.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default usage
+ * <ProductBundle.Member.Toggle className="accent-primary" />
+ *
+ * // Custom rendering
+ * <ProductBundle.Member.Toggle asChild>
+ *   {({ isSelected, isOptional, toggle }) => (
+ *     <button onClick={toggle} disabled={!isOptional}>
+ *       {isSelected ? 'Remove from bundle' : 'Add to bundle'}
+ *     </button>
+ *   )}
+ * </ProductBundle.Member.Toggle>
+ * ```
+ */
+export const MemberToggle = React.forwardRef<HTMLElement, MemberToggleProps>(
+  (props, ref) => {
+    const { asChild, children, className, ...otherProps } = props;
+    const member = useBundleMemberContext();
+
+    return (
+      <CoreProductBundle.Members>
+        {({ setSelected }) => {
+          const toggle = () => setSelected(member.id, !member.isSelected);
+
+          return (
+            <AsChildSlot
+              ref={ref}
+              asChild={asChild}
+              className={className}
+              data-testid={TestIds.productBundleMemberToggle}
+              data-selected={member.isSelected}
+              customElement={children}
+              customElementProps={{
+                isSelected: member.isSelected,
+                isOptional: member.isOptional,
+                toggle,
+              }}
+              {...otherProps}
+            >
+              <input
+                type="checkbox"
+                checked={member.isSelected}
+                disabled={!member.isOptional}
+                onChange={toggle}
+              />
+            </AsChildSlot>
+          );
+        }}
+      </CoreProductBundle.Members>
+    );
+  },
+);
+
+MemberToggle.displayName = 'ProductBundle.Member.Toggle';
+
+/**
+ * Props for ProductBundle Member.Issue component
+ */
+export interface MemberIssueProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{
+    issue: ProductBundleMemberIssue | null;
+    isFailed: boolean;
+    message: string;
+  }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+  /** Messages for each issue, overriding the default ones */
+  messages?: Partial<Record<ProductBundleMemberIssue, string>>;
+  /** Message shown when the cart rejected the member. Defaults to "Couldn't be added to the cart" */
+  failedMessage?: string;
+}
+
+/**
+ * Displays why the current member can't be added to the cart, or that the cart rejected it.
+ * Only renders for included members with an issue, or members that failed to be added.
+ * Must be used within ProductBundle.MemberRepeater.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ProductBundle.Member.Issue
+ *   className="text-sm text-status-error"
+ *   messages={{ 'choices-required': 'Choose a size' }}
+ * />
+ * ```
+ */
+export const MemberIssue = React.forwardRef<HTMLElement, MemberIssueProps>(
+  (props, ref) => {
+    const {
+      asChild,
+      children,
+      className,
+      messages,
+      failedMessage = "Couldn't be added to the cart",
+      ...otherProps
+    } = props;
+    const member = useBundleMemberContext();
+
+    return (
+      <CoreProductBundle.Members>
+        {({ failedMemberIds }) => {
+          const isFailed = failedMemberIds.includes(member.id);
+          const issue = member.isSelected ? member.issue : null;
+
+          if (!issue && !isFailed) {
+            return null;
+          }
+
+          const message = issue
+            ? (messages?.[issue] ?? ISSUE_MESSAGES[issue])
+            : failedMessage;
+
+          return (
+            <AsChildSlot
+              ref={ref}
+              asChild={asChild}
+              className={className}
+              data-testid={TestIds.productBundleMemberIssue}
+              data-issue={issue ?? 'failed'}
+              customElement={children}
+              customElementProps={{ issue, isFailed, message }}
+              content={message}
+              {...otherProps}
+            >
+              <span role="alert">{message}</span>
+            </AsChildSlot>
+          );
+        }}
+      </CoreProductBundle.Members>
+    );
+  },
+);
+
+MemberIssue.displayName = 'ProductBundle.Member.Issue';
+
+/**
+ * Bundle member components, used within ProductBundle.MemberRepeater
+ */
+export const Member = {
+  /** Include/leave out checkbox */
+  Toggle: MemberToggle,
+  /** Issue preventing the member from being added to the cart */
+  Issue: MemberIssue,
+} as const;
+
+/**
+ * Props for ProductBundle totals components
+ */
+export interface TotalProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{ totals: ProductBundleTotals }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+}
+
+/**
+ * Displays the total price of the products included in the bundle.
+ * Must be used within ProductBundle.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default usage
+ * <ProductBundle.Subtotal className="text-xl font-bold" />
+ *
+ * // Custom rendering
+ * <ProductBundle.Subtotal asChild>
+ *   {({ totals }) => (
+ *     <p>
+ *       {totals.itemCount} items: {totals.formattedSubtotal}
+ *     </p>
+ *   )}
+ * </ProductBundle.Subtotal>
+ * ```
+ */
+export const Subtotal = React.forwardRef<HTMLElement, TotalProps>(
+  (props, ref) => {
+    const { asChild, children, className, ...otherProps } = props;
+
+    return (
+      <CoreProductBundle.Totals>
+        {({ totals }) => (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            className={className}
+            data-testid={TestIds.productBundleSubtotal}
+            customElement={children}
+            customElementProps={{ totals }}
+            content={totals.formattedSubtotal}
+            {...otherProps}
+          >
+            <span>{totals.formattedSubtotal}</span>
+          </AsChildSlot>
+        )}
+      </CoreProductBundle.Totals>
+    );
+  },
+);
+
+Subtotal.displayName = 'ProductBundle.Subtotal';
+
+/**
+ * Displays how much the shopper saves on the included products compared to their compare-at prices.
+ * Only renders when there are savings. Must be used within ProductBundle.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ProductBundle.Savings className="text-status-success" />
+ * ```
+ */
+export const Savings = React.forwardRef<HTMLElement, TotalProps>(
+  (props, ref) => {
+    const { asChild, children, className, ...otherProps } = props;
+
+    return (
+      <CoreProductBundle.Totals>
+        {({ totals }) => {
+          if (totals.savings <= 0) {
+            return null;
+          }
+
+          return (
+            <AsChildSlot
+              ref={ref}
+              asChild={asChild}
+              className={className}
+              data-testid={TestIds.productBundleSavings}
+              customElement={children}
+              customElementProps={{ totals }}
+              content={totals.formattedSavings}
+              {...otherProps}
+            >
+              <span>{totals.formattedSavings}</span>
+            </AsChildSlot>
+          );
+        }}
+      </CoreProductBundle.Totals>
+    );
+  },
+);
+
+Savings.displayName = 'ProductBundle.Savings';
+
+/**
+ * Props for ProductBundle AddToCart component
+ */
+export interface AddToCartProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{
+    disabled: boolean;
+    isLoading: boolean;
+    error: string | null;
+    onClick: () => Promise<void>;
+  }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+  /** Label for the button */
+  label?: string;
+}
+
+/**
+ * Button that adds all products included in the bundle to the cart in a single request.
+ * Disabled until every included product can be added. Must be used within ProductBundle.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ProductBundle.AddToCart label="Add all to cart" className="btn-primary" />
+ * ```
+ */
+export const AddToCart = React.forwardRef<HTMLButtonElement, AddToCartProps>(
+  (props, ref) => {
+    const { asChild, children, className, label, ...otherProps } = props;
+    const buttonLabel = label || 'Add Bundle to Cart';
+
+    return (
+      <CoreProductBundle.AddToCart>
+        {({ addToCart, canAddToCart, isLoading, error }) => {
+          const disabled = !canAddToCart || isLoading;
+
+          return (
+            <AsChildSlot
+              ref={ref}
+              asChild={asChild}
+              className={className}
+              onClick={addToCart}
+              disabled={disabled}
+              data-testid={TestIds.productBundleAddToCart}
+              data-in-progress={isLoading}
+              data-can-add={canAddToCart}
+              customElement={children}
+              customElementProps={{
+                disabled,
+                isLoading,
+                error,
+                onClick: addToCart,
+              }}
+              content={buttonLabel}
+              {...otherProps}
+            >
+              <button disabled={disabled}>{buttonLabel}</button>
+            </AsChildSlot>
+          );
+        }}
+      </CoreProductBundle.AddToCart>
+    );
+  },
+);
+
+AddToCart.displayName = 'ProductBundle.AddToCart';
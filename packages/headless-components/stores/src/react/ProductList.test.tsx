@@ -26,6 +26,8 @@ vi.mock('@wix/services-manager-react', () => ({
       get: () => false,
     },
     loadMore: vi.fn(),
+    startUrlSync: vi.fn(() => () => {}),
+    restoreRecentQueries: vi.fn(),
   })),
   WixServices: vi.fn(({ children }) => <div>{children}</div>),
 }));
@@ -73,4 +75,40 @@ describe('ProductList', () => {
       );
     });
   });
+
+  describe('Search.Root', () => {
+    it('renders data-component-tag attribute on first DOM element', () => {
+      render(
+        <ProductList.Search.Root>
+          <div>Content</div>
+        </ProductList.Search.Root>,
+      );
+
+      const rootElement = screen.getByTestId('product-list-search');
+      expect(rootElement).toHaveAttribute(
+        'data-component-tag',
+        'stores.product-list-search-root',
+      );
+    });
+  });
+
+  describe('QuickView', () => {
+    it('does not render the content until a product is opened', () => {
+      render(
+        <ProductList.QuickView.Root>
+          <ProductList.QuickView.Overlay />
+          <ProductList.QuickView.Content>
+            <div>Content</div>
+          </ProductList.QuickView.Content>
+        </ProductList.QuickView.Root>,
+      );
+
+      expect(
+        screen.queryByTestId('product-list-quick-view-overlay'),
+      ).not.toBeInTheDocument();
+      expect(
+        screen.queryByTestId('product-list-quick-view-content'),
+      ).not.toBeInTheDocument();
+    });
+  });
 });
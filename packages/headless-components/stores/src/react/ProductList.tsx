@@ -16,8 +16,16 @@ import { productsV3 } from '@wix/stores';
 import * as CoreProductList from './core/ProductList.js';
 import { ProductListSort as ProductListSortPrimitive } from './core/ProductListSort.js';
 import * as CoreProductListFilters from './core/ProductListFilters.js';
+import * as CoreProductListSearch from './core/ProductListSearch.js';
+import * as CoreProductListPagination from './core/ProductListPagination.js';
+import * as CoreProductListQuickView from './core/ProductListQuickView.js';
+import type { ProductSearchSuggestionsServiceConfig } from '../services/product-search-suggestions-service.js';
 import * as Product from './Product.js';
-import { AsChildChildren, AsChildSlot } from '@wix/headless-utils/react';
+import {
+  AsChildChildren,
+  AsChildSlot,
+  useFocusTrap,
+} from '@wix/headless-utils/react';
 import { DataComponentTags } from '../data-component-tags.js';
 
 enum TestIds {
@@ -26,10 +34,24 @@ enum TestIds {
   productListItem = 'product-list-item',
   productListLoadMore = 'product-list-load-more',
   productListTotalsDisplayed = 'product-list-totals-displayed',
+  productListPreviousPage = 'product-list-previous-page',
+  productListNextPage = 'product-list-next-page',
+  productListPageNumbers = 'product-list-page-numbers',
   productListSort = 'product-list-sort',
   productListFilter = 'product-list-filter',
   productListFilterResetTrigger = 'product-list-filter-reset-trigger',
   productListError = 'product-list-error',
+  productListSearch = 'product-list-search',
+  productListSearchInput = 'product-list-search-input',
+  productListSearchSuggestions = 'product-list-search-suggestions',
+  productListSearchProductItem = 'product-list-search-product-item',
+  productListSearchCategories = 'product-list-search-categories',
+  productListSearchDidYouMean = 'product-list-search-did-you-mean',
+  productListSearchRecentQueries = 'product-list-search-recent-queries',
+  productListQuickViewTrigger = 'product-list-quick-view-trigger',
+  productListQuickViewOverlay = 'product-list-quick-view-overlay',
+  productListQuickViewContent = 'product-list-quick-view-content',
+  productListQuickViewClose = 'product-list-quick-view-close',
 }
 
 /**
@@ -287,6 +309,7 @@ export const ProductRepeater = React.forwardRef<
         <Product.Root
           key={product._id}
           product={product}
+          trackRecentlyViewed={false}
           data-testid={TestIds.productListItem}
           data-product-id={product._id}
           data-product-available={true}
@@ -408,6 +431,216 @@ export const TotalsDisplayed = React.forwardRef<
   );
 });
 
+/**
+ * Props for ProductList NextPageTrigger and PreviousPageTrigger components
+ */
+export interface PageTriggerProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{
+    onClick: () => Promise<void>;
+    disabled: boolean;
+    isLoading: boolean;
+  }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+  /** Label for the button */
+  label?: string;
+}
+
+/**
+ * Displays a button to navigate to the next page (page-based pagination).
+ * Disabled on the last page.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default usage
+ * <ProductList.NextPageTrigger label="Next" className="page-btn" />
+ *
+ * // Custom rendering with forwardRef
+ * <ProductList.NextPageTrigger asChild>
+ *   {React.forwardRef(({ onClick, disabled }, ref) => (
+ *     <button ref={ref} onClick={onClick} disabled={disabled}>
+ *       Next →
+ *     </button>
+ *   ))}
+ * </ProductList.NextPageTrigger>
+ * ```
+ */
+export const NextPageTrigger = React.forwardRef<
+  HTMLButtonElement,
+  PageTriggerProps
+>((props, ref) => {
+  const { asChild, children, className, ...otherProps } = props;
+  const label = props.label || 'Next';
+
+  return (
+    <CoreProductListPagination.NextPageTrigger>
+      {({ nextPage, hasNextPage, isLoading }) => {
+        const disabled = !hasNextPage || isLoading;
+
+        return (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            className={className}
+            onClick={nextPage}
+            disabled={disabled}
+            data-testid={TestIds.productListNextPage}
+            customElement={children}
+            customElementProps={{ onClick: nextPage, disabled, isLoading }}
+            content={label}
+            {...otherProps}
+          >
+            <button disabled={disabled}>{label}</button>
+          </AsChildSlot>
+        );
+      }}
+    </CoreProductListPagination.NextPageTrigger>
+  );
+});
+
+NextPageTrigger.displayName = 'ProductList.NextPageTrigger';
+
+/**
+ * Displays a button to navigate to the previous page (page-based pagination).
+ * Disabled on the first page.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default usage
+ * <ProductList.PreviousPageTrigger label="Previous" className="page-btn" />
+ *
+ * // Using asChild with a custom element
+ * <ProductList.PreviousPageTrigger asChild>
+ *   <button className="page-btn">← Previous</button>
+ * </ProductList.PreviousPageTrigger>
+ * ```
+ */
+export const PreviousPageTrigger = React.forwardRef<
+  HTMLButtonElement,
+  PageTriggerProps
+>((props, ref) => {
+  const { asChild, children, className, ...otherProps } = props;
+  const label = props.label || 'Previous';
+
+  return (
+    <CoreProductListPagination.PreviousPageTrigger>
+      {({ previousPage, hasPreviousPage, isLoading }) => {
+        const disabled = !hasPreviousPage || isLoading;
+
+        return (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            className={className}
+            onClick={previousPage}
+            disabled={disabled}
+            data-testid={TestIds.productListPreviousPage}
+            customElement={children}
+            customElementProps={{ onClick: previousPage, disabled, isLoading }}
+            content={label}
+            {...otherProps}
+          >
+            <button disabled={disabled}>{label}</button>
+          </AsChildSlot>
+        );
+      }}
+    </CoreProductListPagination.PreviousPageTrigger>
+  );
+});
+
+PreviousPageTrigger.displayName = 'ProductList.PreviousPageTrigger';
+
+/**
+ * Props for ProductList PageNumbers component
+ */
+export interface PageNumbersProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<CoreProductListPagination.PageNumbersRenderProps>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+}
+
+/**
+ * Displays numbered page buttons (page-based pagination). The current page is marked with `aria-current="page"`.
+ * Cursor paging does not report a total, so pages are revealed as they become known,
+ * followed by an ellipsis until the last page has been reached.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default usage
+ * <ProductList.PageNumbers className="flex gap-2" />
+ *
+ * // Custom rendering
+ * <ProductList.PageNumbers asChild>
+ *   {({ pages, currentPage, goToPage }) => (
+ *     <nav>
+ *       {pages.map((page) => (
+ *         <a
+ *           key={page}
+ *           href={`?page=${page}`}
+ *           onClick={(e) => {
+ *             e.preventDefault();
+ *             goToPage(page);
+ *           }}
+ *           className={page === currentPage ? 'font-bold' : ''}
+ *         >
+ *           {page}
+ *         </a>
+ *       ))}
+ *     </nav>
+ *   )}
+ * </ProductList.PageNumbers>
+ * ```
+ */
+export const PageNumbers = React.forwardRef<HTMLElement, PageNumbersProps>(
+  (props, ref) => {
+    const { asChild, children, className, ...otherProps } = props;
+
+    return (
+      <CoreProductListPagination.PageNumbers>
+        {(renderProps) => (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            className={className}
+            data-testid={TestIds.productListPageNumbers}
+            data-current-page={renderProps.currentPage}
+            customElement={children}
+            customElementProps={renderProps}
+            {...otherProps}
+          >
+            <nav>
+              {renderProps.pages.map((page) => (
+                <button
+                  key={page}
+                  onClick={() => renderProps.goToPage(page)}
+                  disabled={renderProps.isLoading}
+                  aria-current={
+                    page === renderProps.currentPage ? 'page' : undefined
+                  }
+                >
+                  {page}
+                </button>
+              ))}
+              {!renderProps.isTotalPagesExact && <span>…</span>}
+            </nav>
+          </AsChildSlot>
+        )}
+      </CoreProductListPagination.PageNumbers>
+    );
+  },
+);
+
+PageNumbers.displayName = 'ProductList.PageNumbers';
+
 /**
  * Props for the ProductList Sort component
  */
@@ -764,3 +997,817 @@ export const Error = React.forwardRef<HTMLElement, ErrorProps>((props, ref) => {
 });
 
 Error.displayName = 'ProductList.Error';
+
+/**
+ * Props for ProductList Search.Root component
+ */
+export interface SearchRootProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Child components that will have access to the search suggestions */
+  children: React.ReactNode;
+  /** Configuration for the search suggestions service */
+  searchSuggestionsConfig?: ProductSearchSuggestionsServiceConfig;
+  /** CSS classes to apply to the default element */
+  className?: string;
+}
+
+/**
+ * Root component for search-as-you-type with product, category and "did you mean" suggestions.
+ * Can be used on its own (e.g. in a site header) - it does not require ProductList.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ProductList.Search.Root
+ *   searchSuggestionsConfig={{
+ *     onSubmit: (query) => navigate(`/search?q=${encodeURIComponent(query)}`),
+ *   }}
+ * >
+ *   <ProductList.Search.Input placeholder="Search products..." />
+ *   <ProductList.Search.RecentQueries />
+ *   <ProductList.Search.DidYouMean />
+ *   <ProductList.Search.Categories />
+ *   <ProductList.Search.Suggestions>
+ *     <ProductList.Search.ProductRepeater>
+ *       <Product.Name />
+ *       <Product.Price />
+ *     </ProductList.Search.ProductRepeater>
+ *   </ProductList.Search.Suggestions>
+ * </ProductList.Search.Root>
+ * ```
+ */
+const SearchRoot = React.forwardRef<HTMLElement, SearchRootProps>(
+  (props, ref) => {
+    const {
+      asChild,
+      children,
+      className,
+      searchSuggestionsConfig,
+      ...otherProps
+    } = props;
+
+    return (
+      <CoreProductListSearch.Root
+        searchSuggestionsConfig={searchSuggestionsConfig}
+      >
+        <AsChildSlot
+          ref={ref}
+          asChild={asChild}
+          className={className}
+          data-testid={TestIds.productListSearch}
+          data-component-tag={DataComponentTags.productListSearchRoot}
+          role="search"
+          customElement={children}
+          {...otherProps}
+        >
+          <div>{children}</div>
+        </AsChildSlot>
+      </CoreProductListSearch.Root>
+    );
+  },
+);
+
+SearchRoot.displayName = 'ProductList.Search.Root';
+
+/**
+ * Props for ProductList Search.Input component
+ */
+export interface SearchInputProps
+  extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'children'> {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<CoreProductListSearch.InputRenderProps>;
+}
+
+/**
+ * Search query input. Updates the query as the user types, submits on Enter and clears on Escape.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default usage
+ * <ProductList.Search.Input placeholder="Search products..." className="search-input" />
+ *
+ * // Custom rendering with forwardRef
+ * <ProductList.Search.Input asChild>
+ *   {React.forwardRef(({ query, setQuery, submit }, ref) => (
+ *     <input
+ *       ref={ref}
+ *       value={query}
+ *       onChange={(e) => setQuery(e.target.value)}
+ *       onKeyDown={(e) => e.key === 'Enter' && submit()}
+ *     />
+ *   ))}
+ * </ProductList.Search.Input>
+ * ```
+ */
+const SearchInput = React.forwardRef<HTMLInputElement, SearchInputProps>(
+  (props, ref) => {
+    const { asChild, children, className, ...otherProps } = props;
+
+    return (
+      <CoreProductListSearch.Input>
+        {(renderProps) => (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            className={className}
+            data-testid={TestIds.productListSearchInput}
+            data-loading={renderProps.isLoading}
+            customElement={children}
+            customElementProps={renderProps}
+            {...otherProps}
+          >
+            <input
+              type="search"
+              value={renderProps.query}
+              onChange={(e) => renderProps.setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  renderProps.submit();
+                } else if (e.key === 'Escape') {
+                  renderProps.clear();
+                }
+              }}
+              aria-busy={renderProps.isLoading}
+              {...otherProps}
+            />
+          </AsChildSlot>
+        )}
+      </CoreProductListSearch.Input>
+    );
+  },
+);
+
+SearchInput.displayName = 'ProductList.Search.Input';
+
+/**
+ * Props for ProductList Search.Suggestions component
+ */
+export interface SearchSuggestionsProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Product suggestions content, or a custom render function when using asChild */
+  children?: AsChildChildren<CoreProductListSearch.SuggestionsRenderProps>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+}
+
+/**
+ * Container for the product suggestions. Only renders when there are product suggestions.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ProductList.Search.Suggestions className="search-dropdown">
+ *   <ProductList.Search.ProductRepeater>
+ *     <Product.Name />
+ *   </ProductList.Search.ProductRepeater>
+ * </ProductList.Search.Suggestions>
+ *
+ * // Custom rendering
+ * <ProductList.Search.Suggestions asChild>
+ *   {({ products, isLoading }) => (
+ *     <ul>
+ *       {products.map((product) => <li key={product._id}>{product.name}</li>)}
+ *     </ul>
+ *   )}
+ * </ProductList.Search.Suggestions>
+ * ```
+ */
+const SearchSuggestions = React.forwardRef<HTMLElement, SearchSuggestionsProps>(
+  (props, ref) => {
+    const { asChild, children, className, ...otherProps } = props;
+
+    return (
+      <CoreProductListSearch.Suggestions>
+        {(renderProps) => {
+          if (renderProps.products.length === 0) {
+            return null;
+          }
+
+          return (
+            <AsChildSlot
+              ref={ref}
+              asChild={asChild}
+              className={className}
+              data-testid={TestIds.productListSearchSuggestions}
+              data-loading={renderProps.isLoading}
+              role="listbox"
+              customElement={children}
+              customElementProps={renderProps}
+              {...otherProps}
+            >
+              <div>{children as React.ReactNode}</div>
+            </AsChildSlot>
+          );
+        }}
+      </CoreProductListSearch.Suggestions>
+    );
+  },
+);
+
+SearchSuggestions.displayName = 'ProductList.Search.Suggestions';
+
+/**
+ * Props for ProductList Search.ProductRepeater component
+ */
+export interface SearchProductRepeaterProps {
+  /** Content rendered for each suggested product, with access to the Product context */
+  children: React.ReactNode;
+}
+
+/**
+ * Repeater component that renders Product.Root for each suggested product.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ProductList.Search.ProductRepeater>
+ *   <Product.MediaGallery />
+ *   <Product.Name />
+ *   <Product.Price />
+ * </ProductList.Search.ProductRepeater>
+ * ```
+ */
+const SearchProductRepeater = (props: SearchProductRepeaterProps) => {
+  return (
+    <CoreProductListSearch.Suggestions>
+      {({ products }) =>
+        products.map((product) => (
+          <Product.Root
+            key={product._id}
+            product={product}
+            trackRecentlyViewed={false}
+            data-testid={TestIds.productListSearchProductItem}
+            data-product-id={product._id}
+            role="option"
+          >
+            {props.children}
+          </Product.Root>
+        ))
+      }
+    </CoreProductListSearch.Suggestions>
+  );
+};
+
+SearchProductRepeater.displayName = 'ProductList.Search.ProductRepeater';
+
+/**
+ * Props for ProductList Search.Categories component
+ */
+export interface SearchCategoriesProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<CoreProductListSearch.SuggestionsRenderProps>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+}
+
+/**
+ * Displays the categories of the matching products. Only renders when there are category suggestions.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default usage
+ * <ProductList.Search.Categories className="search-categories" />
+ *
+ * // Custom rendering
+ * <ProductList.Search.Categories asChild>
+ *   {({ categories }) => (
+ *     <nav>
+ *       {categories.map((category) => (
+ *         <a key={category._id} href={`/category/${category.slug}`}>{category.name}</a>
+ *       ))}
+ *     </nav>
+ *   )}
+ * </ProductList.Search.Categories>
+ * ```
+ */
+const SearchCategories = React.forwardRef<HTMLElement, SearchCategoriesProps>(
+  (props, ref) => {
+    const { asChild, children, className, ...otherProps } = props;
+
+    return (
+      <CoreProductListSearch.Suggestions>
+        {(renderProps) => {
+          if (renderProps.categories.length === 0) {
+            return null;
+          }
+
+          return (
+            <AsChildSlot
+              ref={ref}
+              asChild={asChild}
+              className={className}
+              data-testid={TestIds.productListSearchCategories}
+              customElement={children}
+              customElementProps={renderProps}
+              {...otherProps}
+            >
+              <ul>
+                {renderProps.categories.map((category) => (
+                  <li key={category._id} data-category-id={category._id}>
+                    {category.name}
+                  </li>
+                ))}
+              </ul>
+            </AsChildSlot>
+          );
+        }}
+      </CoreProductListSearch.Suggestions>
+    );
+  },
+);
+
+SearchCategories.displayName = 'ProductList.Search.Categories';
+
+/**
+ * Props for ProductList Search.DidYouMean component
+ */
+export interface SearchDidYouMeanProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{
+    suggestion: string;
+    applySuggestion: () => void;
+  }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+  /** Label displayed before the suggestion */
+  label?: string;
+}
+
+/**
+ * Displays a spelling suggestion when nothing matches the query. Clicking it searches for the suggestion.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default usage
+ * <ProductList.Search.DidYouMean label="Did you mean" />
+ *
+ * // Custom rendering with forwardRef
+ * <ProductList.Search.DidYouMean asChild>
+ *   {React.forwardRef(({ suggestion, applySuggestion }, ref) => (
+ *     <p ref={ref}>
+ *       No results. Try <a onClick={applySuggestion}>{suggestion}</a>
+ *     </p>
+ *   ))}
+ * </ProductList.Search.DidYouMean>
+ * ```
+ */
+const SearchDidYouMean = React.forwardRef<
+  HTMLButtonElement,
+  SearchDidYouMeanProps
+>((props, ref) => {
+  const { asChild, children, className, ...otherProps } = props;
+  const label = props.label || 'Did you mean';
+
+  return (
+    <CoreProductListSearch.Suggestions>
+      {({ didYouMean, setQuery }) => {
+        if (!didYouMean) {
+          return null;
+        }
+
+        const applySuggestion = () => setQuery(didYouMean);
+
+        return (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            className={className}
+            onClick={applySuggestion}
+            data-testid={TestIds.productListSearchDidYouMean}
+            data-suggestion={didYouMean}
+            customElement={children}
+            customElementProps={{ suggestion: didYouMean, applySuggestion }}
+            content={didYouMean}
+            {...otherProps}
+          >
+            <button>
+              {label} <strong>{didYouMean}</strong>?
+            </button>
+          </AsChildSlot>
+        );
+      }}
+    </CoreProductListSearch.Suggestions>
+  );
+});
+
+SearchDidYouMean.displayName = 'ProductList.Search.DidYouMean';
+
+/**
+ * Props for ProductList Search.RecentQueries component
+ */
+export interface SearchRecentQueriesProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<CoreProductListSearch.RecentQueriesRenderProps>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+}
+
+/**
+ * Displays the recently submitted queries. Only renders when there are recent queries.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default usage
+ * <ProductList.Search.RecentQueries className="recent-searches" />
+ *
+ * // Custom rendering
+ * <ProductList.Search.RecentQueries asChild>
+ *   {({ recentQueries, selectQuery, removeQuery, clearQueries }) => (
+ *     <div>
+ *       {recentQueries.map((query) => (
+ *         <span key={query}>
+ *           <button onClick={() => selectQuery(query)}>{query}</button>
+ *           <button onClick={() => removeQuery(query)}>×</button>
+ *         </span>
+ *       ))}
+ *       <button onClick={clearQueries}>Clear history</button>
+ *     </div>
+ *   )}
+ * </ProductList.Search.RecentQueries>
+ * ```
+ */
+const SearchRecentQueries = React.forwardRef<
+  HTMLElement,
+  SearchRecentQueriesProps
+>((props, ref) => {
+  const { asChild, children, className, ...otherProps } = props;
+
+  return (
+    <CoreProductListSearch.RecentQueries>
+      {(renderProps) => {
+        if (renderProps.recentQueries.length === 0) {
+          return null;
+        }
+
+        return (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            className={className}
+            data-testid={TestIds.productListSearchRecentQueries}
+            customElement={children}
+            customElementProps={renderProps}
+            {...otherProps}
+          >
+            <ul>
+              {renderProps.recentQueries.map((query) => (
+                <li key={query}>
+                  <button onClick={() => renderProps.selectQuery(query)}>
+                    {query}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </AsChildSlot>
+        );
+      }}
+    </CoreProductListSearch.RecentQueries>
+  );
+});
+
+SearchRecentQueries.displayName = 'ProductList.Search.RecentQueries';
+
+export const Search = {
+  Root: SearchRoot,
+  Input: SearchInput,
+  Suggestions: SearchSuggestions,
+  ProductRepeater: SearchProductRepeater,
+  Categories: SearchCategories,
+  DidYouMean: SearchDidYouMean,
+  RecentQueries: SearchRecentQueries,
+};
+
+/**
+ * Props for ProductList QuickView.Root component
+ */
+export interface QuickViewRootProps {
+  /** Child components that can open and display the quick view */
+  children: React.ReactNode;
+}
+
+/**
+ * Root component for product quick views, which show a product from the list without navigating to its page.
+ * Wrap both the product list and the quick view content with it.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ProductList.Root products={products}>
+ *   <ProductList.QuickView.Root>
+ *     <ProductList.Products>
+ *       <ProductList.ProductRepeater>
+ *         <Product.Name />
+ *         <ProductList.QuickView.Trigger label="Quick view" />
+ *       </ProductList.ProductRepeater>
+ *     </ProductList.Products>
+ *
+ *     <ProductList.QuickView.Overlay className="fixed inset-0 bg-black/50" />
+ *     <ProductList.QuickView.Content className="fixed inset-x-0 top-20 mx-auto max-w-3xl bg-surface-card">
+ *       <Product.MediaGallery />
+ *       <Product.Name />
+ *       <Product.Price />
+ *       <Product.Variants>...</Product.Variants>
+ *       <Product.Action.AddToCart label="Add to Cart" />
+ *       <ProductList.QuickView.Close label="Close" />
+ *     </ProductList.QuickView.Content>
+ *   </ProductList.QuickView.Root>
+ * </ProductList.Root>
+ * ```
+ */
+const QuickViewRoot = (props: QuickViewRootProps): React.ReactNode => {
+  return (
+    <CoreProductListQuickView.Root>
+      {props.children}
+    </CoreProductListQuickView.Root>
+  );
+};
+
+QuickViewRoot.displayName = 'ProductList.QuickView.Root';
+
+/**
+ * Props for ProductList QuickView.Trigger component
+ */
+export interface QuickViewTriggerProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{
+    isOpen: boolean;
+    onClick: (event: React.MouseEvent<HTMLElement>) => void;
+  }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+  /** Label for the button */
+  label?: string;
+}
+
+/**
+ * Button that opens the quick view of the current product.
+ * Must be used within ProductList.ProductRepeater (or any Product.Root) and ProductList.QuickView.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ProductList.QuickView.Trigger label="Quick view" className="btn-secondary" />
+ * ```
+ */
+const QuickViewTrigger = React.forwardRef<
+  HTMLButtonElement,
+  QuickViewTriggerProps
+>((props, ref) => {
+  const { asChild, children, className, label, ...otherProps } = props;
+  const buttonLabel = label || 'Quick View';
+
+  return (
+    <CoreProductListQuickView.Trigger>
+      {({ open, isOpen }) => {
+        const onClick = (event: React.MouseEvent<HTMLElement>) =>
+          open(event.currentTarget);
+
+        return (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            className={className}
+            onClick={onClick}
+            aria-haspopup="dialog"
+            aria-expanded={isOpen}
+            data-testid={TestIds.productListQuickViewTrigger}
+            data-open={isOpen}
+            customElement={children}
+            customElementProps={{ isOpen, onClick }}
+            content={buttonLabel}
+            {...otherProps}
+          >
+            <button type="button">{buttonLabel}</button>
+          </AsChildSlot>
+        );
+      }}
+    </CoreProductListQuickView.Trigger>
+  );
+});
+
+QuickViewTrigger.displayName = 'ProductList.QuickView.Trigger';
+
+/**
+ * Props for ProductList QuickView.Overlay component
+ */
+export interface QuickViewOverlayProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{ close: () => void }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+}
+
+/**
+ * Backdrop rendered behind the quick view while it is open. Clicking it closes the quick view.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ProductList.QuickView.Overlay className="fixed inset-0 bg-black/50" />
+ * ```
+ */
+const QuickViewOverlay = React.forwardRef<HTMLElement, QuickViewOverlayProps>(
+  (props, ref) => {
+    const { asChild, children, className, ...otherProps } = props;
+
+    return (
+      <CoreProductListQuickView.Content>
+        {({ close }) => (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            className={className}
+            onClick={close}
+            aria-hidden="true"
+            data-testid={TestIds.productListQuickViewOverlay}
+            customElement={children}
+            customElementProps={{ close }}
+            {...otherProps}
+          >
+            <div />
+          </AsChildSlot>
+        )}
+      </CoreProductListQuickView.Content>
+    );
+  },
+);
+
+QuickViewOverlay.displayName = 'ProductList.QuickView.Overlay';
+
+/**
+ * Props for ProductList QuickView.Content component
+ */
+export interface QuickViewContentProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Product components to display in the quick view */
+  children: React.ReactNode;
+  /** CSS classes to apply to the default element */
+  className?: string;
+}
+
+/**
+ * Dialog displaying the product opened in the quick view. Renders Product.Root for the product,
+ * so Product components (variants, modifiers, add to cart, etc.) work inside it; the product
+ * services are only created when the quick view opens, from the product already loaded by the list.
+ * Traps the focus while open, closes on Escape and restores the focus to the trigger on close.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ProductList.QuickView.Content className="fixed inset-0 m-auto max-w-3xl bg-surface-card p-6">
+ *   <Product.Name />
+ *   <Product.Price />
+ *   <Product.Variants>...</Product.Variants>
+ *   <Product.Action.AddToCart label="Add to Cart" />
+ *   <ProductList.QuickView.Close label="Close" />
+ * </ProductList.QuickView.Content>
+ * ```
+ */
+const QuickViewContent = React.forwardRef<HTMLElement, QuickViewContentProps>(
+  (props, ref) => {
+    const { asChild, children, className, ...otherProps } = props;
+
+    return (
+      <CoreProductListQuickView.Content>
+        {({ product, close }) => (
+          <Product.Root product={product}>
+            <QuickViewDialog
+              ref={ref}
+              asChild={asChild}
+              className={className}
+              label={product.name ?? undefined}
+              onClose={close}
+              {...otherProps}
+            >
+              {children}
+            </QuickViewDialog>
+          </Product.Root>
+        )}
+      </CoreProductListQuickView.Content>
+    );
+  },
+);
+
+QuickViewContent.displayName = 'ProductList.QuickView.Content';
+
+/**
+ * Dialog element of QuickView.Content, trapping the focus while mounted.
+ *
+ * @private
+ */
+const QuickViewDialog = React.forwardRef<
+  HTMLElement,
+  QuickViewContentProps & { label?: string; onClose: () => void }
+>((props, ref) => {
+  const { asChild, children, className, label, onClose, ...otherProps } = props;
+  const dialogRef = React.useRef<HTMLElement | null>(null);
+
+  useFocusTrap(dialogRef, { onEscape: onClose });
+
+  const setRefs = (element: HTMLElement | null) => {
+    dialogRef.current = element;
+    if (typeof ref === 'function') {
+      ref(element);
+    } else if (ref) {
+      ref.current = element;
+    }
+  };
+
+  return (
+    // Product.Root's attributes are merged into the dialog, which keeps its own role and tags
+    <AsChildSlot
+      {...otherProps}
+      ref={setRefs}
+      asChild={asChild}
+      className={className}
+      role="dialog"
+      aria-modal="true"
+      aria-label={label}
+      tabIndex={-1}
+      data-testid={TestIds.productListQuickViewContent}
+      data-component-tag={DataComponentTags.productListQuickView}
+      customElement={children}
+    >
+      <div>{children}</div>
+    </AsChildSlot>
+  );
+});
+
+/**
+ * Props for ProductList QuickView.Close component
+ */
+export interface QuickViewCloseProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{ close: () => void }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+  /** Label for the button */
+  label?: string;
+}
+
+/**
+ * Button that closes the quick view. Must be used within ProductList.QuickView.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ProductList.QuickView.Close label="Close" className="absolute top-4 right-4" />
+ * ```
+ */
+const QuickViewClose = React.forwardRef<HTMLButtonElement, QuickViewCloseProps>(
+  (props, ref) => {
+    const { asChild, children, className, label, ...otherProps } = props;
+    const buttonLabel = label || 'Close';
+
+    return (
+      <CoreProductListQuickView.Close>
+        {({ close }) => (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            className={className}
+            onClick={close}
+            data-testid={TestIds.productListQuickViewClose}
+            customElement={children}
+            customElementProps={{ close }}
+            content={buttonLabel}
+            {...otherProps}
+          >
+            <button type="button">{buttonLabel}</button>
+          </AsChildSlot>
+        )}
+      </CoreProductListQuickView.Close>
+    );
+  },
+);
+
+QuickViewClose.displayName = 'ProductList.QuickView.Close';
+
+export const QuickView = {
+  Root: QuickViewRoot,
+  Trigger: QuickViewTrigger,
+  Overlay: QuickViewOverlay,
+  Content: QuickViewContent,
+  Close: QuickViewClose,
+};
@@ -0,0 +1,52 @@
+import { render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import '@testing-library/jest-dom';
+import * as RecentlyViewed from './RecentlyViewed';
+
+vi.mock('@wix/headless-components/react', () => ({
+  GenericList: {
+    Root: vi.fn(({ children, items, isLoading, variant, ...props }) => (
+      <div {...props}>{children}</div>
+    )),
+  },
+}));
+
+vi.mock('@wix/services-manager-react', () => ({
+  useService: vi.fn(() => ({
+    products: {
+      get: () => [],
+    },
+    isLoading: {
+      get: () => false,
+    },
+    error: {
+      get: () => null,
+    },
+    recordView: vi.fn(),
+    removeProduct: vi.fn(),
+    clear: vi.fn(),
+    restoreProducts: vi.fn(),
+  })),
+  WixServices: vi.fn(({ children }) => <div>{children}</div>),
+}));
+
+describe('RecentlyViewed', () => {
+  describe('List', () => {
+    it('renders data-component-tag attribute on first DOM element', () => {
+      render(
+        <RecentlyViewed.Root>
+          <RecentlyViewed.List>
+            <div>Content</div>
+          </RecentlyViewed.List>
+        </RecentlyViewed.Root>,
+      );
+
+      const listElement = screen.getByTestId('recently-viewed-list');
+      expect(listElement).toHaveAttribute(
+        'data-component-tag',
+        'stores.recently-viewed-list',
+      );
+    });
+  });
+});
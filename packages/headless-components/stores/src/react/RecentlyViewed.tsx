@@ -0,0 +1,301 @@
+import type { V3Product } from '@wix/auto_sdk_stores_products-v-3';
+import {
+  GenericList,
+  ListVariant,
+  GenericListRepeaterRenderProps,
+} from '@wix/headless-components/react';
+import { AsChildChildren, AsChildSlot } from '@wix/headless-utils/react';
+import React from 'react';
+import type { RecentlyViewedServiceConfig } from '../services/recently-viewed-service.js';
+import * as CoreRecentlyViewed from './core/RecentlyViewed.js';
+import * as Product from './Product.js';
+import { DataComponentTags } from '../data-component-tags.js';
+
+enum TestIds {
+  recentlyViewedList = 'recently-viewed-list',
+  recentlyViewedProducts = 'recently-viewed-products',
+  recentlyViewedItem = 'recently-viewed-item',
+  recentlyViewedClear = 'recently-viewed-clear',
+}
+
+/**
+ * Props for RecentlyViewed Root component
+ */
+export interface RootProps {
+  /** Child components that will have access to the recently viewed products */
+  children: React.ReactNode;
+  /** Configuration for the RecentlyViewed service */
+  recentlyViewedConfig?: RecentlyViewedServiceConfig;
+}
+
+/**
+ * Root component that provides the RecentlyViewed service context.
+ * Wrap the page (or the whole app) with it: every Product.Root rendered inside records a product view,
+ * except products rendered by list repeaters.
+ *
+ * @order 1
+ * @component
+ * @example
+ * ```tsx
+ * import { RecentlyViewed, Product } from '@wix/stores/components';
+ *
+ * function ProductPage({ product }) {
+ *   return (
+ *     <RecentlyViewed.Root recentlyViewedConfig={{ maxItems: 8 }}>
+ *       <Product.Root product={product}>
+ *         <Product.Name />
+ *       </Product.Root>
+ *       <RecentlyViewed.List excludeProductIds={[product._id]}>
+ *         <RecentlyViewed.Products emptyState={null}>
+ *           <RecentlyViewed.ProductRepeater>
+ *             <Product.Name />
+ *             <Product.Price />
+ *           </RecentlyViewed.ProductRepeater>
+ *         </RecentlyViewed.Products>
+ *       </RecentlyViewed.List>
+ *     </RecentlyViewed.Root>
+ *   );
+ * }
+ * ```
+ */
+export const Root = (props: RootProps): React.ReactNode => {
+  return (
+    <CoreRecentlyViewed.Root recentlyViewedConfig={props.recentlyViewedConfig}>
+      {props.children}
+    </CoreRecentlyViewed.Root>
+  );
+};
+
+Root.displayName = 'RecentlyViewed.Root';
+
+/**
+ * Props for RecentlyViewed List component
+ */
+export interface ListProps {
+  children: React.ReactNode;
+  /** Product IDs to leave out of the list, e.g. the product on the current page */
+  excludeProductIds?: (string | null | undefined)[];
+  className?: string;
+  variant?: ListVariant;
+}
+
+/**
+ * List container for the recently viewed products, built on GenericList.
+ * Must be used within RecentlyViewed.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // On a cart page
+ * <RecentlyViewed.List variant="grid" className="grid grid-cols-4 gap-4">
+ *   <RecentlyViewed.Products emptyState={<div>You haven't viewed any products yet</div>}>
+ *     <RecentlyViewed.ProductRepeater>
+ *       <Product.MediaGallery />
+ *       <Product.Name />
+ *     </RecentlyViewed.ProductRepeater>
+ *   </RecentlyViewed.Products>
+ *   <RecentlyViewed.Clear label="Clear history" />
+ * </RecentlyViewed.List>
+ * ```
+ */
+export const List = React.forwardRef<HTMLElement, ListProps>((props, ref) => {
+  const { children, excludeProductIds, className, variant } = props;
+
+  return (
+    <CoreRecentlyViewed.Products excludeProductIds={excludeProductIds}>
+      {({ products, isLoading }) => (
+        <GenericList.Root
+          items={products.map((product) => ({
+            ...product,
+            id: product._id!,
+          }))}
+          isLoading={isLoading}
+          className={className}
+          ref={ref}
+          data-component-tag={DataComponentTags.recentlyViewedList}
+          data-testid={TestIds.recentlyViewedList}
+          variant={variant}
+        >
+          {children}
+        </GenericList.Root>
+      )}
+    </CoreRecentlyViewed.Products>
+  );
+});
+
+List.displayName = 'RecentlyViewed.List';
+
+/**
+ * Props for RecentlyViewed Products component
+ */
+export interface ProductsProps {
+  children: React.ReactNode;
+  emptyState?: React.ReactNode;
+  className?: string;
+}
+
+/**
+ * Container for the recently viewed products with empty state support.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <RecentlyViewed.Products emptyState={null}>
+ *   <RecentlyViewed.ProductRepeater>
+ *     <Product.Name />
+ *   </RecentlyViewed.ProductRepeater>
+ * </RecentlyViewed.Products>
+ * ```
+ */
+export const Products = React.forwardRef<HTMLElement, ProductsProps>(
+  (props, ref) => {
+    const { children, ...otherProps } = props;
+
+    return (
+      <GenericList.Items
+        ref={ref}
+        data-testid={TestIds.recentlyViewedProducts}
+        {...otherProps}
+      >
+        {children}
+      </GenericList.Items>
+    );
+  },
+);
+
+Products.displayName = 'RecentlyViewed.Products';
+
+/**
+ * Render props for ProductRepeater asChild pattern
+ */
+export type ProductRepeaterRenderProps =
+  GenericListRepeaterRenderProps<V3Product>;
+
+/**
+ * Props for RecentlyViewed ProductRepeater component
+ */
+export interface ProductRepeaterProps {
+  children:
+    | React.ReactNode
+    | ((
+        props: ProductRepeaterRenderProps,
+        ref: React.Ref<HTMLElement>,
+      ) => React.ReactNode);
+  /** Whether to render as child component (asChild pattern) */
+  asChild?: boolean;
+}
+
+/**
+ * Repeater component that renders Product.Root for each recently viewed product.
+ * Rendering a product here does not count as viewing it.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <RecentlyViewed.ProductRepeater>
+ *   <Product.MediaGallery />
+ *   <Product.Name />
+ *   <Product.Price />
+ * </RecentlyViewed.ProductRepeater>
+ * ```
+ */
+export const ProductRepeater = React.forwardRef<
+  HTMLElement,
+  ProductRepeaterProps
+>((props, ref) => {
+  const { children, asChild } = props;
+
+  return (
+    <GenericList.Repeater<V3Product>
+      ref={ref}
+      asChild={asChild}
+      itemWrapper={({ item: product, children }) => (
+        <Product.Root
+          key={product._id}
+          product={product}
+          trackRecentlyViewed={false}
+          data-testid={TestIds.recentlyViewedItem}
+          data-product-id={product._id}
+          data-item-id={product._id}
+        >
+          {children}
+        </Product.Root>
+      )}
+    >
+      {children}
+    </GenericList.Repeater>
+  );
+});
+
+ProductRepeater.displayName = 'RecentlyViewed.ProductRepeater';
+
+/**
+ * Props for RecentlyViewed Clear component
+ */
+export interface ClearProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{
+    clear: () => void;
+    hasProducts: boolean;
+  }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+  /** Label for the button */
+  label?: string;
+}
+
+/**
+ * Button that clears the recently viewed products.
+ * Only renders when there are recently viewed products.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default usage
+ * <RecentlyViewed.Clear className="text-sm underline" />
+ *
+ * // Custom rendering
+ * <RecentlyViewed.Clear asChild>
+ *   {({ clear }) => <a onClick={clear}>Clear browsing history</a>}
+ * </RecentlyViewed.Clear>
+ * ```
+ */
+export const Clear = React.forwardRef<HTMLButtonElement, ClearProps>(
+  (props, ref) => {
+    const { asChild, children, className, label, ...otherProps } = props;
+    const buttonLabel = label || 'Clear';
+
+    return (
+      <CoreRecentlyViewed.Products>
+        {({ clear, hasProducts }) => {
+          if (!hasProducts) {
+            return null;
+          }
+
+          return (
+            <AsChildSlot
+              ref={ref}
+              asChild={asChild}
+              className={className}
+              onClick={clear}
+              data-testid={TestIds.recentlyViewedClear}
+              customElement={children}
+              customElementProps={{
+                clear,
+                hasProducts,
+              }}
+              content={buttonLabel}
+              {...otherProps}
+            >
+              <button>{buttonLabel}</button>
+            </AsChildSlot>
+          );
+        }}
+      </CoreRecentlyViewed.Products>
+    );
+  },
+);
+
+Clear.displayName = 'RecentlyViewed.Clear';
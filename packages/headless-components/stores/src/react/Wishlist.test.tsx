@@ -0,0 +1,55 @@
+import { render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import '@testing-library/jest-dom';
+import * as Wishlist from './Wishlist';
+
+vi.mock('@wix/headless-components/react', () => ({
+  GenericList: {
+    Root: vi.fn(({ children, items, isLoading, variant, ...props }) => (
+      <div {...props}>{children}</div>
+    )),
+  },
+}));
+
+vi.mock('@wix/services-manager-react', () => ({
+  useService: vi.fn(() => ({
+    entries: {
+      get: () => [],
+    },
+    isMemberWishlist: {
+      get: () => false,
+    },
+    isLoading: {
+      get: () => false,
+    },
+    error: {
+      get: () => null,
+    },
+    removeItem: vi.fn(),
+    moveToCart: vi.fn(),
+    clear: vi.fn(),
+    restoreItems: vi.fn(),
+  })),
+  WixServices: vi.fn(({ children }) => <div>{children}</div>),
+}));
+
+describe('Wishlist', () => {
+  describe('List', () => {
+    it('renders data-component-tag attribute on first DOM element', () => {
+      render(
+        <Wishlist.Root>
+          <Wishlist.List>
+            <div>Content</div>
+          </Wishlist.List>
+        </Wishlist.Root>,
+      );
+
+      const listElement = screen.getByTestId('wishlist-list');
+      expect(listElement).toHaveAttribute(
+        'data-component-tag',
+        'stores.wishlist-list',
+      );
+    });
+  });
+});
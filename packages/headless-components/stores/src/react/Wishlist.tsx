@@ -0,0 +1,431 @@
+import {
+  GenericList,
+  ListVariant,
+  GenericListRepeaterRenderProps,
+} from '@wix/headless-components/react';
+import { AsChildChildren, AsChildSlot } from '@wix/headless-utils/react';
+import React from 'react';
+import type {
+  WishlistEntry,
+  WishlistServiceConfig,
+} from '../services/wishlist-service.js';
+import * as CoreWishlist from './core/Wishlist.js';
+import * as Product from './Product.js';
+import { DataComponentTags } from '../data-component-tags.js';
+
+enum TestIds {
+  wishlistList = 'wishlist-list',
+  wishlistItems = 'wishlist-items',
+  wishlistItem = 'wishlist-item',
+  wishlistItemChoices = 'wishlist-item-choices',
+  wishlistItemMoveToCart = 'wishlist-item-move-to-cart',
+  wishlistItemRemove = 'wishlist-item-remove',
+}
+
+const WishlistItemContext = React.createContext<WishlistEntry | null>(null);
+
+/**
+ * Hook to access the wishlist item rendered by Wishlist.ItemRepeater
+ * @returns The current wishlist item
+ */
+function useWishlistItemContext(): WishlistEntry {
+  const context = React.useContext(WishlistItemContext);
+  if (!context) {
+    throw new Error(
+      'useWishlistItemContext must be used within a Wishlist.ItemRepeater component',
+    );
+  }
+  return context;
+}
+
+/**
+ * Props for Wishlist Root component
+ */
+export interface RootProps {
+  /** Child components that will have access to the wishlist */
+  children: React.ReactNode;
+  /** Configuration for the Wishlist service */
+  wishlistConfig?: WishlistServiceConfig;
+}
+
+/**
+ * Root component that provides the Wishlist service context.
+ * Must be rendered within Commerce.Root, which provides the cart used by "move to cart".
+ *
+ * @order 1
+ * @component
+ * @example
+ * ```tsx
+ * import { Wishlist, Product } from '@wix/stores/components';
+ *
+ * function App({ memberStore }) {
+ *   return (
+ *     <Commerce.Root>
+ *       <Wishlist.Root wishlistConfig={{ memberStore }}>
+ *         <Product.Root product={product}>
+ *           <Product.Action.AddToWishlist />
+ *         </Product.Root>
+ *       </Wishlist.Root>
+ *     </Commerce.Root>
+ *   );
+ * }
+ * ```
+ */
+export const Root = (props: RootProps): React.ReactNode => {
+  return (
+    <CoreWishlist.Root wishlistConfig={props.wishlistConfig}>
+      {props.children}
+    </CoreWishlist.Root>
+  );
+};
+
+Root.displayName = 'Wishlist.Root';
+
+/**
+ * Props for Wishlist List component
+ */
+export interface ListProps {
+  children: React.ReactNode;
+  className?: string;
+  variant?: ListVariant;
+}
+
+/**
+ * List container for the wishlist items, built on GenericList.
+ * Must be used within Wishlist.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Wishlist.List className="flex flex-col gap-4">
+ *   <Wishlist.Items emptyState={<div>Your wishlist is empty</div>}>
+ *     <Wishlist.ItemRepeater>
+ *       <Product.Name />
+ *       <Wishlist.Item.Choices />
+ *       <Product.Price />
+ *       <Wishlist.Item.MoveToCart />
+ *       <Wishlist.Item.Remove />
+ *     </Wishlist.ItemRepeater>
+ *   </Wishlist.Items>
+ * </Wishlist.List>
+ * ```
+ */
+export const List = React.forwardRef<HTMLElement, ListProps>((props, ref) => {
+  const { children, className, variant } = props;
+
+  return (
+    <CoreWishlist.Items>
+      {({ items, isLoading }) => (
+        <GenericList.Root
+          items={items}
+          isLoading={isLoading}
+          className={className}
+          ref={ref}
+          data-component-tag={DataComponentTags.wishlistList}
+          data-testid={TestIds.wishlistList}
+          variant={variant}
+        >
+          {children}
+        </GenericList.Root>
+      )}
+    </CoreWishlist.Items>
+  );
+});
+
+List.displayName = 'Wishlist.List';
+
+/**
+ * Props for Wishlist Items component
+ */
+export interface ItemsProps {
+  children: React.ReactNode;
+  emptyState?: React.ReactNode;
+  className?: string;
+}
+
+/**
+ * Container for the wishlist items with empty state support.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Wishlist.Items emptyState={<div>Your wishlist is empty</div>}>
+ *   <Wishlist.ItemRepeater>
+ *     <Product.Name />
+ *   </Wishlist.ItemRepeater>
+ * </Wishlist.Items>
+ * ```
+ */
+export const Items = React.forwardRef<HTMLElement, ItemsProps>((props, ref) => {
+  const { children, ...otherProps } = props;
+
+  return (
+    <GenericList.Items
+      ref={ref}
+      data-testid={TestIds.wishlistItems}
+      {...otherProps}
+    >
+      {children}
+    </GenericList.Items>
+  );
+});
+
+Items.displayName = 'Wishlist.Items';
+
+/**
+ * Render props for ItemRepeater asChild pattern
+ */
+export type ItemRepeaterRenderProps =
+  GenericListRepeaterRenderProps<WishlistEntry>;
+
+/**
+ * Props for Wishlist ItemRepeater component
+ */
+export interface ItemRepeaterProps {
+  children:
+    | React.ReactNode
+    | ((
+        props: ItemRepeaterRenderProps,
+        ref: React.Ref<HTMLElement>,
+      ) => React.ReactNode);
+  /** Whether to render as child component (asChild pattern) */
+  asChild?: boolean;
+}
+
+/**
+ * Repeater component that renders Product.Root for each wishlist item, so that Product components
+ * can be used to display it. Items whose product is still loading are skipped.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Wishlist.ItemRepeater>
+ *   <Product.MediaGallery />
+ *   <Product.Name />
+ *   <Wishlist.Item.Choices />
+ *   <Wishlist.Item.MoveToCart />
+ * </Wishlist.ItemRepeater>
+ * ```
+ */
+export const ItemRepeater = React.forwardRef<HTMLElement, ItemRepeaterProps>(
+  (props, ref) => {
+    const { children, asChild } = props;
+
+    return (
+      <GenericList.Repeater<WishlistEntry>
+        ref={ref}
+        asChild={asChild}
+        itemWrapper={({ item, children }) => {
+          if (!item.product) {
+            return null;
+          }
+
+          return (
+            <WishlistItemContext.Provider key={item.id} value={item}>
+              <Product.Root
+                product={item.product}
+                trackRecentlyViewed={false}
+                data-testid={TestIds.wishlistItem}
+                data-product-id={item.productId}
+                data-item-id={item.id}
+              >
+                {children}
+              </Product.Root>
+            </WishlistItemContext.Provider>
+          );
+        }}
+      >
+        {children}
+      </GenericList.Repeater>
+    );
+  },
+);
+
+ItemRepeater.displayName = 'Wishlist.ItemRepeater';
+
+/**
+ * Props for Wishlist Item.Choices component
+ */
+export interface ItemChoicesProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{
+    selectedChoices: Record<string, string>;
+  }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+}
+
+/**
+ * Displays the selected choices of the current wishlist item, e.g. "Color: Red, Size: M".
+ * Only renders when the item has selected choices. Must be used within Wishlist.ItemRepeater.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * // Default usage
+ * <Wishlist.Item.Choices className="text-sm text-content-muted" />
+ *
+ * // Custom rendering
+ * <Wishlist.Item.Choices asChild>
+ *   {({ selectedChoices }) => (
+ *     <ul>
+ *       {Object.entries(selectedChoices).map(([option, choice]) => (
+ *         <li key={option}>{option}: {choice}</li>
+ *       ))}
+ *     </ul>
+ *   )}
+ * </Wishlist.Item.Choices>
+ * ```
+ */
+export const ItemChoices = React.forwardRef<HTMLElement, ItemChoicesProps>(
+  (props, ref) => {
+    const { asChild, children, className, ...otherProps } = props;
+    const { selectedChoices } = useWishlistItemContext();
+
+    const text = Object.entries(selectedChoices)
+      .map(([optionName, choiceName]) => `${optionName}: ${choiceName}`)
+      .join(', ');
+
+    if (!text) {
+      return null;
+    }
+
+    return (
+      <AsChildSlot
+        ref={ref}
+        asChild={asChild}
+        className={className}
+        data-testid={TestIds.wishlistItemChoices}
+        customElement={children}
+        customElementProps={{ selectedChoices }}
+        content={text}
+        {...otherProps}
+      >
+        <span>{text}</span>
+      </AsChildSlot>
+    );
+  },
+);
+
+ItemChoices.displayName = 'Wishlist.Item.Choices';
+
+/**
+ * Props for Wishlist item action components
+ */
+export interface ItemActionProps {
+  /** Whether to render as a child component */
+  asChild?: boolean;
+  /** Custom render function when using asChild */
+  children?: AsChildChildren<{
+    isLoading: boolean;
+    onClick: () => Promise<void>;
+  }>;
+  /** CSS classes to apply to the default element */
+  className?: string;
+  /** Label for the button */
+  label?: string;
+}
+
+/**
+ * Button that adds the current wishlist item to the cart and removes it from the wishlist.
+ * Must be used within Wishlist.ItemRepeater.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Wishlist.Item.MoveToCart label="Move to Cart" className="btn-primary" />
+ * ```
+ */
+export const ItemMoveToCart = React.forwardRef<
+  HTMLButtonElement,
+  ItemActionProps
+>((props, ref) => {
+  const { asChild, children, className, label, ...otherProps } = props;
+  const item = useWishlistItemContext();
+  const buttonLabel = label || 'Move to Cart';
+
+  return (
+    <CoreWishlist.Items>
+      {({ moveToCart, isLoading }) => {
+        const onClick = () => moveToCart(item.id);
+
+        return (
+          <AsChildSlot
+            ref={ref}
+            asChild={asChild}
+            className={className}
+            onClick={onClick}
+            data-testid={TestIds.wishlistItemMoveToCart}
+            data-in-progress={isLoading}
+            customElement={children}
+            customElementProps={{ isLoading, onClick }}
+            content={buttonLabel}
+            {...otherProps}
+          >
+            <button disabled={isLoading}>{buttonLabel}</button>
+          </AsChildSlot>
+        );
+      }}
+    </CoreWishlist.Items>
+  );
+});
+
+ItemMoveToCart.displayName = 'Wishlist.Item.MoveToCart';
+
+/**
+ * Button that removes the current wishlist item.
+ * Must be used within Wishlist.ItemRepeater.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Wishlist.Item.Remove label="Remove" className="text-sm underline" />
+ * ```
+ */
+export const ItemRemove = React.forwardRef<HTMLButtonElement, ItemActionProps>(
+  (props, ref) => {
+    const { asChild, children, className, label, ...otherProps } = props;
+    const item = useWishlistItemContext();
+    const buttonLabel = label || 'Remove';
+
+    return (
+      <CoreWishlist.Items>
+        {({ removeItem, isLoading }) => {
+          const onClick = () => removeItem(item.id);
+
+          return (
+            <AsChildSlot
+              ref={ref}
+              asChild={asChild}
+              className={className}
+              onClick={onClick}
+              data-testid={TestIds.wishlistItemRemove}
+              customElement={children}
+              customElementProps={{ isLoading, onClick }}
+              content={buttonLabel}
+              {...otherProps}
+            >
+              <button>{buttonLabel}</button>
+            </AsChildSlot>
+          );
+        }}
+      </CoreWishlist.Items>
+    );
+  },
+);
+
+ItemRemove.displayName = 'Wishlist.Item.Remove';
+
+/**
+ * Wishlist item components, used within Wishlist.ItemRepeater
+ */
+export const Item = {
+  /** Selected choices of the item */
+  Choices: ItemChoices,
+  /** Move to cart button */
+  MoveToCart: ItemMoveToCart,
+  /** Remove button */
+  Remove: ItemRemove,
+} as const;
@@ -0,0 +1,176 @@
+import { useEffect } from 'react';
+import type { ServiceAPI } from '@wix/services-definitions';
+import { useService, WixServices } from '@wix/services-manager-react';
+import { createServicesMap } from '@wix/services-manager';
+import {
+  BackInStockService,
+  BackInStockServiceDefinition,
+  getVariantKey,
+  isValidEmail,
+  type BackInStockServiceConfig,
+} from '../../services/back-in-stock-service.js';
+import { SelectedVariantServiceDefinition } from '../../services/selected-variant-service.js';
+
+/**
+ * Props for Root headless component
+ */
+export interface RootProps {
+  /** Child components that will have access to the BackInStock service */
+  children: React.ReactNode;
+  /** Configuration for the BackInStock service, including the handler that delivers requests */
+  backInStockConfig: BackInStockServiceConfig;
+}
+
+/**
+ * Root component that provides the BackInStock service context to its children.
+ *
+ * @order 1
+ * @component
+ * @example
+ * ```tsx
+ * import { BackInStock } from '@wix/stores/components';
+ *
+ * function ProductPage({ product }) {
+ *   return (
+ *     <BackInStock.Root
+ *       backInStockConfig={{
+ *         submitHandler: (request) => notifyMeAction(request),
+ *       }}
+ *     >
+ *       <Product.Root product={product}>...</Product.Root>
+ *     </BackInStock.Root>
+ *   );
+ * }
+ * ```
+ */
+export function Root(props: RootProps): React.ReactNode {
+  return (
+    <WixServices
+      servicesMap={createServicesMap().addService(
+        BackInStockServiceDefinition,
+        BackInStockService,
+        props.backInStockConfig,
+      )}
+    >
+      <RestoreRequestsEffect />
+      {props.children}
+    </WixServices>
+  );
+}
+
+/**
+ * Restores the requests remembered in the browser once mounted
+ */
+function RestoreRequestsEffect(): null {
+  const { restoreRequests } = useService(BackInStockServiceDefinition);
+
+  useEffect(() => restoreRequests(), [restoreRequests]);
+
+  return null;
+}
+
+/**
+ * Props for NotifyWhenAvailable headless component
+ */
+export interface NotifyWhenAvailableProps {
+  /** Content to display (can be a render function receiving the request controls or ReactNode) */
+  children:
+    | ((props: NotifyWhenAvailableRenderProps) => React.ReactNode)
+    | React.ReactNode;
+}
+
+/**
+ * Render props for NotifyWhenAvailable component
+ */
+export interface NotifyWhenAvailableRenderProps {
+  /** Whether the selected variant is out of stock and can't be pre-ordered */
+  isUnavailable: boolean;
+  /** Whether a variant is selected, i.e. a choice was made for every option */
+  hasSelectedVariant: boolean;
+  /** Email address entered by the shopper */
+  email: string;
+  /** Function to update the email address */
+  setEmail: (email: string) => void;
+  /** Whether the email address is well-formed */
+  isEmailValid: boolean;
+  /** Function to request a notification for the selected variant */
+  submit: () => Promise<void>;
+  /** Whether the request is being submitted */
+  isSubmitting: boolean;
+  /** Whether a notification was already requested for the selected variant with this email address */
+  isSubmitted: boolean;
+  /** Error message, if the email address is invalid or the submission failed */
+  error: string | null;
+}
+
+/**
+ * Headless component for requesting a notification when the selected variant is back in stock.
+ * Must be used within Product.Root and BackInStock.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * import { BackInStock } from '@wix/stores/components';
+ *
+ * function NotifyMe() {
+ *   return (
+ *     <BackInStock.NotifyWhenAvailable>
+ *       {({ isUnavailable, email, setEmail, submit, isSubmitted, error }) =>
+ *         isUnavailable &&
+ *         (isSubmitted ? (
+ *           <p>We'll email you when it's back.</p>
+ *         ) : (
+ *           <form onSubmit={(e) => { e.preventDefault(); submit(); }}>
+ *             <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+ *             <button type="submit">Notify me</button>
+ *             {error && <p>{error}</p>}
+ *           </form>
+ *         ))
+ *       }
+ *     </BackInStock.NotifyWhenAvailable>
+ *   );
+ * }
+ * ```
+ */
+export function NotifyWhenAvailable(props: NotifyWhenAvailableProps) {
+  const variantService = useService(
+    SelectedVariantServiceDefinition,
+  ) as ServiceAPI<typeof SelectedVariantServiceDefinition>;
+  const backInStockService = useService(BackInStockServiceDefinition);
+
+  const product = variantService.product.get();
+  const variantId = variantService.selectedVariantId.get();
+  const selectedChoices = variantService.selectedChoices.get();
+  const isInStock = variantService.isInStock.get();
+  const isPreOrderEnabled = variantService.isPreOrderEnabled.get();
+
+  const productId = product?._id ?? '';
+  const email = backInStockService.email.get();
+  const requestState =
+    backInStockService.requestStates.get()[getVariantKey(productId, variantId)];
+
+  const submit = async () => {
+    if (!productId || !variantId) return;
+
+    await backInStockService.submitRequest({
+      productId,
+      variantId,
+      selectedChoices,
+      productName: product?.name ?? undefined,
+    });
+  };
+
+  return typeof props.children === 'function'
+    ? props.children({
+        isUnavailable: !!variantId && !isInStock && !isPreOrderEnabled,
+        hasSelectedVariant: !!variantId,
+        email,
+        setEmail: backInStockService.setEmail,
+        isEmailValid: isValidEmail(email),
+        submit,
+        isSubmitting: requestState?.status === 'submitting',
+        isSubmitted: backInStockService.hasRequested(productId, variantId),
+        error: requestState?.error ?? null,
+      })
+    : props.children;
+}
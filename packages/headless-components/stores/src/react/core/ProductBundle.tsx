@@ -0,0 +1,297 @@
+import React from 'react';
+import type { ServiceAPI } from '@wix/services-definitions';
+import { useService, WixServices } from '@wix/services-manager-react';
+import { createServicesMap } from '@wix/services-manager';
+import {
+  ProductBundleService,
+  ProductBundleServiceDefinition,
+  type ProductBundleMember,
+  type ProductBundleServiceConfig,
+  type ProductBundleTotals,
+} from '../../services/product-bundle-service.js';
+import { SelectedVariantServiceDefinition } from '../../services/selected-variant-service.js';
+import { ProductModifiersServiceDefinition } from '../../services/product-modifiers-service.js';
+
+/**
+ * Props for Root headless component
+ */
+export interface RootProps {
+  /** Child components that will have access to the ProductBundle service */
+  children: React.ReactNode;
+  /** Configuration for the ProductBundle service, including the bundled products */
+  bundleConfig: ProductBundleServiceConfig;
+}
+
+/**
+ * Root component that provides the ProductBundle service context to its children.
+ * Requires the CurrentCart service, e.g. from Commerce.Root.
+ *
+ * @order 1
+ * @component
+ * @example
+ * ```tsx
+ * import { ProductBundle } from '@wix/stores/components';
+ *
+ * function FrequentlyBoughtTogether({ product, relatedProducts }) {
+ *   return (
+ *     <ProductBundle.Root
+ *       bundleConfig={{
+ *         members: [
+ *           { product },
+ *           ...relatedProducts.map((related) => ({ product: related, isOptional: true })),
+ *         ],
+ *       }}
+ *     >
+ *       <ProductBundle.Totals>
+ *         {({ totals }) => <span>{totals.formattedSubtotal}</span>}
+ *       </ProductBundle.Totals>
+ *     </ProductBundle.Root>
+ *   );
+ * }
+ * ```
+ */
+export function Root(props: RootProps): React.ReactNode {
+  return (
+    <WixServices
+      servicesMap={createServicesMap().addService(
+        ProductBundleServiceDefinition,
+        ProductBundleService,
+        props.bundleConfig,
+      )}
+    >
+      {props.children}
+    </WixServices>
+  );
+}
+
+/**
+ * Props for Members headless component
+ */
+export interface MembersProps {
+  /** Content to display (can be a render function receiving the bundle members or ReactNode) */
+  children: ((props: MembersRenderProps) => React.ReactNode) | React.ReactNode;
+}
+
+/**
+ * Render props for Members component
+ */
+export interface MembersRenderProps {
+  /** Bundle members with their selection, price and issue */
+  members: ProductBundleMember[];
+  /** IDs of the members the cart rejected in the last add to cart */
+  failedMemberIds: string[];
+  /** Function to include an optional member in the bundle, or leave it out */
+  setSelected: (memberId: string, isSelected: boolean) => void;
+  /** Function to update the quantity of a member */
+  setQuantity: (memberId: string, quantity: number) => void;
+}
+
+/**
+ * Headless component for the products that make up the bundle
+ *
+ * @component
+ * @example
+ * ```tsx
+ * import { ProductBundle } from '@wix/stores/components';
+ *
+ * function BundleMembers() {
+ *   return (
+ *     <ProductBundle.Members>
+ *       {({ members, setSelected }) => (
+ *         <ul>
+ *           {members.map((member) => (
+ *             <li key={member.id}>
+ *               <input
+ *                 type="checkbox"
+ *                 checked={member.isSelected}
+ *                 disabled={!member.isOptional}
+ *                 onChange={(e) => setSelected(member.id, e.target.checked)}
+ *               />
+ *               {member.product.name}
+ *             </li>
+ *           ))}
+ *         </ul>
+ *       )}
+ *     </ProductBundle.Members>
+ *   );
+ * }
+ * ```
+ */
+export function Members(props: MembersProps) {
+  const service = useService(ProductBundleServiceDefinition);
+
+  return typeof props.children === 'function'
+    ? props.children({
+        members: service.members.get(),
+        failedMemberIds: service.failedMemberIds.get(),
+        setSelected: service.setSelected,
+        setQuantity: service.setQuantity,
+      })
+    : props.children;
+}
+
+/**
+ * Props for MemberSelectionSync headless component
+ */
+export interface MemberSelectionSyncProps {
+  /** ID of the bundle member the product selection belongs to */
+  memberId: string;
+  /** Child components */
+  children?: React.ReactNode;
+}
+
+/**
+ * Headless component that keeps a bundle member's choices and modifiers in sync with the
+ * selection made through Product components. Must be used within Product.Root and ProductBundle.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Product.Root product={member.product} initialSelectedChoices={member.selectedChoices}>
+ *   <ProductBundle.MemberSelectionSync memberId={member.id}>
+ *     <Product.Variants>...</Product.Variants>
+ *   </ProductBundle.MemberSelectionSync>
+ * </Product.Root>
+ * ```
+ */
+export function MemberSelectionSync(props: MemberSelectionSyncProps) {
+  const variantService = useService(
+    SelectedVariantServiceDefinition,
+  ) as ServiceAPI<typeof SelectedVariantServiceDefinition>;
+  const bundleService = useService(ProductBundleServiceDefinition);
+
+  // Try to get modifiers service - it may not exist for all products
+  let modifiersService: ServiceAPI<
+    typeof ProductModifiersServiceDefinition
+  > | null = null;
+  try {
+    modifiersService = useService(
+      ProductModifiersServiceDefinition,
+    ) as ServiceAPI<typeof ProductModifiersServiceDefinition>;
+  } catch {
+    // Modifiers service not available for this product
+    modifiersService = null;
+  }
+
+  const selectedChoices = variantService.selectedChoices.get();
+  const selectedModifiers = modifiersService?.selectedModifiers.get();
+
+  React.useEffect(() => {
+    bundleService.setSelectedChoices(props.memberId, selectedChoices);
+  }, [props.memberId, selectedChoices]);
+
+  React.useEffect(() => {
+    if (selectedModifiers) {
+      bundleService.setModifiers(props.memberId, selectedModifiers);
+    }
+  }, [props.memberId, selectedModifiers]);
+
+  return <>{props.children}</>;
+}
+
+/**
+ * Props for Totals headless component
+ */
+export interface TotalsProps {
+  /** Content to display (can be a render function receiving the bundle totals or ReactNode) */
+  children: ((props: TotalsRenderProps) => React.ReactNode) | React.ReactNode;
+}
+
+/**
+ * Render props for Totals component
+ */
+export interface TotalsRenderProps {
+  /** Totals of the included members */
+  totals: ProductBundleTotals;
+}
+
+/**
+ * Headless component for the totals of the products included in the bundle
+ *
+ * @component
+ * @example
+ * ```tsx
+ * import { ProductBundle } from '@wix/stores/components';
+ *
+ * function BundleTotals() {
+ *   return (
+ *     <ProductBundle.Totals>
+ *       {({ totals }) => (
+ *         <p>
+ *           {totals.itemCount} items for {totals.formattedSubtotal}
+ *           {totals.savings > 0 && <span> (save {totals.formattedSavings})</span>}
+ *         </p>
+ *       )}
+ *     </ProductBundle.Totals>
+ *   );
+ * }
+ * ```
+ */
+export function Totals(props: TotalsProps) {
+  const service = useService(ProductBundleServiceDefinition);
+
+  return typeof props.children === 'function'
+    ? props.children({ totals: service.totals.get() })
+    : props.children;
+}
+
+/**
+ * Props for AddToCart headless component
+ */
+export interface AddToCartProps {
+  /** Content to display (can be a render function receiving the add to cart controls or ReactNode) */
+  children:
+    | ((props: AddToCartRenderProps) => React.ReactNode)
+    | React.ReactNode;
+}
+
+/**
+ * Render props for AddToCart component
+ */
+export interface AddToCartRenderProps {
+  /** Function to add all included members to the cart */
+  addToCart: () => Promise<void>;
+  /** Whether all included members can be added to the cart */
+  canAddToCart: boolean;
+  /** Whether the bundle is being added to the cart */
+  isLoading: boolean;
+  /** Error message, if a member is invalid or the cart rejected the bundle */
+  error: string | null;
+}
+
+/**
+ * Headless component for adding all products included in the bundle to the cart at once
+ *
+ * @component
+ * @example
+ * ```tsx
+ * import { ProductBundle } from '@wix/stores/components';
+ *
+ * function AddBundleButton() {
+ *   return (
+ *     <ProductBundle.AddToCart>
+ *       {({ addToCart, canAddToCart, isLoading, error }) => (
+ *         <>
+ *           <button onClick={addToCart} disabled={!canAddToCart || isLoading}>
+ *             Add all to cart
+ *           </button>
+ *           {error && <p>{error}</p>}
+ *         </>
+ *       )}
+ *     </ProductBundle.AddToCart>
+ *   );
+ * }
+ * ```
+ */
+export function AddToCart(props: AddToCartProps) {
+  const service = useService(ProductBundleServiceDefinition);
+
+  return typeof props.children === 'function'
+    ? props.children({
+        addToCart: service.addToCart,
+        canAddToCart: service.canAddToCart.get(),
+        isLoading: service.isLoading.get(),
+        error: service.error.get(),
+      })
+    : props.children;
+}
@@ -0,0 +1,217 @@
+import { useEffect } from 'react';
+import type { ServiceAPI } from '@wix/services-definitions';
+import { useService, WixServices } from '@wix/services-manager-react';
+import { createServicesMap } from '@wix/services-manager';
+import { productsV3 } from '@wix/stores';
+import {
+  ProductCompareService,
+  ProductCompareServiceDefinition,
+  type CompareAttribute,
+  type ProductCompareServiceConfig,
+} from '../../services/product-compare-service.js';
+import { ProductServiceDefinition } from '../../services/product-service.js';
+
+/**
+ * Props for Root headless component
+ */
+export interface RootProps {
+  /** Child components that will have access to the ProductCompare service */
+  children: React.ReactNode;
+  /** Configuration for the ProductCompare service */
+  compareConfig?: ProductCompareServiceConfig;
+}
+
+/**
+ * Root component that provides the ProductCompare service context to its children.
+ * Wrap both the product lists and the comparison table with it.
+ *
+ * @order 1
+ * @component
+ * @example
+ * ```tsx
+ * import { ProductCompare } from '@wix/stores/components';
+ *
+ * function StorePage() {
+ *   return (
+ *     <ProductCompare.Root compareConfig={{ maxItems: 3 }}>
+ *       <ProductList />
+ *       <ComparisonTable />
+ *     </ProductCompare.Root>
+ *   );
+ * }
+ * ```
+ */
+export function Root(props: RootProps): React.ReactNode {
+  return (
+    <WixServices
+      servicesMap={createServicesMap().addService(
+        ProductCompareServiceDefinition,
+        ProductCompareService,
+        props.compareConfig ?? {},
+      )}
+    >
+      <RestoreProductsEffect />
+      {props.children}
+    </WixServices>
+  );
+}
+
+/**
+ * Restores the compared products kept in the browser once mounted
+ */
+function RestoreProductsEffect(): null {
+  const { restoreProducts } = useService(ProductCompareServiceDefinition);
+
+  useEffect(() => restoreProducts(), [restoreProducts]);
+
+  return null;
+}
+
+/**
+ * Props for Toggle headless component
+ */
+export interface ToggleProps {
+  /** Content to display (can be a render function receiving the toggle controls or ReactNode) */
+  children: ((props: ToggleRenderProps) => React.ReactNode) | React.ReactNode;
+}
+
+/**
+ * Render props for Toggle component
+ */
+export interface ToggleRenderProps {
+  /** Whether the current product is compared */
+  isSelected: boolean;
+  /** Whether the current product can be added, i.e. it is compared or the comparison isn't full */
+  canToggle: boolean;
+  /** Function to add the current product to the comparison, or remove it */
+  toggle: () => void;
+  /** Number of compared products */
+  selectedCount: number;
+  /** Maximum number of compared products */
+  maxItems: number;
+}
+
+/**
+ * Headless component for adding the current product to the comparison, or removing it.
+ * Must be used within Product.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * import { ProductCompare } from '@wix/stores/components';
+ *
+ * function CompareCheckbox() {
+ *   return (
+ *     <ProductCompare.Toggle>
+ *       {({ isSelected, canToggle, toggle }) => (
+ *         <label>
+ *           <input type="checkbox" checked={isSelected} disabled={!canToggle} onChange={toggle} />
+ *           Compare
+ *         </label>
+ *       )}
+ *     </ProductCompare.Toggle>
+ *   );
+ * }
+ * ```
+ */
+export function Toggle(props: ToggleProps) {
+  const productService = useService(ProductServiceDefinition) as ServiceAPI<
+    typeof ProductServiceDefinition
+  >;
+  const compareService = useService(ProductCompareServiceDefinition);
+
+  const product = productService.product.get();
+  const isSelected = compareService.isSelected(product._id!);
+
+  return typeof props.children === 'function'
+    ? props.children({
+        isSelected,
+        canToggle: isSelected || compareService.canAddMore.get(),
+        toggle: () => compareService.toggleProduct(product),
+        selectedCount: compareService.productIds.get().length,
+        maxItems: compareService.maxItems,
+      })
+    : props.children;
+}
+
+/**
+ * Props for Table headless component
+ */
+export interface TableProps {
+  /** Whether to only include the attributes whose values differ between products */
+  differencesOnly?: boolean;
+  /** Content to display (can be a render function receiving the comparison matrix or ReactNode) */
+  children: ((props: TableRenderProps) => React.ReactNode) | React.ReactNode;
+}
+
+/**
+ * Render props for Table component
+ */
+export interface TableRenderProps {
+  /** Compared products, in selection order */
+  products: productsV3.V3Product[];
+  /** Compared attributes, each with a value per product in the same order as `products` */
+  attributes: CompareAttribute[];
+  /** Whether enough products are selected to compare them */
+  canCompare: boolean;
+  /** Whether product details are currently loading */
+  isLoading: boolean;
+  /** Error message, if loading product details failed */
+  error: string | null;
+  /** Function to remove a product from the comparison */
+  removeProduct: (productId: string) => void;
+  /** Function to remove all products from the comparison */
+  clear: () => void;
+}
+
+/**
+ * Headless component for the comparison matrix of the compared products
+ *
+ * @component
+ * @example
+ * ```tsx
+ * import { ProductCompare } from '@wix/stores/components';
+ *
+ * function ComparisonTable() {
+ *   return (
+ *     <ProductCompare.Table differencesOnly>
+ *       {({ products, attributes, canCompare }) =>
+ *         canCompare && (
+ *           <table>
+ *             <tbody>
+ *               {attributes.map((attribute) => (
+ *                 <tr key={attribute.id} className={attribute.isDifferent ? 'font-bold' : ''}>
+ *                   <th>{attribute.name}</th>
+ *                   {attribute.values.map((value, index) => (
+ *                     <td key={products[index]._id}>{value?.text ?? '—'}</td>
+ *                   ))}
+ *                 </tr>
+ *               ))}
+ *             </tbody>
+ *           </table>
+ *         )
+ *       }
+ *     </ProductCompare.Table>
+ *   );
+ * }
+ * ```
+ */
+export function Table(props: TableProps) {
+  const service = useService(ProductCompareServiceDefinition);
+
+  const attributes = service.attributes.get();
+
+  return typeof props.children === 'function'
+    ? props.children({
+        products: service.products.get(),
+        attributes: props.differencesOnly
+          ? attributes.filter((attribute) => attribute.isDifferent)
+          : attributes,
+        canCompare: service.canCompare.get(),
+        isLoading: service.isLoading.get(),
+        error: service.error.get(),
+        removeProduct: service.removeProduct,
+        clear: service.clear,
+      })
+    : props.children;
+}
@@ -1,3 +1,4 @@
+import { useEffect } from 'react';
 import { useService, WixServices } from '@wix/services-manager-react';
 import { createServicesMap } from '@wix/services-manager';
 import {
@@ -101,11 +102,23 @@ export function Root(props: RootProps): React.ReactNode {
           props.productsListConfig,
         )}
     >
+      <UrlSyncEffect />
       {props.children}
     </WixServices>
   );
 }
 
+/**
+ * Follows the browser back/forward navigation once mounted and stops when unmounted
+ */
+function UrlSyncEffect(): null {
+  const { startUrlSync } = useService(ProductsListServiceDefinition);
+
+  useEffect(() => startUrlSync(), [startUrlSync]);
+
+  return null;
+}
+
 /**
  * Props for EmptyState headless component
  */
@@ -6,6 +6,7 @@ import {
   type ProductChoice,
   InventoryStatusType,
   CategoriesListServiceDefinition,
+  getOptionChoiceCounts,
 } from '../../services/index.js';
 import { Category } from '@wix/auto_sdk_categories_categories';
 import { useMemo } from 'react';
@@ -31,12 +32,37 @@ function getInventoryStatusLabel(status: InventoryStatusType): string {
   }
 }
 
+// Result counts of each value of an aggregation, or undefined when the aggregation wasn't returned
+function getAggregationCounts(
+  aggregationData: productsV3.AggregationData,
+  aggregationName: string,
+): Record<string, number> | undefined {
+  const aggregation = aggregationData.results?.find(
+    (result) => result.name === aggregationName,
+  );
+  if (!aggregation?.values?.results) return undefined;
+
+  const counts: Record<string, number> = {};
+  aggregation.values.results.forEach((item) => {
+    if (typeof item.value === 'string' && typeof item.count === 'number') {
+      counts[item.value] = item.count;
+    }
+  });
+  return counts;
+}
+
 function buildSearchFilterData(
   availableOptions: ProductOption[],
   availableInventoryStatuses: InventoryStatusType[],
   availableMinPrice: number,
   availableMaxPrice: number,
+  aggregationData: productsV3.AggregationData,
 ): { filterOptions: FilterOption[] } {
+  const inventoryStatusCounts = getAggregationCounts(
+    aggregationData,
+    'inventoryStatus',
+  );
+
   // Build consolidated filter options using search field names
   const filterOptions: FilterOption[] = [
     // Price range - use a logical key that maps to both min/max fields
@@ -65,6 +91,7 @@ function buildSearchFilterData(
       fieldName: 'options.choicesSettings.choices.choiceId',
       fieldType: 'array' as const,
       validValues: option.choices.map((choice: ProductChoice) => choice.id),
+      valueCounts: getOptionChoiceCounts(aggregationData, option),
       valueFormatter: (value: string | number) => {
         const choice = option.choices.find(
           (c: ProductChoice) => c.id === value,
@@ -91,6 +118,15 @@ function buildSearchFilterData(
       fieldName: 'inventory.availabilityStatus',
       fieldType: 'singular' as const,
       validValues: availableInventoryStatuses,
+      // Statuses missing from the aggregation have no products
+      valueCounts: inventoryStatusCounts
+        ? Object.fromEntries(
+            availableInventoryStatuses.map((status) => [
+              status,
+              inventoryStatusCounts[status] ?? 0,
+            ]),
+          )
+        : undefined,
       valueFormatter: (value: string | number) =>
         getInventoryStatusLabel(value as InventoryStatusType),
     },
@@ -244,6 +280,7 @@ function AllFilters(props: AllFiltersProps) {
     listService.availableInventoryStatuses.get();
   const availableMinPrice = listService.minPrice.get();
   const availableMaxPrice = listService.maxPrice.get();
+  const aggregations = listService.aggregations.get();
 
   // Get filter state
   const resetFilters = listService.resetFilter;
@@ -256,6 +293,7 @@ function AllFilters(props: AllFiltersProps) {
       availableInventoryStatuses,
       availableMinPrice,
       availableMaxPrice,
+      aggregations,
     );
 
     const updateFilter = (newFilter: productsV3.V3ProductSearch['filter']) => {
@@ -274,6 +312,7 @@ function AllFilters(props: AllFiltersProps) {
     availableInventoryStatuses,
     availableMinPrice,
     availableMaxPrice,
+    aggregations,
     currentFilter,
     resetFilters,
     isFiltered,
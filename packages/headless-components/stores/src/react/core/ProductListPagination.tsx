@@ -64,3 +64,193 @@ export function LoadMoreTrigger(props: LoadMoreTriggerProps) {
     ? props.children({ loadMore, hasMoreProducts, isLoading })
     : props.children;
 }
+
+/**
+ * Props for NextPageTrigger headless component
+ */
+export interface NextPageTriggerProps {
+  /** Content to display (can be a render function receiving next page controls or ReactNode) */
+  children:
+    | ((props: NextPageTriggerRenderProps) => React.ReactNode)
+    | React.ReactNode;
+}
+
+/**
+ * Render props for NextPageTrigger component
+ */
+export interface NextPageTriggerRenderProps {
+  /** Function to navigate to the next page */
+  nextPage: () => Promise<void>;
+  /** Whether there is a next page */
+  hasNextPage: boolean;
+  /** Whether products are currently loading */
+  isLoading: boolean;
+}
+
+/**
+ * Headless component for navigating to the next page (page-based pagination)
+ *
+ * @component
+ * @example
+ * ```tsx
+ * import { ProductListPagination } from '@wix/stores/components';
+ *
+ * function NextPageButton() {
+ *   return (
+ *     <ProductListPagination.NextPageTrigger>
+ *       {({ nextPage, hasNextPage, isLoading }) => (
+ *         <button onClick={nextPage} disabled={!hasNextPage || isLoading}>
+ *           Next
+ *         </button>
+ *       )}
+ *     </ProductListPagination.NextPageTrigger>
+ *   );
+ * }
+ * ```
+ */
+export function NextPageTrigger(props: NextPageTriggerProps) {
+  const productsListService = useService(ProductsListServiceDefinition);
+
+  const nextPage = productsListService.nextPage;
+  const hasNextPage = productsListService.hasNextPage.get();
+  const isLoading = productsListService.isLoading.get();
+
+  return typeof props.children === 'function'
+    ? props.children({ nextPage, hasNextPage, isLoading })
+    : props.children;
+}
+
+/**
+ * Props for PreviousPageTrigger headless component
+ */
+export interface PreviousPageTriggerProps {
+  /** Content to display (can be a render function receiving previous page controls or ReactNode) */
+  children:
+    | ((props: PreviousPageTriggerRenderProps) => React.ReactNode)
+    | React.ReactNode;
+}
+
+/**
+ * Render props for PreviousPageTrigger component
+ */
+export interface PreviousPageTriggerRenderProps {
+  /** Function to navigate to the previous page */
+  previousPage: () => Promise<void>;
+  /** Whether there is a previous page */
+  hasPreviousPage: boolean;
+  /** Whether products are currently loading */
+  isLoading: boolean;
+}
+
+/**
+ * Headless component for navigating to the previous page (page-based pagination)
+ *
+ * @component
+ * @example
+ * ```tsx
+ * import { ProductListPagination } from '@wix/stores/components';
+ *
+ * function PreviousPageButton() {
+ *   return (
+ *     <ProductListPagination.PreviousPageTrigger>
+ *       {({ previousPage, hasPreviousPage, isLoading }) => (
+ *         <button onClick={previousPage} disabled={!hasPreviousPage || isLoading}>
+ *           Previous
+ *         </button>
+ *       )}
+ *     </ProductListPagination.PreviousPageTrigger>
+ *   );
+ * }
+ * ```
+ */
+export function PreviousPageTrigger(props: PreviousPageTriggerProps) {
+  const productsListService = useService(ProductsListServiceDefinition);
+
+  const previousPage = productsListService.previousPage;
+  const hasPreviousPage = productsListService.hasPreviousPage.get();
+  const isLoading = productsListService.isLoading.get();
+
+  return typeof props.children === 'function'
+    ? props.children({ previousPage, hasPreviousPage, isLoading })
+    : props.children;
+}
+
+/**
+ * Props for PageNumbers headless component
+ */
+export interface PageNumbersProps {
+  /** Content to display (can be a render function receiving page numbers or ReactNode) */
+  children:
+    | ((props: PageNumbersRenderProps) => React.ReactNode)
+    | React.ReactNode;
+}
+
+/**
+ * Render props for PageNumbers component
+ */
+export interface PageNumbersRenderProps {
+  /** Page numbers known to exist, starting from 1 */
+  pages: number[];
+  /** Current page number (1-based) */
+  currentPage: number;
+  /** Estimated number of pages */
+  totalPages: number;
+  /** Whether totalPages is exact, i.e. the last page has been reached */
+  isTotalPagesExact: boolean;
+  /** Function to navigate to a page */
+  goToPage: (page: number) => Promise<void>;
+  /** Whether products are currently loading */
+  isLoading: boolean;
+}
+
+/**
+ * Headless component for numbered page links (page-based pagination).
+ * Since cursor paging does not report a total, pages are revealed as they become known.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * import { ProductListPagination } from '@wix/stores/components';
+ *
+ * function PageLinks() {
+ *   return (
+ *     <ProductListPagination.PageNumbers>
+ *       {({ pages, currentPage, isTotalPagesExact, goToPage }) => (
+ *         <nav>
+ *           {pages.map((page) => (
+ *             <button
+ *               key={page}
+ *               onClick={() => goToPage(page)}
+ *               aria-current={page === currentPage ? 'page' : undefined}
+ *             >
+ *               {page}
+ *             </button>
+ *           ))}
+ *           {!isTotalPagesExact && <span>…</span>}
+ *         </nav>
+ *       )}
+ *     </ProductListPagination.PageNumbers>
+ *   );
+ * }
+ * ```
+ */
+export function PageNumbers(props: PageNumbersProps) {
+  const productsListService = useService(ProductsListServiceDefinition);
+
+  const currentPage = productsListService.currentPage.get();
+  const totalPages = productsListService.totalPages.get();
+  const isTotalPagesExact = productsListService.isTotalPagesExact.get();
+  const isLoading = productsListService.isLoading.get();
+  const pages = Array.from({ length: totalPages }, (_, index) => index + 1);
+
+  return typeof props.children === 'function'
+    ? props.children({
+        pages,
+        currentPage,
+        totalPages,
+        isTotalPagesExact,
+        goToPage: productsListService.goToPage,
+        isLoading,
+      })
+    : props.children;
+}
@@ -0,0 +1,222 @@
+import React from 'react';
+import type { V3Product } from '@wix/auto_sdk_stores_products-v-3';
+import type { ServiceAPI } from '@wix/services-definitions';
+import { useService } from '@wix/services-manager-react';
+import { ProductServiceDefinition } from '../../services/product-service.js';
+
+interface QuickViewContextValue {
+  product: V3Product | null;
+  open: (product: V3Product, trigger?: HTMLElement | null) => void;
+  close: () => void;
+}
+
+const QuickViewContext = React.createContext<QuickViewContextValue | null>(
+  null,
+);
+
+/**
+ * Hook to access the quick view state provided by ProductList.QuickView.Root
+ * @returns The quick view state
+ */
+function useQuickViewContext(): QuickViewContextValue {
+  const context = React.useContext(QuickViewContext);
+  if (!context) {
+    throw new Error(
+      'useQuickViewContext must be used within a ProductList.QuickView.Root component',
+    );
+  }
+  return context;
+}
+
+/**
+ * Props for Root headless component
+ */
+export interface RootProps {
+  /** Child components that will have access to the quick view state */
+  children: React.ReactNode;
+}
+
+/**
+ * Root component that provides the quick view state to its children.
+ * Keeps track of the product shown in the quick view and of the element that opened it,
+ * which gets the focus back when the quick view closes.
+ *
+ * @order 1
+ * @component
+ * @example
+ * ```tsx
+ * import { ProductList } from '@wix/stores/components';
+ *
+ * function ProductGrid() {
+ *   return (
+ *     <ProductList.QuickView.Root>
+ *       <ProductList.Products>...</ProductList.Products>
+ *       <ProductList.QuickView.Content>...</ProductList.QuickView.Content>
+ *     </ProductList.QuickView.Root>
+ *   );
+ * }
+ * ```
+ */
+export function Root(props: RootProps): React.ReactNode {
+  const [product, setProduct] = React.useState<V3Product | null>(null);
+  const triggerRef = React.useRef<HTMLElement | null>(null);
+
+  const open = React.useCallback(
+    (nextProduct: V3Product, trigger?: HTMLElement | null) => {
+      triggerRef.current =
+        trigger ??
+        (typeof document !== 'undefined'
+          ? (document.activeElement as HTMLElement | null)
+          : null);
+      setProduct(nextProduct);
+    },
+    [],
+  );
+
+  const close = React.useCallback(() => {
+    setProduct(null);
+  }, []);
+
+  React.useEffect(() => {
+    if (product || !triggerRef.current) return;
+
+    // Restore the focus once the quick view is closed
+    triggerRef.current.focus();
+    triggerRef.current = null;
+  }, [product]);
+
+  const value = React.useMemo(
+    () => ({ product, open, close }),
+    [product, open, close],
+  );
+
+  return (
+    <QuickViewContext.Provider value={value}>
+      {props.children}
+    </QuickViewContext.Provider>
+  );
+}
+
+/**
+ * Props for Trigger headless component
+ */
+export interface TriggerProps {
+  /** Content to display (can be a render function receiving the trigger controls or ReactNode) */
+  children: ((props: TriggerRenderProps) => React.ReactNode) | React.ReactNode;
+}
+
+/**
+ * Render props for Trigger component
+ */
+export interface TriggerRenderProps {
+  /** Function to open the quick view of the current product. Pass the trigger element to restore the focus to it on close */
+  open: (trigger?: HTMLElement | null) => void;
+  /** Whether the quick view of the current product is open */
+  isOpen: boolean;
+}
+
+/**
+ * Headless component for opening the quick view of a product.
+ * Must be used within Product.Root (e.g. inside ProductList.ProductRepeater) and ProductList.QuickView.Root.
+ * The product already loaded by the list is reused, so opening the quick view doesn't fetch it again.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ProductList.QuickView.Trigger>
+ *   {({ open }) => (
+ *     <button onClick={(e) => open(e.currentTarget)}>Quick view</button>
+ *   )}
+ * </ProductList.QuickView.Trigger>
+ * ```
+ */
+export function Trigger(props: TriggerProps) {
+  const productService = useService(ProductServiceDefinition) as ServiceAPI<
+    typeof ProductServiceDefinition
+  >;
+  const quickView = useQuickViewContext();
+
+  const product = productService.product.get();
+
+  return typeof props.children === 'function'
+    ? props.children({
+        open: (trigger?: HTMLElement | null) =>
+          quickView.open(product, trigger),
+        isOpen: !!quickView.product && quickView.product._id === product?._id,
+      })
+    : props.children;
+}
+
+/**
+ * Props for Content headless component
+ */
+export interface ContentProps {
+  /** Render function receiving the product shown in the quick view */
+  children: (props: ContentRenderProps) => React.ReactNode;
+}
+
+/**
+ * Render props for Content component
+ */
+export interface ContentRenderProps {
+  /** The product shown in the quick view */
+  product: V3Product;
+  /** Function to close the quick view */
+  close: () => void;
+}
+
+/**
+ * Headless component for the quick view content. Renders only while the quick view is open,
+ * so the product services are created only for the product the shopper opened.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ProductList.QuickView.Content>
+ *   {({ product, close }) => (
+ *     <Product.Root product={product}>
+ *       <Product.Name />
+ *       <button onClick={close}>Close</button>
+ *     </Product.Root>
+ *   )}
+ * </ProductList.QuickView.Content>
+ * ```
+ */
+export function Content(props: ContentProps) {
+  const { product, close } = useQuickViewContext();
+
+  if (!product) {
+    return null;
+  }
+
+  return props.children({ product, close });
+}
+
+/**
+ * Props for Close headless component
+ */
+export interface CloseProps {
+  /** Content to display (can be a render function receiving the close function or ReactNode) */
+  children:
+    | ((props: { close: () => void }) => React.ReactNode)
+    | React.ReactNode;
+}
+
+/**
+ * Headless component for closing the quick view
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ProductList.QuickView.Close>
+ *   {({ close }) => <button onClick={close}>×</button>}
+ * </ProductList.QuickView.Close>
+ * ```
+ */
+export function Close(props: CloseProps) {
+  const { close } = useQuickViewContext();
+
+  return typeof props.children === 'function'
+    ? props.children({ close })
+    : props.children;
+}
@@ -0,0 +1,292 @@
+import { useEffect } from 'react';
+import { useService, WixServices } from '@wix/services-manager-react';
+import { createServicesMap } from '@wix/services-manager';
+import { productsV3 } from '@wix/stores';
+import {
+  ProductSearchSuggestionsService,
+  ProductSearchSuggestionsServiceDefinition,
+  type ProductSearchSuggestionsServiceConfig,
+} from '../../services/product-search-suggestions-service.js';
+import type { Category } from '../../services/categories-list-service.js';
+
+/**
+ * Props for Root headless component
+ */
+export interface RootProps {
+  /** Child components that will have access to the ProductSearchSuggestions service */
+  children: React.ReactNode;
+  /** Configuration for the ProductSearchSuggestions service */
+  searchSuggestionsConfig?: ProductSearchSuggestionsServiceConfig;
+}
+
+/**
+ * Root component that provides the ProductSearchSuggestions service context to its children.
+ *
+ * @order 1
+ * @component
+ * @example
+ * ```tsx
+ * import { ProductListSearch } from '@wix/stores/components';
+ *
+ * function HeaderSearch() {
+ *   return (
+ *     <ProductListSearch.Root
+ *       searchSuggestionsConfig={{
+ *         debounceMs: 200,
+ *         onSubmit: (query) => navigate(`/search?q=${encodeURIComponent(query)}`),
+ *       }}
+ *     >
+ *       <ProductListSearch.Input>
+ *         {({ query, setQuery, submit }) => (
+ *           <input
+ *             value={query}
+ *             onChange={(e) => setQuery(e.target.value)}
+ *             onKeyDown={(e) => e.key === 'Enter' && submit()}
+ *           />
+ *         )}
+ *       </ProductListSearch.Input>
+ *     </ProductListSearch.Root>
+ *   );
+ * }
+ * ```
+ */
+export function Root(props: RootProps): React.ReactNode {
+  return (
+    <WixServices
+      servicesMap={createServicesMap().addService(
+        ProductSearchSuggestionsServiceDefinition,
+        ProductSearchSuggestionsService,
+        props.searchSuggestionsConfig ?? {},
+      )}
+    >
+      <RestoreRecentQueriesEffect />
+      {props.children}
+    </WixServices>
+  );
+}
+
+/**
+ * Restores the recent queries kept in the browser once mounted
+ */
+function RestoreRecentQueriesEffect(): null {
+  const { restoreRecentQueries } = useService(
+    ProductSearchSuggestionsServiceDefinition,
+  );
+
+  useEffect(() => restoreRecentQueries(), [restoreRecentQueries]);
+
+  return null;
+}
+
+/**
+ * Props for Input headless component
+ */
+export interface InputProps {
+  /** Content to display (can be a render function receiving the query controls or ReactNode) */
+  children: ((props: InputRenderProps) => React.ReactNode) | React.ReactNode;
+}
+
+/**
+ * Render props for Input component
+ */
+export interface InputRenderProps {
+  /** Current search query */
+  query: string;
+  /** Function to update the query; suggestions are requested after the debounce delay */
+  setQuery: (query: string) => void;
+  /** Function to submit the current query, or the given one */
+  submit: (query?: string) => void;
+  /** Function to clear the query and the suggestions */
+  clear: () => void;
+  /** Whether suggestions are currently loading */
+  isLoading: boolean;
+}
+
+/**
+ * Headless component for the search query input
+ *
+ * @component
+ * @example
+ * ```tsx
+ * import { ProductListSearch } from '@wix/stores/components';
+ *
+ * function SearchInput() {
+ *   return (
+ *     <ProductListSearch.Input>
+ *       {({ query, setQuery, submit, clear }) => (
+ *         <input
+ *           value={query}
+ *           onChange={(e) => setQuery(e.target.value)}
+ *           onKeyDown={(e) => {
+ *             if (e.key === 'Enter') submit();
+ *             if (e.key === 'Escape') clear();
+ *           }}
+ *         />
+ *       )}
+ *     </ProductListSearch.Input>
+ *   );
+ * }
+ * ```
+ */
+export function Input(props: InputProps) {
+  const service = useService(ProductSearchSuggestionsServiceDefinition);
+
+  const query = service.query.get();
+  const isLoading = service.isLoading.get();
+
+  return typeof props.children === 'function'
+    ? props.children({
+        query,
+        setQuery: service.setQuery,
+        submit: service.submitQuery,
+        clear: service.clear,
+        isLoading,
+      })
+    : props.children;
+}
+
+/**
+ * Props for Suggestions headless component
+ */
+export interface SuggestionsProps {
+  /** Content to display (can be a render function receiving the suggestions or ReactNode) */
+  children:
+    | ((props: SuggestionsRenderProps) => React.ReactNode)
+    | React.ReactNode;
+}
+
+/**
+ * Render props for Suggestions component
+ */
+export interface SuggestionsRenderProps {
+  /** Current search query */
+  query: string;
+  /** Products matching the query */
+  products: productsV3.V3Product[];
+  /** Categories of the matching products */
+  categories: Category[];
+  /** Spelling suggestion when nothing matches the query */
+  didYouMean: string | null;
+  /** Whether there is at least one product or category suggestion */
+  hasSuggestions: boolean;
+  /** Whether suggestions are currently loading */
+  isLoading: boolean;
+  /** Error message, if loading suggestions failed */
+  error: string | null;
+  /** Function to replace the query, e.g. with the "did you mean" suggestion */
+  setQuery: (query: string) => void;
+}
+
+/**
+ * Headless component for product, category and "did you mean" suggestions
+ *
+ * @component
+ * @example
+ * ```tsx
+ * import { ProductListSearch } from '@wix/stores/components';
+ *
+ * function SearchSuggestions() {
+ *   return (
+ *     <ProductListSearch.Suggestions>
+ *       {({ products, categories, didYouMean, setQuery }) => (
+ *         <div>
+ *           {didYouMean && (
+ *             <button onClick={() => setQuery(didYouMean)}>
+ *               Did you mean "{didYouMean}"?
+ *             </button>
+ *           )}
+ *           {categories.map((category) => (
+ *             <a key={category._id} href={`/category/${category.slug}`}>{category.name}</a>
+ *           ))}
+ *           {products.map((product) => (
+ *             <a key={product._id} href={`/product/${product.slug}`}>{product.name}</a>
+ *           ))}
+ *         </div>
+ *       )}
+ *     </ProductListSearch.Suggestions>
+ *   );
+ * }
+ * ```
+ */
+export function Suggestions(props: SuggestionsProps) {
+  const service = useService(ProductSearchSuggestionsServiceDefinition);
+
+  const products = service.productSuggestions.get();
+  const categories = service.categorySuggestions.get();
+
+  return typeof props.children === 'function'
+    ? props.children({
+        query: service.query.get(),
+        products,
+        categories,
+        didYouMean: service.didYouMean.get(),
+        hasSuggestions: products.length > 0 || categories.length > 0,
+        isLoading: service.isLoading.get(),
+        error: service.error.get(),
+        setQuery: service.setQuery,
+      })
+    : props.children;
+}
+
+/**
+ * Props for RecentQueries headless component
+ */
+export interface RecentQueriesProps {
+  /** Content to display (can be a render function receiving the recent queries or ReactNode) */
+  children:
+    | ((props: RecentQueriesRenderProps) => React.ReactNode)
+    | React.ReactNode;
+}
+
+/**
+ * Render props for RecentQueries component
+ */
+export interface RecentQueriesRenderProps {
+  /** Recently submitted queries, newest first */
+  recentQueries: string[];
+  /** Function to submit one of the recent queries */
+  selectQuery: (query: string) => void;
+  /** Function to remove a query from the recent queries */
+  removeQuery: (query: string) => void;
+  /** Function to clear all recent queries */
+  clearQueries: () => void;
+}
+
+/**
+ * Headless component for the recently submitted search queries
+ *
+ * @component
+ * @example
+ * ```tsx
+ * import { ProductListSearch } from '@wix/stores/components';
+ *
+ * function RecentSearches() {
+ *   return (
+ *     <ProductListSearch.RecentQueries>
+ *       {({ recentQueries, selectQuery, clearQueries }) => (
+ *         <div>
+ *           {recentQueries.map((query) => (
+ *             <button key={query} onClick={() => selectQuery(query)}>{query}</button>
+ *           ))}
+ *           <button onClick={clearQueries}>Clear</button>
+ *         </div>
+ *       )}
+ *     </ProductListSearch.RecentQueries>
+ *   );
+ * }
+ * ```
+ */
+export function RecentQueries(props: RecentQueriesProps) {
+  const service = useService(ProductSearchSuggestionsServiceDefinition);
+
+  const recentQueries = service.recentQueries.get();
+
+  return typeof props.children === 'function'
+    ? props.children({
+        recentQueries,
+        selectQuery: service.submitQuery,
+        removeQuery: service.removeRecentQuery,
+        clearQueries: service.clearRecentQueries,
+      })
+    : props.children;
+}
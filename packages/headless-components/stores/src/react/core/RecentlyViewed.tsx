@@ -0,0 +1,190 @@
+import { useEffect } from 'react';
+import type { ServiceAPI } from '@wix/services-definitions';
+import { useService, WixServices } from '@wix/services-manager-react';
+import { createServicesMap } from '@wix/services-manager';
+import { productsV3 } from '@wix/stores';
+import {
+  RecentlyViewedService,
+  RecentlyViewedServiceDefinition,
+  type RecentlyViewedServiceConfig,
+} from '../../services/recently-viewed-service.js';
+
+/**
+ * Props for Root headless component
+ */
+export interface RootProps {
+  /** Child components that will have access to the RecentlyViewed service */
+  children: React.ReactNode;
+  /** Configuration for the RecentlyViewed service */
+  recentlyViewedConfig?: RecentlyViewedServiceConfig;
+}
+
+/**
+ * Root component that provides the RecentlyViewed service context to its children.
+ * Any Product.Root rendered inside it records a product view when it mounts.
+ *
+ * @order 1
+ * @component
+ * @example
+ * ```tsx
+ * import { RecentlyViewed } from '@wix/stores/components';
+ *
+ * function ProductPage({ product }) {
+ *   return (
+ *     <RecentlyViewed.Root recentlyViewedConfig={{ maxItems: 8 }}>
+ *       <Product.Root product={product}>...</Product.Root>
+ *       <RecentlyViewed.Products excludeProductIds={[product._id]}>
+ *         {({ products }) => products.map((p) => <div key={p._id}>{p.name}</div>)}
+ *       </RecentlyViewed.Products>
+ *     </RecentlyViewed.Root>
+ *   );
+ * }
+ * ```
+ */
+export function Root(props: RootProps): React.ReactNode {
+  return (
+    <WixServices
+      servicesMap={createServicesMap().addService(
+        RecentlyViewedServiceDefinition,
+        RecentlyViewedService,
+        props.recentlyViewedConfig ?? {},
+      )}
+    >
+      <RestoreProductsEffect />
+      {props.children}
+    </WixServices>
+  );
+}
+
+/**
+ * Restores the recently viewed products kept in the browser once mounted
+ */
+function RestoreProductsEffect(): null {
+  const { restoreProducts } = useService(RecentlyViewedServiceDefinition);
+
+  useEffect(() => restoreProducts(), [restoreProducts]);
+
+  return null;
+}
+
+/**
+ * Props for ViewTracker headless component
+ */
+export interface ViewTrackerProps {
+  /** Product to record as viewed */
+  product: productsV3.V3Product;
+  /** Content to display */
+  children: React.ReactNode;
+}
+
+/**
+ * Headless component that records a product view when it mounts.
+ * Does nothing when rendered outside of RecentlyViewed.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * import { RecentlyViewed } from '@wix/stores/components';
+ *
+ * function ProductDetails({ product }) {
+ *   return (
+ *     <RecentlyViewed.ViewTracker product={product}>
+ *       <h1>{product.name}</h1>
+ *     </RecentlyViewed.ViewTracker>
+ *   );
+ * }
+ * ```
+ */
+export function ViewTracker(props: ViewTrackerProps) {
+  let recentlyViewedService: ServiceAPI<
+    typeof RecentlyViewedServiceDefinition
+  > | null = null;
+  try {
+    recentlyViewedService = useService(
+      RecentlyViewedServiceDefinition,
+    ) as ServiceAPI<typeof RecentlyViewedServiceDefinition>;
+  } catch {
+    // RecentlyViewed service not available
+    recentlyViewedService = null;
+  }
+
+  useEffect(() => {
+    recentlyViewedService?.recordView(props.product);
+  }, [recentlyViewedService, props.product._id]);
+
+  return props.children;
+}
+
+/**
+ * Props for Products headless component
+ */
+export interface ProductsProps {
+  /** Product IDs to leave out, e.g. the product currently displayed */
+  excludeProductIds?: (string | null | undefined)[];
+  /** Content to display (can be a render function receiving the products or ReactNode) */
+  children: ((props: ProductsRenderProps) => React.ReactNode) | React.ReactNode;
+}
+
+/**
+ * Render props for Products component
+ */
+export interface ProductsRenderProps {
+  /** Recently viewed products, most recent first */
+  products: productsV3.V3Product[];
+  /** Whether there are recently viewed products to display */
+  hasProducts: boolean;
+  /** Whether the stored products are currently loading */
+  isLoading: boolean;
+  /** Error message, if loading the products failed */
+  error: string | null;
+  /** Function to remove a product from the recently viewed products */
+  removeProduct: (productId: string) => void;
+  /** Function to clear the recently viewed products */
+  clear: () => void;
+}
+
+/**
+ * Headless component for the recently viewed products
+ *
+ * @component
+ * @example
+ * ```tsx
+ * import { RecentlyViewed } from '@wix/stores/components';
+ *
+ * function RecentlyViewedProducts() {
+ *   return (
+ *     <RecentlyViewed.Products>
+ *       {({ products, hasProducts, clear }) =>
+ *         hasProducts && (
+ *           <div>
+ *             {products.map((product) => (
+ *               <a key={product._id} href={`/product/${product.slug}`}>{product.name}</a>
+ *             ))}
+ *             <button onClick={clear}>Clear history</button>
+ *           </div>
+ *         )
+ *       }
+ *     </RecentlyViewed.Products>
+ *   );
+ * }
+ * ```
+ */
+export function Products(props: ProductsProps) {
+  const service = useService(RecentlyViewedServiceDefinition);
+
+  const excludedIds = new Set(props.excludeProductIds ?? []);
+  const products = service.products
+    .get()
+    .filter((product) => !excludedIds.has(product._id));
+
+  return typeof props.children === 'function'
+    ? props.children({
+        products,
+        hasProducts: products.length > 0,
+        isLoading: service.isLoading.get(),
+        error: service.error.get(),
+        removeProduct: service.removeProduct,
+        clear: service.clear,
+      })
+    : props.children;
+}
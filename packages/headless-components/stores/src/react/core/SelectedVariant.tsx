@@ -4,6 +4,9 @@ import {
   SelectedVariantServiceDefinition,
   SelectedVariantService,
   SelectedVariantServiceConfig,
+  getMediaForSelectedChoices,
+  type VariantMediaMode,
+  type VariantMediaFallback,
 } from '../../services/selected-variant-service.js';
 import { ProductModifiersServiceDefinition } from '../../services/product-modifiers-service.js';
 import { createServicesMap } from '@wix/services-manager';
@@ -13,6 +16,7 @@ import {
   CurrentCartServiceDefinition,
 } from '@wix/headless-ecom/services';
 import { type LineItem } from '@wix/headless-ecom/services';
+import type { ProductMedia } from '@wix/auto_sdk_stores_products-v-3';
 
 export interface RootProps {
   children: React.ReactNode;
@@ -240,6 +244,69 @@ export function SKU(props: SKUProps) {
   });
 }
 
+/**
+ * Props for Media headless component
+ */
+export interface MediaProps {
+  /** How media linked to the selected choices affects the media. Defaults to 'filter' */
+  mode?: VariantMediaMode;
+  /** Media to use when no selected choice has linked media. Defaults to 'all' */
+  fallback?: VariantMediaFallback;
+  /** Render prop function that receives the media for the selected choices */
+  children: (props: MediaRenderProps) => React.ReactNode;
+}
+
+/**
+ * Render props for Media component
+ */
+export interface MediaRenderProps {
+  /** Media to display for the selected choices */
+  media: ProductMedia[];
+  /** Currently selected choices, keyed by option name */
+  selectedChoices: Record<string, string>;
+}
+
+/**
+ * Headless component for the product media matching the selected choices,
+ * based on the media linked to each option choice
+ *
+ * @component
+ * @example
+ * ```tsx
+ * import { SelectedVariant } from '@wix/stores/components';
+ *
+ * function VariantImages() {
+ *   return (
+ *     <SelectedVariant.Media mode="reorder" fallback="all">
+ *       {({ media }) => (
+ *         <div className="images">
+ *           {media.map((item) => (
+ *             <img key={item._id} src={item.image} alt={item.altText ?? ''} />
+ *           ))}
+ *         </div>
+ *       )}
+ *     </SelectedVariant.Media>
+ *   );
+ * }
+ * ```
+ */
+export function Media(props: MediaProps) {
+  const variantService = useService(
+    SelectedVariantServiceDefinition,
+  ) as ServiceAPI<typeof SelectedVariantServiceDefinition>;
+
+  const product = variantService.product.get();
+  const selectedChoices = variantService.selectedChoices.get();
+
+  return props.children({
+    media: getMediaForSelectedChoices(product, selectedChoices, {
+      mode: props.mode,
+      fallback: props.fallback,
+    }),
+    selectedChoices,
+  });
+}
+
 /**
  * Props for Actions headless component
  */
@@ -254,8 +321,8 @@ export interface ActionsProps {
 export interface ActionsRenderProps {
   /** Function to add product to cart */
   addToCart: () => Promise<void>;
-  /** Function to buy now (clear cart, add product, proceed to checkout) */
-  buyNow: () => Promise<void>;
+  /** Function to buy now (clear cart, add product, proceed to checkout). Resolves with the checkout URL, or null if the checkout wasn't created */
+  buyNow: () => Promise<string | null>;
   /** Line items */
   lineItems: LineItem[];
   /** Whether add to cart is available */
@@ -383,7 +450,7 @@ export function Actions(props: ActionsProps) {
       await addToCart();
 
       // Proceed to checkout
-      await cartService.proceedToCheckout();
+      return await cartService.proceedToCheckout();
     } catch (error) {
       console.error('Buy now failed:', error);
       throw error;
@@ -414,7 +481,7 @@ export function Actions(props: ActionsProps) {
           isLoading: checkoutLoading,
           error: checkoutError,
         }: {
-          createCheckout: (lineItems: LineItem[]) => Promise<void>;
+          createCheckout: (lineItems: LineItem[]) => Promise<string | null>;
           isLoading: boolean;
           error: string | null;
         }) =>
@@ -0,0 +1,243 @@
+import { useEffect } from 'react';
+import type { ServiceAPI } from '@wix/services-definitions';
+import { useService, WixServices } from '@wix/services-manager-react';
+import { createServicesMap } from '@wix/services-manager';
+import {
+  WishlistService,
+  WishlistServiceDefinition,
+  getItemId,
+  type WishlistEntry,
+  type WishlistServiceConfig,
+} from '../../services/wishlist-service.js';
+import { SelectedVariantServiceDefinition } from '../../services/selected-variant-service.js';
+import { ProductModifiersServiceDefinition } from '../../services/product-modifiers-service.js';
+
+/**
+ * Props for Root headless component
+ */
+export interface RootProps {
+  /** Child components that will have access to the Wishlist service */
+  children: React.ReactNode;
+  /** Configuration for the Wishlist service */
+  wishlistConfig?: WishlistServiceConfig;
+}
+
+/**
+ * Root component that provides the Wishlist service context to its children.
+ * Requires the CurrentCart service, e.g. from Commerce.Root, for moving items to the cart.
+ *
+ * @order 1
+ * @component
+ * @example
+ * ```tsx
+ * import { Wishlist } from '@wix/stores/components';
+ *
+ * function App({ memberStore }) {
+ *   return (
+ *     <Wishlist.Root wishlistConfig={{ memberStore }}>
+ *       <Store />
+ *     </Wishlist.Root>
+ *   );
+ * }
+ * ```
+ */
+export function Root(props: RootProps): React.ReactNode {
+  return (
+    <WixServices
+      servicesMap={createServicesMap().addService(
+        WishlistServiceDefinition,
+        WishlistService,
+        props.wishlistConfig ?? {},
+      )}
+    >
+      <RestoreItemsEffect />
+      {props.children}
+    </WixServices>
+  );
+}
+
+/**
+ * Restores the wishlist kept in the browser, or the member's wishlist, once mounted
+ */
+function RestoreItemsEffect(): null {
+  const { restoreItems } = useService(WishlistServiceDefinition);
+
+  useEffect(() => restoreItems(), [restoreItems]);
+
+  return null;
+}
+
+/**
+ * Props for AddToWishlist headless component
+ */
+export interface AddToWishlistProps {
+  /** Content to display (can be a render function receiving the wishlist controls or ReactNode) */
+  children:
+    | ((props: AddToWishlistRenderProps) => React.ReactNode)
+    | React.ReactNode;
+}
+
+/**
+ * Render props for AddToWishlist component
+ */
+export interface AddToWishlistRenderProps {
+  /** Whether the selected variant is in the wishlist */
+  isInWishlist: boolean;
+  /** Function to add the selected variant to the wishlist */
+  addToWishlist: () => Promise<void>;
+  /** Function to remove the selected variant from the wishlist */
+  removeFromWishlist: () => Promise<void>;
+  /** Function to add the selected variant to the wishlist, or remove it */
+  toggle: () => Promise<void>;
+  /** Whether the wishlist is currently being loaded or saved */
+  isLoading: boolean;
+}
+
+/**
+ * Headless component for adding the selected product variant to the wishlist.
+ * Must be used within Product.Root.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * import { Wishlist } from '@wix/stores/components';
+ *
+ * function WishlistButton() {
+ *   return (
+ *     <Wishlist.AddToWishlist>
+ *       {({ isInWishlist, toggle }) => (
+ *         <button onClick={toggle} aria-pressed={isInWishlist}>
+ *           {isInWishlist ? '♥' : '♡'}
+ *         </button>
+ *       )}
+ *     </Wishlist.AddToWishlist>
+ *   );
+ * }
+ * ```
+ */
+export function AddToWishlist(props: AddToWishlistProps) {
+  const variantService = useService(
+    SelectedVariantServiceDefinition,
+  ) as ServiceAPI<typeof SelectedVariantServiceDefinition>;
+  const wishlistService = useService(WishlistServiceDefinition);
+
+  // Try to get modifiers service - it may not exist for all products
+  let modifiersService: ServiceAPI<
+    typeof ProductModifiersServiceDefinition
+  > | null = null;
+  try {
+    modifiersService = useService(
+      ProductModifiersServiceDefinition,
+    ) as ServiceAPI<typeof ProductModifiersServiceDefinition>;
+  } catch {
+    // Modifiers service not available for this product
+    modifiersService = null;
+  }
+
+  const product = variantService.product.get();
+  const selectedChoices = variantService.selectedChoices.get();
+  const variantId = variantService.selectedVariantId.get();
+  const productId = product?._id ?? '';
+
+  const isInWishlist = wishlistService.isInWishlist(productId, selectedChoices);
+
+  const addToWishlist = async () => {
+    if (!product) return;
+    await wishlistService.addItem({
+      product,
+      variantId,
+      selectedChoices,
+      modifiers: modifiersService?.selectedModifiers.get(),
+    });
+  };
+
+  const removeFromWishlist = async () => {
+    await wishlistService.removeItem(getItemId({ productId, selectedChoices }));
+  };
+
+  return typeof props.children === 'function'
+    ? props.children({
+        isInWishlist,
+        addToWishlist,
+        removeFromWishlist,
+        toggle: isInWishlist ? removeFromWishlist : addToWishlist,
+        isLoading: wishlistService.isLoading.get(),
+      })
+    : props.children;
+}
+
+/**
+ * Props for Items headless component
+ */
+export interface ItemsProps {
+  /** Content to display (can be a render function receiving the wishlist items or ReactNode) */
+  children: ((props: ItemsRenderProps) => React.ReactNode) | React.ReactNode;
+}
+
+/**
+ * Render props for Items component
+ */
+export interface ItemsRenderProps {
+  /** Wishlist items with their product data, most recently added first */
+  items: WishlistEntry[];
+  /** Whether the wishlist has items */
+  hasItems: boolean;
+  /** Whether the wishlist is stored in the member's account */
+  isMemberWishlist: boolean;
+  /** Whether the wishlist is currently being loaded or saved */
+  isLoading: boolean;
+  /** Error message, if loading, saving or moving an item failed */
+  error: string | null;
+  /** Function to remove an item from the wishlist */
+  removeItem: (itemId: string) => Promise<void>;
+  /** Function to add an item to the cart and remove it from the wishlist */
+  moveToCart: (itemId: string, quantity?: number) => Promise<void>;
+  /** Function to remove all items from the wishlist */
+  clear: () => Promise<void>;
+}
+
+/**
+ * Headless component for the wishlist items
+ *
+ * @component
+ * @example
+ * ```tsx
+ * import { Wishlist } from '@wix/stores/components';
+ *
+ * function WishlistPage() {
+ *   return (
+ *     <Wishlist.Items>
+ *       {({ items, moveToCart, removeItem }) => (
+ *         <ul>
+ *           {items.map((item) => (
+ *             <li key={item.id}>
+ *               {item.product?.name} {Object.values(item.selectedChoices).join(' / ')}
+ *               <button onClick={() => moveToCart(item.id)}>Move to cart</button>
+ *               <button onClick={() => removeItem(item.id)}>Remove</button>
+ *             </li>
+ *           ))}
+ *         </ul>
+ *       )}
+ *     </Wishlist.Items>
+ *   );
+ * }
+ * ```
+ */
+export function Items(props: ItemsProps) {
+  const service = useService(WishlistServiceDefinition);
+
+  const items = service.entries.get();
+
+  return typeof props.children === 'function'
+    ? props.children({
+        items,
+        hasItems: items.length > 0,
+        isMemberWishlist: service.isMemberWishlist.get(),
+        isLoading: service.isLoading.get(),
+        error: service.error.get(),
+        removeItem: service.removeItem,
+        moveToCart: service.moveToCart,
+        clear: service.clear,
+      })
+    : props.children;
+}
@@ -4,3 +4,8 @@ export * as Option from './Option.js';
 export * as Choice from './Choice.js';
 export * as CategoryList from './CategoryList.js';
 export * as Category from './Category.js';
+export * as RecentlyViewed from './RecentlyViewed.js';
+export * as Compare from './Compare.js';
+export * as Wishlist from './Wishlist.js';
+export * as BackInStock from './BackInStock.js';
+export * as ProductBundle from './ProductBundle.js';
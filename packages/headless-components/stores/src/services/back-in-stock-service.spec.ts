@@ -0,0 +1,175 @@
+import {
+  createServicesManager,
+  createServicesMap,
+} from '@wix/services-manager';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  BackInStockService,
+  BackInStockServiceDefinition,
+  type BackInStockServiceConfig,
+} from './back-in-stock-service.js';
+
+const STORAGE_KEY = 'wix-stores-back-in-stock';
+
+const aRequest = {
+  productId: 'product-1',
+  variantId: 'variant-1',
+  selectedChoices: { Size: 'M' },
+  productName: 'T-Shirt',
+};
+
+describe('BackInStockService', () => {
+  const createServiceInstance = (
+    config: Partial<BackInStockServiceConfig> = {},
+  ) => {
+    const servicesManager = createServicesManager(
+      createServicesMap().addService(
+        BackInStockServiceDefinition,
+        BackInStockService,
+        {
+          submitHandler: vi.fn(async () => {}),
+          ...config,
+        },
+      ),
+    );
+
+    return servicesManager.getService(BackInStockServiceDefinition);
+  };
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  describe('submitRequest', () => {
+    it('rejects an invalid email address without submitting', async () => {
+      const submitHandler = vi.fn(async () => {});
+      const service = createServiceInstance({ submitHandler });
+
+      service.setEmail('shopper@example');
+      await service.submitRequest(aRequest);
+
+      expect(submitHandler).not.toHaveBeenCalled();
+      expect(service.requestStates.get()['product-1:variant-1']).toEqual({
+        status: 'error',
+        error: 'Please enter a valid email address',
+      });
+    });
+
+    it('clears the validation error once the email address changes', async () => {
+      const service = createServiceInstance();
+
+      service.setEmail('shopper');
+      await service.submitRequest(aRequest);
+      service.setEmail('shopper@example.com');
+
+      expect(service.requestStates.get()).toEqual({});
+    });
+
+    it('submits the trimmed email address and marks the variant as requested', async () => {
+      const submitHandler = vi.fn(async () => {});
+      const service = createServiceInstance({ submitHandler });
+
+      service.setEmail('  shopper@example.com ');
+      await service.submitRequest(aRequest);
+
+      expect(submitHandler).toHaveBeenCalledWith({
+        ...aRequest,
+        email: 'shopper@example.com',
+      });
+      expect(service.requestStates.get()['product-1:variant-1']).toEqual({
+        status: 'submitted',
+      });
+      expect(service.hasRequested('product-1', 'variant-1')).toBe(true);
+    });
+
+    it('does not submit the same variant twice for the same email address', async () => {
+      const submitHandler = vi.fn(async () => {});
+      const service = createServiceInstance({ submitHandler });
+
+      service.setEmail('shopper@example.com');
+      await service.submitRequest(aRequest);
+      service.setEmail('SHOPPER@example.com');
+      await service.submitRequest(aRequest);
+
+      expect(submitHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores a request for a variant while it is being submitted', async () => {
+      let resolveSubmission: () => void = () => {};
+      const submitHandler = vi.fn(
+        () =>
+          new Promise<void>((resolve) => {
+            resolveSubmission = resolve;
+          }),
+      );
+      const service = createServiceInstance({ submitHandler });
+
+      service.setEmail('shopper@example.com');
+      const submission = service.submitRequest(aRequest);
+      await service.submitRequest(aRequest);
+      resolveSubmission();
+      await submission;
+
+      expect(submitHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('sets the error and allows a retry when the submission fails', async () => {
+      const submitHandler = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Service unavailable'))
+        .mockResolvedValueOnce(undefined);
+      const service = createServiceInstance({ submitHandler });
+
+      service.setEmail('shopper@example.com');
+      await service.submitRequest(aRequest);
+
+      expect(service.requestStates.get()['product-1:variant-1']).toEqual({
+        status: 'error',
+        error: 'Service unavailable',
+      });
+
+      await service.submitRequest(aRequest);
+
+      expect(submitHandler).toHaveBeenCalledTimes(2);
+      expect(service.hasRequested('product-1', 'variant-1')).toBe(true);
+    });
+  });
+
+  describe('rememberRequests', () => {
+    it('keeps nothing in localStorage by default', async () => {
+      const service = createServiceInstance();
+
+      service.setEmail('shopper@example.com');
+      await service.submitRequest(aRequest);
+
+      expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+
+    it('restores the remembered email address and requests once restored', async () => {
+      const submitHandler = vi.fn(async () => {});
+      const firstVisit = createServiceInstance({
+        submitHandler,
+        rememberRequests: true,
+      });
+      firstVisit.setEmail('shopper@example.com');
+      await firstVisit.submitRequest(aRequest);
+
+      const service = createServiceInstance({
+        submitHandler,
+        rememberRequests: true,
+      });
+
+      expect(service.email.get()).toBe('');
+
+      service.restoreRequests();
+
+      expect(service.email.get()).toBe('shopper@example.com');
+      expect(service.hasRequested('product-1', 'variant-1')).toBe(true);
+
+      await service.submitRequest(aRequest);
+
+      expect(submitHandler).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,313 @@
+import { defineService, implementService } from '@wix/services-definitions';
+import {
+  SignalsServiceDefinition,
+  type Signal,
+} from '@wix/services-definitions/core-services/signals';
+
+const DEFAULT_STORAGE_KEY = 'wix-stores-back-in-stock';
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * A request to be notified when a product variant is back in stock.
+ */
+export interface BackInStockRequest {
+  /** Email address to notify */
+  email: string;
+  /** ID of the out-of-stock product */
+  productId: string;
+  /** ID of the out-of-stock variant, if the product has variants */
+  variantId?: string;
+  /** Selected choices of the variant, keyed by option name */
+  selectedChoices: Record<string, string>;
+  /** Name of the product, for the notification message */
+  productName?: string;
+}
+
+/**
+ * Submission state of a back-in-stock request for a variant.
+ */
+export interface BackInStockRequestState {
+  status: 'submitting' | 'submitted' | 'error';
+  /** Error message, when the submission failed */
+  error?: string;
+}
+
+/**
+ * Configuration interface for the Back In Stock service.
+ *
+ * @interface BackInStockServiceConfig
+ */
+export type BackInStockServiceConfig = {
+  /** Handler that delivers the request, e.g. to your own backend or an automation */
+  submitHandler: (request: BackInStockRequest) => Promise<void>;
+  /**
+   * Whether to keep the email address and the submitted requests in localStorage, to prefill the email
+   * and skip repeated requests in later visits. Defaults to false, since the email address is personal data
+   */
+  rememberRequests?: boolean;
+  /** localStorage key for the remembered requests. Defaults to 'wix-stores-back-in-stock' */
+  storageKey?: string;
+};
+
+/**
+ * Service definition for the Back In Stock service.
+ * This defines the reactive API contract for back-in-stock notification requests.
+ *
+ * @constant
+ */
+export const BackInStockServiceDefinition = defineService<
+  {
+    /** Reactive signal containing the email address entered by the shopper */
+    email: Signal<string>;
+    /** Reactive signal containing the submission state of each variant's request, keyed by `getVariantKey` */
+    requestStates: Signal<Record<string, BackInStockRequestState>>;
+    /** Function to update the email address */
+    setEmail: (email: string) => void;
+    /** Function to submit a request for a variant with the current email address */
+    submitRequest: (
+      request: Omit<BackInStockRequest, 'email'>,
+    ) => Promise<void>;
+    /** Function to check if the current email address already requested a notification for a variant */
+    hasRequested: (productId: string, variantId?: string | null) => boolean;
+    /**
+     * Function to read the requests remembered in localStorage, when `rememberRequests` is enabled.
+     * Called once mounted, so the server and the first client render start from an empty email address
+     */
+    restoreRequests: () => void;
+  },
+  BackInStockServiceConfig
+>('back-in-stock');
+
+/**
+ * Implementation of the Back In Stock service.
+ * Validates the email address, skips requests already made for the same variant and email,
+ * and delivers new requests through the configured `submitHandler`. With `rememberRequests`,
+ * the email address and the submitted requests are kept for later visits and restored once mounted.
+ *
+ * @example
+ * ```tsx
+ * import { BackInStockService, BackInStockServiceDefinition } from '@wix/stores/services';
+ *
+ * const servicesMap = createServicesMap().addService(
+ *   BackInStockServiceDefinition,
+ *   BackInStockService,
+ *   {
+ *     submitHandler: async (request) => {
+ *       await fetch('/api/back-in-stock', {
+ *         method: 'POST',
+ *         body: JSON.stringify(request),
+ *       });
+ *     },
+ *   },
+ * );
+ * ```
+ */
+export const BackInStockService =
+  implementService.withConfig<BackInStockServiceConfig>()(
+    BackInStockServiceDefinition,
+    ({ getService, config }) => {
+      const signalsService = getService(SignalsServiceDefinition);
+
+      const storageKey = config.storageKey ?? DEFAULT_STORAGE_KEY;
+      let hasRestoredRequests = false;
+
+      const emailSignal = signalsService.signal<string>('');
+      const requestStatesSignal = signalsService.signal<
+        Record<string, BackInStockRequestState>
+      >({});
+      const submittedKeysSignal = signalsService.signal<string[]>([]);
+
+      const restoreRequests = () => {
+        if (
+          hasRestoredRequests ||
+          !config.rememberRequests ||
+          typeof window === 'undefined'
+        ) {
+          return;
+        }
+
+        hasRestoredRequests = true;
+        const stored = readStoredRequests(storageKey);
+
+        // Keep an email address entered before the restore
+        if (!emailSignal.peek()) {
+          emailSignal.set(stored.email);
+        }
+        submittedKeysSignal.set([
+          ...new Set([...stored.requestKeys, ...submittedKeysSignal.peek()]),
+        ]);
+      };
+
+      const setRequestState = (
+        requestKey: string,
+        state: BackInStockRequestState,
+      ) => {
+        requestStatesSignal.set({
+          ...requestStatesSignal.peek(),
+          [requestKey]: state,
+        });
+      };
+
+      return {
+        email: emailSignal,
+        requestStates: requestStatesSignal,
+        setEmail: (email: string) => {
+          emailSignal.set(email);
+
+          // Errors refer to the previous email address
+          const requestStates = requestStatesSignal.peek();
+          if (
+            Object.values(requestStates).some(
+              (state) => state.status === 'error',
+            )
+          ) {
+            requestStatesSignal.set(
+              Object.fromEntries(
+                Object.entries(requestStates).filter(
+                  ([, state]) => state.status !== 'error',
+                ),
+              ),
+            );
+          }
+        },
+        submitRequest: async (request: Omit<BackInStockRequest, 'email'>) => {
+          restoreRequests();
+
+          const email = emailSignal.peek().trim();
+          const variantKey = getVariantKey(
+            request.productId,
+            request.variantId,
+          );
+          const requestKey = getRequestKey(variantKey, email);
+
+          if (!isValidEmail(email)) {
+            setRequestState(variantKey, {
+              status: 'error',
+              error: 'Please enter a valid email address',
+            });
+            return;
+          }
+
+          if (submittedKeysSignal.peek().includes(requestKey)) {
+            setRequestState(variantKey, { status: 'submitted' });
+            return;
+          }
+
+          if (requestStatesSignal.peek()[variantKey]?.status === 'submitting') {
+            return;
+          }
+
+          try {
+            setRequestState(variantKey, { status: 'submitting' });
+
+            await config.submitHandler({
+              ...request,
+              variantId:
+                request.variantId && request.variantId !== 'default'
+                  ? request.variantId
+                  : undefined,
+              email,
+            });
+
+            const submittedKeys = [...submittedKeysSignal.peek(), requestKey];
+            submittedKeysSignal.set(submittedKeys);
+            if (config.rememberRequests) {
+              writeStoredRequests(storageKey, {
+                email,
+                requestKeys: submittedKeys,
+              });
+            }
+            setRequestState(variantKey, { status: 'submitted' });
+          } catch (error) {
+            setRequestState(variantKey, {
+              status: 'error',
+              error:
+                error instanceof Error
+                  ? error.message
+                  : 'Failed to submit back-in-stock request',
+            });
+          }
+        },
+        hasRequested: (productId: string, variantId?: string | null) =>
+          submittedKeysSignal
+            .get()
+            .includes(
+              getRequestKey(
+                getVariantKey(productId, variantId),
+                emailSignal.get().trim(),
+              ),
+            ),
+        restoreRequests,
+      };
+    },
+  );
+
+/**
+ * Checks whether an email address is well-formed.
+ *
+ * @param email - The email address to check
+ * @returns True if the email address is valid
+ */
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email.trim());
+}
+
+/**
+ * Returns the key under which the request state of a variant is kept in `requestStates`.
+ *
+ * @param productId - The product ID
+ * @param variantId - The variant ID, if the product has variants
+ * @returns The variant key
+ */
+export function getVariantKey(
+  productId: string,
+  variantId?: string | null,
+): string {
+  return variantId && variantId !== 'default'
+    ? `${productId}:${variantId}`
+    : productId;
+}
+
+/**
+ * @private
+ */
+function getRequestKey(variantKey: string, email: string): string {
+  return `${variantKey}:${email.toLowerCase()}`;
+}
+
+type StoredRequests = {
+  /** Last email address a request was submitted with */
+  email: string;
+  /** Keys of the submitted requests */
+  requestKeys: string[];
+};
+
+function readStoredRequests(storageKey: string): StoredRequests {
+  const empty: StoredRequests = { email: '', requestKeys: [] };
+  if (typeof window === 'undefined') return empty;
+
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(storageKey) ?? '{}');
+    return {
+      email: typeof stored?.email === 'string' ? stored.email : '',
+      requestKeys: Array.isArray(stored?.requestKeys)
+        ? stored.requestKeys.filter((key: unknown) => typeof key === 'string')
+        : [],
+    };
+  } catch {
+    return empty;
+  }
+}
+
+function writeStoredRequests(
+  storageKey: string,
+  storedRequests: StoredRequests,
+): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(storedRequests));
+  } catch (error) {
+    console.error('Failed to persist back-in-stock requests:', error);
+  }
+}
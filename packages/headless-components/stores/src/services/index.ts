@@ -19,6 +19,7 @@ export {
 export {
   SelectedVariantService,
   SelectedVariantServiceDefinition,
+  createCatalogReference,
 } from './selected-variant-service.js';
 
 export {
@@ -32,5 +33,56 @@ export {
   SortType,
   InitialSearchState,
   parseUrlToSearchOptions,
+  serializeSearchOptionsToUrlParams,
   convertUrlSortToSortType,
+  getOptionChoiceCounts,
 } from './products-list-service.js';
+
+export {
+  ProductSearchSuggestionsService,
+  ProductSearchSuggestionsServiceDefinition,
+  ProductSearchSuggestionsServiceConfig,
+} from './product-search-suggestions-service.js';
+
+export {
+  RecentlyViewedService,
+  RecentlyViewedServiceDefinition,
+  RecentlyViewedServiceConfig,
+} from './recently-viewed-service.js';
+
+export {
+  ProductCompareService,
+  ProductCompareServiceDefinition,
+  ProductCompareServiceConfig,
+  CompareAttribute,
+  CompareAttributeGroup,
+  CompareAttributeValue,
+  buildCompareAttributes,
+} from './product-compare-service.js';
+
+export {
+  WishlistService,
+  WishlistServiceDefinition,
+  WishlistServiceConfig,
+  WishlistItem,
+  WishlistEntry,
+  WishlistMemberStore,
+} from './wishlist-service.js';
+
+export {
+  BackInStockService,
+  BackInStockServiceDefinition,
+  BackInStockServiceConfig,
+  BackInStockRequest,
+  BackInStockRequestState,
+} from './back-in-stock-service.js';
+
+export {
+  ProductBundleService,
+  ProductBundleServiceDefinition,
+  ProductBundleServiceConfig,
+  ProductBundleMember,
+  ProductBundleMemberConfig,
+  ProductBundleMemberIssue,
+  ProductBundleTotals,
+} from './product-bundle-service.js';
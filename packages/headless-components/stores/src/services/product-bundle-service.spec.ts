@@ -0,0 +1,211 @@
+import { implementService } from '@wix/services-definitions';
+import {
+  createServicesManager,
+  createServicesMap,
+} from '@wix/services-manager';
+import { CurrentCartServiceDefinition } from '@wix/headless-ecom/services';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { productsV3 } from '@wix/stores';
+import {
+  ProductBundleService,
+  ProductBundleServiceDefinition,
+} from './product-bundle-service.js';
+
+type LineItem = {
+  _id: string;
+  quantity: number;
+  productName: { original: string };
+  catalogReference: { catalogItemId: string };
+};
+
+const aProduct = (id: string, name: string): productsV3.V3Product => ({
+  _id: id,
+  name,
+  actualPriceRange: { minValue: { amount: '10' } },
+  inventory: { availabilityStatus: 'IN_STOCK' as any },
+});
+
+const tent = aProduct('tent', 'Tent');
+const lantern = aProduct('lantern', 'Lantern');
+
+const aLineItem = (
+  product: productsV3.V3Product,
+  quantity: number,
+): LineItem => ({
+  _id: `line-${product._id}`,
+  quantity,
+  productName: { original: product.name! },
+  catalogReference: { catalogItemId: product._id! },
+});
+
+/**
+ * A cart service whose server-confirmed line items are replaced by each add, and whose
+ * optimistic cart may differ from them while line item changes are pending
+ */
+const createCartService = (initialLineItems: LineItem[] = []) => {
+  let confirmedLineItems = initialLineItems;
+  let optimisticLineItems: LineItem[] | null = null;
+  let mutationError: { message: string } | null = null;
+
+  return {
+    cart: {
+      peek: () => ({ lineItems: optimisticLineItems ?? confirmedLineItems }),
+    },
+    error: { peek: () => null },
+    mutationError: { peek: () => mutationError },
+    getConfirmedCart: () => ({ lineItems: confirmedLineItems }),
+    addToCart: vi.fn(async () => {}),
+    showAddedLineItem: vi.fn(),
+    removeLineItem: vi.fn(async (lineItemId: string) => {
+      mutationError = null;
+      confirmedLineItems = confirmedLineItems.filter(
+        (lineItem) => lineItem._id !== lineItemId,
+      );
+    }),
+    updateLineItemQuantity: vi.fn(
+      async (lineItemId: string, quantity: number) => {
+        mutationError = null;
+        confirmedLineItems = confirmedLineItems.map((lineItem) =>
+          lineItem._id === lineItemId ? { ...lineItem, quantity } : lineItem,
+        );
+      },
+    ),
+    /** Sets the line items the next add returns */
+    acceptAdd(lineItems: LineItem[]) {
+      this.addToCart.mockImplementationOnce(async () => {
+        confirmedLineItems = lineItems;
+      });
+    },
+    setOptimisticLineItems(lineItems: LineItem[]) {
+      optimisticLineItems = lineItems;
+    },
+    rejectLineItemChanges() {
+      const reject = async () => {
+        mutationError = { message: 'Failed to remove item' };
+      };
+      this.removeLineItem.mockImplementation(reject);
+      this.updateLineItemQuantity.mockImplementation(reject);
+    },
+  };
+};
+
+describe('ProductBundleService', () => {
+  const createServiceInstance = (
+    cartService: ReturnType<typeof createCartService>,
+  ) => {
+    const servicesManager = createServicesManager(
+      createServicesMap()
+        .addService(
+          CurrentCartServiceDefinition,
+          implementService(
+            CurrentCartServiceDefinition,
+            () => cartService as any,
+          ),
+        )
+        .addService(ProductBundleServiceDefinition, ProductBundleService, {
+          members: [{ product: tent }, { product: lantern, quantity: 2 }],
+        }),
+    );
+
+    return servicesManager.getService(ProductBundleServiceDefinition);
+  };
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('addToCart', () => {
+    it('adds all members in a single request', async () => {
+      const cartService = createCartService();
+      cartService.acceptAdd([aLineItem(tent, 1), aLineItem(lantern, 2)]);
+      const service = createServiceInstance(cartService);
+
+      await service.addToCart();
+
+      expect(cartService.addToCart).toHaveBeenCalledTimes(1);
+      expect(
+        cartService.addToCart.mock.calls[0]![0].map(
+          (lineItem: any) => lineItem.quantity,
+        ),
+      ).toEqual([1, 2]);
+      expect(cartService.removeLineItem).not.toHaveBeenCalled();
+      expect(service.error.get()).toBeNull();
+    });
+
+    it('shows the last added line item once the whole bundle is in the cart', async () => {
+      const cartService = createCartService();
+      cartService.acceptAdd([aLineItem(tent, 1), aLineItem(lantern, 2)]);
+      const service = createServiceInstance(cartService);
+
+      await service.addToCart();
+
+      expect(cartService.addToCart).toHaveBeenCalledWith(expect.any(Array), {
+        showAddedLineItem: false,
+      });
+      expect(cartService.showAddedLineItem).toHaveBeenCalledWith(
+        'line-lantern',
+      );
+    });
+
+    it('removes the accepted lines and reports the rejected members when the cart accepts only some of them', async () => {
+      const cartService = createCartService();
+      cartService.acceptAdd([aLineItem(tent, 1)]);
+      const service = createServiceInstance(cartService);
+
+      await service.addToCart();
+
+      expect(cartService.removeLineItem).toHaveBeenCalledWith('line-tent');
+      expect(cartService.getConfirmedCart().lineItems).toEqual([]);
+      expect(service.failedMemberIds.get()).toEqual(['lantern']);
+      expect(service.error.get()).toBe(
+        "Couldn't add Lantern to the cart, so the bundle wasn't added",
+      );
+      expect(cartService.showAddedLineItem).not.toHaveBeenCalled();
+    });
+
+    it('restores the quantity of a line that was already in the cart', async () => {
+      const cartService = createCartService([aLineItem(tent, 1)]);
+      cartService.acceptAdd([aLineItem(tent, 2), aLineItem(lantern, 1)]);
+      const service = createServiceInstance(cartService);
+
+      await service.addToCart();
+
+      expect(cartService.updateLineItemQuantity).toHaveBeenCalledWith(
+        'line-tent',
+        1,
+      );
+      expect(cartService.removeLineItem).toHaveBeenCalledWith('line-lantern');
+      expect(cartService.getConfirmedCart().lineItems).toEqual([
+        aLineItem(tent, 1),
+      ]);
+      expect(service.failedMemberIds.get()).toEqual(['lantern']);
+    });
+
+    it('compares the confirmed carts, ignoring quantity changes still pending', async () => {
+      const cartService = createCartService([aLineItem(tent, 1)]);
+      cartService.setOptimisticLineItems([aLineItem(tent, 3)]);
+      cartService.acceptAdd([aLineItem(tent, 2), aLineItem(lantern, 2)]);
+      const service = createServiceInstance(cartService);
+
+      await service.addToCart();
+
+      expect(cartService.removeLineItem).not.toHaveBeenCalled();
+      expect(cartService.updateLineItemQuantity).not.toHaveBeenCalled();
+      expect(service.error.get()).toBeNull();
+    });
+
+    it('reports the lines the cart refused to remove again', async () => {
+      const cartService = createCartService();
+      cartService.acceptAdd([aLineItem(tent, 1)]);
+      cartService.rejectLineItemChanges();
+      const service = createServiceInstance(cartService);
+
+      await service.addToCart();
+
+      expect(service.failedMemberIds.get()).toEqual(['lantern']);
+      expect(service.error.get()).toBe(
+        "Couldn't add Lantern to the cart, and couldn't remove Tent from it again",
+      );
+    });
+  });
+});
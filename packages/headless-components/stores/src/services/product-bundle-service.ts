@@ -0,0 +1,669 @@
+import { defineService, implementService } from '@wix/services-definitions';
+import {
+  SignalsServiceDefinition,
+  type Signal,
+  type ReadOnlySignal,
+} from '@wix/services-definitions/core-services/signals';
+import * as productsV3 from '@wix/auto_sdk_stores_products-v-3';
+import { CurrentCartServiceDefinition } from '@wix/headless-ecom/services';
+import type { ModifierValue } from './product-modifiers-service.js';
+import { createCatalogReference } from './selected-variant-service.js';
+
+/**
+ * A product that is part of a bundle, with its initial selection.
+ */
+export interface ProductBundleMemberConfig {
+  /** The product */
+  product: productsV3.V3Product;
+  /** Quantity to add to the cart. Defaults to 1 */
+  quantity?: number;
+  /** Initially selected choices, keyed by option name */
+  selectedChoices?: Record<string, string>;
+  /** Whether the shopper can leave the product out, as in "frequently bought together". Defaults to false */
+  isOptional?: boolean;
+  /** Whether an optional product is initially included. Defaults to true */
+  isSelected?: boolean;
+}
+
+/**
+ * Reason a bundle member can't be added to the cart:
+ * - `choices-required`: a choice wasn't selected for every option
+ * - `out-of-stock`: the selected variant is out of stock and can't be pre-ordered
+ * - `modifiers-required`: a required modifier wasn't filled
+ */
+export type ProductBundleMemberIssue =
+  | 'choices-required'
+  | 'out-of-stock'
+  | 'modifiers-required';
+
+/**
+ * The selection and state of a product in a bundle.
+ */
+export interface ProductBundleMember {
+  /** Identifier of the member within the bundle */
+  id: string;
+  /** The product */
+  product: productsV3.V3Product;
+  /** Selected choices, keyed by option name */
+  selectedChoices: Record<string, string>;
+  /** Selected modifiers, keyed by modifier name */
+  modifiers: Record<string, ModifierValue>;
+  /** Quantity to add to the cart */
+  quantity: number;
+  /** Whether the shopper can leave the product out */
+  isOptional: boolean;
+  /** Whether the product is included in the bundle */
+  isSelected: boolean;
+  /** The variant matching the selected choices, or null if none matches yet */
+  variant: productsV3.Variant | null;
+  /** Unit price of the selected variant */
+  price: number;
+  /** Unit compare-at price of the selected variant, or null if it isn't discounted */
+  compareAtPrice: number | null;
+  /** Why the product can't be added to the cart, or null if it can */
+  issue: ProductBundleMemberIssue | null;
+}
+
+/**
+ * Totals of the products included in a bundle.
+ */
+export interface ProductBundleTotals {
+  /** Sum of the included products' prices multiplied by their quantities */
+  subtotal: number;
+  /** Sum of the included products' compare-at prices (or prices, when not discounted) */
+  compareAtSubtotal: number;
+  /** Difference between the compare-at subtotal and the subtotal */
+  savings: number;
+  /** Number of units included in the bundle */
+  itemCount: number;
+  /** Currency code of the prices */
+  currency: string;
+  /** Formatted subtotal, e.g. "$120.00" */
+  formattedSubtotal: string;
+  /** Formatted compare-at subtotal */
+  formattedCompareAtSubtotal: string;
+  /** Formatted savings */
+  formattedSavings: string;
+}
+
+/**
+ * Configuration interface for the Product Bundle service.
+ *
+ * @interface ProductBundleServiceConfig
+ */
+export type ProductBundleServiceConfig = {
+  /** Products that make up the bundle */
+  members: ProductBundleMemberConfig[];
+};
+
+/**
+ * Service definition for the Product Bundle service.
+ * This defines the reactive API contract for selecting several products and adding them to the cart together.
+ *
+ * @constant
+ */
+export const ProductBundleServiceDefinition = defineService<
+  {
+    /** Reactive signal containing the bundle members with their selection, price and issue */
+    members: ReadOnlySignal<ProductBundleMember[]>;
+    /** Reactive signal containing the totals of the included members */
+    totals: ReadOnlySignal<ProductBundleTotals>;
+    /** Reactive signal indicating if at least one member is included and all included members can be added to the cart */
+    canAddToCart: ReadOnlySignal<boolean>;
+    /** Reactive signal containing the IDs of the members the cart rejected in the last add to cart */
+    failedMemberIds: Signal<string[]>;
+    /** Reactive signal indicating if the bundle is being added to the cart */
+    isLoading: Signal<boolean>;
+    /** Reactive signal containing any error message, or null if no error */
+    error: Signal<string | null>;
+    /** Function to select the choices of a member */
+    setSelectedChoices: (
+      memberId: string,
+      selectedChoices: Record<string, string>,
+    ) => void;
+    /** Function to select the modifiers of a member */
+    setModifiers: (
+      memberId: string,
+      modifiers: Record<string, ModifierValue>,
+    ) => void;
+    /** Function to update the quantity of a member */
+    setQuantity: (memberId: string, quantity: number) => void;
+    /** Function to include an optional member in the bundle, or leave it out */
+    setSelected: (memberId: string, isSelected: boolean) => void;
+    /** Function to create the cart line items of the included members */
+    createLineItems: () => Array<{ catalogReference: any; quantity: number }>;
+    /** Function to add all included members to the cart in a single request */
+    addToCart: () => Promise<void>;
+  },
+  ProductBundleServiceConfig
+>('product-bundle');
+
+type MemberSelection = Pick<
+  ProductBundleMember,
+  | 'id'
+  | 'product'
+  | 'selectedChoices'
+  | 'modifiers'
+  | 'quantity'
+  | 'isOptional'
+  | 'isSelected'
+>;
+
+/**
+ * Implementation of the Product Bundle service.
+ * Validates each included member (choices, stock and required modifiers) and adds all of them to the
+ * cart in one request. If the cart accepts only some of the lines, the accepted lines are removed
+ * again so the bundle is never partially added, and the rejected members are reported through
+ * `failedMemberIds` and `error`, along with any line the cart refused to remove.
+ *
+ * @example
+ * ```tsx
+ * import { ProductBundleService, ProductBundleServiceDefinition } from '@wix/stores/services';
+ *
+ * const servicesMap = createServicesMap().addService(
+ *   ProductBundleServiceDefinition,
+ *   ProductBundleService,
+ *   {
+ *     members: [
+ *       { product: tent },
+ *       { product: sleepingBag, quantity: 2 },
+ *       { product: lantern, isOptional: true },
+ *     ],
+ *   },
+ * );
+ * ```
+ */
+export const ProductBundleService =
+  implementService.withConfig<ProductBundleServiceConfig>()(
+    ProductBundleServiceDefinition,
+    ({ getService, config }) => {
+      const signalsService = getService(SignalsServiceDefinition);
+      const cartService = getService(CurrentCartServiceDefinition);
+
+      const selectionsSignal = signalsService.signal<MemberSelection[]>(
+        config.members.map((member, index) => ({
+          id: getMemberId(config.members, index),
+          product: member.product,
+          selectedChoices: member.selectedChoices ?? {},
+          modifiers: {},
+          quantity: Math.max(1, member.quantity ?? 1),
+          isOptional: member.isOptional ?? false,
+          isSelected: !member.isOptional || member.isSelected !== false,
+        })),
+      );
+      const failedMemberIdsSignal = signalsService.signal<string[]>([]);
+      const isLoadingSignal = signalsService.signal<boolean>(false);
+      const errorSignal = signalsService.signal<string | null>(null);
+
+      const members: ReadOnlySignal<ProductBundleMember[]> =
+        signalsService.computed(() =>
+          selectionsSignal.get().map((selection) => {
+            const variant = findVariant(
+              selection.product,
+              selection.selectedChoices,
+            );
+            const price = parsePrice(variant?.price?.actualPrice?.amount);
+            const compareAtPrice = parsePrice(
+              variant?.price?.compareAtPrice?.amount,
+            );
+
+            return {
+              ...selection,
+              variant,
+              price,
+              compareAtPrice: compareAtPrice > price ? compareAtPrice : null,
+              issue: getMemberIssue(selection, variant),
+            };
+          }),
+        );
+
+      const totals: ReadOnlySignal<ProductBundleTotals> =
+        signalsService.computed(() => {
+          const includedMembers = members
+            .get()
+            .filter((member) => member.isSelected);
+          const currency =
+            includedMembers.find((member) => member.product.currency)?.product
+              .currency || 'USD';
+
+          let subtotal = 0;
+          let compareAtSubtotal = 0;
+          let itemCount = 0;
+          for (const member of includedMembers) {
+            subtotal += member.price * member.quantity;
+            compareAtSubtotal +=
+              (member.compareAtPrice ?? member.price) * member.quantity;
+            itemCount += member.quantity;
+          }
+          const savings = Math.max(0, compareAtSubtotal - subtotal);
+
+          return {
+            subtotal,
+            compareAtSubtotal,
+            savings,
+            itemCount,
+            currency,
+            formattedSubtotal: formatCurrency(subtotal, currency),
+            formattedCompareAtSubtotal: formatCurrency(
+              compareAtSubtotal,
+              currency,
+            ),
+            formattedSavings: formatCurrency(savings, currency),
+          };
+        });
+
+      const canAddToCart: ReadOnlySignal<boolean> = signalsService.computed(
+        () => {
+          const includedMembers = members
+            .get()
+            .filter((member) => member.isSelected);
+          return (
+            includedMembers.length > 0 &&
+            includedMembers.every((member) => !member.issue)
+          );
+        },
+      );
+
+      const updateMember = (
+        memberId: string,
+        update: Partial<MemberSelection>,
+      ) => {
+        selectionsSignal.set(
+          selectionsSignal
+            .peek()
+            .map((selection) =>
+              selection.id === memberId
+                ? { ...selection, ...update }
+                : selection,
+            ),
+        );
+        failedMemberIdsSignal.set(
+          failedMemberIdsSignal.peek().filter((id) => id !== memberId),
+        );
+      };
+
+      const createLineItems = () =>
+        members
+          .peek()
+          .filter((member) => member.isSelected)
+          .map((member) => ({
+            catalogReference: createCatalogReference(
+              member.product,
+              member.variant,
+              member.modifiers,
+            ),
+            quantity: member.quantity,
+          }));
+
+      // Removes the lines the add created and restores the quantities it increased.
+      // Returns the line items the cart refused to roll back
+      const rollback = async (
+        previousLineItems: CartLineItem[],
+        updatedLineItems: CartLineItem[],
+      ): Promise<CartLineItem[]> => {
+        const failedLineItems: CartLineItem[] = [];
+        const previousQuantities = new Map(
+          previousLineItems.map((lineItem) => [
+            lineItem._id,
+            lineItem.quantity ?? 0,
+          ]),
+        );
+
+        for (const lineItem of updatedLineItems) {
+          if (!lineItem._id) continue;
+
+          const previousQuantity = previousQuantities.get(lineItem._id);
+          if (previousQuantity === undefined) {
+            await cartService.removeLineItem(lineItem._id);
+          } else if ((lineItem.quantity ?? 0) > previousQuantity) {
+            await cartService.updateLineItemQuantity(
+              lineItem._id,
+              previousQuantity,
+            );
+          } else {
+            continue;
+          }
+
+          // Rejected line item changes are reported through mutationError rather than thrown
+          if (cartService.mutationError.peek()) {
+            failedLineItems.push(lineItem);
+          }
+        }
+
+        return failedLineItems;
+      };
+
+      const addToCart = async () => {
+        const includedMembers = members
+          .peek()
+          .filter((member) => member.isSelected);
+        const invalidMember = includedMembers.find((member) => member.issue);
+
+        if (includedMembers.length === 0) {
+          errorSignal.set('Select at least one product');
+          return;
+        }
+        if (invalidMember) {
+          errorSignal.set(
+            `${invalidMember.product.name ?? 'A product'}: ${getIssueMessage(invalidMember.issue!)}`,
+          );
+          return;
+        }
+
+        try {
+          isLoadingSignal.set(true);
+          errorSignal.set(null);
+          failedMemberIdsSignal.set([]);
+
+          // Compare the carts returned by the server, not the optimistic cart with pending changes
+          const previousLineItems =
+            cartService.getConfirmedCart()?.lineItems ?? [];
+
+          // The added line item is only shown once the whole bundle made it to the cart
+          await cartService.addToCart(createLineItems(), {
+            showAddedLineItem: false,
+          });
+
+          const cartError = cartService.error.peek();
+          if (cartError) {
+            throw new Error(cartError);
+          }
+
+          const updatedLineItems =
+            cartService.getConfirmedCart()?.lineItems ?? [];
+          const failedMembers = findFailedMembers(
+            includedMembers,
+            previousLineItems,
+            updatedLineItems,
+          );
+          if (failedMembers.length === 0) {
+            cartService.showAddedLineItem(
+              findLastAddedLineItem(previousLineItems, updatedLineItems)?._id ??
+                null,
+            );
+            return;
+          }
+
+          const failedRollbackLineItems = await rollback(
+            previousLineItems,
+            updatedLineItems,
+          );
+
+          failedMemberIdsSignal.set(failedMembers.map((member) => member.id));
+          const failedMemberNames = failedMembers
+            .map((member) => member.product.name ?? 'a product')
+            .join(', ');
+          const failedRollbackNames = failedRollbackLineItems
+            .map((lineItem) => lineItem.productName?.original ?? 'a product')
+            .join(', ');
+          throw new Error(
+            failedRollbackLineItems.length === 0
+              ? `Couldn't add ${failedMemberNames} to the cart, so the bundle wasn't added`
+              : `Couldn't add ${failedMemberNames} to the cart, and couldn't remove ${failedRollbackNames} from it again`,
+          );
+        } catch (error) {
+          errorSignal.set(
+            error instanceof Error
+              ? error.message
+              : 'Failed to add bundle to cart',
+          );
+        } finally {
+          isLoadingSignal.set(false);
+        }
+      };
+
+      return {
+        members,
+        totals,
+        canAddToCart,
+        failedMemberIds: failedMemberIdsSignal,
+        isLoading: isLoadingSignal,
+        error: errorSignal,
+        setSelectedChoices: (memberId, selectedChoices) =>
+          updateMember(memberId, { selectedChoices }),
+        setModifiers: (memberId, modifiers) =>
+          updateMember(memberId, { modifiers }),
+        setQuantity: (memberId, quantity) =>
+          updateMember(memberId, { quantity: Math.max(1, quantity) }),
+        setSelected: (memberId, isSelected) => {
+          const selection = selectionsSignal
+            .peek()
+            .find((member) => member.id === memberId);
+          if (!selection?.isOptional) return;
+
+          updateMember(memberId, { isSelected });
+        },
+        createLineItems,
+        addToCart,
+      };
+    },
+  );
+
+type CartLineItem = {
+  _id?: string | null;
+  quantity?: number | null;
+  productName?: { original?: string | null } | null;
+  catalogReference?: {
+    catalogItemId?: string | null;
+    /** Stores options of the catalog item, including the ID of the selected variant */
+    options?: { variantId?: string | null; [key: string]: unknown } | null;
+  } | null;
+};
+
+/**
+ * Returns the identifier of a bundle member: the product ID, suffixed with its position when the
+ * same product appears more than once.
+ *
+ * @private
+ */
+function getMemberId(
+  members: ProductBundleMemberConfig[],
+  index: number,
+): string {
+  const productId = members[index]!.product._id ?? '';
+  const isDuplicated = members.some(
+    (member, otherIndex) =>
+      otherIndex !== index && member.product._id === productId,
+  );
+
+  return isDuplicated ? `${productId}-${index}` : productId;
+}
+
+/**
+ * Finds the variant matching the selected choices. Products without options have a single
+ * variant, built from the product's price and inventory when the product has no variants data.
+ *
+ * @private
+ */
+function findVariant(
+  product: productsV3.V3Product,
+  selectedChoices: Record<string, string>,
+): productsV3.Variant | null {
+  const variants = product.variantsInfo?.variants ?? [];
+  const options = product.options ?? [];
+
+  if (options.length === 0) {
+    return (
+      variants[0] ?? {
+        _id: 'default',
+        choices: [],
+        price: {
+          actualPrice: product.actualPriceRange?.minValue,
+          compareAtPrice: product.compareAtPriceRange?.minValue,
+        },
+        inventoryStatus: {
+          inStock:
+            product.inventory?.availabilityStatus ===
+              productsV3.InventoryAvailabilityStatus.IN_STOCK ||
+            product.inventory?.availabilityStatus ===
+              productsV3.InventoryAvailabilityStatus.PARTIALLY_OUT_OF_STOCK,
+          preorderEnabled: product.inventory?.preorderStatus === 'ENABLED',
+        },
+      }
+    );
+  }
+
+  if (!options.every((option) => selectedChoices[option.name ?? ''])) {
+    return null;
+  }
+
+  return (
+    variants.find((variant) =>
+      (variant.choices ?? []).every(
+        (choice) =>
+          selectedChoices[choice.optionChoiceNames?.optionName ?? ''] ===
+          choice.optionChoiceNames?.choiceName,
+      ),
+    ) ?? null
+  );
+}
+
+/**
+ * @private
+ */
+function getMemberIssue(
+  selection: MemberSelection,
+  variant: productsV3.Variant | null,
+): ProductBundleMemberIssue | null {
+  if (!variant) {
+    return 'choices-required';
+  }
+
+  if (
+    !variant.inventoryStatus?.inStock &&
+    !variant.inventoryStatus?.preorderEnabled
+  ) {
+    return 'out-of-stock';
+  }
+
+  const hasMissingModifier = (selection.product.modifiers ?? []).some(
+    (modifier) => {
+      if (!modifier.mandatory) return false;
+
+      const value = selection.modifiers[modifier.name ?? ''];
+      return modifier.modifierRenderType ===
+        productsV3.ModifierRenderType.FREE_TEXT
+        ? !value?.freeTextValue?.trim()
+        : !value?.choiceValue;
+    },
+  );
+
+  return hasMissingModifier ? 'modifiers-required' : null;
+}
+
+/**
+ * @private
+ */
+function getIssueMessage(issue: ProductBundleMemberIssue): string {
+  switch (issue) {
+    case 'choices-required':
+      return 'Please select all options';
+    case 'out-of-stock':
+      return 'Out of stock';
+    case 'modifiers-required':
+      return 'Please fill in all required fields';
+  }
+}
+
+/**
+ * Finds the members whose quantity didn't make it to the cart, by comparing the quantity of each
+ * product variant in the cart before and after adding the bundle.
+ *
+ * @private
+ */
+function findFailedMembers(
+  members: ProductBundleMember[],
+  previousLineItems: CartLineItem[],
+  updatedLineItems: CartLineItem[],
+): ProductBundleMember[] {
+  const getQuantities = (lineItems: CartLineItem[]) => {
+    const quantities = new Map<string, number>();
+    for (const lineItem of lineItems) {
+      const key = getVariantKey(
+        lineItem.catalogReference?.catalogItemId,
+        lineItem.catalogReference?.options?.variantId,
+      );
+      quantities.set(
+        key,
+        (quantities.get(key) ?? 0) + (lineItem.quantity ?? 0),
+      );
+    }
+    return quantities;
+  };
+
+  const previousQuantities = getQuantities(previousLineItems);
+  const updatedQuantities = getQuantities(updatedLineItems);
+
+  // Members of the same variant share the added quantity, in bundle order
+  const addedQuantities = new Map<string, number>();
+  for (const [key, quantity] of updatedQuantities) {
+    addedQuantities.set(key, quantity - (previousQuantities.get(key) ?? 0));
+  }
+
+  return members.filter((member) => {
+    const key = getVariantKey(member.product._id, member.variant?._id);
+    const addedQuantity = addedQuantities.get(key) ?? 0;
+    addedQuantities.set(key, addedQuantity - member.quantity);
+
+    return addedQuantity < member.quantity;
+  });
+}
+
+/**
+ * Finds the last line item adding the bundle created or increased.
+ *
+ * @private
+ */
+function findLastAddedLineItem(
+  previousLineItems: CartLineItem[],
+  updatedLineItems: CartLineItem[],
+): CartLineItem | undefined {
+  const previousQuantities = new Map(
+    previousLineItems.map((lineItem) => [lineItem._id, lineItem.quantity ?? 0]),
+  );
+
+  return [...updatedLineItems]
+    .reverse()
+    .find(
+      (lineItem) =>
+        (lineItem.quantity ?? 0) > (previousQuantities.get(lineItem._id) ?? 0),
+    );
+}
+
+/**
+ * @private
+ */
+function getVariantKey(
+  productId?: string | null,
+  variantId?: string | null,
+): string {
+  return variantId && variantId !== 'default'
+    ? `${productId}:${variantId}`
+    : `${productId}`;
+}
+
+/**
+ * @private
+ */
+function parsePrice(amount?: string | null): number {
+  if (!amount) return 0;
+  const parsed = parseFloat(amount);
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * Helper function to format currency properly
+ *
+ * @private
+ */
+function formatCurrency(amount: number, currencyCode: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currencyCode,
+    }).format(amount);
+  } catch {
+    // Fallback if currency code is invalid
+    return `${amount.toFixed(2)} ${currencyCode}`;
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  createServicesManager,
+  createServicesMap,
+} from '@wix/services-manager';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ProductCompareService,
+  ProductCompareServiceDefinition,
+  type ProductCompareServiceConfig,
+} from './product-compare-service.js';
+
+vi.mock('@wix/stores', () => ({
+  productsV3: {
+    searchProducts: vi.fn(),
+  },
+}));
+
+import { productsV3 } from '@wix/stores';
+
+const STORAGE_KEY = 'wix-stores-compare';
+
+const aProduct = (id: string): productsV3.V3Product => ({
+  _id: id,
+  name: `Product ${id}`,
+});
+
+const storedProductIds = () =>
+  JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? '[]');
+
+describe('ProductCompareService', () => {
+  const createServiceInstance = (config: ProductCompareServiceConfig = {}) => {
+    const servicesManager = createServicesManager(
+      createServicesMap().addService(
+        ProductCompareServiceDefinition,
+        ProductCompareService,
+        config,
+      ),
+    );
+
+    return servicesManager.getService(ProductCompareServiceDefinition);
+  };
+
+  beforeEach(() => {
+    // Serve every requested product
+    vi.mocked(productsV3.searchProducts).mockImplementation(
+      async (search) =>
+        ({
+          products: (search?.filter?._id as { $in: string[] }).$in.map(
+            aProduct,
+          ),
+        }) as any,
+    );
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    sessionStorage.clear();
+  });
+
+  describe('restoreProducts', () => {
+    it('starts empty and loads the kept products once restored', async () => {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(['p1', 'p2']));
+      const service = createServiceInstance();
+
+      expect(service.productIds.get()).toEqual([]);
+      expect(productsV3.searchProducts).not.toHaveBeenCalled();
+
+      service.restoreProducts();
+      await vi.waitFor(() => expect(service.isLoading.get()).toBe(false));
+
+      expect(service.products.get().map((product) => product._id)).toEqual([
+        'p1',
+        'p2',
+      ]);
+      expect(service.canCompare.get()).toBe(true);
+    });
+
+    it('caps the kept products to maxItems', () => {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(['p1', 'p2', 'p3']));
+      const service = createServiceInstance({ maxItems: 2 });
+
+      service.restoreProducts();
+
+      expect(service.productIds.get()).toEqual(['p1', 'p2']);
+      expect(service.canAddMore.get()).toBe(false);
+    });
+
+    it('keeps the kept products when a product is added before the restore', () => {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(['p1']));
+      const service = createServiceInstance();
+
+      service.addProduct(aProduct('p2'));
+      service.restoreProducts();
+
+      expect(service.productIds.get()).toEqual(['p1', 'p2']);
+      expect(storedProductIds()).toEqual(['p1', 'p2']);
+    });
+  });
+});
@@ -0,0 +1,459 @@
+import { defineService, implementService } from '@wix/services-definitions';
+import {
+  SignalsServiceDefinition,
+  type Signal,
+  type ReadOnlySignal,
+} from '@wix/services-definitions/core-services/signals';
+import { productsV3 } from '@wix/stores';
+
+const MIN_COMPARED_PRODUCTS = 2;
+const MAX_COMPARED_PRODUCTS = 4;
+const DEFAULT_STORAGE_KEY = 'wix-stores-compare';
+
+/**
+ * Group a compared attribute belongs to.
+ */
+export type CompareAttributeGroup =
+  | 'price'
+  | 'option'
+  | 'modifier'
+  | 'infoSection';
+
+/**
+ * Value of a compared attribute for a single product.
+ */
+export interface CompareAttributeValue {
+  /** Individual values, e.g. the choice names of an option */
+  values: string[];
+  /** Display text for the value */
+  text: string;
+}
+
+/**
+ * A row of the comparison matrix: one attribute and its value for each compared product.
+ */
+export interface CompareAttribute {
+  /** Stable identifier of the attribute, e.g. `option:Color` */
+  id: string;
+  /** Group the attribute belongs to */
+  group: CompareAttributeGroup;
+  /** Display name of the attribute */
+  name: string;
+  /** Value for each compared product, in selection order. Null when the product doesn't have the attribute */
+  values: (CompareAttributeValue | null)[];
+  /** Whether the value differs between the compared products */
+  isDifferent: boolean;
+}
+
+/**
+ * Configuration interface for the Product Compare service.
+ *
+ * @interface ProductCompareServiceConfig
+ */
+export type ProductCompareServiceConfig = {
+  /** Maximum number of compared products, between 2 and 4. Defaults to 4 */
+  maxItems?: number;
+  /** sessionStorage key for the compared product IDs. Defaults to 'wix-stores-compare' */
+  storageKey?: string;
+};
+
+/**
+ * Service definition for the Product Compare service.
+ * This defines the reactive API contract for comparing products side by side.
+ *
+ * @constant
+ */
+export const ProductCompareServiceDefinition = defineService<
+  {
+    /** Reactive signal containing the IDs of the compared products, in selection order */
+    productIds: Signal<string[]>;
+    /** Reactive signal containing the compared products that have been loaded, in selection order */
+    products: ReadOnlySignal<productsV3.V3Product[]>;
+    /** Reactive signal containing the comparison matrix of the loaded products */
+    attributes: ReadOnlySignal<CompareAttribute[]>;
+    /** Reactive signal indicating if more products can be added to the comparison */
+    canAddMore: ReadOnlySignal<boolean>;
+    /** Reactive signal indicating if enough products are selected to compare them */
+    canCompare: ReadOnlySignal<boolean>;
+    /** Maximum number of compared products */
+    maxItems: number;
+    /** Reactive signal indicating if product details are currently being loaded */
+    isLoading: Signal<boolean>;
+    /** Reactive signal containing any error message, or null if no error */
+    error: Signal<string | null>;
+    /** Function to add a product to the comparison. Does nothing when the comparison is full */
+    addProduct: (product: productsV3.V3Product) => void;
+    /** Function to remove a product from the comparison */
+    removeProduct: (productId: string) => void;
+    /** Function to add the product if it isn't compared yet, or remove it otherwise */
+    toggleProduct: (product: productsV3.V3Product) => void;
+    /** Function to check if a product is compared */
+    isSelected: (productId: string) => boolean;
+    /** Function to remove all products from the comparison */
+    clear: () => void;
+    /**
+     * Function to read the product IDs kept in sessionStorage and load their details.
+     * Called once mounted, so the server and the first client render start from an empty comparison
+     */
+    restoreProducts: () => void;
+  },
+  ProductCompareServiceConfig
+>('product-compare');
+
+/**
+ * Implementation of the Product Compare service.
+ * The selection is kept in sessionStorage so that it survives navigating between pages,
+ * and is restored on the client once mounted.
+ * Products added from a list are displayed right away; their info sections and option choices
+ * are then loaded for all newly compared products in a single query.
+ *
+ * @example
+ * ```tsx
+ * import { ProductCompareService, ProductCompareServiceDefinition } from '@wix/stores/services';
+ * import { useService } from '@wix/services-manager-react';
+ *
+ * function CompareBar() {
+ *   const compareService = useService(ProductCompareServiceDefinition);
+ *   const products = compareService.products.get();
+ *
+ *   return (
+ *     <div>
+ *       {products.length} of {compareService.maxItems} products selected
+ *       <button disabled={!compareService.canCompare.get()}>Compare</button>
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export const ProductCompareService =
+  implementService.withConfig<ProductCompareServiceConfig>()(
+    ProductCompareServiceDefinition,
+    ({ getService, config }) => {
+      const signalsService = getService(SignalsServiceDefinition);
+
+      const maxItems = Math.min(
+        Math.max(
+          config.maxItems ?? MAX_COMPARED_PRODUCTS,
+          MIN_COMPARED_PRODUCTS,
+        ),
+        MAX_COMPARED_PRODUCTS,
+      );
+      const storageKey = config.storageKey ?? DEFAULT_STORAGE_KEY;
+
+      const productIdsSignal = signalsService.signal<string[]>([]);
+      const productsByIdSignal = signalsService.signal<
+        Record<string, productsV3.V3Product>
+      >({});
+      const isLoadingSignal = signalsService.signal<boolean>(false);
+      const errorSignal = signalsService.signal<string | null>(null);
+
+      // Products whose full details have been loaded (or requested)
+      const detailedProductIds = new Set<string>();
+      let hasRestoredProducts = false;
+
+      const productsSignal = signalsService.computed(() => {
+        const productsById = productsByIdSignal.get();
+        return productIdsSignal
+          .get()
+          .map((productId) => productsById[productId])
+          .filter((product): product is productsV3.V3Product =>
+            Boolean(product),
+          );
+      });
+
+      const updateProductIds = (productIds: string[]) => {
+        productIdsSignal.set(productIds);
+        writeProductIds(storageKey, productIds);
+      };
+
+      const loadProductDetails = async () => {
+        const productIds = productIdsSignal
+          .peek()
+          .filter((productId) => !detailedProductIds.has(productId));
+        if (productIds.length === 0) return;
+
+        productIds.forEach((productId) => detailedProductIds.add(productId));
+
+        try {
+          isLoadingSignal.set(true);
+
+          const result = await productsV3.searchProducts(
+            {
+              filter: { _id: { $in: productIds } },
+              cursorPaging: { limit: productIds.length },
+            },
+            {
+              fields: [
+                'INFO_SECTION' as any,
+                'INFO_SECTION_PLAIN_DESCRIPTION' as any,
+                'VARIANT_OPTION_CHOICE_NAMES' as any,
+              ],
+            },
+          );
+
+          const productsById = { ...productsByIdSignal.peek() };
+          for (const product of result.products ?? []) {
+            if (product._id) {
+              productsById[product._id] = product;
+            }
+          }
+          productsByIdSignal.set(productsById);
+
+          // Drop products that no longer exist or are no longer visible
+          const currentIds = productIdsSignal.peek();
+          const existingIds = currentIds.filter(
+            (productId) =>
+              !productIds.includes(productId) || productsById[productId],
+          );
+          if (existingIds.length !== currentIds.length) {
+            updateProductIds(existingIds);
+          }
+        } catch (error) {
+          productIds.forEach((productId) =>
+            detailedProductIds.delete(productId),
+          );
+          errorSignal.set(
+            error instanceof Error
+              ? error.message
+              : 'Failed to load compared products',
+          );
+        } finally {
+          isLoadingSignal.set(false);
+        }
+      };
+
+      const restoreProducts = () => {
+        if (hasRestoredProducts || typeof window === 'undefined') return;
+
+        hasRestoredProducts = true;
+        productIdsSignal.set(readProductIds(storageKey).slice(0, maxItems));
+        loadProductDetails();
+      };
+
+      const addProduct = (product: productsV3.V3Product) => {
+        // Products added before the restore join the kept selection instead of replacing it
+        restoreProducts();
+
+        const productIds = productIdsSignal.peek();
+        if (
+          !product._id ||
+          productIds.includes(product._id) ||
+          productIds.length >= maxItems
+        ) {
+          return;
+        }
+
+        productsByIdSignal.set({
+          ...productsByIdSignal.peek(),
+          [product._id]: product,
+        });
+        updateProductIds([...productIds, product._id]);
+        loadProductDetails();
+      };
+
+      const removeProduct = (productId: string) => {
+        restoreProducts();
+        updateProductIds(
+          productIdsSignal.peek().filter((id) => id !== productId),
+        );
+      };
+
+      return {
+        productIds: productIdsSignal,
+        products: productsSignal,
+        attributes: signalsService.computed(() =>
+          buildCompareAttributes(productsSignal.get()),
+        ),
+        canAddMore: signalsService.computed(
+          () => productIdsSignal.get().length < maxItems,
+        ),
+        canCompare: signalsService.computed(
+          () => productsSignal.get().length >= MIN_COMPARED_PRODUCTS,
+        ),
+        maxItems,
+        isLoading: isLoadingSignal,
+        error: errorSignal,
+        addProduct,
+        removeProduct,
+        toggleProduct: (product: productsV3.V3Product) => {
+          if (!product._id) return;
+
+          restoreProducts();
+
+          if (productIdsSignal.peek().includes(product._id)) {
+            removeProduct(product._id);
+          } else {
+            addProduct(product);
+          }
+        },
+        isSelected: (productId: string) =>
+          productIdsSignal.get().includes(productId),
+        clear: () => {
+          restoreProducts();
+          updateProductIds([]);
+        },
+        restoreProducts,
+      };
+    },
+  );
+
+/**
+ * Builds the comparison matrix of the given products.
+ * Attributes are listed by group (price, options, modifiers, info sections), in the order
+ * they first appear across the products.
+ *
+ * @param products - The compared products, in selection order
+ * @returns One attribute per row, with a value for each product
+ */
+export function buildCompareAttributes(
+  products: productsV3.V3Product[],
+): CompareAttribute[] {
+  const attributes: CompareAttribute[] = [];
+
+  const addAttribute = (
+    group: CompareAttributeGroup,
+    name: string,
+    getValue: (product: productsV3.V3Product) => CompareAttributeValue | null,
+  ) => {
+    const values = products.map(getValue);
+    if (values.every((value) => value === null)) return;
+
+    attributes.push({
+      id: `${group}:${name}`,
+      group,
+      name,
+      values,
+      isDifferent: new Set(values.map((value) => value?.text ?? null)).size > 1,
+    });
+  };
+
+  addAttribute('price', 'Price', (product) =>
+    formatPriceRange(product.actualPriceRange),
+  );
+  addAttribute('price', 'Compare at price', (product) =>
+    formatPriceRange(product.compareAtPriceRange),
+  );
+
+  for (const name of collectNames(products, (product) =>
+    product.options?.map((option) => option.name),
+  )) {
+    addAttribute('option', name, (product) => {
+      const option = product.options?.find(
+        (productOption) => productOption.name === name,
+      );
+      if (!option) return null;
+
+      return toAttributeValue(
+        (option.choicesSettings?.choices ?? []).map(
+          (choice) => choice.name ?? '',
+        ),
+      );
+    });
+  }
+
+  for (const name of collectNames(products, (product) =>
+    product.modifiers?.map((modifier) => modifier.name),
+  )) {
+    addAttribute('modifier', name, (product) => {
+      const modifier = product.modifiers?.find(
+        (productModifier) => productModifier.name === name,
+      );
+      if (!modifier) return null;
+
+      return toAttributeValue(
+        (modifier.choicesSettings?.choices ?? []).map(
+          (choice) => choice.name ?? '',
+        ),
+      );
+    });
+  }
+
+  for (const name of collectNames(products, (product) =>
+    product.infoSections?.map((infoSection) => infoSection.title),
+  )) {
+    addAttribute('infoSection', name, (product) => {
+      const infoSection = product.infoSections?.find(
+        (productInfoSection) => productInfoSection.title === name,
+      );
+      if (!infoSection) return null;
+
+      return toAttributeValue([infoSection.plainDescription ?? '']);
+    });
+  }
+
+  return attributes;
+}
+
+/**
+ * Collects the distinct names of the given products' items, in the order they first appear.
+ *
+ * @private
+ */
+function collectNames(
+  products: productsV3.V3Product[],
+  getNames: (
+    product: productsV3.V3Product,
+  ) => Array<string | null | undefined> | undefined,
+): string[] {
+  const names = new Set<string>();
+  for (const product of products) {
+    for (const name of getNames(product) ?? []) {
+      if (name) names.add(name);
+    }
+  }
+  return [...names];
+}
+
+/**
+ * @private
+ */
+function toAttributeValue(values: string[]): CompareAttributeValue {
+  const nonEmptyValues = values.map((value) => value.trim()).filter(Boolean);
+  return { values: nonEmptyValues, text: nonEmptyValues.join(', ') };
+}
+
+/**
+ * Formats a price range as "min" or "min – max".
+ *
+ * @private
+ */
+function formatPriceRange(
+  priceRange: productsV3.PriceRange | undefined,
+): CompareAttributeValue | null {
+  const min = priceRange?.minValue;
+  const max = priceRange?.maxValue;
+  if (!min?.amount) return null;
+
+  const minText = min.formattedAmount || min.amount;
+  if (!max?.amount || Number(max.amount) === Number(min.amount)) {
+    return { values: [minText], text: minText };
+  }
+
+  const maxText = max.formattedAmount || max.amount;
+  return { values: [minText, maxText], text: `${minText} – ${maxText}` };
+}
+
+function readProductIds(storageKey: string): string[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = JSON.parse(
+      window.sessionStorage.getItem(storageKey) ?? '[]',
+    );
+    return Array.isArray(stored)
+      ? stored.filter((productId) => typeof productId === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeProductIds(storageKey: string, productIds: string[]): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.sessionStorage.setItem(storageKey, JSON.stringify(productIds));
+  } catch (error) {
+    console.error('Failed to persist compared products:', error);
+  }
+}
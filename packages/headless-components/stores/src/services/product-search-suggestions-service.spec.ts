@@ -0,0 +1,170 @@
+import {
+  createServicesManager,
+  createServicesMap,
+} from '@wix/services-manager';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ProductSearchSuggestionsService,
+  ProductSearchSuggestionsServiceDefinition,
+  type ProductSearchSuggestionsServiceConfig,
+} from './product-search-suggestions-service.js';
+
+vi.mock('@wix/stores', () => ({
+  productsV3: {
+    searchProducts: vi.fn(),
+    SortType: { VALUE: 'VALUE', COUNT: 'COUNT' },
+    SortDirection: { ASC: 'ASC', DESC: 'DESC' },
+  },
+}));
+
+import { productsV3 } from '@wix/stores';
+
+const STORAGE_KEY = 'wix-stores-recent-searches';
+
+const aSearchResult = (...names: string[]) =>
+  ({
+    products: names.map((name) => ({ _id: name, name })),
+  }) as any;
+
+describe('ProductSearchSuggestionsService', () => {
+  const createServiceInstance = (
+    config: ProductSearchSuggestionsServiceConfig = {},
+  ) => {
+    const servicesManager = createServicesManager(
+      createServicesMap().addService(
+        ProductSearchSuggestionsServiceDefinition,
+        ProductSearchSuggestionsService,
+        config,
+      ),
+    );
+
+    return servicesManager.getService(
+      ProductSearchSuggestionsServiceDefinition,
+    );
+  };
+
+  const searchedExpressions = () =>
+    vi
+      .mocked(productsV3.searchProducts)
+      .mock.calls.map(([search]) => search?.search?.expression);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  describe('suggestions', () => {
+    it('requests suggestions once the query stops changing for the debounce delay', async () => {
+      vi.mocked(productsV3.searchProducts).mockResolvedValue(
+        aSearchResult('Shirt'),
+      );
+      const service = createServiceInstance({ debounceMs: 200 });
+
+      service.setQuery('sh');
+      await vi.advanceTimersByTimeAsync(100);
+      service.setQuery('shi');
+      await vi.advanceTimersByTimeAsync(100);
+      service.setQuery('shirt');
+      await vi.advanceTimersByTimeAsync(199);
+
+      expect(productsV3.searchProducts).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+
+      expect(searchedExpressions()).toEqual(['shirt']);
+      expect(service.productSuggestions.get().map((p) => p.name)).toEqual([
+        'Shirt',
+      ]);
+    });
+
+    it('does not request suggestions for queries shorter than the minimum length', async () => {
+      const service = createServiceInstance({ minQueryLength: 3 });
+
+      service.setQuery('sh');
+      await vi.runAllTimersAsync();
+
+      expect(productsV3.searchProducts).not.toHaveBeenCalled();
+      expect(service.isLoading.get()).toBe(false);
+    });
+
+    it('ignores the response of a request made stale by a newer query', async () => {
+      let resolveStaleRequest: (result: any) => void = () => {};
+      vi.mocked(productsV3.searchProducts)
+        .mockReturnValueOnce(
+          new Promise((resolve) => {
+            resolveStaleRequest = resolve;
+          }) as any,
+        )
+        .mockResolvedValueOnce(aSearchResult('Shoes'));
+      const service = createServiceInstance({ debounceMs: 0 });
+
+      service.setQuery('shirt');
+      await vi.advanceTimersByTimeAsync(0);
+      service.setQuery('shoes');
+      await vi.advanceTimersByTimeAsync(0);
+
+      resolveStaleRequest(aSearchResult('Shirt'));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(searchedExpressions()).toEqual(['shirt', 'shoes']);
+      expect(service.productSuggestions.get().map((p) => p.name)).toEqual([
+        'Shoes',
+      ]);
+      expect(service.isLoading.get()).toBe(false);
+    });
+
+    it('cancels the pending request when the query is submitted', async () => {
+      const service = createServiceInstance({ debounceMs: 200 });
+
+      service.setQuery('shirt');
+      service.submitQuery();
+      await vi.runAllTimersAsync();
+
+      expect(productsV3.searchProducts).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recent queries', () => {
+    beforeEach(() => {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(['hats', 'socks']));
+    });
+
+    it('starts without recent queries and reads the persisted ones once restored', () => {
+      const service = createServiceInstance();
+
+      expect(service.recentQueries.get()).toEqual([]);
+
+      service.restoreRecentQueries();
+
+      expect(service.recentQueries.get()).toEqual(['hats', 'socks']);
+    });
+
+    it('keeps the persisted queries when a query is submitted before the restore', () => {
+      const service = createServiceInstance();
+
+      service.submitQuery('Shirt');
+      service.restoreRecentQueries();
+
+      expect(service.recentQueries.get()).toEqual(['Shirt', 'hats', 'socks']);
+      expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!)).toEqual([
+        'Shirt',
+        'hats',
+        'socks',
+      ]);
+    });
+
+    it('moves a resubmitted query to the top and caps the recent queries', () => {
+      const service = createServiceInstance({ maxRecentQueries: 2 });
+      service.restoreRecentQueries();
+
+      service.submitQuery('SOCKS');
+
+      expect(service.recentQueries.get()).toEqual(['SOCKS', 'hats']);
+    });
+  });
+});
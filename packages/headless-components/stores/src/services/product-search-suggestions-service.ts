@@ -0,0 +1,417 @@
+import { defineService, implementService } from '@wix/services-definitions';
+import {
+  SignalsServiceDefinition,
+  type Signal,
+} from '@wix/services-definitions/core-services/signals';
+import { productsV3 } from '@wix/stores';
+import type { Category } from './categories-list-service.js';
+
+const DEFAULT_DEBOUNCE_MS = 300;
+const DEFAULT_MIN_QUERY_LENGTH = 2;
+const DEFAULT_PRODUCTS_LIMIT = 5;
+const DEFAULT_CATEGORIES_LIMIT = 3;
+const DEFAULT_MAX_RECENT_QUERIES = 5;
+const DEFAULT_RECENT_QUERIES_STORAGE_KEY = 'wix-stores-recent-searches';
+
+/**
+ * Number of leading characters used to look up "did you mean" candidates
+ * when the full query has no matches.
+ */
+const DID_YOU_MEAN_PREFIX_LENGTH = 3;
+
+/**
+ * Configuration interface for the Product Search Suggestions service.
+ * All fields are optional and fall back to sensible defaults.
+ *
+ * @interface ProductSearchSuggestionsServiceConfig
+ */
+export type ProductSearchSuggestionsServiceConfig = {
+  /** Delay in milliseconds between the last keystroke and the search request. Defaults to 300 */
+  debounceMs?: number;
+  /** Minimum query length before suggestions are requested. Defaults to 2 */
+  minQueryLength?: number;
+  /** Maximum number of product suggestions. Defaults to 5 */
+  productsLimit?: number;
+  /** Maximum number of category suggestions. Defaults to 3 */
+  categoriesLimit?: number;
+  /** Categories used to resolve category suggestions, e.g. from loadCategoriesListServiceConfig */
+  categories?: Category[];
+  /** Maximum number of recent queries to remember. Defaults to 5 */
+  maxRecentQueries?: number;
+  /** localStorage key for recent queries. Defaults to 'wix-stores-recent-searches' */
+  recentQueriesStorageKey?: string;
+  /** Called with the submitted query, e.g. to navigate to the search results page */
+  onSubmit?: (query: string) => void;
+};
+
+/**
+ * Service definition for the Product Search Suggestions service.
+ * This defines the reactive API contract for search-as-you-type product suggestions.
+ *
+ * @constant
+ */
+export const ProductSearchSuggestionsServiceDefinition = defineService<
+  {
+    /** Reactive signal containing the current (raw) search query */
+    query: Signal<string>;
+    /** Reactive signal containing products matching the query */
+    productSuggestions: Signal<productsV3.V3Product[]>;
+    /** Reactive signal containing categories of the matching products */
+    categorySuggestions: Signal<Category[]>;
+    /** Reactive signal containing a spelling suggestion when the query has no matches, or null */
+    didYouMean: Signal<string | null>;
+    /** Reactive signal containing the most recent submitted queries, newest first */
+    recentQueries: Signal<string[]>;
+    /** Reactive signal indicating if suggestions are currently being loaded */
+    isLoading: Signal<boolean>;
+    /** Reactive signal containing any error message, or null if no error */
+    error: Signal<string | null>;
+    /** Function to update the query and request suggestions after the debounce delay */
+    setQuery: (query: string) => void;
+    /** Function to submit a query, remembering it in the recent queries */
+    submitQuery: (query?: string) => void;
+    /** Function to clear the query and all suggestions */
+    clear: () => void;
+    /** Function to remove a single query from the recent queries */
+    removeRecentQuery: (query: string) => void;
+    /** Function to clear all recent queries */
+    clearRecentQueries: () => void;
+    /**
+     * Function to read the recent queries persisted in localStorage. Called once mounted,
+     * so the server and the first client render start without recent queries
+     */
+    restoreRecentQueries: () => void;
+  },
+  ProductSearchSuggestionsServiceConfig
+>('product-search-suggestions');
+
+/**
+ * Implementation of the Product Search Suggestions service.
+ * Requests are debounced, and responses of stale requests are ignored so that
+ * suggestions always match the latest query. Submitted queries are persisted in localStorage
+ * and restored by `restoreRecentQueries` once mounted.
+ *
+ * @example
+ * ```tsx
+ * import { ProductSearchSuggestionsService, ProductSearchSuggestionsServiceDefinition } from '@wix/stores/services';
+ * import { useService } from '@wix/services-manager-react';
+ *
+ * function HeaderSearch() {
+ *   return (
+ *     <WixServices
+ *       servicesMap={createServicesMap().addService(
+ *         ProductSearchSuggestionsServiceDefinition,
+ *         ProductSearchSuggestionsService,
+ *         { debounceMs: 200 },
+ *       )}
+ *     >
+ *       <SearchBox />
+ *     </WixServices>
+ *   );
+ * }
+ *
+ * function SearchBox() {
+ *   const search = useService(ProductSearchSuggestionsServiceDefinition);
+ *
+ *   return (
+ *     <div>
+ *       <input
+ *         value={search.query.get()}
+ *         onChange={(e) => search.setQuery(e.target.value)}
+ *       />
+ *       {search.productSuggestions.get().map((product) => (
+ *         <a key={product._id} href={`/product/${product.slug}`}>{product.name}</a>
+ *       ))}
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export const ProductSearchSuggestionsService =
+  implementService.withConfig<ProductSearchSuggestionsServiceConfig>()(
+    ProductSearchSuggestionsServiceDefinition,
+    ({ getService, config }) => {
+      const signalsService = getService(SignalsServiceDefinition);
+
+      const debounceMs = config.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+      const minQueryLength = config.minQueryLength ?? DEFAULT_MIN_QUERY_LENGTH;
+      const productsLimit = config.productsLimit ?? DEFAULT_PRODUCTS_LIMIT;
+      const categoriesLimit =
+        config.categoriesLimit ?? DEFAULT_CATEGORIES_LIMIT;
+      const maxRecentQueries =
+        config.maxRecentQueries ?? DEFAULT_MAX_RECENT_QUERIES;
+      const storageKey =
+        config.recentQueriesStorageKey ?? DEFAULT_RECENT_QUERIES_STORAGE_KEY;
+      const categories = config.categories ?? [];
+
+      const querySignal = signalsService.signal<string>('');
+      const productSuggestionsSignal = signalsService.signal<
+        productsV3.V3Product[]
+      >([]);
+      const categorySuggestionsSignal = signalsService.signal<Category[]>([]);
+      const didYouMeanSignal = signalsService.signal<string | null>(null);
+      const recentQueriesSignal = signalsService.signal<string[]>([]);
+      const isLoadingSignal = signalsService.signal<boolean>(false);
+      const errorSignal = signalsService.signal<string | null>(null);
+
+      let debounceTimeout: ReturnType<typeof setTimeout> | null = null;
+      let hasRestoredRecentQueries = false;
+      // Incremented on every request; responses of older requests are discarded
+      let latestRequestId = 0;
+
+      const resetSuggestions = () => {
+        productSuggestionsSignal.set([]);
+        categorySuggestionsSignal.set([]);
+        didYouMeanSignal.set(null);
+      };
+
+      const cancelPendingRequest = () => {
+        if (debounceTimeout) {
+          clearTimeout(debounceTimeout);
+          debounceTimeout = null;
+        }
+        latestRequestId++;
+        isLoadingSignal.set(false);
+      };
+
+      const fetchSuggestions = async (query: string) => {
+        const requestId = ++latestRequestId;
+
+        try {
+          isLoadingSignal.set(true);
+          errorSignal.set(null);
+
+          const result = await productsV3.searchProducts({
+            search: { expression: query },
+            cursorPaging: { limit: productsLimit },
+            aggregations: [
+              {
+                name: 'categoryIds',
+                fieldPath: 'allCategoriesInfo.categories._id',
+                type: productsV3.SortType.VALUE,
+                value: {
+                  limit: categoriesLimit,
+                  sortType: productsV3.SortType.COUNT,
+                  sortDirection: productsV3.SortDirection.DESC,
+                },
+              },
+            ],
+          });
+
+          if (requestId !== latestRequestId) return;
+
+          const products = result.products ?? [];
+          productSuggestionsSignal.set(products);
+          categorySuggestionsSignal.set(
+            getCategorySuggestions(
+              result.aggregationData?.results ?? [],
+              categories,
+              categoriesLimit,
+            ),
+          );
+
+          if (products.length > 0) {
+            didYouMeanSignal.set(null);
+            return;
+          }
+
+          const candidatesResult = await productsV3.searchProducts({
+            search: {
+              expression: query.slice(0, DID_YOU_MEAN_PREFIX_LENGTH),
+            },
+            cursorPaging: { limit: 20 },
+          });
+
+          if (requestId !== latestRequestId) return;
+
+          didYouMeanSignal.set(
+            getDidYouMeanSuggestion(query, [
+              ...(candidatesResult.products ?? []).map((p) => p.name),
+              ...categories.map((c) => c.name),
+            ]),
+          );
+        } catch (error) {
+          if (requestId !== latestRequestId) return;
+          errorSignal.set(
+            error instanceof Error
+              ? error.message
+              : 'Failed to load search suggestions',
+          );
+        } finally {
+          if (requestId === latestRequestId) {
+            isLoadingSignal.set(false);
+          }
+        }
+      };
+
+      const restoreRecentQueries = () => {
+        if (hasRestoredRecentQueries || typeof window === 'undefined') return;
+
+        hasRestoredRecentQueries = true;
+        recentQueriesSignal.set(readRecentQueries(storageKey));
+      };
+
+      const updateRecentQueries = (
+        update: (recentQueries: string[]) => string[],
+      ) => {
+        // Changes made before the restore apply to the persisted queries, not to an empty list
+        restoreRecentQueries();
+
+        const recentQueries = update(recentQueriesSignal.peek());
+        recentQueriesSignal.set(recentQueries);
+        writeRecentQueries(storageKey, recentQueries);
+      };
+
+      return {
+        query: querySignal,
+        productSuggestions: productSuggestionsSignal,
+        categorySuggestions: categorySuggestionsSignal,
+        didYouMean: didYouMeanSignal,
+        recentQueries: recentQueriesSignal,
+        isLoading: isLoadingSignal,
+        error: errorSignal,
+        setQuery: (query: string) => {
+          querySignal.set(query);
+          cancelPendingRequest();
+
+          const trimmedQuery = query.trim();
+          if (trimmedQuery.length < minQueryLength) {
+            resetSuggestions();
+            return;
+          }
+
+          debounceTimeout = setTimeout(() => {
+            debounceTimeout = null;
+            fetchSuggestions(trimmedQuery);
+          }, debounceMs);
+        },
+        submitQuery: (query?: string) => {
+          const trimmedQuery = (query ?? querySignal.peek()).trim();
+          if (!trimmedQuery) return;
+
+          cancelPendingRequest();
+          querySignal.set(trimmedQuery);
+          updateRecentQueries((recentQueries) =>
+            [
+              trimmedQuery,
+              ...recentQueries.filter(
+                (q) => q.toLowerCase() !== trimmedQuery.toLowerCase(),
+              ),
+            ].slice(0, maxRecentQueries),
+          );
+          config.onSubmit?.(trimmedQuery);
+        },
+        clear: () => {
+          cancelPendingRequest();
+          querySignal.set('');
+          errorSignal.set(null);
+          resetSuggestions();
+        },
+        removeRecentQuery: (query: string) => {
+          updateRecentQueries((recentQueries) =>
+            recentQueries.filter((q) => q !== query),
+          );
+        },
+        clearRecentQueries: () => {
+          updateRecentQueries(() => []);
+        },
+        restoreRecentQueries,
+      };
+    },
+  );
+
+function readRecentQueries(storageKey: string): string[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(storageKey) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.filter((q): q is string => typeof q === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeRecentQueries(storageKey: string, queries: string[]): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(queries));
+  } catch (error) {
+    console.error('Failed to persist recent search queries:', error);
+  }
+}
+
+function getCategorySuggestions(
+  aggregationResults: productsV3.AggregationResults[],
+  categories: Category[],
+  limit: number,
+): Category[] {
+  const categoryIds =
+    aggregationResults
+      .find((result) => result.name === 'categoryIds')
+      ?.values?.results?.map((item) => item.value)
+      .filter((value): value is string => typeof value === 'string') ?? [];
+
+  return categoryIds
+    .map((id) => categories.find((category) => category._id === id))
+    .filter((category): category is Category => Boolean(category))
+    .slice(0, limit);
+}
+
+/**
+ * Picks the candidate word or phrase closest to the query, if it is close enough
+ * to be a likely misspelling.
+ */
+function getDidYouMeanSuggestion(
+  query: string,
+  candidates: (string | null | undefined)[],
+): string | null {
+  const normalizedQuery = query.toLowerCase();
+  const maxDistance = Math.max(1, Math.floor(normalizedQuery.length / 3));
+
+  let bestMatch: string | null = null;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+
+    // Compare against the full name and each of its words
+    const phrases = [candidate, ...candidate.split(/\s+/)];
+    for (const phrase of phrases) {
+      const normalizedPhrase = phrase.toLowerCase();
+      if (!normalizedPhrase || normalizedPhrase === normalizedQuery) continue;
+
+      const distance = getEditDistance(normalizedQuery, normalizedPhrase);
+      if (distance <= maxDistance && distance < bestDistance) {
+        bestMatch = normalizedPhrase;
+        bestDistance = distance;
+      }
+    }
+  }
+
+  return bestMatch;
+}
+
+/**
+ * Levenshtein distance between two strings.
+ */
+function getEditDistance(a: string, b: string): number {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const currentRow = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitutionCost = a[i - 1] === b[j - 1] ? 0 : 1;
+      currentRow[j] = Math.min(
+        previousRow[j]! + 1,
+        currentRow[j - 1]! + 1,
+        previousRow[j - 1]! + substitutionCost,
+      );
+    }
+    previousRow = currentRow;
+  }
+
+  return previousRow[b.length]!;
+}
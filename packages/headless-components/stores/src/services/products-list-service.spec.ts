@@ -0,0 +1,289 @@
+import {
+  createServicesManager,
+  createServicesMap,
+} from '@wix/services-manager';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  ProductListService,
+  ProductsListServiceDefinition,
+  type ProductOption,
+  type ProductsListServiceConfig,
+  getOptionChoiceCounts,
+} from './products-list-service.js';
+
+vi.mock('@wix/stores', () => ({
+  productsV3: {
+    searchProducts: vi.fn(),
+    InventoryAvailabilityStatus: {
+      IN_STOCK: 'IN_STOCK',
+      OUT_OF_STOCK: 'OUT_OF_STOCK',
+      PARTIALLY_OUT_OF_STOCK: 'PARTIALLY_OUT_OF_STOCK',
+    },
+    SortType: { VALUE: 'VALUE', COUNT: 'COUNT' },
+    SortDirection: { ASC: 'ASC', DESC: 'DESC' },
+  },
+  customizationsV3: { CustomizationType: {} },
+  readOnlyVariantsV3: {},
+}));
+vi.mock('@wix/categories', () => ({ categories: {} }));
+
+import { productsV3 } from '@wix/stores';
+
+type Page = {
+  products: productsV3.V3Product[];
+  pagingMetadata: productsV3.CommonCursorPagingMetadata;
+};
+
+/**
+ * A page of two products, linking to the next page's cursor when there is one
+ */
+const aPage = (page: number, nextCursor?: string): Page => ({
+  products: [
+    { _id: `product-${page}-1`, name: `Product ${page}-1` },
+    { _id: `product-${page}-2`, name: `Product ${page}-2` },
+  ],
+  pagingMetadata: {
+    count: 2,
+    hasNext: Boolean(nextCursor),
+    cursors: { next: nextCursor ?? null },
+  },
+});
+
+/**
+ * Serves the pages keyed by the cursor they are fetched with
+ */
+const servePages = (pagesByCursor: Record<string, Page>) => {
+  vi.mocked(productsV3.searchProducts).mockImplementation(
+    async (search) => pagesByCursor[search?.cursorPaging?.cursor ?? '']! as any,
+  );
+};
+
+const fetchedCursors = () =>
+  vi
+    .mocked(productsV3.searchProducts)
+    .mock.calls.map(([search]) => search?.cursorPaging?.cursor);
+
+/**
+ * Aggregation data counting the products of each option choice, as returned for `optionChoiceNames`
+ */
+const anOptionChoiceAggregation = (
+  counts: Array<[optionName: string, choiceName: string, count: number]>,
+): productsV3.AggregationData => ({
+  results: [
+    {
+      name: 'optionChoiceNames',
+      nested: {
+        results: counts.map(([optionName, choiceName, count]) => ({
+          results: {
+            optionName: { value: { value: optionName, count } },
+            choiceName: { value: { value: choiceName, count } },
+          },
+        })),
+      },
+    },
+  ],
+});
+
+const productIds = (products: productsV3.V3Product[]) =>
+  products.map((product) => product._id);
+
+describe('ProductListService', () => {
+  const createServiceInstance = (
+    config: Partial<ProductsListServiceConfig> = {},
+  ) => {
+    const firstPage = aPage(1, 'cursor-2');
+    const servicesManager = createServicesManager(
+      createServicesMap().addService(
+        ProductsListServiceDefinition,
+        ProductListService,
+        {
+          products: firstPage.products,
+          pagingMetadata: firstPage.pagingMetadata,
+          searchOptions: { cursorPaging: { limit: 2 } },
+          aggregations: { results: [] },
+          customizations: [],
+          ...config,
+        },
+      ),
+    );
+
+    return servicesManager.getService(ProductsListServiceDefinition);
+  };
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('goToPage', () => {
+    it('walks forward through the unvisited pages to reach a page', async () => {
+      servePages({
+        'cursor-2': aPage(2, 'cursor-3'),
+        'cursor-3': aPage(3, 'cursor-4'),
+      });
+      const service = createServiceInstance();
+
+      await service.goToPage(3);
+
+      expect(fetchedCursors()).toEqual(['cursor-2', 'cursor-3']);
+      expect(service.currentPage.get()).toBe(3);
+      expect(productIds(service.products.get())).toEqual([
+        'product-3-1',
+        'product-3-2',
+      ]);
+      expect(service.totalPages.get()).toBe(4);
+      expect(service.isTotalPagesExact.get()).toBe(false);
+    });
+
+    it('stops at the last page when the requested page is past it', async () => {
+      servePages({
+        'cursor-2': aPage(2),
+      });
+      const service = createServiceInstance();
+
+      await service.goToPage(5);
+
+      expect(fetchedCursors()).toEqual(['cursor-2']);
+      expect(service.currentPage.get()).toBe(2);
+      expect(service.totalPages.get()).toBe(2);
+      expect(service.isTotalPagesExact.get()).toBe(true);
+      expect(service.hasNextPage.get()).toBe(false);
+    });
+
+    it('shows visited pages again without fetching them', async () => {
+      servePages({
+        'cursor-2': aPage(2, 'cursor-3'),
+      });
+      const service = createServiceInstance();
+
+      await service.goToPage(2);
+      await service.goToPage(1);
+      await service.nextPage();
+
+      expect(fetchedCursors()).toEqual(['cursor-2']);
+      expect(service.currentPage.get()).toBe(2);
+      expect(productIds(service.products.get())).toEqual([
+        'product-2-1',
+        'product-2-2',
+      ]);
+    });
+
+    it('ignores a page request made stale by a later one', async () => {
+      let resolveStaleRequest: (page: Page) => void = () => {};
+      vi.mocked(productsV3.searchProducts)
+        .mockReturnValueOnce(
+          new Promise<Page>((resolve) => {
+            resolveStaleRequest = resolve;
+          }) as any,
+        )
+        .mockResolvedValueOnce(aPage(2, 'cursor-3') as any);
+      const service = createServiceInstance();
+
+      const staleRequest = service.goToPage(3);
+      await service.goToPage(2);
+      resolveStaleRequest(aPage(2, 'cursor-3'));
+      await staleRequest;
+
+      expect(fetchedCursors()).toEqual(['cursor-2', 'cursor-2']);
+      expect(service.currentPage.get()).toBe(2);
+      expect(productIds(service.products.get())).toEqual([
+        'product-2-1',
+        'product-2-2',
+      ]);
+      expect(service.isLoading.get()).toBe(false);
+    });
+
+    it('keeps the current page and sets the error when a page fails to load', async () => {
+      vi.mocked(productsV3.searchProducts).mockRejectedValue(
+        new Error('Network error'),
+      );
+      const service = createServiceInstance();
+
+      await service.goToPage(2);
+
+      expect(service.currentPage.get()).toBe(1);
+      expect(service.error.get()).toBe('Network error');
+      expect(service.isLoading.get()).toBe(false);
+    });
+  });
+
+  describe('aggregations', () => {
+    it('starts with the aggregations of the filtered search', () => {
+      const searchAggregations = anOptionChoiceAggregation([
+        ['Color', 'Red', 1],
+      ]);
+      const service = createServiceInstance({ searchAggregations });
+
+      expect(service.aggregations.get()).toEqual(searchAggregations);
+    });
+
+    it('refreshes the aggregations with each search', async () => {
+      const filteredAggregations = anOptionChoiceAggregation([
+        ['Color', 'Red', 2],
+      ]);
+      vi.mocked(productsV3.searchProducts).mockResolvedValue({
+        ...aPage(1),
+        aggregationData: filteredAggregations,
+      } as any);
+      const service = createServiceInstance({
+        aggregations: anOptionChoiceAggregation([['Color', 'Red', 5]]),
+      });
+
+      service.setFilter({ 'options.choicesSettings.choices.choiceId': 'red' });
+      await vi.waitFor(() =>
+        expect(service.aggregations.get()).toEqual(filteredAggregations),
+      );
+    });
+  });
+});
+
+describe('getOptionChoiceCounts', () => {
+  const color: ProductOption = {
+    id: 'color',
+    name: 'Color',
+    choices: [
+      { id: 'red', name: 'Red' },
+      { id: 'blue', name: 'Blue' },
+      { id: 'green', name: 'Green' },
+    ],
+  };
+
+  it('counts the choices of the option by choice ID', () => {
+    expect(
+      getOptionChoiceCounts(
+        anOptionChoiceAggregation([
+          ['Color', 'Red', 3],
+          ['Color', 'Blue', 1],
+        ]),
+        color,
+      ),
+    ).toEqual({ red: 3, blue: 1 });
+  });
+
+  it('matches the option and choice names ignoring case', () => {
+    expect(
+      getOptionChoiceCounts(
+        anOptionChoiceAggregation([
+          ['color', 'RED', 3],
+          ['COLOR', 'red', 1],
+        ]),
+        color,
+      ),
+    ).toEqual({ red: 4 });
+  });
+
+  it('ignores the choices of the same name in other options', () => {
+    expect(
+      getOptionChoiceCounts(
+        anOptionChoiceAggregation([
+          ['Color', 'Red', 3],
+          ['Strap color', 'Red', 7],
+        ]),
+        color,
+      ),
+    ).toEqual({ red: 3 });
+  });
+
+  it('returns undefined when the aggregation was not returned', () => {
+    expect(getOptionChoiceCounts({ results: [] }, color)).toBeUndefined();
+  });
+});
@@ -62,8 +62,38 @@ export type ProductsListServiceConfig = {
   pagingMetadata: productsV3.CommonCursorPagingMetadata;
   /** Aggregation data containing filters, facets, and counts */
   aggregations: productsV3.AggregationData;
+  /** Aggregation data of the search with `searchOptions`, filters included, for the result counts of each filter value. Defaults to `aggregations` */
+  searchAggregations?: productsV3.AggregationData;
   /** Customizations used to fetch the products */
   customizations: customizationsV3.Customization[];
+  /**
+   * When true, the service owns the URL query string: filter, sort and paging
+   * changes are written to the URL and browser back/forward navigation restores them
+   * while ProductList.Root is mounted.
+   * See {@link serializeSearchOptionsToUrlParams} for the query param schema.
+   * Defaults to false.
+   */
+  syncWithUrl?: boolean;
+  /** Page number of the page fetched with `searchOptions`, for page-based navigation. Defaults to 1 */
+  initialPage?: number;
+};
+
+/**
+ * Key under which the service stores its search options in `history.state`.
+ */
+const HISTORY_STATE_KEY = 'productsListSearchOptions';
+
+/**
+ * Key under which the service stores the current page number in `history.state`.
+ */
+const HISTORY_PAGE_STATE_KEY = 'productsListPage';
+
+/**
+ * A page of products, as cached by the page-based navigation of the Products List service.
+ */
+type ProductsPage = {
+  products: productsV3.V3Product[];
+  pagingMetadata: productsV3.CommonCursorPagingMetadata;
 };
 
 /**
@@ -179,9 +209,15 @@ export type ProductsListServiceConfig = {
  * ```
  */
 export async function loadProductsListServiceConfig(
-  input: string | { searchOptions: productsV3.V3ProductSearch },
+  input:
+    | string
+    | {
+        searchOptions: productsV3.V3ProductSearch;
+        initialSearchState?: InitialSearchState;
+      },
 ): Promise<ProductsListServiceConfig> {
   let searchOptions: productsV3.V3ProductSearch;
+  let initialSearchState: InitialSearchState | undefined;
 
   const { items: customizations = [] } = await customizationsV3
     .queryCustomizations()
@@ -190,15 +226,17 @@ export async function loadProductsListServiceConfig(
   if (typeof input === 'string') {
     // URL input - parse it
     const categoriesListConfig = await loadCategoriesListServiceConfig();
-    const { searchOptions: parsedOptions } = await parseUrlToSearchOptions(
+    const parsed = await parseUrlToSearchOptions(
       input,
       categoriesListConfig.categories,
       customizations,
     );
-    searchOptions = parsedOptions;
+    searchOptions = parsed.searchOptions;
+    initialSearchState = parsed.initialSearchState;
   } else {
     // Parsed URL result - use searchOptions directly
     searchOptions = input.searchOptions;
+    initialSearchState = input.initialSearchState;
   }
 
   const searchWithoutFilter = { ...searchOptions, filter: {} };
@@ -216,7 +254,9 @@ export async function loadProductsListServiceConfig(
     searchOptions,
     pagingMetadata: resultWithFilter.pagingMetadata!,
     aggregations: resultWithoutFilter.aggregationData ?? {},
+    searchAggregations: resultWithFilter.aggregationData ?? {},
     customizations,
+    ...(initialSearchState?.page && { initialPage: initialSearchState.page }),
   };
 }
 
@@ -332,7 +372,7 @@ export const ProductsListServiceDefinition = defineService<
   {
     /** Reactive signal containing the list of products */
     products: Signal<productsV3.V3Product[]>;
-    /** Reactive signal containing aggregation data for filters and facets */
+    /** Reactive signal containing the aggregation data of the current search, refreshed by each search, for the result counts of filters and facets */
     aggregations: Signal<productsV3.AggregationData>;
     /** Reactive signal containing pagination metadata */
     pagingMetadata: Signal<productsV3.CommonCursorPagingMetadata>;
@@ -364,6 +404,31 @@ export const ProductsListServiceDefinition = defineService<
     loadMore: (count: number) => void;
     /** Reactive signal indicating if there are more products to load */
     hasMoreProducts: ReadOnlySignal<boolean>;
+    /** Reactive signal containing the current page number (1-based) for page-based navigation */
+    currentPage: Signal<number>;
+    /**
+     * Reactive signal containing the estimated number of pages.
+     * Cursor paging does not report a total, so until the last page has been reached
+     * this is the number of pages known to exist (see isTotalPagesExact).
+     */
+    totalPages: ReadOnlySignal<number>;
+    /** Reactive signal indicating if totalPages is exact, i.e. the last page has been reached */
+    isTotalPagesExact: ReadOnlySignal<boolean>;
+    /** Reactive signal indicating if there is a page after the current one */
+    hasNextPage: ReadOnlySignal<boolean>;
+    /** Reactive signal indicating if there is a page before the current one */
+    hasPreviousPage: ReadOnlySignal<boolean>;
+    /** Function to replace the products with the next page */
+    nextPage: () => Promise<void>;
+    /** Function to replace the products with the previous page */
+    previousPage: () => Promise<void>;
+    /** Function to replace the products with the given page (1-based), walking forward through unvisited pages if needed */
+    goToPage: (page: number) => Promise<void>;
+    /**
+     * Starts restoring the search options on browser back/forward navigation when `syncWithUrl` is set.
+     * Called by ProductList.Root once mounted. Returns a function that stops it
+     */
+    startUrlSync: () => () => void;
   },
   ProductsListServiceConfig
 >('products-list');
@@ -459,11 +524,75 @@ export const ProductListService =
       ] as InventoryStatusType[]);
 
       const aggregationsSignal =
-        signalsService.signal<productsV3.AggregationData>(config.aggregations);
+        signalsService.signal<productsV3.AggregationData>(
+          config.searchAggregations ?? config.aggregations,
+        );
 
       const isLoadingSignal = signalsService.signal<boolean>(false);
       const errorSignal = signalsService.signal<string | null>(null);
 
+      /* Page-based navigation state */
+      const currentPageSignal = signalsService.signal<number>(1);
+      // Highest page number known to exist, and whether it is the last one
+      const lastKnownPageSignal = signalsService.signal<number>(1);
+      const isLastPageKnownSignal = signalsService.signal<boolean>(false);
+      // Cursor used to fetch each page; the first page is fetched with the search options
+      let pageCursors = new Map<number, string | undefined>();
+      // Fetched pages keyed by their cursor ('' for a page fetched with the search options)
+      let pageCache = new Map<string, ProductsPage>();
+      // Page number restored by browser navigation, applied once its products are fetched
+      let pendingPage: number | null = null;
+      // Incremented by every page request, so only the latest one updates the products
+      let latestPageRequest = 0;
+
+      const registerPage = (
+        page: number,
+        cursor: string | undefined,
+        productsPage: ProductsPage,
+      ) => {
+        pageCursors.set(page, cursor);
+        pageCache.set(cursor ?? '', productsPage);
+
+        const nextCursor = productsPage.pagingMetadata.cursors?.next;
+        const hasNext = Boolean(productsPage.pagingMetadata.hasNext);
+        if (hasNext && nextCursor) {
+          pageCursors.set(page + 1, nextCursor);
+        }
+
+        const knownPage = hasNext ? page + 1 : page;
+        if (knownPage > lastKnownPageSignal.peek()) {
+          lastKnownPageSignal.set(knownPage);
+        }
+        if (!hasNext) {
+          lastKnownPageSignal.set(page);
+          isLastPageKnownSignal.set(true);
+        }
+      };
+
+      const resetPages = (
+        page: number,
+        cursor: string | undefined,
+        productsPage: ProductsPage,
+      ) => {
+        pageCursors = new Map();
+        pageCache = new Map();
+        lastKnownPageSignal.set(page);
+        isLastPageKnownSignal.set(false);
+        currentPageSignal.set(page);
+        // The first page can always be fetched with the search options alone
+        pageCursors.set(1, undefined);
+        registerPage(page, cursor, productsPage);
+      };
+
+      resetPages(
+        config.initialPage ?? 1,
+        config.searchOptions.cursorPaging?.cursor ?? undefined,
+        {
+          products: config.products,
+          pagingMetadata: config.pagingMetadata,
+        },
+      );
+
       if (typeof window !== 'undefined') {
         signalsService.effect(async () => {
           // CRITICAL: Read the signals FIRST to establish dependencies, even on first run
@@ -476,12 +605,25 @@ export const ProductListService =
 
           try {
             isLoadingSignal.set(true);
+            // A new search replaces the pages a pending page request would show
+            latestPageRequest++;
 
             const result = await fetchProducts(searchOptions);
 
             productsSignal.set(result.products ?? []);
+            aggregationsSignal.set(result.aggregationData ?? {});
 
             pagingMetadataSignal.set(result.pagingMetadata!);
+
+            resetPages(
+              pendingPage ?? 1,
+              searchOptions.cursorPaging?.cursor ?? undefined,
+              {
+                products: result.products ?? [],
+                pagingMetadata: result.pagingMetadata!,
+              },
+            );
+            pendingPage = null;
           } catch (error) {
             errorSignal.set(
               error instanceof Error ? error.message : 'Unknown error',
@@ -494,6 +636,85 @@ export const ProductListService =
 
       firstRun = false;
 
+      const syncWithUrl = Boolean(config.syncWithUrl);
+
+      const writeUrl = (
+        searchOptions: productsV3.V3ProductSearch,
+        mode: 'push' | 'replace',
+        page: number = 1,
+      ) => {
+        if (!syncWithUrl || typeof window === 'undefined') return;
+
+        const params = serializeSearchOptionsToUrlParams(
+          searchOptions,
+          config.customizations,
+          window.location.search,
+          page,
+        );
+        const query = params.toString();
+        const newUrl = query
+          ? `${window.location.pathname}?${query}`
+          : window.location.pathname;
+        const state = {
+          ...window.history.state,
+          [HISTORY_STATE_KEY]: searchOptions,
+          [HISTORY_PAGE_STATE_KEY]: page,
+        };
+
+        if (mode === 'push') {
+          if (newUrl === window.location.pathname + window.location.search) {
+            window.history.replaceState(state, '', newUrl);
+          } else {
+            window.history.pushState(state, '', newUrl);
+          }
+        } else {
+          window.history.replaceState(state, '', newUrl);
+        }
+      };
+
+      const updateSearchOptions = (
+        searchOptions: productsV3.V3ProductSearch,
+      ) => {
+        searchOptionsSignal.set(searchOptions);
+        writeUrl(searchOptions, 'push');
+      };
+
+      /**
+       * Search options for a changed sort or filter, which always start from the first page
+       */
+      const withoutCursor = (
+        searchOptions: productsV3.V3ProductSearch,
+      ): productsV3.V3ProductSearch => {
+        if (!searchOptions.cursorPaging?.cursor) return searchOptions;
+
+        const { cursor: _cursor, ...cursorPaging } = searchOptions.cursorPaging;
+        return { ...searchOptions, cursorPaging };
+      };
+
+      const startUrlSync = () => {
+        if (!syncWithUrl || typeof window === 'undefined') return () => {};
+
+        // Seed the current history entry so navigating back to it restores the initial state
+        window.history.replaceState(
+          {
+            ...window.history.state,
+            [HISTORY_STATE_KEY]: config.searchOptions,
+            [HISTORY_PAGE_STATE_KEY]: config.initialPage ?? 1,
+          },
+          '',
+        );
+
+        const handlePopState = (event: PopStateEvent) => {
+          const searchOptions: productsV3.V3ProductSearch | undefined =
+            event.state?.[HISTORY_STATE_KEY];
+          pendingPage = event.state?.[HISTORY_PAGE_STATE_KEY] ?? null;
+          searchOptionsSignal.set(searchOptions ?? config.searchOptions);
+        };
+        window.addEventListener('popstate', handlePopState);
+
+        return () => window.removeEventListener('popstate', handlePopState);
+      };
+
       const loadMoreCursor = async (count: number) => {
         const affectiveSearchOptions: Parameters<
           typeof productsV3.searchProducts
@@ -513,6 +734,16 @@ export const ProductListService =
           ]);
 
           pagingMetadataSignal.set(result.pagingMetadata!);
+
+          // Persist the loaded amount rather than the cursor, so a reload renders the same products
+          const currentOptions = searchOptionsSignal.peek();
+          writeUrl(
+            {
+              ...currentOptions,
+              cursorPaging: { limit: productsSignal.peek().length },
+            },
+            'replace',
+          );
         } catch (error) {
           errorSignal.set(
             error instanceof Error ? error.message : 'Unknown error',
@@ -522,6 +753,87 @@ export const ProductListService =
         }
       };
 
+      const fetchPage = async (
+        cursor: string | undefined,
+      ): Promise<ProductsPage> => {
+        const cached = pageCache.get(cursor ?? '');
+        if (cached) return cached;
+
+        const searchOptions = searchOptionsSignal.peek();
+        const limit = searchOptions.cursorPaging?.limit ?? DEFAULT_QUERY_LIMIT;
+        // A cursor already encodes the filter and sort of the search it came from
+        const result = await fetchProducts(
+          cursor
+            ? { cursorPaging: { cursor, limit } }
+            : { ...searchOptions, cursorPaging: { limit } },
+        );
+
+        return {
+          products: result.products ?? [],
+          pagingMetadata: result.pagingMetadata!,
+        };
+      };
+
+      const goToPage = async (page: number) => {
+        const currentPage = currentPageSignal.peek();
+        if (page < 1 || page === currentPage) return;
+
+        // A later page request or search makes this one stale, so it stops without showing its page
+        const request = ++latestPageRequest;
+        const isStale = () => request !== latestPageRequest;
+
+        try {
+          isLoadingSignal.set(true);
+          errorSignal.set(null);
+
+          // Walk forward from the closest page with a known cursor
+          let targetPage = page;
+          let walkPage = page;
+          while (!pageCursors.has(walkPage)) walkPage--;
+          while (walkPage < targetPage) {
+            const walkCursor = pageCursors.get(walkPage);
+            const productsPage = await fetchPage(walkCursor);
+            if (isStale()) return;
+            registerPage(walkPage, walkCursor, productsPage);
+
+            if (!pageCursors.has(walkPage + 1)) {
+              // The requested page is past the last page
+              targetPage = walkPage;
+              break;
+            }
+            walkPage++;
+          }
+
+          const cursor = pageCursors.get(targetPage);
+          const productsPage = await fetchPage(cursor);
+          if (isStale()) return;
+          registerPage(targetPage, cursor, productsPage);
+
+          productsSignal.set(productsPage.products);
+          pagingMetadataSignal.set(productsPage.pagingMetadata);
+          currentPageSignal.set(targetPage);
+
+          const searchOptions = searchOptionsSignal.peek();
+          writeUrl(
+            {
+              ...searchOptions,
+              cursorPaging: { ...searchOptions.cursorPaging, cursor },
+            },
+            'push',
+            targetPage,
+          );
+        } catch (error) {
+          if (isStale()) return;
+          errorSignal.set(
+            error instanceof Error ? error.message : 'Failed to load page',
+          );
+        } finally {
+          if (!isStale()) {
+            isLoadingSignal.set(false);
+          }
+        }
+      };
+
       return {
         products: productsSignal,
         searchOptions: searchOptionsSignal,
@@ -534,28 +846,34 @@ export const ProductListService =
         availableProductOptions: availableProductOptionsSignal,
         /* End of Metadata for products list */
         setSearchOptions: (searchOptions: productsV3.V3ProductSearch) => {
-          searchOptionsSignal.set(searchOptions);
+          updateSearchOptions(searchOptions);
         },
         setSort: (sort: productsV3.V3ProductSearch['sort']) => {
           const currentOptions = searchOptionsSignal.peek();
-          searchOptionsSignal.set({
-            ...currentOptions,
-            sort,
-          });
+          updateSearchOptions(
+            withoutCursor({
+              ...currentOptions,
+              sort,
+            }),
+          );
         },
         setFilter: (filter: productsV3.V3ProductSearch['filter']) => {
           const currentOptions = searchOptionsSignal.peek();
-          searchOptionsSignal.set({
-            ...currentOptions,
-            filter,
-          });
+          updateSearchOptions(
+            withoutCursor({
+              ...currentOptions,
+              filter,
+            }),
+          );
         },
         resetFilter: () => {
           const currentOptions = searchOptionsSignal.peek();
-          searchOptionsSignal.set({
-            ...currentOptions,
-            filter: {},
-          });
+          updateSearchOptions(
+            withoutCursor({
+              ...currentOptions,
+              filter: {},
+            }),
+          );
         },
         isFiltered: () => {
           return signalsService.computed(() => {
@@ -575,6 +893,34 @@ export const ProductListService =
         hasMoreProducts: signalsService.computed(
           () => pagingMetadataSignal.get().hasNext ?? false,
         ),
+        currentPage: currentPageSignal,
+        totalPages: signalsService.computed(() => lastKnownPageSignal.get()),
+        isTotalPagesExact: signalsService.computed(() =>
+          isLastPageKnownSignal.get(),
+        ),
+        hasNextPage: signalsService.computed(
+          () => pagingMetadataSignal.get().hasNext ?? false,
+        ),
+        hasPreviousPage: signalsService.computed(
+          () => currentPageSignal.get() > 1,
+        ),
+        nextPage: async () => {
+          if (!pagingMetadataSignal.peek().hasNext) return;
+          await goToPage(currentPageSignal.peek() + 1);
+        },
+        previousPage: async () => {
+          const currentPage = currentPageSignal.peek();
+          if (currentPage <= 1) return;
+
+          // After browser navigation only the current page is known, so go back with its prev cursor
+          const prevCursor = pagingMetadataSignal.peek().cursors?.prev;
+          if (!pageCursors.has(currentPage - 1) && prevCursor) {
+            pageCursors.set(currentPage - 1, prevCursor);
+          }
+          await goToPage(currentPage - 1);
+        },
+        goToPage,
+        startUrlSync,
       };
     },
   );
@@ -599,19 +945,62 @@ function getMaxPrice(aggregationData: productsV3.AggregationResults[]): number {
   return 0;
 }
 
+// Aggregated option and choice names may differ in case from the customizations
+function matchesAggregationName(
+  name: string,
+  aggregationNames: string[],
+): boolean {
+  return aggregationNames.some(
+    (aggName) => aggName.toLowerCase() === name.toLowerCase(),
+  );
+}
+
+/**
+ * Returns the result counts of the choices of a product option, keyed by choice ID, from the
+ * `optionChoiceNames` aggregation of the search. Choices are matched by option and choice name,
+ * ignoring case, so choices of the same name in different options are counted apart.
+ *
+ * @param aggregationData - Aggregation data of the search
+ * @param option - Product option to count the choices of
+ * @returns The counts, or undefined when the aggregation wasn't returned. Choices without results are missing
+ */
+export function getOptionChoiceCounts(
+  aggregationData: productsV3.AggregationData,
+  option: ProductOption,
+): Record<string, number> | undefined {
+  const aggregation = aggregationData.results?.find(
+    (result) => result.name === 'optionChoiceNames',
+  );
+  if (!aggregation?.nested?.results) return undefined;
+
+  const counts: Record<string, number> = {};
+  aggregation.nested.results.forEach(({ results }) => {
+    const optionName = results?.['optionName']?.value?.value;
+    const choiceName = results?.['choiceName']?.value;
+    if (
+      !optionName ||
+      !choiceName?.value ||
+      typeof choiceName.count !== 'number' ||
+      !matchesAggregationName(option.name, [optionName])
+    ) {
+      return;
+    }
+
+    option.choices
+      .filter((choice) =>
+        matchesAggregationName(choice.name, [choiceName.value!]),
+      )
+      .forEach((choice) => {
+        counts[choice.id] = (counts[choice.id] ?? 0) + choiceName.count!;
+      });
+  });
+  return counts;
+}
+
 function getAvailableProductOptions(
   aggregationData: productsV3.AggregationResults[] = [],
   customizations: customizationsV3.Customization[] = [],
 ): ProductOption[] {
-  const matchesAggregationName = (
-    name: string,
-    aggregationNames: string[],
-  ): boolean => {
-    return aggregationNames.some(
-      (aggName) => aggName.toLowerCase() === name.toLowerCase(),
-    );
-  };
-
   const sortChoicesIntelligently = (
     choices: ProductChoice[],
   ): ProductChoice[] => {
@@ -688,6 +1077,23 @@ function getAvailableProductOptions(
   return options;
 }
 
+/**
+ * Query parameters owned by the products list, besides the dynamic product option names.
+ */
+const SEARCH_URL_PARAMS = [
+  'minPrice',
+  'maxPrice',
+  'inventory_status',
+  'inventoryStatus',
+  'visible',
+  'productType',
+  'q',
+  'limit',
+  'cursor',
+  'page',
+  'sort',
+];
+
 /**
  * Initial search state that can be loaded from URL parameters.
  */
@@ -695,6 +1101,7 @@ export type InitialSearchState = {
   sort?: SortType;
   limit?: number;
   cursor?: string | null;
+  page?: number;
   priceRange?: { min?: number; max?: number };
   inventoryStatuses?: InventoryStatusType[];
   productOptions?: Record<string, string[]>;
@@ -837,6 +1244,12 @@ export async function parseUrlToSearchOptions(
     if (cursor) {
       searchOptions.cursorPaging.cursor = cursor;
       initialSearchState.cursor = cursor;
+
+      // The page number only identifies the page together with its cursor
+      const pageNum = parseInt(searchParams.get('page') ?? '', 10);
+      if (!isNaN(pageNum) && pageNum > 1) {
+        initialSearchState.page = pageNum;
+      }
     }
   }
 
@@ -892,23 +1305,10 @@ export async function parseUrlToSearchOptions(
   }
 
   // Parse product options from URL parameters
-  const reservedParams = [
-    'minPrice',
-    'maxPrice',
-    'inventory_status',
-    'inventoryStatus',
-    'visible',
-    'productType',
-    'q',
-    'limit',
-    'cursor',
-    'sort',
-  ];
-
   const productOptionsById: Record<string, string[]> = {};
 
   for (const [optionName, optionValues] of searchParams.entries()) {
-    if (reservedParams.includes(optionName)) continue;
+    if (SEARCH_URL_PARAMS.includes(optionName)) continue;
 
     // Find the option by name in customizations
     const option = customizations.find(
@@ -987,6 +1387,26 @@ export async function parseUrlToSearchOptions(
         sortDirection: productsV3.SortDirection.ASC,
       },
     },
+    {
+      name: 'optionChoiceNames',
+      type: 'NESTED' as const,
+      nested: {
+        nestedAggregations: [
+          {
+            name: 'optionName',
+            fieldPath: 'options.name',
+            type: productsV3.SortType.VALUE,
+            value: { limit: 20 },
+          },
+          {
+            name: 'choiceName',
+            fieldPath: 'options.choicesSettings.choices.name',
+            type: productsV3.SortType.VALUE,
+            value: { limit: 50 },
+          },
+        ],
+      },
+    },
     {
       name: 'inventoryStatus',
       fieldPath: 'inventory.availabilityStatus',
@@ -1048,139 +1468,180 @@ export function convertUrlSortToSortType(urlSort: string): SortType | null {
 }
 
 /**
- * Update URL with current search state (sort, filters, pagination)
+ * Convert the sort part of search options to a SortType enum, if it maps to one
  */
-//@ts-expect-error
-function updateUrlWithSearchState(searchState: {
-  sort: string;
-  filters: InitialSearchState;
-  customizations: customizationsV3.Customization[];
-  catalogBounds: { minPrice: number; maxPrice: number };
-  categorySlug?: string;
-}): void {
-  if (typeof window === 'undefined') return;
-
-  const { sort, filters, customizations, catalogBounds, categorySlug } =
-    searchState;
-
-  // Convert filter IDs back to human-readable names for URL
-  const humanReadableOptions: Record<string, string[]> = {};
-  for (const [optionId, choiceIds] of Object.entries(
-    filters?.productOptions ?? {},
-  )) {
-    const option = customizations.find((c) => c._id === optionId);
-    if (option && option.name) {
-      const choiceNames: string[] = [];
-      for (const choiceId of choiceIds) {
-        const choice = option.choicesSettings?.choices?.find(
-          (c: customizationsV3.Choice) => c._id === choiceId,
-        );
-        if (choice && choice.name) {
-          choiceNames.push(choice.name);
-        }
-      }
-      if (choiceNames.length > 0) {
-        humanReadableOptions[option.name] = choiceNames;
-      }
-    }
-  }
+function convertSearchSortToSortType(
+  sort: productsV3.V3ProductSearch['sort'],
+): SortType | null {
+  const primarySort = sort?.[0];
+  if (!primarySort?.fieldName) return null;
 
-  // Start with current URL parameters to preserve non-search parameters
-  const params = new URLSearchParams(window.location.search);
-
-  // Define search-related parameters that we manage
-  const searchParams = [
-    'sort',
-    'limit',
-    'cursor',
-    'minPrice',
-    'maxPrice',
-    'inventoryStatus',
-    'visible',
-    'productType',
-    // Product option names will be dynamically added below
-    // Note: category is NOT included here as it's handled in the URL path
-  ];
+  const isDesc = primarySort.order === productsV3.SortDirection.DESC;
 
-  // Remove existing search parameters first
-  searchParams.forEach((param) => params.delete(param));
+  switch (primarySort.fieldName) {
+    case 'name':
+      return isDesc ? SortType.NAME_DESC : SortType.NAME_ASC;
+    case 'actualPriceRange.minValue.amount':
+      return isDesc ? SortType.PRICE_DESC : SortType.PRICE_ASC;
+    default:
+      return null;
+  }
+}
 
-  // Remove existing product option parameters (they have dynamic names)
-  for (const customization of customizations) {
-    if (
+/**
+ * Serialize search options into URL query parameters.
+ * This is the inverse of {@link parseUrlToSearchOptions} and uses the same schema:
+ *
+ * - `q` - `search.expression`, e.g. `q=shirt`
+ * - `sort` - the first sort entry: `name`, `name:desc`, `price` or `price:desc`
+ * - `limit` - `cursorPaging.limit`, only when it differs from the default
+ * - `cursor` - `cursorPaging.cursor`
+ * - `page` - the page number of page-based navigation, only with a cursor and past the first page
+ * - `minPrice` / `maxPrice` - `$gte` / `$lte` of the `actualPriceRange` min/max amount filters
+ * - `inventoryStatus` - comma separated `inventory.availabilityStatus` values
+ * - `visible` / `productType` - the matching filter fields
+ * - `<option name>` - comma separated choice names of the selected product option choices, e.g. `Color=Red,Blue`
+ *
+ * The category filter is not serialized, as the category is represented by the last URL path segment.
+ * Parameters not managed by the products list are preserved from `currentSearch`.
+ *
+ * @param {productsV3.V3ProductSearch} searchOptions - The search options to serialize
+ * @param {customizationsV3.Customization[]} customizations - Customizations used to resolve choice IDs to names
+ * @param {string} [currentSearch] - Existing query string whose unrelated parameters should be kept
+ * @param {number} [page] - Page number of the page the cursor points to
+ * @returns {URLSearchParams} The serialized query parameters
+ *
+ * @example
+ * ```tsx
+ * const params = serializeSearchOptionsToUrlParams(
+ *   productsService.searchOptions.get(),
+ *   customizations,
+ *   window.location.search,
+ * );
+ * // => sort=price%3Adesc&Color=Red%2CBlue&minPrice=50
+ * ```
+ */
+export function serializeSearchOptionsToUrlParams(
+  searchOptions: productsV3.V3ProductSearch,
+  customizations: customizationsV3.Customization[],
+  currentSearch: string = '',
+  page: number = 1,
+): URLSearchParams {
+  const params = new URLSearchParams(currentSearch);
+  const productOptions = customizations.filter(
+    (customization) =>
       customization.customizationType ===
-        customizationsV3.CustomizationType.PRODUCT_OPTION &&
-      customization.name
-    ) {
-      params.delete(customization.name);
-    }
+        customizationsV3.CustomizationType.PRODUCT_OPTION && customization.name,
+  );
+
+  // Remove the parameters we manage, including product options (they have dynamic names)
+  SEARCH_URL_PARAMS.forEach((param) => params.delete(param));
+  productOptions.forEach((option) => params.delete(option.name!));
+
+  if (searchOptions.search?.expression) {
+    params.set('q', searchOptions.search.expression);
   }
 
-  // Add sort parameter (only if not default)
-  const urlSort = convertSortTypeToUrl(sort as SortType);
-  if (sort !== SortType.NAME_ASC) {
-    params.set('sort', urlSort);
+  const sortType = convertSearchSortToSortType(searchOptions.sort);
+  if (sortType) {
+    params.set('sort', convertSortTypeToUrl(sortType));
   }
 
-  // Add price range parameters only if they differ from catalog bounds
-  if (
-    filters.priceRange?.min &&
-    filters.priceRange.min > catalogBounds.minPrice
-  ) {
-    params.set('minPrice', filters.priceRange.min.toString());
+  const limit = searchOptions.cursorPaging?.limit;
+  if (limit && limit !== DEFAULT_QUERY_LIMIT) {
+    params.set('limit', limit.toString());
   }
-  if (
-    filters.priceRange?.max &&
-    filters.priceRange.max < catalogBounds.maxPrice
-  ) {
-    params.set('maxPrice', filters.priceRange.max.toString());
+  if (searchOptions.cursorPaging?.cursor) {
+    params.set('cursor', searchOptions.cursorPaging.cursor);
+    if (page > 1) {
+      params.set('page', page.toString());
+    }
   }
 
-  // Add inventory status parameters
-  if (filters.inventoryStatuses && filters.inventoryStatuses.length > 0) {
-    params.set('inventoryStatus', filters.inventoryStatuses.join(','));
+  // The filter type only declares the logical operators, so the fields are read as unknown values
+  const filter: Record<string, unknown> = { ...searchOptions.filter };
+
+  const minPrice = getFilterCondition(
+    filter,
+    'actualPriceRange.minValue.amount',
+    '$gte',
+  );
+  if (typeof minPrice === 'number') {
+    params.set('minPrice', minPrice.toString());
+  }
+  const maxPrice = getFilterCondition(
+    filter,
+    'actualPriceRange.maxValue.amount',
+    '$lte',
+  );
+  if (typeof maxPrice === 'number') {
+    params.set('maxPrice', maxPrice.toString());
   }
 
-  // Add visibility filter (only if explicitly false, since true is default)
-  if (filters.visible === false) {
-    params.set('visible', 'false');
+  const inventoryStatuses = getFilterCondition(
+    filter,
+    'inventory.availabilityStatus',
+    '$in',
+  );
+  if (isStringArray(inventoryStatuses) && inventoryStatuses.length > 0) {
+    params.set('inventoryStatus', inventoryStatuses.join(','));
   }
 
-  // Add product type filter
-  if (filters.productType) {
-    params.set('productType', filters.productType);
+  const visible: unknown = filter['visible'];
+  if (typeof visible === 'boolean') {
+    params.set('visible', String(visible));
   }
 
-  // Add product options as individual parameters (Color=Red,Blue&Size=Large)
-  for (const [optionName, values] of Object.entries(humanReadableOptions)) {
-    if (values.length > 0) {
-      params.set(optionName, values.join(','));
-    }
+  const productType: unknown = filter['productType'];
+  if (typeof productType === 'string' && productType) {
+    params.set('productType', productType);
   }
 
-  // Handle URL path construction with category
-  let baseUrl = window.location.pathname;
-
-  // If categorySlug is provided, replace the last path segment (which represents the category)
-  if (categorySlug) {
-    const pathSegments = baseUrl.split('/').filter(Boolean);
-    if (pathSegments.length > 0) {
-      // Replace the last segment with the new category slug
-      pathSegments[pathSegments.length - 1] = categorySlug;
-      baseUrl = '/' + pathSegments.join('/');
-    } else {
-      // If no segments, just use the category slug
-      baseUrl = `/${categorySlug}`;
+  // Convert choice IDs back to human-readable names, grouped by option (Color=Red,Blue&Size=Large)
+  const selectedChoiceIds = getFilterCondition(
+    filter,
+    'options.choicesSettings.choices.choiceId',
+    '$hasSome',
+  );
+  const choiceIds = isStringArray(selectedChoiceIds) ? selectedChoiceIds : [];
+  for (const option of productOptions) {
+    const choiceNames = (option.choicesSettings?.choices ?? [])
+      .filter((choice) => choice._id && choiceIds.includes(choice._id))
+      .map((choice) => choice.name)
+      .filter(Boolean);
+
+    if (choiceNames.length > 0) {
+      params.set(option.name!, choiceNames.join(','));
     }
   }
 
-  // Build the new URL
-  const newUrl = params.toString()
-    ? `${baseUrl}?${params.toString()}`
-    : baseUrl;
+  return params;
+}
 
-  // Only update if URL actually changed
-  if (newUrl !== window.location.pathname + window.location.search) {
-    window.history.pushState(null, '', newUrl);
-  }
+/**
+ * Reads the value of an operator of a search filter field, e.g. the `$gte` of a price range.
+ * Returns undefined when the field doesn't have the operator.
+ *
+ * @private
+ */
+function getFilterCondition(
+  filter: Record<string, unknown>,
+  field: string,
+  operator: string,
+): unknown {
+  const condition = filter[field];
+  return typeof condition === 'object' &&
+    condition !== null &&
+    operator in condition
+    ? (condition as Record<string, unknown>)[operator]
+    : undefined;
+}
+
+/**
+ * @private
+ */
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === 'string')
+  );
 }
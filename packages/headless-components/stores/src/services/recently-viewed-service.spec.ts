@@ -0,0 +1,158 @@
+import {
+  createServicesManager,
+  createServicesMap,
+} from '@wix/services-manager';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  RecentlyViewedService,
+  RecentlyViewedServiceDefinition,
+  type RecentlyViewedServiceConfig,
+} from './recently-viewed-service.js';
+
+vi.mock('@wix/stores', () => ({
+  productsV3: {
+    searchProducts: vi.fn(),
+  },
+}));
+
+import { productsV3 } from '@wix/stores';
+
+const STORAGE_KEY = 'wix-stores-recently-viewed';
+const NOW = new Date('2026-01-31T12:00:00Z').getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const aProduct = (id: string): productsV3.V3Product => ({
+  _id: id,
+  name: `Product ${id}`,
+});
+
+const storeEntries = (entries: { productId: string; viewedAt: number }[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+};
+
+const storedProductIds = () =>
+  JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]').map(
+    (entry: { productId: string }) => entry.productId,
+  );
+
+describe('RecentlyViewedService', () => {
+  const createServiceInstance = (config: RecentlyViewedServiceConfig = {}) => {
+    const servicesManager = createServicesManager(
+      createServicesMap().addService(
+        RecentlyViewedServiceDefinition,
+        RecentlyViewedService,
+        config,
+      ),
+    );
+
+    return servicesManager.getService(RecentlyViewedServiceDefinition);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+    // Serve every requested product that exists
+    vi.mocked(productsV3.searchProducts).mockImplementation(
+      async (search) =>
+        ({
+          products: (search?.filter?._id as { $in: string[] }).$in.map(
+            aProduct,
+          ),
+        }) as any,
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  describe('restoreProducts', () => {
+    it('starts empty and loads the persisted products once restored', async () => {
+      storeEntries([
+        { productId: 'p1', viewedAt: NOW - DAY_MS },
+        { productId: 'p2', viewedAt: NOW - 2 * DAY_MS },
+      ]);
+      const service = createServiceInstance();
+
+      expect(service.productIds.get()).toEqual([]);
+      expect(productsV3.searchProducts).not.toHaveBeenCalled();
+
+      service.restoreProducts();
+      await vi.runAllTimersAsync();
+
+      expect(service.productIds.get()).toEqual(['p1', 'p2']);
+      expect(service.products.get().map((product) => product._id)).toEqual([
+        'p1',
+        'p2',
+      ]);
+      expect(productsV3.searchProducts).toHaveBeenCalledTimes(1);
+    });
+
+    it('forgets the views older than the TTL', async () => {
+      storeEntries([
+        { productId: 'p1', viewedAt: NOW - DAY_MS },
+        { productId: 'p2', viewedAt: NOW - 3 * DAY_MS },
+      ]);
+      const service = createServiceInstance({ ttlMs: 2 * DAY_MS });
+
+      service.restoreProducts();
+      await vi.runAllTimersAsync();
+
+      expect(service.productIds.get()).toEqual(['p1']);
+    });
+
+    it('forgets the products that no longer exist', async () => {
+      vi.mocked(productsV3.searchProducts).mockResolvedValue({
+        products: [aProduct('p2')],
+      } as any);
+      storeEntries([
+        { productId: 'p1', viewedAt: NOW },
+        { productId: 'p2', viewedAt: NOW },
+      ]);
+      const service = createServiceInstance();
+
+      service.restoreProducts();
+      await vi.runAllTimersAsync();
+
+      expect(service.productIds.get()).toEqual(['p2']);
+      expect(storedProductIds()).toEqual(['p2']);
+    });
+  });
+
+  describe('recordView', () => {
+    it('moves a product viewed again to the top instead of duplicating it', () => {
+      const service = createServiceInstance();
+
+      service.recordView(aProduct('p1'));
+      service.recordView(aProduct('p2'));
+      service.recordView(aProduct('p1'));
+
+      expect(service.productIds.get()).toEqual(['p1', 'p2']);
+      expect(storedProductIds()).toEqual(['p1', 'p2']);
+    });
+
+    it('caps the products to maxItems, forgetting the oldest views', () => {
+      const service = createServiceInstance({ maxItems: 2 });
+
+      service.recordView(aProduct('p1'));
+      service.recordView(aProduct('p2'));
+      service.recordView(aProduct('p3'));
+
+      expect(service.productIds.get()).toEqual(['p3', 'p2']);
+      expect(storedProductIds()).toEqual(['p3', 'p2']);
+    });
+
+    it('keeps the persisted products when a view is recorded before the restore', async () => {
+      storeEntries([{ productId: 'p1', viewedAt: NOW - DAY_MS }]);
+      const service = createServiceInstance();
+
+      service.recordView(aProduct('p2'));
+      service.restoreProducts();
+      await vi.runAllTimersAsync();
+
+      expect(service.productIds.get()).toEqual(['p2', 'p1']);
+      expect(storedProductIds()).toEqual(['p2', 'p1']);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import { defineService, implementService } from '@wix/services-definitions';
+import {
+  SignalsServiceDefinition,
+  type Signal,
+  type ReadOnlySignal,
+} from '@wix/services-definitions/core-services/signals';
+import { productsV3 } from '@wix/stores';
+
+const DEFAULT_MAX_ITEMS = 12;
+const DEFAULT_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const DEFAULT_STORAGE_KEY = 'wix-stores-recently-viewed';
+
+/**
+ * A recently viewed product entry, as persisted in localStorage.
+ */
+type RecentlyViewedEntry = {
+  productId: string;
+  /** Timestamp (ms) of the last view */
+  viewedAt: number;
+};
+
+/**
+ * Configuration interface for the Recently Viewed service.
+ * All fields are optional and fall back to sensible defaults.
+ *
+ * @interface RecentlyViewedServiceConfig
+ */
+export type RecentlyViewedServiceConfig = {
+  /** Maximum number of products to remember. Defaults to 12 */
+  maxItems?: number;
+  /** Time in milliseconds after which a view is forgotten. Defaults to 30 days */
+  ttlMs?: number;
+  /** localStorage key for the recently viewed product IDs. Defaults to 'wix-stores-recently-viewed' */
+  storageKey?: string;
+};
+
+/**
+ * Service definition for the Recently Viewed service.
+ * This defines the reactive API contract for the shopper's product browsing history.
+ *
+ * @constant
+ */
+export const RecentlyViewedServiceDefinition = defineService<
+  {
+    /** Reactive signal containing the recently viewed product IDs, most recent first */
+    productIds: Signal<string[]>;
+    /** Reactive signal containing the recently viewed products that have been loaded, most recent first */
+    products: ReadOnlySignal<productsV3.V3Product[]>;
+    /** Reactive signal indicating if products are currently being loaded */
+    isLoading: Signal<boolean>;
+    /** Reactive signal containing any error message, or null if no error */
+    error: Signal<string | null>;
+    /** Function to record a product view */
+    recordView: (product: productsV3.V3Product) => void;
+    /** Function to remove a product from the recently viewed products */
+    removeProduct: (productId: string) => void;
+    /** Function to clear the recently viewed products */
+    clear: () => void;
+    /**
+     * Function to read the product IDs persisted in localStorage and load their products.
+     * Called once mounted, so the server and the first client render start from an empty list
+     */
+    restoreProducts: () => void;
+  },
+  RecentlyViewedServiceConfig
+>('recently-viewed');
+
+/**
+ * Implementation of the Recently Viewed service.
+ * Product IDs are persisted in localStorage, capped to `maxItems` and expired after `ttlMs`.
+ * Once restored on the client, the stored products are loaded in a single batched query;
+ * products recorded during the session are kept as-is without refetching.
+ *
+ * @example
+ * ```tsx
+ * import { RecentlyViewedService, RecentlyViewedServiceDefinition } from '@wix/stores/services';
+ * import { useService } from '@wix/services-manager-react';
+ *
+ * function RecentlyViewedProducts() {
+ *   const recentlyViewedService = useService(RecentlyViewedServiceDefinition);
+ *   const products = recentlyViewedService.products.get();
+ *
+ *   return (
+ *     <ul>
+ *       {products.map((product) => (
+ *         <li key={product._id}>{product.name}</li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ */
+export const RecentlyViewedService =
+  implementService.withConfig<RecentlyViewedServiceConfig>()(
+    RecentlyViewedServiceDefinition,
+    ({ getService, config }) => {
+      const signalsService = getService(SignalsServiceDefinition);
+
+      const maxItems = config.maxItems ?? DEFAULT_MAX_ITEMS;
+      const ttlMs = config.ttlMs ?? DEFAULT_TTL_MS;
+      const storageKey = config.storageKey ?? DEFAULT_STORAGE_KEY;
+
+      let entries: RecentlyViewedEntry[] = [];
+      let hasRestoredEntries = false;
+
+      const productIdsSignal = signalsService.signal<string[]>([]);
+      const productsByIdSignal = signalsService.signal<
+        Record<string, productsV3.V3Product>
+      >({});
+      const isLoadingSignal = signalsService.signal<boolean>(false);
+      const errorSignal = signalsService.signal<string | null>(null);
+
+      const updateEntries = (newEntries: RecentlyViewedEntry[]) => {
+        entries = newEntries;
+        productIdsSignal.set(newEntries.map((entry) => entry.productId));
+        writeEntries(storageKey, newEntries);
+      };
+
+      const loadStoredProducts = async () => {
+        const productIds = productIdsSignal.peek();
+        if (productIds.length === 0) return;
+
+        try {
+          isLoadingSignal.set(true);
+
+          const result = await productsV3.searchProducts({
+            filter: { _id: { $in: productIds } },
+            cursorPaging: { limit: productIds.length },
+          });
+
+          const productsById = { ...productsByIdSignal.peek() };
+          for (const product of result.products ?? []) {
+            if (product._id && !productsById[product._id]) {
+              productsById[product._id] = product;
+            }
+          }
+          productsByIdSignal.set(productsById);
+
+          // Forget products that no longer exist or are no longer visible
+          const loadedIds = new Set(Object.keys(productsById));
+          const existingEntries = entries.filter((entry) =>
+            loadedIds.has(entry.productId),
+          );
+          if (existingEntries.length !== entries.length) {
+            updateEntries(existingEntries);
+          }
+        } catch (error) {
+          errorSignal.set(
+            error instanceof Error
+              ? error.message
+              : 'Failed to load recently viewed products',
+          );
+        } finally {
+          isLoadingSignal.set(false);
+        }
+      };
+
+      const restoreProducts = () => {
+        if (hasRestoredEntries || typeof window === 'undefined') return;
+
+        hasRestoredEntries = true;
+        entries = readEntries(storageKey, ttlMs, maxItems);
+        productIdsSignal.set(entries.map((entry) => entry.productId));
+        loadStoredProducts();
+      };
+
+      const changeEntries = (
+        change: (entries: RecentlyViewedEntry[]) => RecentlyViewedEntry[],
+      ) => {
+        // Changes made before the restore apply to the persisted views, not to an empty list
+        restoreProducts();
+        updateEntries(change(entries));
+      };
+
+      return {
+        productIds: productIdsSignal,
+        products: signalsService.computed(() => {
+          const productsById = productsByIdSignal.get();
+          return productIdsSignal
+            .get()
+            .map((productId) => productsById[productId])
+            .filter((product): product is productsV3.V3Product =>
+              Boolean(product),
+            );
+        }),
+        isLoading: isLoadingSignal,
+        error: errorSignal,
+        recordView: (product: productsV3.V3Product) => {
+          if (!product._id) return;
+
+          const productId = product._id;
+
+          productsByIdSignal.set({
+            ...productsByIdSignal.peek(),
+            [productId]: product,
+          });
+          changeEntries((currentEntries) =>
+            [
+              { productId, viewedAt: Date.now() },
+              ...currentEntries.filter(
+                (entry) => entry.productId !== productId,
+              ),
+            ].slice(0, maxItems),
+          );
+        },
+        removeProduct: (productId: string) => {
+          changeEntries((currentEntries) =>
+            currentEntries.filter((entry) => entry.productId !== productId),
+          );
+        },
+        clear: () => {
+          changeEntries(() => []);
+        },
+        restoreProducts,
+      };
+    },
+  );
+
+function readEntries(
+  storageKey: string,
+  ttlMs: number,
+  maxItems: number,
+): RecentlyViewedEntry[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(storageKey) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+
+    const now = Date.now();
+    return stored
+      .filter(
+        (entry): entry is RecentlyViewedEntry =>
+          typeof entry?.productId === 'string' &&
+          typeof entry?.viewedAt === 'number' &&
+          now - entry.viewedAt < ttlMs,
+      )
+      .slice(0, maxItems);
+  } catch {
+    return [];
+  }
+}
+
+function writeEntries(
+  storageKey: string,
+  entries: RecentlyViewedEntry[],
+): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Failed to persist recently viewed products:', error);
+  }
+}
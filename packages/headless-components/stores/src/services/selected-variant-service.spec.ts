@@ -0,0 +1,221 @@
+import { implementService } from '@wix/services-definitions';
+import {
+  createServicesManager,
+  createServicesMap,
+} from '@wix/services-manager';
+import { CurrentCartServiceDefinition } from '@wix/headless-ecom/services';
+import { MediaGalleryServiceDefinition } from '@wix/headless-media/services';
+import { describe, expect, it, vi } from 'vitest';
+import type { productsV3 } from '@wix/stores';
+import {
+  SelectedVariantService,
+  SelectedVariantServiceDefinition,
+  getMediaForSelectedChoices,
+} from './selected-variant-service.js';
+import { ProductService, ProductServiceDefinition } from './product-service.js';
+
+const aMedia = (id: string): productsV3.ProductMedia => ({
+  _id: id,
+  image: `https://static.wixstatic.com/media/${id}.jpg`,
+});
+
+const aVariant = (
+  id: string,
+  color: string,
+  size: string,
+): productsV3.Variant => ({
+  _id: id,
+  choices: [
+    { optionChoiceNames: { optionName: 'Color', choiceName: color } },
+    { optionChoiceNames: { optionName: 'Size', choiceName: size } },
+  ],
+  inventoryStatus: { inStock: true },
+});
+
+const aProduct: productsV3.V3Product = {
+  _id: 'product-1',
+  name: 'T-Shirt',
+  media: {
+    main: aMedia('main'),
+    itemsInfo: {
+      items: [aMedia('main'), aMedia('red'), aMedia('blue'), aMedia('back')],
+    },
+  },
+  options: [
+    {
+      name: 'Color',
+      choicesSettings: {
+        choices: [
+          { name: 'Red', linkedMedia: [aMedia('red')] },
+          { name: 'Blue', linkedMedia: [aMedia('blue'), aMedia('back')] },
+          { name: 'Green' },
+        ],
+      },
+    },
+    {
+      name: 'Size',
+      choicesSettings: {
+        choices: [{ name: 'S' }, { name: 'M', linkedMedia: [aMedia('back')] }],
+      },
+    },
+  ],
+  variantSummary: { variantCount: 2 },
+  variantsInfo: {
+    variants: [
+      aVariant('variant-red-s', 'Red', 'S'),
+      aVariant('variant-blue-m', 'Blue', 'M'),
+    ],
+  },
+};
+
+const mediaIds = (media: productsV3.ProductMedia[]) =>
+  media.map((item) => item._id);
+
+describe('getMediaForSelectedChoices', () => {
+  it('only returns the media linked to the selected choices by default', () => {
+    expect(
+      mediaIds(getMediaForSelectedChoices(aProduct, { Color: 'Blue' })),
+    ).toEqual(['blue', 'back']);
+  });
+
+  it('combines the media linked to each selected choice without duplicates', () => {
+    expect(
+      mediaIds(
+        getMediaForSelectedChoices(aProduct, { Color: 'Blue', Size: 'M' }),
+      ),
+    ).toEqual(['blue', 'back']);
+  });
+
+  it('moves the linked media first in reorder mode', () => {
+    expect(
+      mediaIds(
+        getMediaForSelectedChoices(
+          aProduct,
+          { Color: 'Red' },
+          { mode: 'reorder' },
+        ),
+      ),
+    ).toEqual(['red', 'main', 'blue', 'back']);
+  });
+
+  it('ignores the selected choices in none mode', () => {
+    expect(
+      mediaIds(
+        getMediaForSelectedChoices(
+          aProduct,
+          { Color: 'Red' },
+          { mode: 'none' },
+        ),
+      ),
+    ).toEqual(['main', 'red', 'blue', 'back']);
+  });
+
+  describe('without linked media', () => {
+    it('returns all product media by default', () => {
+      expect(
+        mediaIds(getMediaForSelectedChoices(aProduct, { Color: 'Green' })),
+      ).toEqual(['main', 'red', 'blue', 'back']);
+    });
+
+    it('returns the main media with the main fallback', () => {
+      expect(
+        mediaIds(
+          getMediaForSelectedChoices(
+            aProduct,
+            { Color: 'Green' },
+            { fallback: 'main' },
+          ),
+        ),
+      ).toEqual(['main']);
+    });
+
+    it('returns the first media with the main fallback when there is no main media', () => {
+      const product = {
+        ...aProduct,
+        media: { itemsInfo: { items: [aMedia('red'), aMedia('blue')] } },
+      };
+
+      expect(
+        mediaIds(getMediaForSelectedChoices(product, {}, { fallback: 'main' })),
+      ).toEqual(['red']);
+    });
+
+    it('returns no media with the none fallback', () => {
+      expect(
+        getMediaForSelectedChoices(aProduct, {}, { fallback: 'none' }),
+      ).toEqual([]);
+    });
+
+    it('returns the main media when the product has no media items', () => {
+      const product = { ...aProduct, media: { main: aMedia('main') } };
+
+      expect(mediaIds(getMediaForSelectedChoices(product, {}))).toEqual([
+        'main',
+      ]);
+    });
+  });
+});
+
+describe('SelectedVariantService', () => {
+  const createServiceInstance = (
+    initialSelectedChoices?: Record<string, string>,
+  ) => {
+    const mediaService = { setMediaToDisplay: vi.fn() };
+    const servicesManager = createServicesManager(
+      createServicesMap()
+        .addService(
+          MediaGalleryServiceDefinition,
+          implementService(
+            MediaGalleryServiceDefinition,
+            () => mediaService as any,
+          ),
+        )
+        .addService(
+          CurrentCartServiceDefinition,
+          implementService(CurrentCartServiceDefinition, () => ({}) as any),
+        )
+        .addService(ProductServiceDefinition, ProductService, {
+          product: aProduct,
+        })
+        .addService(SelectedVariantServiceDefinition, SelectedVariantService, {
+          fetchInventoryData: false,
+          initialSelectedChoices,
+        }),
+    );
+
+    return {
+      service: servicesManager.getService(SelectedVariantServiceDefinition),
+      mediaService,
+    };
+  };
+
+  describe('initialSelectedChoices', () => {
+    it('selects the initial choices and their variant when the service is created', () => {
+      const { service } = createServiceInstance({ Color: 'Blue', Size: 'M' });
+
+      expect(service.selectedChoices.get()).toEqual({
+        Color: 'Blue',
+        Size: 'M',
+      });
+      expect(service.selectedVariantId.get()).toBe('variant-blue-m');
+    });
+
+    it('displays the media linked to the initial choices right away', () => {
+      const { mediaService } = createServiceInstance({ Color: 'Red' });
+
+      expect(
+        mediaIds(mediaService.setMediaToDisplay.mock.calls[0]![0]),
+      ).toEqual(['red']);
+    });
+
+    it('starts without selected choices by default', () => {
+      const { service, mediaService } = createServiceInstance();
+
+      expect(service.selectedChoices.get()).toEqual({});
+      expect(service.selectedVariantId.get()).toBeNull();
+      expect(
+        mediaIds(mediaService.setMediaToDisplay.mock.calls[0]![0]),
+      ).toEqual(['main', 'red', 'blue', 'back']);
+    });
+  });
+});
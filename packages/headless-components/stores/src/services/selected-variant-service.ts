@@ -76,22 +76,46 @@ export interface SelectedVariantServiceAPI {
 
 export interface SelectedVariantServiceConfig {
   fetchInventoryData?: boolean;
+  /**
+   * Choices selected when the service is created, keyed by option name.
+   * Set it on both the server and the client (e.g. from the URL) so the initial render matches.
+   */
+  initialSelectedChoices?: Record<string, string>;
 }
 
+/**
+ * How media linked to the selected choices affects the displayed media:
+ * - `filter`: only display the linked media
+ * - `reorder`: display the linked media first, followed by the rest of the product media
+ * - `none`: ignore the selected choices
+ */
+export type VariantMediaMode = 'filter' | 'reorder' | 'none';
+
+/**
+ * Media to display when none of the selected choices has linked media:
+ * - `all`: all product media
+ * - `main`: the product's main media only
+ * - `none`: no media
+ */
+export type VariantMediaFallback = 'all' | 'main' | 'none';
+
 export const SelectedVariantServiceDefinition =
   defineService<SelectedVariantServiceAPI>('selectedVariant');
 
 export const SelectedVariantService =
   implementService.withConfig<SelectedVariantServiceConfig>()(
     SelectedVariantServiceDefinition,
-    ({ getService, config: { fetchInventoryData = true } }) => {
+    ({
+      getService,
+      config: { fetchInventoryData = true, initialSelectedChoices = {} },
+    }) => {
       const mediaService = getService(MediaGalleryServiceDefinition);
       const signalsService = getService(SignalsServiceDefinition);
       const cartService = getService(CurrentCartServiceDefinition);
       const productService = getService(ProductServiceDefinition);
 
       const selectedChoices: Signal<Record<string, string>> =
-        signalsService.signal({} as any);
+        signalsService.signal(initialSelectedChoices as any);
       const preOrderMessage: Signal<string | null> = signalsService.signal(
         null as any,
       );
@@ -101,38 +125,10 @@ export const SelectedVariantService =
       signalsService.effect(() => {
         const product = productService.product.get();
         const selectedChoicesValue = selectedChoices.get() || {};
-        let mediaToDisplay: productsV3.ProductMedia[] = [];
-
-        const productItemsImages =
-          product?.media?.itemsInfo?.items
-            ?.map((item: any) => item)
-            .filter(Boolean) ?? [];
-
-        if (productItemsImages.length) {
-          mediaToDisplay = productItemsImages;
-        } else if (product?.media?.main) {
-          mediaToDisplay = [product.media.main];
-        }
 
-        // Get images based on selected choices if available
-        let selectedChoicesImages: productsV3.ProductMedia[] = [];
-
-        Object.keys(selectedChoicesValue).forEach((choiceKey) => {
-          const productOption = product?.options
-            ?.find((option: any) => option.name === choiceKey)
-            ?.choicesSettings?.choices?.find(
-              (choice: any) => choice.name === selectedChoicesValue[choiceKey],
-            );
-          if (productOption) {
-            selectedChoicesImages.push(...(productOption.linkedMedia ?? []));
-          }
-        });
-
-        if (selectedChoicesImages?.length) {
-          mediaToDisplay = selectedChoicesImages;
-        }
-
-        mediaService.setMediaToDisplay(mediaToDisplay ?? []);
+        mediaService.setMediaToDisplay(
+          getMediaForSelectedChoices(product, selectedChoicesValue),
+        );
       });
 
       const parsePrice = (amount?: string | null): number => {
@@ -491,76 +487,9 @@ export const SelectedVariantService =
           throw new Error('Product not found');
         }
 
-        // Build catalog reference with modifiers if provided
-        const catalogReference: any = {
-          catalogItemId: prod._id,
-          appId: '215238eb-22a5-4c36-9e7b-e7c08025e04e',
-          options:
-            variant?._id && variant._id !== 'default'
-              ? {
-                  variantId: variant._id,
-                  preOrderRequested:
-                    !!variant?.inventoryStatus?.preorderEnabled,
-                }
-              : undefined,
-        };
-
-        // Transform and add modifiers to catalog reference if they exist
-        if (modifiers && Object.keys(modifiers).length > 0) {
-          const options: Record<string, string> = {};
-          const customTextFields: Record<string, string> = {};
-
-          // Get product modifiers to determine types and keys
-          const productModifiers = prod.modifiers || [];
-
-          Object.values(modifiers).forEach((modifierValue: any) => {
-            const modifierName = modifierValue.modifierName;
-            const productModifier = productModifiers.find(
-              (m) => m.name === modifierName,
-            );
-
-            if (!productModifier) return;
-
-            const renderType = productModifier.modifierRenderType;
-
-            if (
-              renderType === productsV3.ModifierRenderType.TEXT_CHOICES ||
-              renderType === productsV3.ModifierRenderType.SWATCH_CHOICES
-            ) {
-              // For choice modifiers, use the modifier key and choice value
-              const modifierKey = (productModifier as any).key || modifierName;
-              if (modifierValue.choiceValue) {
-                options[modifierKey] = modifierValue.choiceValue;
-              }
-            } else if (renderType === productsV3.ModifierRenderType.FREE_TEXT) {
-              // For free text modifiers, use the freeTextSettings key
-              const freeTextKey =
-                (productModifier.freeTextSettings as any)?.key || modifierName;
-              if (modifierValue.freeTextValue) {
-                customTextFields[freeTextKey] = modifierValue.freeTextValue;
-              }
-            }
-          });
-
-          // Add formatted modifiers to catalog reference
-          if (Object.keys(options).length > 0) {
-            catalogReference.options = {
-              ...catalogReference.options,
-              options,
-            };
-          }
-
-          if (Object.keys(customTextFields).length > 0) {
-            catalogReference.options = {
-              ...catalogReference.options,
-              customTextFields,
-            };
-          }
-        }
-
         return [
           {
-            catalogReference,
+            catalogReference: createCatalogReference(prod, variant, modifiers),
             quantity,
           },
         ];
@@ -800,3 +729,153 @@ export const SelectedVariantService =
       };
     },
   );
+
+/**
+ * Returns the media to display for the selected choices, based on the media linked to each choice.
+ * Pure and deterministic, so the server and the client compute the same media for the same choices.
+ *
+ * @param product - The product
+ * @param selectedChoices - The selected choices, keyed by option name
+ * @param options - How linked media affects the displayed media, and what to display without linked media
+ * @returns The media to display
+ */
+export function getMediaForSelectedChoices(
+  product: V3Product | null | undefined,
+  selectedChoices: Record<string, string>,
+  options: { mode?: VariantMediaMode; fallback?: VariantMediaFallback } = {},
+): productsV3.ProductMedia[] {
+  const { mode = 'filter', fallback = 'all' } = options;
+
+  const productMedia = product?.media?.itemsInfo?.items?.filter(Boolean) ?? [];
+  const allMedia = productMedia.length
+    ? productMedia
+    : product?.media?.main
+      ? [product.media.main]
+      : [];
+
+  if (mode === 'none') {
+    return allMedia;
+  }
+
+  const linkedMedia = uniqueMedia(
+    Object.keys(selectedChoices).flatMap(
+      (optionName) =>
+        product?.options
+          ?.find((option) => option.name === optionName)
+          ?.choicesSettings?.choices?.find(
+            (choice) => choice.name === selectedChoices[optionName],
+          )?.linkedMedia ?? [],
+    ),
+  );
+
+  if (linkedMedia.length === 0) {
+    if (fallback === 'main') {
+      return product?.media?.main ? [product.media.main] : allMedia.slice(0, 1);
+    }
+    return fallback === 'none' ? [] : allMedia;
+  }
+
+  return mode === 'reorder'
+    ? uniqueMedia([...linkedMedia, ...allMedia])
+    : linkedMedia;
+}
+
+/**
+ * Removes duplicated media, keeping the first occurrence.
+ *
+ * @private
+ */
+function uniqueMedia(
+  media: productsV3.ProductMedia[],
+): productsV3.ProductMedia[] {
+  const seen = new Set<string>();
+  return media.filter((item) => {
+    const key = item._id || item.image || item.url;
+    if (!key) return true;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Builds the cart catalog reference of a product variant, including the selected modifiers.
+ *
+ * @param product - The product, which must have an ID
+ * @param variant - The selected variant, if the product has variants
+ * @param modifiers - The selected modifiers, keyed by modifier name
+ * @returns The catalog reference to add to the cart
+ */
+export function createCatalogReference(
+  product: V3Product,
+  variant?: Variant | null,
+  modifiers?: Record<string, any>,
+): any {
+  // Build catalog reference with modifiers if provided
+  const catalogReference: any = {
+    catalogItemId: product._id,
+    appId: '215238eb-22a5-4c36-9e7b-e7c08025e04e',
+    options:
+      variant?._id && variant._id !== 'default'
+        ? {
+            variantId: variant._id,
+            preOrderRequested: !!variant?.inventoryStatus?.preorderEnabled,
+          }
+        : undefined,
+  };
+
+  // Transform and add modifiers to catalog reference if they exist
+  if (modifiers && Object.keys(modifiers).length > 0) {
+    const options: Record<string, string> = {};
+    const customTextFields: Record<string, string> = {};
+
+    // Get product modifiers to determine types and keys
+    const productModifiers = product.modifiers || [];
+
+    Object.values(modifiers).forEach((modifierValue: any) => {
+      const modifierName = modifierValue.modifierName;
+      const productModifier = productModifiers.find(
+        (m) => m.name === modifierName,
+      );
+
+      if (!productModifier) return;
+
+      const renderType = productModifier.modifierRenderType;
+
+      if (
+        renderType === productsV3.ModifierRenderType.TEXT_CHOICES ||
+        renderType === productsV3.ModifierRenderType.SWATCH_CHOICES
+      ) {
+        // For choice modifiers, use the modifier key and choice value
+        const modifierKey = (productModifier as any).key || modifierName;
+        if (modifierValue.choiceValue) {
+          options[modifierKey] = modifierValue.choiceValue;
+        }
+      } else if (renderType === productsV3.ModifierRenderType.FREE_TEXT) {
+        // For free text modifiers, use the freeTextSettings key
+        const freeTextKey =
+          (productModifier.freeTextSettings as any)?.key || modifierName;
+        if (modifierValue.freeTextValue) {
+          customTextFields[freeTextKey] = modifierValue.freeTextValue;
+        }
+      }
+    });
+
+    // Add formatted modifiers to catalog reference
+    if (Object.keys(options).length > 0) {
+      catalogReference.options = {
+        ...catalogReference.options,
+        options,
+      };
+    }
+
+    if (Object.keys(customTextFields).length > 0) {
+      catalogReference.options = {
+        ...catalogReference.options,
+        customTextFields,
+      };
+    }
+  }
+
+  return catalogReference;
+}
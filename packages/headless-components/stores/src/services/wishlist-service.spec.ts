@@ -0,0 +1,188 @@
+import { implementService } from '@wix/services-definitions';
+import {
+  createServicesManager,
+  createServicesMap,
+} from '@wix/services-manager';
+import { CurrentCartServiceDefinition } from '@wix/headless-ecom/services';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  WishlistService,
+  WishlistServiceDefinition,
+  type WishlistItem,
+  type WishlistServiceConfig,
+} from './wishlist-service.js';
+
+vi.mock('@wix/stores', () => ({
+  productsV3: {
+    searchProducts: vi.fn(),
+    ModifierRenderType: {
+      TEXT_CHOICES: 'TEXT_CHOICES',
+      SWATCH_CHOICES: 'SWATCH_CHOICES',
+      FREE_TEXT: 'FREE_TEXT',
+    },
+  },
+}));
+
+import { productsV3 } from '@wix/stores';
+
+const STORAGE_KEY = 'wix-stores-wishlist';
+const STORES_APP_ID = '215238eb-22a5-4c36-9e7b-e7c08025e04e';
+
+const aProduct: productsV3.V3Product = {
+  _id: 'product-1',
+  name: 'T-Shirt',
+  modifiers: [
+    {
+      name: 'Engraving',
+      modifierRenderType: 'FREE_TEXT' as any,
+      freeTextSettings: { key: 'engraving' } as any,
+    },
+  ],
+  variantsInfo: {
+    variants: [
+      {
+        _id: 'variant-1',
+        choices: [],
+        inventoryStatus: { inStock: false, preorderEnabled: true },
+      },
+    ],
+  },
+};
+
+const anItem = (overrides: Partial<WishlistItem> = {}): WishlistItem => ({
+  productId: 'product-1',
+  selectedChoices: {},
+  addedAt: 1,
+  ...overrides,
+});
+
+const storedItems = () =>
+  JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as WishlistItem[];
+
+describe('WishlistService', () => {
+  const cartService = {
+    addToCart: vi.fn(),
+    error: { peek: vi.fn(() => null) },
+  };
+
+  const createServiceInstance = (config: WishlistServiceConfig = {}) => {
+    const servicesManager = createServicesManager(
+      createServicesMap()
+        .addService(
+          CurrentCartServiceDefinition,
+          implementService(
+            CurrentCartServiceDefinition,
+            () => cartService as any,
+          ),
+        )
+        .addService(WishlistServiceDefinition, WishlistService, config),
+    );
+
+    return servicesManager.getService(WishlistServiceDefinition);
+  };
+
+  beforeEach(() => {
+    vi.mocked(productsV3.searchProducts).mockResolvedValue({
+      products: [aProduct],
+    } as any);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  describe('restoreItems', () => {
+    it('starts empty and reads the kept wishlist once restored', async () => {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify([anItem()]));
+      const service = createServiceInstance();
+
+      expect(service.items.get()).toEqual([]);
+
+      service.restoreItems();
+      await vi.waitFor(() =>
+        expect(service.entries.get()[0]?.product).toEqual(aProduct),
+      );
+
+      expect(service.items.get()).toEqual([anItem()]);
+    });
+
+    it('keeps the kept wishlist when an item is added before the restore', async () => {
+      localStorage.setItem(
+        STORAGE_KEY,
+        JSON.stringify([anItem({ productId: 'product-2' })]),
+      );
+      const service = createServiceInstance();
+
+      await service.addItem({ product: aProduct });
+      service.restoreItems();
+
+      expect(storedItems().map((item) => item.productId)).toEqual([
+        'product-1',
+        'product-2',
+      ]);
+    });
+
+    it('merges the kept wishlist into the configured member store', async () => {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify([anItem()]));
+      const memberStore = {
+        getItems: vi.fn(async () => [anItem({ productId: 'product-2' })]),
+        saveItems: vi.fn(async () => {}),
+      };
+      const service = createServiceInstance({ memberStore });
+
+      service.restoreItems();
+      await vi.waitFor(() => expect(service.isMemberWishlist.get()).toBe(true));
+
+      expect(memberStore.saveItems).toHaveBeenCalledWith([
+        anItem({ productId: 'product-2' }),
+        anItem(),
+      ]);
+      expect(storedItems()).toEqual([]);
+    });
+  });
+
+  describe('moveToCart', () => {
+    it('adds the item with the variant pre-order flag and the modifiers, then removes it', async () => {
+      const service = createServiceInstance();
+      service.restoreItems();
+      await service.addItem({
+        product: aProduct,
+        variantId: 'variant-1',
+        modifiers: {
+          Engraving: { modifierName: 'Engraving', freeTextValue: 'Hello' },
+        },
+      });
+
+      await service.moveToCart(service.entries.get()[0]!.id, 2);
+
+      expect(cartService.addToCart).toHaveBeenCalledWith([
+        {
+          catalogReference: {
+            catalogItemId: 'product-1',
+            appId: STORES_APP_ID,
+            options: {
+              variantId: 'variant-1',
+              preOrderRequested: true,
+              customTextFields: { engraving: 'Hello' },
+            },
+          },
+          quantity: 2,
+        },
+      ]);
+      expect(service.items.get()).toEqual([]);
+    });
+
+    it('keeps the item and sets the error when the cart rejects it', async () => {
+      cartService.error.peek.mockReturnValueOnce('Out of stock' as any);
+      const service = createServiceInstance();
+      service.restoreItems();
+      await service.addItem({ product: aProduct });
+
+      await service.moveToCart(service.entries.get()[0]!.id);
+
+      expect(service.items.get()).toHaveLength(1);
+      expect(service.error.get()).toBe('Out of stock');
+    });
+  });
+});
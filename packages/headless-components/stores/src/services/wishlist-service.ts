@@ -0,0 +1,422 @@
+import { defineService, implementService } from '@wix/services-definitions';
+import {
+  SignalsServiceDefinition,
+  type Signal,
+  type ReadOnlySignal,
+} from '@wix/services-definitions/core-services/signals';
+import { productsV3 } from '@wix/stores';
+import { CurrentCartServiceDefinition } from '@wix/headless-ecom/services';
+import { createCatalogReference } from './selected-variant-service.js';
+import type { ModifierValue } from './product-modifiers-service.js';
+
+const DEFAULT_STORAGE_KEY = 'wix-stores-wishlist';
+
+/**
+ * A wishlist entry: a product, narrowed down to a variant by the selected choices.
+ */
+export interface WishlistItem {
+  /** ID of the wishlisted product */
+  productId: string;
+  /** ID of the selected variant, when the selected choices match one */
+  variantId?: string;
+  /** Selected choices, keyed by option name */
+  selectedChoices: Record<string, string>;
+  /** Selected modifiers, keyed by modifier name, added to the cart along with the item */
+  modifiers?: Record<string, ModifierValue>;
+  /** Timestamp (ms) of when the item was added */
+  addedAt: number;
+}
+
+/**
+ * A wishlist item together with its identifier and product data.
+ */
+export interface WishlistEntry extends WishlistItem {
+  /** Identifier of the item, unique per product and selected choices */
+  id: string;
+  /** The wishlisted product, or undefined while it is loading */
+  product?: productsV3.V3Product;
+}
+
+/**
+ * Storage for a member's wishlist, e.g. backed by a data collection or a custom API.
+ * Provide it once the visitor has logged in; the anonymous wishlist is then merged into it.
+ *
+ * No member store is built in: the Wix Stores wishlist API is only available to apps,
+ * so the member's wishlist has to be kept in the site's own storage.
+ */
+export interface WishlistMemberStore {
+  /** Loads the member's wishlist */
+  getItems: () => Promise<WishlistItem[]>;
+  /** Replaces the member's wishlist */
+  saveItems: (items: WishlistItem[]) => Promise<void>;
+}
+
+/**
+ * Configuration interface for the Wishlist service.
+ *
+ * @interface WishlistServiceConfig
+ */
+export type WishlistServiceConfig = {
+  /** localStorage key for the anonymous visitor's wishlist. Defaults to 'wix-stores-wishlist' */
+  storageKey?: string;
+  /** Storage for the logged-in member's wishlist, implemented by the site. When omitted, the wishlist is kept in localStorage */
+  memberStore?: WishlistMemberStore;
+};
+
+/**
+ * Service definition for the Wishlist service.
+ * This defines the reactive API contract for the shopper's wishlist.
+ *
+ * @constant
+ */
+export const WishlistServiceDefinition = defineService<
+  {
+    /** Reactive signal containing the wishlist items, most recently added first */
+    items: Signal<WishlistItem[]>;
+    /** Reactive signal containing the wishlist items with their product data */
+    entries: ReadOnlySignal<WishlistEntry[]>;
+    /** Reactive signal indicating if the wishlist is stored in the member's account */
+    isMemberWishlist: Signal<boolean>;
+    /** Reactive signal indicating if the wishlist is currently being loaded or saved */
+    isLoading: Signal<boolean>;
+    /** Reactive signal containing any error message, or null if no error */
+    error: Signal<string | null>;
+    /** Function to add a product variant to the wishlist */
+    addItem: (item: {
+      product: productsV3.V3Product;
+      variantId?: string | null;
+      selectedChoices?: Record<string, string>;
+      modifiers?: Record<string, ModifierValue>;
+    }) => Promise<void>;
+    /** Function to remove an item from the wishlist */
+    removeItem: (itemId: string) => Promise<void>;
+    /** Function to check if a product variant is in the wishlist */
+    isInWishlist: (
+      productId: string,
+      selectedChoices?: Record<string, string>,
+    ) => boolean;
+    /** Function to add an item to the current cart and remove it from the wishlist */
+    moveToCart: (itemId: string, quantity?: number) => Promise<void>;
+    /** Function to remove all items from the wishlist */
+    clear: () => Promise<void>;
+    /** Function to switch to a member's wishlist after login, merging the anonymous wishlist into it */
+    connectMemberStore: (memberStore: WishlistMemberStore) => Promise<void>;
+    /**
+     * Function to read the wishlist kept in localStorage, or connect the configured member store, and load its products.
+     * Called once mounted, so the server and the first client render start from an empty wishlist
+     */
+    restoreItems: () => void;
+  },
+  WishlistServiceConfig
+>('wishlist');
+
+/**
+ * Implementation of the Wishlist service.
+ * Visitors' wishlists are kept in localStorage and restored on the client once mounted. Once a member
+ * store is connected (through the config or `connectMemberStore` after login), the anonymous items are
+ * merged into the member's wishlist and removed from localStorage.
+ *
+ * @example
+ * ```tsx
+ * import { WishlistService, WishlistServiceDefinition } from '@wix/stores/services';
+ * import { useService } from '@wix/services-manager-react';
+ *
+ * function WishlistCount() {
+ *   const wishlistService = useService(WishlistServiceDefinition);
+ *   const items = wishlistService.items.get();
+ *
+ *   return <span>{items.length}</span>;
+ * }
+ * ```
+ */
+export const WishlistService =
+  implementService.withConfig<WishlistServiceConfig>()(
+    WishlistServiceDefinition,
+    ({ getService, config }) => {
+      const signalsService = getService(SignalsServiceDefinition);
+      const cartService = getService(CurrentCartServiceDefinition);
+
+      const storageKey = config.storageKey ?? DEFAULT_STORAGE_KEY;
+      let memberStore: WishlistMemberStore | null = null;
+      let hasRestoredItems = false;
+
+      const itemsSignal = signalsService.signal<WishlistItem[]>([]);
+      const productsByIdSignal = signalsService.signal<
+        Record<string, productsV3.V3Product>
+      >({});
+      const isMemberWishlistSignal = signalsService.signal<boolean>(false);
+      const isLoadingSignal = signalsService.signal<boolean>(false);
+      const errorSignal = signalsService.signal<string | null>(null);
+
+      const saveItems = async (
+        update: (items: WishlistItem[]) => WishlistItem[],
+      ) => {
+        // Changes made before the restore apply to the kept wishlist, not to an empty one
+        restoreItems();
+
+        const previousItems = itemsSignal.peek();
+        const items = update(previousItems);
+        itemsSignal.set(items);
+
+        if (!memberStore) {
+          writeItems(storageKey, items);
+          return;
+        }
+
+        try {
+          errorSignal.set(null);
+          await memberStore.saveItems(items);
+        } catch (error) {
+          itemsSignal.set(previousItems);
+          errorSignal.set(
+            error instanceof Error ? error.message : 'Failed to save wishlist',
+          );
+        }
+      };
+
+      const loadMissingProducts = async () => {
+        const productsById = productsByIdSignal.peek();
+        const productIds = [
+          ...new Set(itemsSignal.peek().map((item) => item.productId)),
+        ].filter((productId) => !productsById[productId]);
+        if (productIds.length === 0) return;
+
+        try {
+          const result = await productsV3.searchProducts({
+            filter: { _id: { $in: productIds } },
+            cursorPaging: { limit: productIds.length },
+          });
+
+          const loadedProducts = { ...productsByIdSignal.peek() };
+          for (const product of result.products ?? []) {
+            if (product._id) {
+              loadedProducts[product._id] = product;
+            }
+          }
+          productsByIdSignal.set(loadedProducts);
+        } catch (error) {
+          errorSignal.set(
+            error instanceof Error
+              ? error.message
+              : 'Failed to load wishlist products',
+          );
+        }
+      };
+
+      const connectMemberStore = async (store: WishlistMemberStore) => {
+        try {
+          isLoadingSignal.set(true);
+          errorSignal.set(null);
+
+          const memberItems = await store.getItems();
+          const anonymousItems = readItems(storageKey);
+          const mergedItems = mergeItems(memberItems, anonymousItems);
+
+          if (anonymousItems.length > 0) {
+            await store.saveItems(mergedItems);
+            writeItems(storageKey, []);
+          }
+
+          memberStore = store;
+          isMemberWishlistSignal.set(true);
+          itemsSignal.set(mergedItems);
+          await loadMissingProducts();
+        } catch (error) {
+          errorSignal.set(
+            error instanceof Error
+              ? error.message
+              : 'Failed to load member wishlist',
+          );
+        } finally {
+          isLoadingSignal.set(false);
+        }
+      };
+
+      const restoreItems = () => {
+        if (hasRestoredItems || typeof window === 'undefined') return;
+
+        hasRestoredItems = true;
+        if (config.memberStore) {
+          connectMemberStore(config.memberStore);
+        } else {
+          itemsSignal.set(readItems(storageKey));
+          loadMissingProducts();
+        }
+      };
+
+      const removeItem = async (itemId: string) => {
+        await saveItems((items) =>
+          items.filter((item) => getItemId(item) !== itemId),
+        );
+      };
+
+      return {
+        items: itemsSignal,
+        entries: signalsService.computed(() => {
+          const productsById = productsByIdSignal.get();
+          return itemsSignal.get().map((item) => ({
+            ...item,
+            id: getItemId(item),
+            product: productsById[item.productId],
+          }));
+        }),
+        isMemberWishlist: isMemberWishlistSignal,
+        isLoading: isLoadingSignal,
+        error: errorSignal,
+        addItem: async ({
+          product,
+          variantId,
+          selectedChoices = {},
+          modifiers,
+        }) => {
+          if (!product._id) return;
+
+          const item: WishlistItem = {
+            productId: product._id,
+            ...(variantId && variantId !== 'default' ? { variantId } : {}),
+            selectedChoices,
+            ...(modifiers && Object.keys(modifiers).length > 0
+              ? { modifiers }
+              : {}),
+            addedAt: Date.now(),
+          };
+          const itemId = getItemId(item);
+
+          productsByIdSignal.set({
+            ...productsByIdSignal.peek(),
+            [product._id]: product,
+          });
+          await saveItems((items) => [
+            item,
+            ...items.filter((existing) => getItemId(existing) !== itemId),
+          ]);
+        },
+        removeItem,
+        isInWishlist: (
+          productId: string,
+          selectedChoices: Record<string, string> = {},
+        ) => {
+          const itemId = getItemId({ productId, selectedChoices });
+          return itemsSignal.get().some((item) => getItemId(item) === itemId);
+        },
+        moveToCart: async (itemId: string, quantity: number = 1) => {
+          const item = itemsSignal
+            .peek()
+            .find((existing) => getItemId(existing) === itemId);
+          if (!item) return;
+
+          try {
+            isLoadingSignal.set(true);
+            errorSignal.set(null);
+
+            await loadMissingProducts();
+            const product = productsByIdSignal.peek()[item.productId];
+            if (!product) {
+              throw new Error('Product not found');
+            }
+
+            const variant = product.variantsInfo?.variants?.find(
+              (productVariant) => productVariant._id === item.variantId,
+            );
+
+            await cartService.addToCart([
+              {
+                catalogReference: createCatalogReference(
+                  product,
+                  variant,
+                  item.modifiers,
+                ),
+                quantity,
+              },
+            ]);
+
+            const cartError = cartService.error.peek();
+            if (cartError) {
+              throw new Error(cartError);
+            }
+
+            await removeItem(itemId);
+          } catch (error) {
+            errorSignal.set(
+              error instanceof Error
+                ? error.message
+                : 'Failed to move item to cart',
+            );
+          } finally {
+            isLoadingSignal.set(false);
+          }
+        },
+        clear: async () => {
+          await saveItems(() => []);
+        },
+        connectMemberStore,
+        restoreItems,
+      };
+    },
+  );
+
+/**
+ * Returns the identifier of a wishlist item, unique per product and selected choices.
+ *
+ * @param item - The wishlist item
+ * @returns The item identifier
+ */
+export function getItemId(
+  item: Pick<WishlistItem, 'productId' | 'selectedChoices'>,
+): string {
+  const choices = Object.keys(item.selectedChoices)
+    .sort()
+    .map((optionName) => `${optionName}=${item.selectedChoices[optionName]}`)
+    .join('&');
+
+  return choices ? `${item.productId}?${choices}` : item.productId;
+}
+
+/**
+ * Merges two wishlists, keeping the most recently added copy of duplicated items.
+ *
+ * @private
+ */
+function mergeItems(
+  items: WishlistItem[],
+  otherItems: WishlistItem[],
+): WishlistItem[] {
+  const itemsById = new Map<string, WishlistItem>();
+  for (const item of [...items, ...otherItems]) {
+    const itemId = getItemId(item);
+    const existing = itemsById.get(itemId);
+    if (!existing || existing.addedAt < item.addedAt) {
+      itemsById.set(itemId, item);
+    }
+  }
+
+  return [...itemsById.values()].sort((a, b) => b.addedAt - a.addedAt);
+}
+
+function readItems(storageKey: string): WishlistItem[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(storageKey) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+
+    return stored.filter(
+      (item): item is WishlistItem =>
+        typeof item?.productId === 'string' &&
+        typeof item?.selectedChoices === 'object' &&
+        item.selectedChoices !== null,
+    );
+  } catch {
+    return [];
+  }
+}
+
+function writeItems(storageKey: string, items: WishlistItem[]): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(items));
+  } catch (error) {
+    console.error('Failed to persist wishlist:', error);
+  }
+}
@@ -1 +1,2 @@
 export * from './AsChildSlot.js';
+export * from './useFocusTrap.js';
@@ -0,0 +1,112 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import '@testing-library/jest-dom';
+import { useFocusTrap, type FocusTrapOptions } from './useFocusTrap';
+
+const TestDialog = (
+  props: FocusTrapOptions & { children?: React.ReactNode },
+) => {
+  const { children, ...options } = props;
+  const dialogRef = React.useRef<HTMLDivElement>(null);
+  useFocusTrap(dialogRef, options);
+
+  return (
+    <div ref={dialogRef} role="dialog" tabIndex={-1}>
+      {children}
+    </div>
+  );
+};
+
+const TestPage = (
+  props: FocusTrapOptions & { isOpen: boolean; children?: React.ReactNode },
+) => {
+  const { isOpen, ...dialogProps } = props;
+
+  return (
+    <>
+      <button>Open</button>
+      {isOpen && <TestDialog {...dialogProps} />}
+    </>
+  );
+};
+
+const dialogButtons = (
+  <>
+    <button>First</button>
+    <button disabled>Disabled</button>
+    <button>Last</button>
+  </>
+);
+
+describe('useFocusTrap', () => {
+  it('should focus the first focusable element', () => {
+    render(<TestDialog>{dialogButtons}</TestDialog>);
+
+    expect(screen.getByText('First')).toHaveFocus();
+  });
+
+  it('should focus the container when it has no focusable elements', () => {
+    render(<TestDialog>Nothing to focus</TestDialog>);
+
+    expect(screen.getByRole('dialog')).toHaveFocus();
+  });
+
+  it('should keep Tab and Shift+Tab within the container', () => {
+    render(<TestDialog>{dialogButtons}</TestDialog>);
+
+    fireEvent.keyDown(document, { key: 'Tab', shiftKey: true });
+    expect(screen.getByText('Last')).toHaveFocus();
+
+    fireEvent.keyDown(document, { key: 'Tab' });
+    expect(screen.getByText('First')).toHaveFocus();
+  });
+
+  it('should call onEscape when Escape is pressed', () => {
+    const onEscape = vi.fn();
+    render(<TestDialog onEscape={onEscape}>{dialogButtons}</TestDialog>);
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+
+    expect(onEscape).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not trap the focus while inactive', () => {
+    const onEscape = vi.fn();
+    render(
+      <TestDialog isActive={false} onEscape={onEscape}>
+        {dialogButtons}
+      </TestDialog>,
+    );
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+
+    expect(screen.getByText('First')).not.toHaveFocus();
+    expect(onEscape).not.toHaveBeenCalled();
+  });
+
+  it('should give the focus back to the previously focused element with restoreFocus', () => {
+    const { rerender } = render(<TestPage isOpen={false} restoreFocus />);
+    screen.getByText('Open').focus();
+
+    rerender(
+      <TestPage isOpen restoreFocus>
+        {dialogButtons}
+      </TestPage>,
+    );
+    expect(screen.getByText('First')).toHaveFocus();
+
+    rerender(<TestPage isOpen={false} restoreFocus />);
+    expect(screen.getByText('Open')).toHaveFocus();
+  });
+
+  it('should leave the focus alone on release without restoreFocus', () => {
+    const { rerender } = render(<TestPage isOpen={false} />);
+    screen.getByText('Open').focus();
+
+    rerender(<TestPage isOpen />);
+    rerender(<TestPage isOpen={false} />);
+
+    expect(screen.getByText('Open')).not.toHaveFocus();
+  });
+});
@@ -0,0 +1,99 @@
+import React from 'react';
+
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(',');
+
+/**
+ * Options of the useFocusTrap hook
+ */
+export interface FocusTrapOptions {
+  /** Whether the focus trap is active (default: true) */
+  isActive?: boolean;
+  /** Function called when Escape is pressed */
+  onEscape?: () => void;
+  /** Whether to give the focus back to the previously focused element once the trap is released (default: false) */
+  restoreFocus?: boolean;
+}
+
+/**
+ * Traps the keyboard focus inside a container while it is active: focuses the first focusable
+ * element, keeps Tab and Shift+Tab within the container and calls `onEscape` when Escape is pressed.
+ *
+ * @param containerRef - Ref of the container to trap the focus in
+ * @param options - Focus trap options
+ *
+ * @example
+ * ```tsx
+ * const dialogRef = React.useRef<HTMLDivElement>(null);
+ * useFocusTrap(dialogRef, { onEscape: close, restoreFocus: true });
+ * ```
+ */
+export function useFocusTrap(
+  containerRef: React.RefObject<HTMLElement | null>,
+  options: FocusTrapOptions = {},
+) {
+  const { isActive = true, onEscape, restoreFocus = false } = options;
+  const onEscapeRef = React.useRef(onEscape);
+  onEscapeRef.current = onEscape;
+
+  React.useEffect(() => {
+    const container = containerRef.current;
+    if (!isActive || !container) return;
+
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+
+    const getFocusableElements = () =>
+      Array.from(
+        container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR),
+      ).filter((element) => !element.hasAttribute('inert'));
+
+    const [firstElement] = getFocusableElements();
+    (firstElement ?? container).focus();
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.stopPropagation();
+        onEscapeRef.current?.();
+        return;
+      }
+
+      if (event.key !== 'Tab') return;
+
+      const focusableElements = getFocusableElements();
+      if (focusableElements.length === 0) {
+        event.preventDefault();
+        container.focus();
+        return;
+      }
+
+      const first = focusableElements[0]!;
+      const last = focusableElements[focusableElements.length - 1]!;
+      const active = document.activeElement;
+
+      if (event.shiftKey && (active === first || !container.contains(active))) {
+        event.preventDefault();
+        last.focus();
+      } else if (
+        !event.shiftKey &&
+        (active === last || !container.contains(active))
+      ) {
+        event.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      if (restoreFocus) {
+        previouslyFocused?.focus?.();
+      }
+    };
+  }, [containerRef, isActive, restoreFocus]);
+}